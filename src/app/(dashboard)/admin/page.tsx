@@ -36,8 +36,12 @@ import {
   Play,
   Save,
   Loader2,
+  Target,
+  ShieldCheck,
 } from 'lucide-react'
 import { SyncProgressPanel, SyncHistoryTable } from '@/components/sync'
+import { AccuracyConfigPanel } from '@/components/forecasts/accuracy-config-panel'
+import { SafetyStockReport } from '@/components/inventory/safety-stock-report'
 import Link from 'next/link'
 import { formatNumber, formatPercentage } from '@/lib/utils/format-number'
 
@@ -96,6 +100,9 @@ export default function AdminPage() {
   const [savingSettings, setSavingSettings] = useState(false)
   const [triggeringSyncN8n, setTriggeringSyncN8n] = useState(false)
   const [settingsMessage, setSettingsMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [ipSyncCursor, setIpSyncCursor] = useState('')
+  const [ipSyncMode, setIpSyncMode] = useState<'incremental' | 'full' | null>(null)
+  const [ipSyncMessage, setIpSyncMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
   // Get the app URL for webhook display
   const appUrl = typeof window !== 'undefined' ? window.location.origin : ''
@@ -109,11 +116,12 @@ export default function AdminPage() {
   // Fetch n8n settings
   const fetchN8nSettings = async () => {
     try {
-      const res = await fetch('/api/settings?keys=n8n_webhook_url,app_public_url')
+      const res = await fetch('/api/settings?keys=n8n_webhook_url,app_public_url,ip_sync_cursor')
       if (res.ok) {
         const data = await res.json()
         setN8nWebhookUrl(data.settings?.n8n_webhook_url || '')
         setAppPublicUrl(data.settings?.app_public_url || '')
+        setIpSyncCursor(data.settings?.ip_sync_cursor || '')
       }
     } catch (error) {
       console.error('Failed to fetch settings:', error)
@@ -178,6 +186,33 @@ export default function AdminPage() {
     }
   }
 
+  // Sync directly from the Inventory Planner API (incremental unless full)
+  const triggerIpSync = async (full: boolean) => {
+    setIpSyncMode(full ? 'full' : 'incremental')
+    setIpSyncMessage(null)
+    try {
+      const res = await fetch('/api/sync/inventory-planner', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ full })
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setIpSyncMessage({
+          type: 'success',
+          text: `${data.message}: ${data.stats?.imported ?? 0} variants imported`
+        })
+        fetchN8nSettings()
+      } else {
+        throw new Error(data.details || data.error || 'Failed to sync')
+      }
+    } catch (error) {
+      setIpSyncMessage({ type: 'error', text: String(error) })
+    } finally {
+      setIpSyncMode(null)
+    }
+  }
+
   useEffect(() => {
     fetchAdminData()
     fetchN8nSettings()
@@ -257,6 +292,14 @@ export default function AdminPage() {
               <Webhook className="h-4 w-4" />
               n8n Sync
             </TabsTrigger>
+            <TabsTrigger value="accuracy-targets" className="gap-2">
+              <Target className="h-4 w-4" />
+              Accuracy Targets
+            </TabsTrigger>
+            <TabsTrigger value="safety-stock" className="gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Safety Stock
+            </TabsTrigger>
           </TabsList>
           <Link href="/admin/inspector">
             <Button variant="outline" className="gap-2">
@@ -837,6 +880,69 @@ export default function AdminPage() {
               </CardContent>
             </Card>
 
+            {/* Direct Inventory Planner API Sync */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <RefreshCw className="h-5 w-5" />
+                  Inventory Planner API Sync
+                </CardTitle>
+                <p className="text-sm text-gray-500">
+                  Sync directly from the Inventory Planner API. Only variants changed since the last
+                  successful sync are fetched and recalculated.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                  <span className="text-gray-600">Last successful sync</span>
+                  <span className="font-medium">
+                    {ipSyncCursor ? new Date(ipSyncCursor).toLocaleString() : 'Never (next sync is a full sync)'}
+                  </span>
+                </div>
+
+                {ipSyncMessage && (
+                  <div className={`p-3 rounded-lg text-sm ${
+                    ipSyncMessage.type === 'success'
+                      ? 'bg-green-50 text-green-700 border border-green-200'
+                      : 'bg-red-50 text-red-700 border border-red-200'
+                  }`}>
+                    {ipSyncMessage.text}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => triggerIpSync(false)}
+                    disabled={ipSyncMode !== null}
+                    className="flex-1 gap-2"
+                  >
+                    {ipSyncMode === 'incremental' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                    Sync Changes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => triggerIpSync(true)}
+                    disabled={ipSyncMode !== null}
+                    className="flex-1 gap-2"
+                  >
+                    {ipSyncMode === 'full' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4" />
+                    )}
+                    Full Resync
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 text-center">
+                  Full resync fetches every variant and recalculates all metrics
+                </p>
+              </CardContent>
+            </Card>
+
             {/* App Endpoints for n8n */}
             <Card>
               <CardHeader>
@@ -975,6 +1081,16 @@ export default function AdminPage() {
             {/* Sync History */}
             <SyncHistoryTable limit={10} />
           </TabsContent>
+
+          {/* Accuracy Targets Tab */}
+          <TabsContent value="accuracy-targets">
+            <AccuracyConfigPanel />
+          </TabsContent>
+
+          {/* Safety Stock Tab */}
+          <TabsContent value="safety-stock">
+            <SafetyStockReport />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Header } from '@/components/layout/header'
+import { KPICard } from '@/components/dashboard/kpi-card'
+import { ExcessStockTable } from '@/components/excess-stock/excess-stock-table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatCurrencyCompact } from '@/lib/utils/format-currency'
+import { formatNumber } from '@/lib/utils/format-number'
+import { EXCESS_MONTH_OPTIONS } from '@/lib/utils/excess-stock'
+import type { ExcessStockReportRow } from '@/types/database'
+import { Archive, DollarSign, PackageX, Tag } from 'lucide-react'
+
+interface ExcessStockData {
+  rows: ExcessStockReportRow[]
+  checked: number
+  horizonMonths: number
+  deadStockMonths: number
+}
+
+export default function ExcessStockPage() {
+  const [data, setData] = useState<ExcessStockData | null>(null)
+  const [loading, setLoading] = useState(true)
+  // Undefined until changed: the API falls back to the app settings
+  const [horizon, setHorizon] = useState<number | undefined>()
+  const [deadMonths, setDeadMonths] = useState<number | undefined>()
+
+  useEffect(() => {
+    async function fetchReport() {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams()
+        if (horizon) params.set('horizon', String(horizon))
+        if (deadMonths) params.set('deadMonths', String(deadMonths))
+        const query = params.toString() ? `?${params}` : ''
+        const response = await fetch(`/api/excess-stock${query}`)
+        const json = await response.json()
+        setData(json.error ? null : json)
+      } catch (error) {
+        console.error('Failed to fetch excess stock:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReport()
+  }, [horizon, deadMonths])
+
+  const rows = data?.rows ?? []
+  const horizonMonths = horizon ?? data?.horizonMonths
+  const deadStockMonths = deadMonths ?? data?.deadStockMonths
+  const dead = rows.filter(row => row.is_dead)
+  const markdown = rows.filter(row => !row.is_dead)
+  const sumValue = (list: ExcessStockReportRow[]) => list.reduce((sum, row) => sum + (row.excess_value ?? 0), 0)
+  const sumUnits = (list: ExcessStockReportRow[]) => list.reduce((sum, row) => sum + row.excess_units, 0)
+
+  // Keep a value that is not one of the presets (from the app settings) selectable
+  const monthOptions = (current: number | undefined) =>
+    current && !(EXCESS_MONTH_OPTIONS as readonly number[]).includes(current)
+      ? [...EXCESS_MONTH_OPTIONS, current].sort((a, b) => a - b)
+      : [...EXCESS_MONTH_OPTIONS]
+
+  return (
+    <div className="flex flex-col">
+      <Header
+        title="Excess Stock"
+        subtitle={
+          data
+            ? `${formatNumber(rows.length)} of ${formatNumber(data.checked)} in-stock SKUs hold excess or dead stock`
+            : 'On-hand stock compared with forecast demand'
+        }
+        showSyncButton={false}
+      />
+
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            Forecast horizon
+            <Select
+              value={horizonMonths ? String(horizonMonths) : undefined}
+              onValueChange={value => setHorizon(Number(value))}
+              disabled={!data}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="Months" />
+              </SelectTrigger>
+              <SelectContent>
+                {monthOptions(horizonMonths).map(months => (
+                  <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            Dead after no sales for
+            <Select
+              value={deadStockMonths ? String(deadStockMonths) : undefined}
+              onValueChange={value => setDeadMonths(Number(value))}
+              disabled={!data}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="Months" />
+              </SelectTrigger>
+              <SelectContent>
+                {monthOptions(deadStockMonths).map(months => (
+                  <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <KPICard
+            title="Excess Value"
+            value={formatCurrencyCompact(sumValue(rows))}
+            subtitle="At cost"
+            icon={DollarSign}
+            variant="warning"
+          />
+          <KPICard
+            title="Excess Units"
+            value={formatNumber(sumUnits(rows))}
+            subtitle={`Beyond ${horizonMonths ?? '-'} months of demand`}
+            icon={Archive}
+            variant="default"
+          />
+          <KPICard
+            title="Dead Stock"
+            value={formatNumber(dead.length)}
+            subtitle={`${formatCurrencyCompact(sumValue(dead))} with no sales in ${deadStockMonths ?? '-'} months`}
+            icon={PackageX}
+            variant="danger"
+          />
+          <KPICard
+            title="Markdown Candidates"
+            value={formatNumber(markdown.length)}
+            subtitle={`${formatCurrencyCompact(sumValue(markdown))} of excess`}
+            icon={Tag}
+            variant="warning"
+          />
+        </div>
+
+        <ExcessStockTable
+          rows={rows}
+          loading={loading}
+          horizonMonths={horizonMonths ?? 0}
+          deadStockMonths={deadStockMonths ?? 0}
+        />
+      </div>
+    </div>
+  )
+}
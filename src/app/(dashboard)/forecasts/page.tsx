@@ -2,15 +2,27 @@
 
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { FiveMetricsGrid } from '@/components/forecasts/five-metrics-grid'
+import { MetricsGrid } from '@/components/forecasts/metrics-grid'
 import { CalculationExplainer } from '@/components/forecasts/calculation-explainer'
 import { ExecutiveSummary } from '@/components/forecasts/executive-summary'
 import { AdminFormulasPanel } from '@/components/forecasts/admin-formulas-panel'
 import { SkuMetricsBrowser } from '@/components/forecasts/sku-metrics-browser'
+import { AccuracyRollupTable } from '@/components/forecasts/accuracy-rollup-table'
+import { SegmentMatrix } from '@/components/forecasts/segment-matrix'
+import { BiasedForecastsList } from '@/components/forecasts/biased-forecasts-list'
+import { HierarchyAccuracyTable } from '@/components/forecasts/hierarchy-accuracy-table'
+import { LostRevenueReport } from '@/components/forecasts/lost-revenue-report'
+import { WarehouseSelector } from '@/components/filters/warehouse-selector'
+import { GranularitySelector } from '@/components/filters/granularity-selector'
 import { DataTable } from '@/components/shared/data-table'
 import { MetricGridSkeleton, TableSkeleton } from '@/components/shared/loading-skeleton'
 import { Header } from '@/components/layout/header'
 import { formatPercentage } from '@/lib/utils/format-number'
+import type { AbcClass, XyzClass } from '@/lib/utils/segments'
+import type { Granularity } from '@/lib/utils/periods'
+import type { ErrorCostSummary } from '@/types/database'
+import { TIER_STYLES, getMAPETier, type AccuracyTier } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import {
@@ -23,7 +35,7 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts'
-import { LayoutDashboard, List, Settings } from 'lucide-react'
+import { LayoutDashboard, List, Network, Settings, TrendingDown } from 'lucide-react'
 import { OOSDefinitions } from '@/components/data-quality'
 
 interface ForecastData {
@@ -34,9 +46,23 @@ interface ForecastData {
     wase: number | null
     bias: number | null
     naiveMape: number | null
+    mase?: number | null
+    smase?: number | null
+    smape?: number | null
+    mae?: number | null
+    mdape?: number | null
+    rmsse?: number | null
+    trackingSignal?: number | null
+    trackingSignalAlerts?: number
+    biasAlerts?: number
+    fva?: number | null
+    fvaCount?: number
+    benchmarkFva?: Record<string, number>
     skuCount: number
   }
+  errorCost?: ErrorCostSummary | null
   distribution: Array<{
+    tier: AccuracyTier
     name: string
     count: number
     percentage: number
@@ -45,24 +71,24 @@ interface ForecastData {
   worst: Array<{ sku: string; mape: number; wape: number }>
 }
 
-const DISTRIBUTION_COLORS = {
-  'Excellent (<10%)': '#22c55e',
-  'Good (10-20%)': '#3b82f6',
-  'Acceptable (20-30%)': '#eab308',
-  'Poor (30-50%)': '#f97316',
-  'Very Poor (>50%)': '#ef4444',
-}
-
 export default function ForecastsPage() {
   const [data, setData] = useState<ForecastData | null>(null)
   const [loading, setLoading] = useState(true)
   const [selectedMetric, setSelectedMetric] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('overview')
+  const [warehouse, setWarehouse] = useState<string | undefined>()
+  const [granularity, setGranularity] = useState<Granularity>('month')
+  const [segment, setSegment] = useState<{ abc: AbcClass; xyz: XyzClass } | null>(null)
+  const { thresholds } = useAccuracyConfig()
 
   useEffect(() => {
     async function fetchData() {
+      setLoading(true)
       try {
-        const response = await fetch('/api/forecasts?view=overview')
+        const params = new URLSearchParams({ view: 'overview' })
+        if (warehouse) params.set('warehouse', warehouse)
+        if (granularity !== 'month') params.set('granularity', granularity)
+        const response = await fetch(`/api/forecasts?${params}`)
         const json = await response.json()
         setData(json)
       } catch (error) {
@@ -72,18 +98,26 @@ export default function ForecastsPage() {
       }
     }
     fetchData()
-  }, [])
+  }, [warehouse, granularity])
 
   const handleMetricClick = (metric: string) => {
     setSelectedMetric(selectedMetric === metric ? null : metric)
   }
 
+  // Weekly metrics are combined-only
+  const handleGranularityChange = (value: Granularity) => {
+    setGranularity(value)
+    if (value === 'week') setWarehouse(undefined)
+  }
+
+  const handleSegmentSelect = (abc: AbcClass, xyz: XyzClass) => {
+    setSegment({ abc, xyz })
+    setActiveTab('skus')
+  }
+
   const getAccuracyBadge = (mape: number) => {
-    if (mape < 10) return <Badge className="bg-green-100 text-green-800">Excellent</Badge>
-    if (mape < 20) return <Badge className="bg-lime-100 text-lime-800">Good</Badge>
-    if (mape < 30) return <Badge className="bg-yellow-100 text-yellow-800">Acceptable</Badge>
-    if (mape < 50) return <Badge className="bg-orange-100 text-orange-800">Poor</Badge>
-    return <Badge variant="destructive">Very Poor</Badge>
+    const tier = TIER_STYLES[getMAPETier(mape, thresholds)]
+    return <Badge className={tier.badgeClass}>{tier.label}</Badge>
   }
 
   return (
@@ -96,20 +130,34 @@ export default function ForecastsPage() {
 
       <div className="p-6">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="mb-6">
-            <TabsTrigger value="overview" className="gap-2">
-              <LayoutDashboard className="h-4 w-4" />
-              Overview
-            </TabsTrigger>
-            <TabsTrigger value="skus" className="gap-2">
-              <List className="h-4 w-4" />
-              SKU Details
-            </TabsTrigger>
-            <TabsTrigger value="admin" className="gap-2">
-              <Settings className="h-4 w-4" />
-              Admin
-            </TabsTrigger>
-          </TabsList>
+          <div className="mb-6 flex items-center justify-between">
+            <TabsList>
+              <TabsTrigger value="overview" className="gap-2">
+                <LayoutDashboard className="h-4 w-4" />
+                Overview
+              </TabsTrigger>
+              <TabsTrigger value="skus" className="gap-2">
+                <List className="h-4 w-4" />
+                SKU Details
+              </TabsTrigger>
+              <TabsTrigger value="hierarchy" className="gap-2">
+                <Network className="h-4 w-4" />
+                Hierarchy
+              </TabsTrigger>
+              <TabsTrigger value="lost-revenue" className="gap-2">
+                <TrendingDown className="h-4 w-4" />
+                Lost Revenue
+              </TabsTrigger>
+              <TabsTrigger value="admin" className="gap-2">
+                <Settings className="h-4 w-4" />
+                Admin
+              </TabsTrigger>
+            </TabsList>
+            <div className="flex items-center gap-2">
+              <GranularitySelector value={granularity} onChange={handleGranularityChange} />
+              {granularity === 'month' && <WarehouseSelector value={warehouse} onChange={setWarehouse} />}
+            </div>
+          </div>
 
           <TabsContent value="overview" className="space-y-6">
             {loading ? (
@@ -120,6 +168,7 @@ export default function ForecastsPage() {
                 <ExecutiveSummary
                   metrics={data.averages}
                   distribution={data.distribution}
+                  errorCost={data.errorCost}
                 />
 
                 {/* Metrics Grid */}
@@ -127,19 +176,12 @@ export default function ForecastsPage() {
                   <CardHeader>
                     <CardTitle className="text-lg">Accuracy Metrics</CardTitle>
                     <p className="text-sm text-gray-500">
-                      Click any metric to see the formula and calculation details
+                      Choose which metrics to show, then click any metric to see the formula and calculation details
                     </p>
                   </CardHeader>
                   <CardContent>
-                    <FiveMetricsGrid
-                      metrics={{
-                        mape: data.averages.mape,
-                        wape: data.averages.wape,
-                        rmse: data.averages.rmse,
-                        wase: data.averages.wase,
-                        bias: data.averages.bias,
-                        naiveMape: data.averages.naiveMape,
-                      }}
+                    <MetricsGrid
+                      metrics={data.averages}
                       onMetricClick={handleMetricClick}
                     />
 
@@ -152,6 +194,12 @@ export default function ForecastsPage() {
                   </CardContent>
                 </Card>
 
+                {/* Value-Weighted Rollup (combined monthly view only) */}
+                {!warehouse && granularity === 'month' && <AccuracyRollupTable />}
+
+                {/* ABC / XYZ Segments (combined monthly view only) */}
+                {!warehouse && granularity === 'month' && <SegmentMatrix onSelect={handleSegmentSelect} />}
+
                 {/* Distribution Chart */}
                 {data.distribution && data.distribution.length > 0 && (
                   <Card>
@@ -181,8 +229,8 @@ export default function ForecastsPage() {
                             <Bar dataKey="count" radius={[0, 4, 4, 0]}>
                               {data.distribution.map((entry) => (
                                 <Cell
-                                  key={entry.name}
-                                  fill={DISTRIBUTION_COLORS[entry.name as keyof typeof DISTRIBUTION_COLORS] || '#94a3b8'}
+                                  key={entry.tier}
+                                  fill={TIER_STYLES[entry.tier]?.color || '#94a3b8'}
                                 />
                               ))}
                             </Bar>
@@ -192,7 +240,7 @@ export default function ForecastsPage() {
                         {/* Progress Bars */}
                         <div className="space-y-3">
                           {data.distribution.map((bucket) => (
-                            <div key={bucket.name} className="space-y-1">
+                            <div key={bucket.tier} className="space-y-1">
                               <div className="flex justify-between text-sm">
                                 <span>{bucket.name}</span>
                                 <span className="font-medium">
@@ -204,7 +252,7 @@ export default function ForecastsPage() {
                                   className="h-full transition-all"
                                   style={{
                                     width: `${bucket.percentage}%`,
-                                    backgroundColor: DISTRIBUTION_COLORS[bucket.name as keyof typeof DISTRIBUTION_COLORS] || '#94a3b8',
+                                    backgroundColor: TIER_STYLES[bucket.tier]?.color || '#94a3b8',
                                   }}
                                 />
                               </div>
@@ -296,6 +344,9 @@ export default function ForecastsPage() {
                     </CardContent>
                   </Card>
                 </div>
+
+                {/* Persistently Biased Forecasts */}
+                <BiasedForecastsList warehouse={warehouse} granularity={granularity} />
               </>
             ) : (
               <Card>
@@ -309,7 +360,23 @@ export default function ForecastsPage() {
           </TabsContent>
 
           <TabsContent value="skus">
-            <SkuMetricsBrowser />
+            <SkuMetricsBrowser
+              key={`${warehouse ?? 'all'}-${granularity}-${segment ? segment.abc + segment.xyz : 'all'}`}
+              warehouse={warehouse}
+              granularity={granularity}
+              abcClass={segment?.abc}
+              xyzClass={segment?.xyz}
+              onClearSegment={() => setSegment(null)}
+            />
+          </TabsContent>
+
+          <TabsContent value="hierarchy">
+            <HierarchyAccuracyTable warehouse={warehouse} granularity={granularity} />
+          </TabsContent>
+
+          {/* Combined monthly metrics only, whatever the selectors */}
+          <TabsContent value="lost-revenue">
+            <LostRevenueReport />
           </TabsContent>
 
           <TabsContent value="admin" className="space-y-6">
@@ -7,8 +7,25 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Header } from '@/components/layout/header'
+import { BacktestMatrix } from '@/components/forecasts/backtest-matrix'
+import { ForecastIntervalChart } from '@/components/forecasts/forecast-interval-chart'
+import { SafetyStockComparison, type SafetyStockDetail } from '@/components/inventory/safety-stock-comparison'
+import { InventoryProjectionChart } from '@/components/inventory/inventory-projection-chart'
+import { CalculationExplainer, type ExplainerPeriod } from '@/components/forecasts/calculation-explainer'
+import { WarehouseSelector } from '@/components/filters/warehouse-selector'
+import { GranularitySelector } from '@/components/filters/granularity-selector'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatNumber, formatPercentage } from '@/lib/utils/format-number'
+import type { CensoringMode } from '@/lib/utils/calculate-metrics'
+import { GRANULARITY_CONFIG, addPeriods, periodKeyOf, type Granularity } from '@/lib/utils/periods'
+import {
+  TIER_STYLES,
+  getMAPETier,
+  meetsTarget,
+  resolveTargetMape,
+  type TierThresholds,
+} from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
 import {
   ArrowLeft,
   Package,
@@ -32,7 +49,7 @@ import {
   BarChart,
   Bar,
 } from 'recharts'
-import type { Variant, ForecastMetric } from '@/types/database'
+import type { Variant, ForecastMetric, ForecastMetricHistory, WarehouseOption } from '@/types/database'
 
 interface PageProps {
   params: Promise<{ sku: string }>
@@ -41,19 +58,35 @@ interface PageProps {
 interface VariantDetail {
   variant: Variant
   metrics: ForecastMetric | null
+  safetyStock: SafetyStockDetail | null
+  granularity: Granularity
+  // Selected warehouse (null = combined) and the warehouses stocking this SKU
+  warehouse: string | null
+  warehouses: WarehouseOption[]
 }
 
+type HistoryPoint = Pick<ForecastMetricHistory, 'as_of_month' | 'mape' | 'wape' | 'bias' | 'calculated_at'>
+
 export default function SKUDetailPage({ params }: PageProps) {
   const { sku } = use(params)
   const router = useRouter()
   const [data, setData] = useState<VariantDetail | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<HistoryPoint[]>([])
+  const [warehouse, setWarehouse] = useState<string | undefined>()
+  const [granularity, setGranularity] = useState<Granularity>('month')
+  const [selectedMetric, setSelectedMetric] = useState<string | null>(null)
+  const { config: accuracyConfig } = useAccuracyConfig()
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const response = await fetch(`/api/inventory/${encodeURIComponent(sku)}`)
+        const params = new URLSearchParams()
+        if (warehouse) params.set('warehouse', warehouse)
+        if (granularity !== 'month') params.set('granularity', granularity)
+        const query = params.toString() ? `?${params}` : ''
+        const response = await fetch(`/api/inventory/${encodeURIComponent(sku)}${query}`)
         if (!response.ok) {
           if (response.status === 404) {
             setError('Product not found')
@@ -72,6 +105,20 @@ export default function SKUDetailPage({ params }: PageProps) {
       }
     }
     fetchData()
+  }, [sku, warehouse, granularity])
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const response = await fetch(`/api/forecasts/${encodeURIComponent(sku)}/history`)
+        if (!response.ok) return
+        const json = await response.json()
+        setHistory(json.history || [])
+      } catch (err) {
+        console.error('Failed to load metric history:', err)
+      }
+    }
+    fetchHistory()
   }, [sku])
 
   if (loading) {
@@ -112,9 +159,12 @@ export default function SKUDetailPage({ params }: PageProps) {
   }
 
   const { variant, metrics } = data
+  const dataGranularity = data.granularity ?? 'month'
+  const { unit: periodUnit, ordersColumn, forecastColumn } = GRANULARITY_CONFIG[dataGranularity]
 
   // Process orders_by_month for chart
   const salesData = processSalesData(variant.orders_by_month)
+  const trendData = processHistoryData(history)
   const forecastAccuracy = metrics?.mape !== null ? 100 - (metrics?.mape || 0) : null
 
   // Calculate trend (compare last 30 days to previous 30 days)
@@ -152,6 +202,19 @@ export default function SKUDetailPage({ params }: PageProps) {
             Back to Inventory
           </Button>
           <div className="flex items-center gap-2">
+            {!warehouse && (
+              <GranularitySelector
+                value={granularity}
+                onChange={setGranularity}
+                granularities={variant.orders_by_week ? ['month', 'week'] : ['month']}
+              />
+            )}
+            <WarehouseSelector
+              value={warehouse}
+              onChange={setWarehouse}
+              warehouses={data.warehouses}
+              className="w-44"
+            />
             {getStockStatusBadge()}
             {variant.brand && (
               <Badge variant="outline">{variant.brand}</Badge>
@@ -298,13 +361,36 @@ export default function SKUDetailPage({ params }: PageProps) {
                       {forecastAccuracy !== null ? formatPercentage(forecastAccuracy, 1) : '-'}
                     </div>
                     <p className="text-sm text-gray-500">Overall Accuracy</p>
+                    {metrics.mape !== null && (
+                      <TargetStatus
+                        mape={metrics.mape}
+                        target={resolveTargetMape(accuracyConfig, variant)}
+                        thresholds={accuracyConfig.thresholds}
+                      />
+                    )}
                   </div>
                   <div className="grid grid-cols-2 gap-3">
-                    <MetricPill label="MAPE" value={formatPercentage(metrics.mape, 1)} />
-                    <MetricPill label="WAPE" value={formatPercentage(metrics.wape, 1)} />
-                    <MetricPill label="RMSE" value={metrics.rmse?.toFixed(1) || '-'} />
-                    <MetricPill label="Bias" value={formatPercentage(metrics.bias, 1)} />
+                    <MetricPill label="MAPE" value={formatPercentage(metrics.mape, 1)} onClick={() => setSelectedMetric('mape')} />
+                    <MetricPill label="WAPE" value={formatPercentage(metrics.wape, 1)} onClick={() => setSelectedMetric('wape')} />
+                    <MetricPill label="RMSE" value={metrics.rmse?.toFixed(1) || '-'} onClick={() => setSelectedMetric('rmse')} />
+                    <MetricPill label="Bias" value={formatPercentage(metrics.bias, 1)} onClick={() => setSelectedMetric('bias')} />
+                    <MetricPill label="MASE" value={metrics.mase?.toFixed(2) || '-'} onClick={() => setSelectedMetric('mase')} />
+                    <MetricPill label="Seasonal MASE" value={metrics.smase?.toFixed(2) || '-'} onClick={() => setSelectedMetric('smase')} />
                   </div>
+                  {(metrics.censored_periods ?? 0) > 0 && (
+                    <p className="text-xs text-amber-700">
+                      {metrics.censored_periods} stockout {periodUnit}{metrics.censored_periods === 1 ? '' : 's'} in the
+                      evaluation window
+                    </p>
+                  )}
+                  {selectedMetric && (
+                    <CalculationExplainer
+                      metric={selectedMetric}
+                      onClose={() => setSelectedMetric(null)}
+                      periods={buildEvaluationPeriods(metrics, dataGranularity)}
+                      censoringMode={metrics.censoring_mode as CensoringMode | null}
+                    />
+                  )}
                 </div>
               ) : (
                 <div className="py-8 text-center text-gray-500">
@@ -317,6 +403,71 @@ export default function SKUDetailPage({ params }: PageProps) {
           </Card>
         </div>
 
+        {/* Forecast with Prediction Intervals */}
+        <ForecastIntervalChart
+          actualSeries={variant[ordersColumn]}
+          forecastSeries={variant[forecastColumn]}
+          currentForecast={dataGranularity === 'month' ? variant.current_forecast : null}
+          metrics={metrics}
+          granularity={dataGranularity}
+        />
+
+        {/* Safety Stock vs Inventory Planner */}
+        <SafetyStockComparison
+          safetyStock={data.safetyStock ?? null}
+          minimumStock={variant.minimum_stock}
+          replenishment={variant.replenishment}
+          granularity={dataGranularity}
+          warehouse={data.warehouse}
+        />
+
+        {/* Projected Inventory */}
+        <InventoryProjectionChart
+          inStock={variant.in_stock}
+          purchaseOrdersQty={data.warehouse ? null : variant.purchase_orders_qty}
+          leadTimeDays={variant.lead_time}
+          forecast={variant.forecast_by_period}
+        />
+
+        {/* Accuracy Trend */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Accuracy Trend
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              MAPE and WAPE from each metrics calculation run (lower is better)
+            </p>
+          </CardHeader>
+          <CardContent>
+            {trendData.length > 1 ? (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} unit="%" />
+                  <Tooltip
+                    formatter={(value, name) => [formatPercentage(Number(value), 1), String(name).toUpperCase()]}
+                    contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                  />
+                  <Line type="monotone" dataKey="mape" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                  <Line type="monotone" dataKey="wape" stroke="#8b5cf6" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-[120px] flex items-center justify-center text-gray-500 text-sm">
+                {trendData.length === 1
+                  ? 'Only one calculation run so far - the trend appears after the next recalculation'
+                  : 'No metric history recorded yet'}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Backtest by Horizon */}
+        <BacktestMatrix sku={variant.sku} />
+
         {/* Lost Revenue Alert */}
         {variant.forecasted_lost_revenue && variant.forecasted_lost_revenue > 0 && (
           <Card className="border-red-200 bg-red-50">
@@ -411,12 +562,29 @@ function SalesRow({ period, value, bold }: { period: string; value: number; bold
   )
 }
 
-function MetricPill({ label, value }: { label: string; value: string }) {
+function TargetStatus({ mape, target, thresholds }: { mape: number; target: number; thresholds: TierThresholds }) {
+  const met = meetsTarget(mape, target)
+  const tier = TIER_STYLES[getMAPETier(mape, thresholds)]
   return (
-    <div className="bg-gray-50 rounded-lg p-3 text-center">
+    <div className="mt-2 flex items-center justify-center gap-2 text-xs">
+      <Badge className={tier.badgeClass}>{tier.label}</Badge>
+      <span className={met ? 'text-green-600' : 'text-red-600'}>
+        {met ? 'Meets' : 'Misses'} the {target}% MAPE target
+      </span>
+    </div>
+  )
+}
+
+function MetricPill({ label, value, onClick }: { label: string; value: string; onClick?: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="bg-gray-50 rounded-lg p-3 text-center hover:bg-gray-100 transition-colors"
+    >
       <div className="text-lg font-semibold">{value}</div>
       <div className="text-xs text-gray-500">{label}</div>
-    </div>
+    </button>
   )
 }
 
@@ -448,3 +616,41 @@ function processSalesData(ordersJson: unknown): { month: string; sales: number }
     .slice(-12)
     .map(({ month, sales }) => ({ month, sales }))
 }
+
+// Pair the stored evaluation series with period labels and stockout flags
+function buildEvaluationPeriods(metrics: ForecastMetric, granularity: Granularity): ExplainerPeriod[] {
+  const actual = Array.isArray(metrics.actual_values) ? metrics.actual_values.map(Number) : []
+  const forecast = Array.isArray(metrics.forecast_values) ? metrics.forecast_values.map(Number) : []
+  if (!metrics.period_start || actual.length === 0 || actual.length !== forecast.length) return []
+
+  const censored = new Map<string, number>()
+  if (Array.isArray(metrics.censored_months)) {
+    for (const entry of metrics.censored_months as { month: string; fraction: number }[]) {
+      censored.set(entry.month, entry.fraction)
+    }
+  }
+
+  const firstKey = periodKeyOf(new Date(`${metrics.period_start}T00:00:00Z`), granularity)
+  return actual.map((value, i) => {
+    const key = addPeriods(firstKey, i, granularity)
+    return {
+      key,
+      actual: value,
+      forecast: forecast[i],
+      censored: censored.has(key),
+      fraction: censored.get(key),
+    }
+  })
+}
+
+// Process metric history snapshots into trend chart data
+function processHistoryData(history: HistoryPoint[]): { label: string; mape: number | null; wape: number | null }[] {
+  return history.map(h => {
+    const calculated = new Date(h.calculated_at)
+    return {
+      label: calculated.toLocaleDateString('default', { month: 'short', day: 'numeric' }),
+      mape: h.mape !== null ? Number(h.mape) : null,
+      wape: h.wape !== null ? Number(h.wape) : null,
+    }
+  })
+}
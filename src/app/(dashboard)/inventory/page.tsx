@@ -15,11 +15,14 @@ import {
 import { Header } from '@/components/layout/header'
 import { TableSkeleton } from '@/components/shared/loading-skeleton'
 import { AdvancedFilters } from '@/components/filters/advanced-filters'
+import { WarehouseSelector } from '@/components/filters/warehouse-selector'
 import { RowActions } from '@/components/inventory/row-actions'
 import { formatCurrency } from '@/lib/utils/format-currency'
 import { formatNumber } from '@/lib/utils/format-number'
+import { formatDate } from '@/lib/utils/format-date'
 import { exportInventoryToCsv } from '@/lib/utils/export-csv'
-import { ChevronLeft, ChevronRight, ArrowUpDown, Eye } from 'lucide-react'
+import { ChevronLeft, ChevronRight, ArrowUpDown, Eye, ClipboardList } from 'lucide-react'
+import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useInventory, type InventoryFilters } from '@/hooks/use-inventory'
 import { useWatchList } from '@/hooks/use-watch-list'
@@ -59,6 +62,7 @@ export default function InventoryPage() {
       if (filters.search) params.set('search', filters.search)
       if (filters.brand) params.set('brand', filters.brand)
       if (filters.productType) params.set('productType', filters.productType)
+      if (filters.warehouse) params.set('warehouse', filters.warehouse)
 
       const response = await fetch(`/api/inventory?${params}`)
       const data = await response.json()
@@ -111,6 +115,26 @@ export default function InventoryPage() {
     )
   }
 
+  // Projected stockout from the sync-time projection; red when it falls
+  // within the lead time (a new order would arrive too late)
+  const getProjectedStockout = (item: typeof items[0]) => {
+    if (item.days_of_cover === null) {
+      return <span className="text-gray-400">-</span>
+    }
+    if (!item.projected_stockout_date) {
+      return <span className="text-sm text-gray-500">Beyond {formatNumber(item.days_of_cover)}d</span>
+    }
+    const late = item.lead_time !== null && item.days_of_cover <= item.lead_time
+    return (
+      <div className={late ? 'text-red-600' : undefined}>
+        <div className="text-sm">{formatDate(item.projected_stockout_date)}</div>
+        <div className={`text-xs ${late ? 'text-red-500' : 'text-gray-500'}`}>
+          {formatNumber(item.days_of_cover)}d cover
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="flex flex-col">
       <Header
@@ -126,7 +150,21 @@ export default function InventoryPage() {
       <div className="p-6">
         <Card>
           <CardHeader>
-            <CardTitle className="mb-4">All Products</CardTitle>
+            <div className="mb-4 flex items-center justify-between">
+              <CardTitle>All Products</CardTitle>
+              <div className="flex items-center gap-2">
+                <Link href="/purchase-orders">
+                  <Button variant="outline" className="gap-2">
+                    <ClipboardList className="h-4 w-4" />
+                    Build Purchase Orders
+                  </Button>
+                </Link>
+                <WarehouseSelector
+                  value={filters.warehouse}
+                  onChange={(warehouse) => updateFilters({ warehouse })}
+                />
+              </div>
+            </div>
             <AdvancedFilters
               filters={filters}
               onFilterChange={handleFilterChange}
@@ -149,6 +187,7 @@ export default function InventoryPage() {
                         <SortHeader field="in_stock">In Stock</SortHeader>
                         <SortHeader field="replenishment">Reorder Qty</SortHeader>
                         <SortHeader field="oos">Status</SortHeader>
+                        <TableHead>Projected Stockout</TableHead>
                         <TableHead>Trend</TableHead>
                         <TableHead className="text-right">Value</TableHead>
                         <TableHead className="w-10"></TableHead>
@@ -157,7 +196,7 @@ export default function InventoryPage() {
                     <TableBody>
                       {items.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={8} className="py-8 text-center text-gray-500">
+                          <TableCell colSpan={9} className="py-8 text-center text-gray-500">
                             No products found
                           </TableCell>
                         </TableRow>
@@ -207,6 +246,7 @@ export default function InventoryPage() {
                                 : '-'}
                             </TableCell>
                             <TableCell>{getStockStatus(item)}</TableCell>
+                            <TableCell>{getProjectedStockout(item)}</TableCell>
                             <TableCell>
                               <SalesSparkline
                                 last7Days={item.last_7_days_sales || 0}
@@ -1,6 +1,8 @@
 import { Suspense } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Button } from '@/components/ui/button'
 import { KPICard } from '@/components/dashboard/kpi-card'
 import { PriorityTable } from '@/components/dashboard/priority-table'
 import { DashboardCharts } from '@/components/dashboard/dashboard-charts'
@@ -9,18 +11,29 @@ import { OnboardingBanner } from '@/components/onboarding'
 import { Header } from '@/components/layout/header'
 import { KPIGridSkeleton, TableSkeleton } from '@/components/shared/loading-skeleton'
 import { getLatestSyncStatus, getSummaryHistory } from '@/lib/supabase/queries/summary'
-import { getInventoryStats, getTopPriorityItems, getOutOfStockItems } from '@/lib/supabase/queries/variants'
+import {
+  getInventoryStats,
+  getTopPriorityItems,
+  getOutOfStockItems,
+  isPrioritySort,
+  type PrioritySort,
+} from '@/lib/supabase/queries/variants'
 import { getAverageAccuracy } from '@/lib/supabase/queries/metrics'
+import { getAccuracyConfig } from '@/lib/supabase/queries/targets'
+import { syncScheduler } from '@/lib/sync/scheduler'
 import { formatCurrencyCompact } from '@/lib/utils/format-currency'
 import { formatNumber, formatPercentage } from '@/lib/utils/format-number'
+import { meetsTarget, resolveTargetMape } from '@/lib/utils/accuracy-tiers'
 import { Package, AlertTriangle, TrendingUp, DollarSign } from 'lucide-react'
 
 async function DashboardKPIs() {
-  const [stats, accuracyResult, historyResult] = await Promise.all([
+  const [stats, accuracyResult, historyResult, { config }] = await Promise.all([
     getInventoryStats(),
     getAverageAccuracy(),
     getSummaryHistory(14), // Get last 14 days for sparklines
+    getAccuracyConfig(),
   ])
+  const targetMape = resolveTargetMape(config)
 
   // Extract trend data from history
   const history = historyResult.history || []
@@ -65,13 +78,9 @@ async function DashboardKPIs() {
             ? formatPercentage(100 - accuracyResult.avgMape, 1)
             : '-'
         }
-        subtitle={`Based on ${accuracyResult.count} SKUs`}
+        subtitle={`Based on ${accuracyResult.count} SKUs · target MAPE ${targetMape}%`}
         icon={TrendingUp}
-        variant={
-          accuracyResult.avgMape !== null && accuracyResult.avgMape < 20
-            ? 'success'
-            : 'warning'
-        }
+        variant={meetsTarget(accuracyResult.avgMape, targetMape) ? 'success' : 'warning'}
         trend={accuracyTrend.length > 1 ? accuracyTrend : undefined}
         href="/forecasts"
       />
@@ -79,19 +88,39 @@ async function DashboardKPIs() {
   )
 }
 
-async function PriorityTables() {
+const PRIORITY_SORT_LABELS: Record<PrioritySort, string> = {
+  urgency: 'Urgency',
+  error_cost: 'Forecast Error Cost',
+}
+
+async function PriorityTables({ sort }: { sort: PrioritySort }) {
   const [reorderResult, oosResult] = await Promise.all([
-    getTopPriorityItems(10),
-    getOutOfStockItems(10),
+    getTopPriorityItems(10, sort),
+    getOutOfStockItems(10, sort),
   ])
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Priority Items</CardTitle>
-        <p className="text-sm text-gray-500">
-          Showing top 10 items from each category
-        </p>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle>Priority Items</CardTitle>
+            <p className="text-sm text-gray-500">
+              {sort === 'error_cost'
+                ? 'Showing the 10 items from each category whose forecast error costs the most'
+                : 'Showing top 10 items from each category'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(PRIORITY_SORT_LABELS) as PrioritySort[]).map((key) => (
+              <Button key={key} asChild size="sm" variant={sort === key ? 'default' : 'outline'}>
+                <Link href={key === 'urgency' ? '/' : `/?sort=${key}`} scroll={false}>
+                  {PRIORITY_SORT_LABELS[key]}
+                </Link>
+              </Button>
+            ))}
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="reorder">
@@ -116,15 +145,24 @@ async function PriorityTables() {
 }
 
 async function SyncStatus() {
-  const { sync } = await getLatestSyncStatus()
+  const [{ sync }, schedule] = await Promise.all([
+    getLatestSyncStatus(),
+    syncScheduler.getStatus(),
+  ])
   return {
     status: sync?.status || null,
     lastSync: sync?.completed_at || sync?.started_at || null,
+    nextSync: schedule.nextRunAt,
   }
 }
 
-export default async function DashboardPage() {
-  const syncStatus = await SyncStatus()
+export default async function DashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ sort?: string }>
+}) {
+  const [syncStatus, { sort: sortParam }] = await Promise.all([SyncStatus(), searchParams])
+  const prioritySort = isPrioritySort(sortParam) ? sortParam : 'urgency'
 
   return (
     <div className="flex flex-col">
@@ -164,7 +202,7 @@ export default async function DashboardPage() {
             </Card>
           }
         >
-          <PriorityTables />
+          <PriorityTables sort={prioritySort} />
         </Suspense>
       </div>
     </div>
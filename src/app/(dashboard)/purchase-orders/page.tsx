@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Header } from '@/components/layout/header'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  PurchaseOrderEditor,
+  type EditableDraft,
+} from '@/components/purchase-orders/purchase-order-editor'
+import { PurchaseOrderDraftList } from '@/components/purchase-orders/purchase-order-draft-list'
+import { formatNumber } from '@/lib/utils/format-number'
+import type { VendorGroup } from '@/lib/utils/purchase-orders'
+import { ClipboardList, History } from 'lucide-react'
+
+export default function PurchaseOrdersPage() {
+  const [activeTab, setActiveTab] = useState('workbench')
+  const [groups, setGroups] = useState<VendorGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<EditableDraft | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    async function fetchCandidates() {
+      try {
+        const response = await fetch('/api/purchase-orders?view=candidates')
+        const json = await response.json()
+        setGroups(json.groups || [])
+      } catch (error) {
+        console.error('Failed to fetch reorder candidates:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchCandidates()
+  }, [])
+
+  const loadDraft = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`)
+      const json = await response.json()
+      if (!response.ok) throw new Error(json.error)
+      setEditing({ draft: json.draft, lines: json.lines, events: json.events })
+      setActiveTab('workbench')
+    } catch (error) {
+      console.error('Failed to load purchase order draft:', error)
+    }
+  }, [])
+
+  const handleSaved = useCallback((id: string) => {
+    setRefreshKey(key => key + 1)
+    loadDraft(id)
+  }, [loadDraft])
+
+  const handleNew = useCallback(() => setEditing(null), [])
+
+  const skuCount = groups.reduce((sum, group) => sum + group.lines.length, 0)
+
+  return (
+    <div className="flex flex-col">
+      <Header
+        title="Purchase Orders"
+        subtitle={
+          loading
+            ? 'Reorder candidates grouped by vendor'
+            : `${formatNumber(skuCount)} SKUs to order across ${groups.length} vendors`
+        }
+        showSyncButton={false}
+      />
+
+      <div className="p-6">
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="workbench" className="gap-2">
+              <ClipboardList className="h-4 w-4" />
+              Workbench
+            </TabsTrigger>
+            <TabsTrigger value="drafts" className="gap-2">
+              <History className="h-4 w-4" />
+              Drafts
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="workbench">
+            <PurchaseOrderEditor
+              groups={groups}
+              loading={loading}
+              editing={editing}
+              onSaved={handleSaved}
+              onNew={handleNew}
+            />
+          </TabsContent>
+
+          <TabsContent value="drafts">
+            <PurchaseOrderDraftList refreshKey={refreshKey} onEdit={loadDraft} />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { getSafetyStockReport } from '@/lib/supabase/queries/safety-stock'
+
+export async function GET() {
+  try {
+    const { rows, checked, serviceLevel, error } = await getSafetyStockReport()
+
+    if (error) {
+      return NextResponse.json({ rows: [], error }, { status: 500 })
+    }
+
+    return NextResponse.json({ rows, checked, serviceLevel })
+  } catch (error) {
+    console.error('Safety stock report error:', error)
+    return NextResponse.json(
+      { rows: [], error: 'Failed to build safety stock report' },
+      { status: 500 }
+    )
+  }
+}
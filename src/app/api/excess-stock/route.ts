@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getExcessStockReport } from '@/lib/supabase/queries/excess-stock'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/excess-stock - Excess and dead stock, largest excess value first
+ *
+ * Query params:
+ * - horizon: months of forecast demand to compare stock with (default: excess_horizon_months setting)
+ * - deadMonths: months without a sale for dead stock (default: dead_stock_months setting)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const horizon = searchParams.get('horizon')
+    const deadMonths = searchParams.get('deadMonths')
+
+    const { rows, checked, horizonMonths, deadStockMonths, error } = await getExcessStockReport({
+      horizonMonths: horizon ? parseInt(horizon, 10) : undefined,
+      deadStockMonths: deadMonths ? parseInt(deadMonths, 10) : undefined,
+    })
+    if (error) throw new Error(error)
+
+    return NextResponse.json({ rows, checked, horizonMonths, deadStockMonths })
+  } catch (error) {
+    console.error('Failed to get excess stock:', error)
+    return NextResponse.json(
+      { error: 'Failed to get excess stock', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getVariantBySku } from '@/lib/supabase/queries/variants'
+import { getForecastSnapshotsBySku } from '@/lib/supabase/queries/snapshots'
+import { parseMonthlySeries } from '@/lib/utils/calculate-metrics'
+import {
+  runBacktest,
+  naiveProvider,
+  createSnapshotProvider,
+  leadTimeToHorizon,
+  type BacktestResult,
+} from '@/lib/utils/backtest'
+
+/**
+ * GET /api/forecasts/[sku]/backtest - Rolling-origin accuracy by forecast horizon
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sku: string }> }
+) {
+  try {
+    const { sku } = await params
+    const { variant } = await getVariantBySku(sku)
+
+    if (!variant) {
+      return NextResponse.json(
+        { error: 'SKU not found' },
+        { status: 404 }
+      )
+    }
+
+    const actuals = parseMonthlySeries(variant.orders_by_month)
+    const options = { leadTimeDays: variant.lead_time }
+
+    // IP is only scored against forecasts as they stood at each origin. The
+    // latest forecast_by_period would be look-ahead, so without snapshots
+    // covering some origins only the naive benchmark is backtested
+    const { snapshots } = await getForecastSnapshotsBySku(sku)
+    const snapshotResult = snapshots.length > 0
+      ? runBacktest(
+          actuals,
+          createSnapshotProvider(snapshots.map(s => ({
+            snapshotDate: s.snapshot_date,
+            forecast: parseMonthlySeries(s.forecast_by_period),
+          }))),
+          'inventory_planner',
+          options
+        )
+      : null
+    const snapshotBacked = !!snapshotResult?.horizons.some(h => h.origins > 0)
+
+    const results: BacktestResult[] = []
+    if (snapshotBacked && snapshotResult) {
+      results.push(snapshotResult)
+    }
+    results.push(runBacktest(actuals, naiveProvider, 'naive_benchmark', options))
+
+    return NextResponse.json({
+      sku,
+      leadTime: variant.lead_time,
+      leadTimeHorizon: leadTimeToHorizon(variant.lead_time),
+      periods: actuals.length,
+      snapshots: snapshots.length,
+      snapshotBacked,
+      results,
+    })
+  } catch (error) {
+    console.error('Backtest error:', error)
+    return NextResponse.json(
+      { error: 'Backtest failed', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
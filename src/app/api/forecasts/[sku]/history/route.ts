@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMetricHistoryBySku } from '@/lib/supabase/queries/history'
+
+/**
+ * GET /api/forecasts/[sku]/history - Metric snapshots for a SKU, one per calculation run
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sku: string }> }
+) {
+  try {
+    const { sku } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '36')
+
+    const { history, error } = await getMetricHistoryBySku(sku, limit)
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      sku,
+      history,
+      count: history.length,
+    })
+  } catch (error) {
+    console.error('Forecast history error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch forecast history' },
+      { status: 500 }
+    )
+  }
+}
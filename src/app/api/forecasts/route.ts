@@ -1,18 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getForecastMetrics, getAverageAccuracy, getMetricsDistribution, getAccuracyExtremes } from '@/lib/supabase/queries/metrics'
+import {
+  getForecastMetrics,
+  getAverageAccuracy,
+  getMetricsDistribution,
+  getAccuracyExtremes,
+  getBiasedForecasts,
+  getErrorCostSummary,
+  getAccuracyRollup,
+  getAccuracyRollupSkus,
+  getHierarchyAccuracy,
+  getAvailableGranularities,
+  isMetricOrderField,
+  isRollupGroupBy,
+} from '@/lib/supabase/queries/metrics'
+import { getAccuracyTrend } from '@/lib/supabase/queries/history'
+import { getSegmentMatrix } from '@/lib/supabase/queries/segments'
+import { getLostRevenueAttribution } from '@/lib/supabase/queries/lost-revenue'
+import { isAbcClass, isXyzClass } from '@/lib/utils/segments'
+import { DEMAND_CLASSES, type DemandClass } from '@/lib/utils/calculate-metrics'
+import { isGranularity } from '@/lib/utils/periods'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
 
     const view = searchParams.get('view') || 'overview'
+    const warehouse = searchParams.get('warehouse') || undefined
+    const granularityParam = searchParams.get('granularity')
+    const granularity = isGranularity(granularityParam) ? granularityParam : 'month'
+    const scope = { warehouse, granularity }
+
+    if (view === 'granularities') {
+      // Granularities with metrics, for the monthly / weekly switch
+      const { granularities, error } = await getAvailableGranularities()
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+      return NextResponse.json({ granularities })
+    }
 
     if (view === 'overview') {
       // Get summary stats for the overview page
-      const [avgResult, distributionResult, extremesResult] = await Promise.all([
-        getAverageAccuracy(),
-        getMetricsDistribution(),
-        getAccuracyExtremes(5),
+      const [avgResult, distributionResult, extremesResult, costResult] = await Promise.all([
+        getAverageAccuracy(scope),
+        getMetricsDistribution(scope),
+        getAccuracyExtremes(5, scope),
+        getErrorCostSummary(scope),
       ])
 
       return NextResponse.json({
@@ -23,20 +56,116 @@ export async function GET(request: NextRequest) {
           wase: avgResult.avgWase,
           bias: avgResult.avgBias,
           naiveMape: avgResult.avgNaiveMape,
+          mase: avgResult.avgMase,
+          smase: avgResult.avgSmase,
+          smape: avgResult.avgSmape,
+          mae: avgResult.avgMae,
+          mdape: avgResult.avgMdape,
+          rmsse: avgResult.avgRmsse,
+          trackingSignal: avgResult.avgTrackingSignal,
+          trackingSignalAlerts: avgResult.trackingSignalAlerts,
+          biasAlerts: avgResult.biasAlerts,
+          fva: avgResult.avgFva,
+          fvaCount: avgResult.fvaCount,
+          benchmarkFva: avgResult.benchmarkFva,
           skuCount: avgResult.count,
         },
+        errorCost: costResult.summary,
         distribution: distributionResult.distribution,
         best: extremesResult.best,
         worst: extremesResult.worst,
       })
     }
 
+    if (view === 'trend') {
+      // Aggregate accuracy per calculation run (is accuracy improving?)
+      const limit = parseInt(searchParams.get('limit') || '24')
+      const { runs, error } = await getAccuracyTrend(limit)
+
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+
+      return NextResponse.json({ runs })
+    }
+
+    if (view === 'rollup') {
+      // Value-weighted accuracy by brand, product type or vendor; pass group to drill down
+      const groupByParam = searchParams.get('groupBy') || 'brand'
+      if (!isRollupGroupBy(groupByParam)) {
+        return NextResponse.json(
+          { error: `Unsupported groupBy: ${groupByParam}` },
+          { status: 400 }
+        )
+      }
+
+      const group = searchParams.get('group')
+      if (group) {
+        const { skus, error } = await getAccuracyRollupSkus(groupByParam, group)
+        if (error) {
+          return NextResponse.json({ error }, { status: 500 })
+        }
+        return NextResponse.json({ groupBy: groupByParam, group, skus })
+      }
+
+      const { groups, error } = await getAccuracyRollup(groupByParam)
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+
+      return NextResponse.json({ groupBy: groupByParam, groups })
+    }
+
+    if (view === 'hierarchy') {
+      // Summed actuals vs summed forecasts per brand, product type and total
+      const { total, brands, productTypes, error } = await getHierarchyAccuracy(scope)
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+      return NextResponse.json({ total, brands, productTypes })
+    }
+
+    if (view === 'segments') {
+      // ABC × XYZ matrix: SKU count, value share and weighted MAPE per cell
+      const { cells, error } = await getSegmentMatrix()
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+      return NextResponse.json({ cells })
+    }
+
+    if (view === 'lost-revenue') {
+      // Revenue lost in past stockout months by cause (combined monthly metrics)
+      const { rows, byMonth, summary, error } = await getLostRevenueAttribution()
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+      return NextResponse.json({ rows, byMonth, summary })
+    }
+
+    if (view === 'biased') {
+      // SKUs with statistically persistent over- or under-forecasting
+      const limit = parseInt(searchParams.get('limit') || '50')
+      const { forecasts, count, error } = await getBiasedForecasts(limit, scope)
+      if (error) {
+        return NextResponse.json({ error }, { status: 500 })
+      }
+      return NextResponse.json({ forecasts, count })
+    }
+
     // List view with pagination
     const limit = parseInt(searchParams.get('limit') || '50')
     const offset = parseInt(searchParams.get('offset') || '0')
-    const orderBy = (searchParams.get('orderBy') || 'mape') as 'mape' | 'wape' | 'rmse' | 'calculated_at'
+    const orderByParam = searchParams.get('orderBy') || 'mape'
+    const orderBy = isMetricOrderField(orderByParam) ? orderByParam : 'mape'
     const orderDirection = (searchParams.get('orderDirection') || 'asc') as 'asc' | 'desc'
     const search = searchParams.get('search') || undefined
+    const demandClassParam = searchParams.get('demandClass')
+    const demandClass = DEMAND_CLASSES.includes(demandClassParam as DemandClass)
+      ? (demandClassParam as DemandClass)
+      : undefined
+    const abcClassParam = searchParams.get('abcClass')
+    const xyzClassParam = searchParams.get('xyzClass')
 
     const { metrics, count, error } = await getForecastMetrics({
       limit,
@@ -44,6 +173,11 @@ export async function GET(request: NextRequest) {
       orderBy,
       orderDirection,
       search,
+      warehouse,
+      granularity,
+      demandClass,
+      abcClass: isAbcClass(abcClassParam) ? abcClassParam : undefined,
+      xyzClass: isXyzClass(xyzClassParam) ? xyzClassParam : undefined,
     })
 
     if (error) {
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getVariantBySku } from '@/lib/supabase/queries/variants'
 import { getMetricsBySku } from '@/lib/supabase/queries/metrics'
+import {
+  getVariantWarehousesBySku,
+  getWarehouseMetricBySku,
+} from '@/lib/supabase/queries/warehouses'
+import { getServiceLevel } from '@/lib/supabase/queries/settings'
+import { GRANULARITY_CONFIG, isGranularity } from '@/lib/utils/periods'
+import { calculateSafetyStock, compareWithInventoryPlanner } from '@/lib/utils/safety-stock'
 
 export async function GET(
   request: NextRequest,
@@ -8,10 +15,16 @@ export async function GET(
 ) {
   try {
     const { sku } = await params
+    const warehouse = request.nextUrl.searchParams.get('warehouse') || undefined
+    // Weekly metrics are combined-only
+    const granularityParam = request.nextUrl.searchParams.get('granularity')
+    const granularity = isGranularity(granularityParam) && !warehouse ? granularityParam : 'month'
 
-    const [variantResult, metricsResult] = await Promise.all([
+    const [variantResult, metricsResult, warehousesResult, serviceLevel] = await Promise.all([
       getVariantBySku(sku),
-      getMetricsBySku(sku),
+      warehouse ? getWarehouseMetricBySku(sku, warehouse) : getMetricsBySku(sku, granularity),
+      getVariantWarehousesBySku(sku),
+      getServiceLevel(),
     ])
 
     if (variantResult.error || !variantResult.variant) {
@@ -21,9 +34,69 @@ export async function GET(
       )
     }
 
+    // Overlay the selected warehouse's stock, sales and series on the combined variant
+    const warehouseRow = warehouse
+      ? warehousesResult.warehouses.find(w => w.warehouse === warehouse)
+      : undefined
+
+    const variant = warehouseRow
+      ? {
+          ...variantResult.variant,
+          in_stock: warehouseRow.in_stock,
+          replenishment: warehouseRow.replenishment,
+          to_order: warehouseRow.to_order,
+          lead_time: warehouseRow.lead_time,
+          oos: warehouseRow.oos,
+          oos_last_60_days: warehouseRow.oos_last_60_days,
+          last_7_days_sales: warehouseRow.last_7_days_sales,
+          last_30_days_sales: warehouseRow.last_30_days_sales,
+          last_90_days_sales: warehouseRow.last_90_days_sales,
+          last_180_days_sales: warehouseRow.last_180_days_sales,
+          last_365_days_sales: warehouseRow.last_365_days_sales,
+          orders_by_month: warehouseRow.orders_by_month,
+          forecast_by_period: warehouseRow.forecast_by_period,
+          current_forecast: warehouseRow.current_forecast,
+          forecasted_lost_revenue: warehouseRow.forecasted_lost_revenue,
+          projected_stockout_date: warehouseRow.projected_stockout_date,
+          days_of_cover: warehouseRow.days_of_cover,
+        }
+      : variantResult.variant
+
+    // Safety stock from this app's forecast error, set against IP's minimum
+    // stock and replenishment; combined view only, since minimum_stock and
+    // purchase orders are not split by warehouse
+    const safetyStockResult = warehouseRow
+      ? null
+      : calculateSafetyStock({
+          rmse: metricsResult.metric?.rmse ?? null,
+          periodsPerYear: GRANULARITY_CONFIG[granularity].periodsPerYear,
+          leadTimeDays: variant.lead_time,
+          currentForecast: variant.current_forecast,
+          last30DaysSales: variant.last_30_days_sales,
+          inStock: variant.in_stock,
+          purchaseOrdersQty: variant.purchase_orders_qty,
+          serviceLevel,
+        })
+    const safetyStock = safetyStockResult
+      ? {
+          ...safetyStockResult,
+          flags: compareWithInventoryPlanner(safetyStockResult, {
+            minimumStock: variant.minimum_stock,
+            replenishment: variant.replenishment,
+          }),
+        }
+      : null
+
     return NextResponse.json({
-      variant: variantResult.variant,
+      variant,
       metrics: metricsResult.metric,
+      safetyStock,
+      granularity,
+      warehouse: warehouseRow?.warehouse ?? null,
+      warehouses: warehousesResult.warehouses.map(w => ({
+        warehouse: w.warehouse,
+        warehouse_name: w.warehouse_name,
+      })),
     })
   } catch (error) {
     console.error('Variant detail error:', error)
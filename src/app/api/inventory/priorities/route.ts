@@ -1,18 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getTopPriorityItems, getOutOfStockItems } from '@/lib/supabase/queries/variants'
+import { getTopPriorityItems, getOutOfStockItems, isPrioritySort } from '@/lib/supabase/queries/variants'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const type = searchParams.get('type') || 'reorder'
     const limit = parseInt(searchParams.get('limit') || '10')
+    const sortParam = searchParams.get('sort')
+    const sort = isPrioritySort(sortParam) ? sortParam : 'urgency'
 
     let result
 
     if (type === 'oos') {
-      result = await getOutOfStockItems(limit)
+      result = await getOutOfStockItems(limit, sort)
     } else {
-      result = await getTopPriorityItems(limit)
+      result = await getTopPriorityItems(limit, sort)
     }
 
     if (result.error) {
@@ -22,6 +24,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       items: result.items,
       type,
+      sort,
     })
   } catch (error) {
     console.error('Priority items error:', error)
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getVariants } from '@/lib/supabase/queries/variants'
-import type { Variant } from '@/types/database'
+import { getWarehouseVariants } from '@/lib/supabase/queries/warehouses'
+import type { Variant, VariantWarehouse } from '@/types/database'
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,17 +17,31 @@ export async function GET(request: NextRequest) {
     const minOOS = searchParams.get('minOOS')
       ? parseInt(searchParams.get('minOOS')!)
       : undefined
+    const warehouse = searchParams.get('warehouse') || undefined
 
-    const { variants, count, error } = await getVariants({
-      limit,
-      offset,
-      orderBy,
-      orderDirection,
-      search,
-      brand,
-      productType,
-      minOOS,
-    })
+    // A warehouse selection reads stock from variant_warehouses instead of the combined view
+    const { variants, count, error } = warehouse
+      ? await getWarehouseVariants({
+          warehouse,
+          limit,
+          offset,
+          orderBy: orderBy as keyof VariantWarehouse,
+          orderDirection,
+          search,
+          brand,
+          productType,
+          minOOS,
+        })
+      : await getVariants({
+          limit,
+          offset,
+          orderBy,
+          orderDirection,
+          search,
+          brand,
+          productType,
+          minOOS,
+        })
 
     if (error) {
       return NextResponse.json({ error }, { status: 500 })
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPurchaseOrderDraft, markDraftExported } from '@/lib/supabase/queries/purchase-orders'
+import { buildCsv } from '@/lib/utils/export-csv'
+import {
+  ERP_COLUMNS,
+  isExportFormat,
+  poReference,
+  toErpRows,
+} from '@/lib/utils/purchase-orders'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/purchase-orders/[id]/export?format=csv|json - Download a draft
+ * in the ERP import layout and mark it exported
+ *
+ * CSV: one row per line with the ERP_COLUMNS headers.
+ * JSON: { po_reference, vendor: { id, name }, notes, lines: [ERP rows], totals }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format') || 'csv'
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 })
+    }
+
+    const { draft, lines, error } = await getPurchaseOrderDraft(id)
+    if (error) throw new Error(error)
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+    }
+
+    const rows = toErpRows(draft, lines)
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'Draft has no lines to order' }, { status: 400 })
+    }
+
+    const { error: exportError } = await markDraftExported(draft, format)
+    if (exportError) throw new Error(exportError)
+
+    const reference = poReference(draft.id)
+    if (format === 'json') {
+      const body = {
+        po_reference: reference,
+        vendor: { id: draft.vendor_id, name: draft.vendor_name },
+        notes: draft.notes,
+        lines: rows,
+        totals: { lines: draft.line_count, units: draft.total_units, cost: draft.total_cost },
+      }
+      return new NextResponse(JSON.stringify(body, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${reference}.json"`,
+        },
+      })
+    }
+
+    return new NextResponse(buildCsv({ data: rows, columns: ERP_COLUMNS }), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${reference}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export purchase order draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to export purchase order draft', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
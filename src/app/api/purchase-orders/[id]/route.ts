@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  deletePurchaseOrderDraft,
+  getPurchaseOrderDraft,
+  savePurchaseOrderDraft,
+} from '@/lib/supabase/queries/purchase-orders'
+import { parseDraftInput } from '@/lib/utils/purchase-orders'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/purchase-orders/[id] - Draft with its lines and history
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { draft, lines, events, error } = await getPurchaseOrderDraft(id)
+    if (error) throw new Error(error)
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ draft, lines, events })
+  } catch (error) {
+    console.error('Failed to get purchase order draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to get purchase order draft', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/purchase-orders/[id] - Overwrite a draft's header and lines
+ *
+ * Body: same as POST /api/purchase-orders
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { draft, error: parseError } = parseDraftInput(await request.json())
+    if (!draft) {
+      return NextResponse.json({ error: parseError }, { status: 400 })
+    }
+
+    const existing = await getPurchaseOrderDraft(id)
+    if (existing.error) throw new Error(existing.error)
+    if (!existing.draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 })
+    }
+
+    const { error } = await savePurchaseOrderDraft({ ...draft, id })
+    if (error) throw new Error(error)
+
+    return NextResponse.json({ success: true, id })
+  } catch (error) {
+    console.error('Failed to update purchase order draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to update purchase order draft', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/purchase-orders/[id] - Delete a draft and its history
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { error } = await deletePurchaseOrderDraft(id)
+    if (error) throw new Error(error)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete purchase order draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete purchase order draft', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
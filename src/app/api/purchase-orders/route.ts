@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getPurchaseOrderDrafts,
+  getReorderCandidates,
+  savePurchaseOrderDraft,
+} from '@/lib/supabase/queries/purchase-orders'
+import { parseDraftInput } from '@/lib/utils/purchase-orders'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/purchase-orders - Saved drafts, most recent first
+ * GET /api/purchase-orders?view=candidates - Reorder candidates grouped by vendor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (request.nextUrl.searchParams.get('view') === 'candidates') {
+      const { groups, error } = await getReorderCandidates()
+      if (error) throw new Error(error)
+      return NextResponse.json({ groups })
+    }
+
+    const { drafts, error } = await getPurchaseOrderDrafts()
+    if (error) throw new Error(error)
+    return NextResponse.json({ drafts })
+  } catch (error) {
+    console.error('Failed to get purchase orders:', error)
+    return NextResponse.json(
+      { error: 'Failed to get purchase orders', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/purchase-orders - Save a new draft
+ *
+ * Body: { vendor_id, vendor_name, notes, lines: [{ sku, quantity, ... }, ...] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { draft, error: parseError } = parseDraftInput(await request.json())
+    if (!draft) {
+      return NextResponse.json({ error: parseError }, { status: 400 })
+    }
+
+    const { id, error } = await savePurchaseOrderDraft(draft)
+    if (error) throw new Error(error)
+
+    return NextResponse.json({ success: true, id })
+  } catch (error) {
+    console.error('Failed to save purchase order draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to save purchase order draft', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAccuracyConfig, saveAccuracyConfig } from '@/lib/supabase/queries/targets'
+import { parseAccuracyTarget, parseTierThresholds, type AccuracyTarget } from '@/lib/utils/accuracy-tiers'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/settings/accuracy - Get MAPE tier thresholds and accuracy targets
+ */
+export async function GET() {
+  try {
+    const { config, error } = await getAccuracyConfig()
+    return NextResponse.json({ ...config, error })
+  } catch (error) {
+    console.error('Failed to get accuracy config:', error)
+    return NextResponse.json(
+      { error: 'Failed to get accuracy config', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/settings/accuracy - Replace tier thresholds and targets
+ *
+ * Body: { thresholds: [n, n, n, n], targets: [{ scope, scope_value, target_mape }, ...] }
+ * Thresholds must be four increasing positive numbers; targets must include
+ * a default and at most one entry per scope / value.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const thresholds = parseTierThresholds(body.thresholds)
+    if (!thresholds) {
+      return NextResponse.json(
+        { error: 'Thresholds must be four increasing positive numbers' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(body.targets)) {
+      return NextResponse.json({ error: 'Invalid targets array' }, { status: 400 })
+    }
+
+    const targets: AccuracyTarget[] = []
+    for (const entry of body.targets) {
+      const target = parseAccuracyTarget(entry)
+      if (!target) {
+        return NextResponse.json(
+          { error: 'Invalid target', details: JSON.stringify(entry) },
+          { status: 400 }
+        )
+      }
+      if (targets.some(t => t.scope === target.scope && t.scope_value === target.scope_value)) {
+        return NextResponse.json(
+          { error: `Duplicate target for ${target.scope} ${target.scope_value}`.trim() },
+          { status: 400 }
+        )
+      }
+      targets.push(target)
+    }
+
+    if (!targets.some(t => t.scope === 'default')) {
+      return NextResponse.json({ error: 'A default target is required' }, { status: 400 })
+    }
+
+    const { error } = await saveAccuracyConfig({ thresholds, targets })
+    if (error) throw new Error(error)
+
+    return NextResponse.json({ success: true, thresholds, targets })
+  } catch (error) {
+    console.error('Failed to update accuracy config:', error)
+    return NextResponse.json(
+      { error: 'Failed to update accuracy config', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
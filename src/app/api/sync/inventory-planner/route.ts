@@ -1,28 +1,40 @@
-import { NextResponse } from 'next/server'
-import { createAdminClient } from '@/lib/supabase/admin'
+import { NextRequest, NextResponse } from 'next/server'
 import { createSyncRecord, completeSyncRecord } from '@/lib/supabase/queries/summary'
-import type { Database } from '@/types/database'
+import { getSetting, setSetting } from '@/lib/supabase/queries/settings'
+import { SyncErrorLogger, extractVariants, ingestVariants, finalizeIngestion } from '@/lib/sync'
 
 export const maxDuration = 300 // 5 minutes
 export const dynamic = 'force-dynamic'
 
-type VariantInsert = Database['public']['Tables']['variants']['Insert']
-type Variant = Database['public']['Tables']['variants']['Row']
-
 const IP_API_URL = process.env.IP_API_URL || 'https://app.inventory-planner.com/api/v1'
 const IP_API_KEY = process.env.IP_API_KEY
 const IP_ACCOUNT_ID = process.env.IP_ACCOUNT_ID
 
+// app_settings key holding the start time of the last successful sync
+const SYNC_CURSOR_KEY = 'ip_sync_cursor'
+
 /**
- * POST /api/sync/inventory-planner - Fetch all variants from Inventory Planner API
+ * POST /api/sync/inventory-planner - Fetch variants from Inventory Planner API
  *
- * This endpoint fetches all variants with pagination and imports them to the database.
+ * Incremental by default: only variants updated since the last successful
+ * sync are fetched, and metrics are recalculated for those variants only.
+ * The first sync (no stored cursor) fetches everything.
+ *
+ * Body (optional): { full: true } to force a full resync of every variant
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
   const startTime = Date.now()
-  const supabase = createAdminClient()
+  const syncStartedAt = new Date().toISOString()
   let syncId: string | undefined
 
+  let full = false
+  try {
+    const body = await request.json()
+    full = body?.full === true
+  } catch {
+    // No body - incremental sync
+  }
+
   if (!IP_API_KEY || !IP_ACCOUNT_ID) {
     return NextResponse.json(
       { error: 'Inventory Planner API credentials not configured' },
@@ -31,11 +43,19 @@ export async function POST() {
   }
 
   try {
+    // High-water mark from the last successful sync
+    const { value: cursor } = full ? { value: null } : await getSetting(SYNC_CURSOR_KEY)
+    const mode = cursor ? 'incremental' : 'full'
+
     // Create sync record
     const { sync } = await createSyncRecord('inventory_planner_api')
     syncId = sync?.id
 
-    console.log('Fetching variants from Inventory Planner API...')
+    console.log(
+      mode === 'incremental'
+        ? `Fetching variants updated since ${cursor} from Inventory Planner API...`
+        : 'Fetching all variants from Inventory Planner API...'
+    )
 
     // Fetch and process variants page by page to avoid memory issues
     let page = 0
@@ -44,9 +64,14 @@ export async function POST() {
     let totalFetched = 0
     let imported = 0
     let errors = 0
+    let rejected = 0
+    const variantIds: string[] = []
+    const errorLogger = new SyncErrorLogger(null)
 
     while (hasMore) {
-      const url = `${IP_API_URL}/variants?limit=${limit}&page=${page}`
+      const params = new URLSearchParams({ limit: String(limit), page: String(page) })
+      if (cursor) params.set('updated_at_gt', cursor)
+      const url = `${IP_API_URL}/variants?${params}`
       console.log(`Fetching page ${page}...`)
 
       const response = await fetch(url, {
@@ -72,67 +97,11 @@ export async function POST() {
 
       // Process and insert this page immediately (don't accumulate)
       if (variants.length > 0) {
-        const transformedBatch = variants.map((v): VariantInsert | null => {
-        const variantId = v.id ? String(v.id) : null
-        const sku = v.sku ? String(v.sku) : ''
-
-        if (!variantId || !sku) return null
-
-        return {
-          id: variantId,
-          sku: sku,
-          title: v.title ? String(v.title) : undefined,
-          barcode: v.barcode ? String(v.barcode) : undefined,
-          brand: v.brand ? String(v.brand) : undefined,
-          product_type: v.product_type ? String(v.product_type) : undefined,
-          image: v.image ? String(v.image) : undefined,
-          price: v.price != null ? Number(v.price) : undefined,
-          // Check multiple possible cost field names from Inventory Planner
-          cost_price: v.cost_price != null ? Number(v.cost_price)
-            : v.cost != null ? Number(v.cost)
-            : v.unit_cost != null ? Number(v.unit_cost)
-            : v.average_cost != null ? Number(v.average_cost)
-            : v.cogs != null ? Number(v.cogs)
-            : undefined,
-          in_stock: Number(v.in_stock) || 0,
-          purchase_orders_qty: Number(v.purchase_orders_qty) || 0,
-          last_7_days_sales: Number(v.last_7_days_sales) || 0,
-          last_30_days_sales: Number(v.last_30_days_sales) || 0,
-          last_90_days_sales: Number(v.last_90_days_sales) || 0,
-          last_180_days_sales: Number(v.last_180_days_sales) || 0,
-          last_365_days_sales: Number(v.last_365_days_sales) || 0,
-          total_sales: Number(v.total_sales) || 0,
-          orders_by_month: v.orders_by_month as Variant['orders_by_month'],
-          forecast_by_period: v.forecast_by_period as Variant['forecast_by_period'],
-          forecasted_stock: v.forecasted_stock != null ? Number(v.forecasted_stock) : undefined,
-          current_forecast: v.current_forecast != null ? Number(v.current_forecast) : undefined,
-          replenishment: Number(v.replenishment) || 0,
-          to_order: Number(v.to_order) || 0,
-          minimum_stock: v.minimum_stock != null ? Number(v.minimum_stock) : undefined,
-          lead_time: v.lead_time != null ? Number(v.lead_time) : undefined,
-          oos: Number(v.oos) || 0,
-          oos_last_60_days: Number(v.oos_last_60_days) || 0,
-          forecasted_lost_revenue: v.forecasted_lost_revenue_lead_time != null
-            ? Number(v.forecasted_lost_revenue_lead_time)
-            : undefined,
-          raw_data: v as Variant['raw_data'],
-          synced_at: new Date().toISOString()
-        }
-        }).filter((v): v is VariantInsert => v !== null)
-
-        if (transformedBatch.length > 0) {
-          // @ts-ignore - Supabase types are too strict
-          const { error } = await supabase
-            .from('variants')
-            .upsert(transformedBatch, { onConflict: 'id' })
-
-          if (error) {
-            console.error(`Batch error:`, error.message)
-            errors += transformedBatch.length
-          } else {
-            imported += transformedBatch.length
-          }
-        }
+        const result = await ingestVariants(extractVariants(variants), { errorLogger })
+        imported += result.imported
+        errors += result.errors
+        rejected += result.rejected
+        variantIds.push(...result.variantIds)
 
         console.log(`Progress: ${totalFetched} variants processed, ${imported} imported`)
       }
@@ -155,30 +124,67 @@ export async function POST() {
     console.log(`Sync complete: ${totalFetched} fetched, ${imported} imported`)
 
     if (totalFetched === 0) {
+      if (mode === 'incremental') {
+        await setSetting(SYNC_CURSOR_KEY, syncStartedAt)
+        if (syncId) await completeSyncRecord(syncId, 'completed', 0, 0)
+        return NextResponse.json({
+          success: true,
+          message: 'No variants changed since the last sync',
+          mode,
+          since: cursor,
+          stats: { fetched: 0, imported: 0 }
+        })
+      }
       if (syncId) await completeSyncRecord(syncId, 'completed', 0, 0, 'No variants found')
       return NextResponse.json({
         success: true,
         message: 'No variants found in Inventory Planner',
+        mode,
         stats: { fetched: 0, imported: 0 }
       })
     }
 
-    // Update business summary
-    await updateBusinessSummary(supabase)
+    // Incremental syncs only recalculate the variants that changed
+    const { metricsCalculated, warehouseMetricsCalculated } = await finalizeIngestion(
+      'inventory_planner_api',
+      mode === 'incremental' ? variantIds : undefined
+    )
+
+    // Advance the high-water mark. Uses the sync start time so changes made
+    // while this sync was running are picked up next time. Variants that
+    // failed to save keep the old cursor so the next sync fetches them again.
+    const partial = errors > 0
+    if (!partial) {
+      await setSetting(SYNC_CURSOR_KEY, syncStartedAt)
+    }
 
     // Complete sync record
     const duration = Date.now() - startTime
     if (syncId) {
-      await completeSyncRecord(syncId, 'completed', totalFetched, imported)
+      await completeSyncRecord(
+        syncId,
+        partial ? 'partial' : 'completed',
+        totalFetched,
+        imported,
+        partial ? `${errors} variants failed to save; sync cursor not advanced` : undefined
+      )
     }
 
     return NextResponse.json({
       success: true,
-      message: 'Sync completed from Inventory Planner API',
+      partial,
+      message: partial
+        ? `Sync finished with ${errors} errors from Inventory Planner API; the next sync retries from the previous cursor`
+        : 'Sync completed from Inventory Planner API',
+      mode,
+      since: cursor,
       stats: {
         fetched: totalFetched,
         imported,
+        rejected,
         errors,
+        metricsCalculated,
+        warehouseMetricsCalculated,
         durationMs: duration,
         durationMinutes: (duration / 1000 / 60).toFixed(2)
       }
@@ -195,39 +201,3 @@ export async function POST() {
     )
   }
 }
-
-async function updateBusinessSummary(supabase: ReturnType<typeof createAdminClient>) {
-  const { data: stats } = await supabase
-    .from('variants')
-    .select('in_stock, price, cost_price, oos, replenishment, forecasted_lost_revenue')
-
-  if (!stats) return
-
-  const totalSkus = stats.length
-  const totalInStock = (stats as { in_stock: number }[]).reduce((sum, v) => sum + (v.in_stock || 0), 0)
-  const totalValue = (stats as { in_stock: number; cost_price: number }[]).reduce(
-    (sum, v) => sum + ((v.in_stock || 0) * (v.cost_price || 0)), 0
-  )
-  const itemsNeedingReorder = (stats as { replenishment: number }[]).filter(v => (v.replenishment || 0) > 0).length
-  const itemsOutOfStock = (stats as { in_stock: number }[]).filter(v => (v.in_stock || 0) === 0).length
-  const itemsOverstocked = (stats as { oos: number }[]).filter(v => (v.oos || 0) > 30).length
-  const totalLostRevenue = (stats as { forecasted_lost_revenue: number }[]).reduce(
-    (sum, v) => sum + (v.forecasted_lost_revenue || 0), 0
-  )
-
-  // @ts-ignore - Supabase types are too strict
-  await supabase
-    .from('business_summary')
-    .upsert({
-      id: 'current',
-      snapshot_date: new Date().toISOString().split('T')[0],
-      total_skus: totalSkus,
-      total_in_stock: totalInStock,
-      total_value: totalValue,
-      items_needing_reorder: itemsNeedingReorder,
-      items_overstocked: itemsOverstocked,
-      items_out_of_stock: itemsOutOfStock,
-      total_lost_revenue: totalLostRevenue,
-      top_priority_items: null
-    }, { onConflict: 'id' })
-}
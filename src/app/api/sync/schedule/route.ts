@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { syncScheduler } from '@/lib/sync'
+
+export const maxDuration = 300 // 5 minutes
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/sync/schedule - Get the sync schedule and next run time
+ */
+export async function GET() {
+  try {
+    const schedule = await syncScheduler.getStatus()
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error('Sync schedule error:', error)
+    return NextResponse.json(
+      { error: 'Failed to get sync schedule', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sync/schedule - Run the scheduler check
+ *
+ * Triggers a sync if one is due. For external cron setups; the app also
+ * runs this check on a local timer.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { origin } = new URL(request.url)
+    const result = await syncScheduler.runIfDue(origin)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Scheduled sync error:', error)
+    return NextResponse.json(
+      { error: 'Scheduled sync failed', details: String(error) },
+      { status: 500 }
+    )
+  }
+}
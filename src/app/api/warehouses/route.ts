@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { getWarehouses } from '@/lib/supabase/queries/warehouses'
+
+/**
+ * GET /api/warehouses - Physical warehouses seen in the last syncs
+ */
+export async function GET() {
+  try {
+    const { warehouses, error } = await getWarehouses()
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 500 })
+    }
+
+    return NextResponse.json({ warehouses })
+  } catch (error) {
+    console.error('Warehouses API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch warehouses' },
+      { status: 500 }
+    )
+  }
+}
@@ -12,6 +12,8 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts'
+import { ACCURACY_TIERS, TIER_STYLES, formatTierRange } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
 
 interface MapeDistribution {
   excellent: number
@@ -26,28 +28,13 @@ interface ForecastAccuracyChartProps {
   isLoading?: boolean
 }
 
-const COLORS = {
-  excellent: '#22c55e',   // green-500
-  good: '#84cc16',        // lime-500
-  acceptable: '#eab308',  // yellow-500
-  poor: '#f97316',        // orange-500
-  very_poor: '#ef4444',   // red-500
-}
-
-const LABELS = {
-  excellent: '<10%',
-  good: '10-20%',
-  acceptable: '20-30%',
-  poor: '30-50%',
-  very_poor: '>50%',
-}
-
 export const ForecastAccuracyChart = memo(function ForecastAccuracyChart({
   distribution,
   isLoading,
 }: ForecastAccuracyChartProps) {
   const [activeBar, setActiveBar] = useState<string | null>(null)
   const router = useRouter()
+  const { thresholds } = useAccuracyConfig()
 
   if (isLoading) {
     return (
@@ -65,13 +52,11 @@ export const ForecastAccuracyChart = memo(function ForecastAccuracyChart({
     )
   }
 
-  const data = [
-    { name: LABELS.excellent, value: distribution.excellent, key: 'excellent' },
-    { name: LABELS.good, value: distribution.good, key: 'good' },
-    { name: LABELS.acceptable, value: distribution.acceptable, key: 'acceptable' },
-    { name: LABELS.poor, value: distribution.poor, key: 'poor' },
-    { name: LABELS.very_poor, value: distribution.very_poor, key: 'very_poor' },
-  ]
+  const data = ACCURACY_TIERS.map(tier => ({
+    name: formatTierRange(tier, thresholds),
+    value: distribution[tier],
+    key: tier,
+  }))
 
   const total = data.reduce((sum, d) => sum + d.value, 0)
 
@@ -122,7 +107,7 @@ export const ForecastAccuracyChart = memo(function ForecastAccuracyChart({
             {data.map((entry) => (
               <Cell
                 key={entry.key}
-                fill={COLORS[entry.key as keyof typeof COLORS]}
+                fill={TIER_STYLES[entry.key].color}
                 fillOpacity={activeBar === null || activeBar === entry.key ? 1 : 0.5}
                 style={{ transition: 'all 0.2s ease' }}
               />
@@ -131,26 +116,12 @@ export const ForecastAccuracyChart = memo(function ForecastAccuracyChart({
         </BarChart>
       </ResponsiveContainer>
       <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs">
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.excellent }} />
-          Excellent
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.good }} />
-          Good
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.acceptable }} />
-          Acceptable
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.poor }} />
-          Poor
-        </span>
-        <span className="flex items-center gap-1">
-          <span className="w-3 h-3 rounded" style={{ backgroundColor: COLORS.very_poor }} />
-          Very Poor
-        </span>
+        {ACCURACY_TIERS.map(tier => (
+          <span key={tier} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded" style={{ backgroundColor: TIER_STYLES[tier].color }} />
+            {TIER_STYLES[tier].label}
+          </span>
+        ))}
       </div>
     </div>
   )
@@ -26,6 +26,10 @@ interface PriorityItem {
   lead_time: number | null
   oos: number
   forecasted_lost_revenue: number | null
+  /** Dollar cost of forecast error (null without priced metrics) */
+  carrying_cost: number | null
+  lost_margin: number | null
+  error_cost: number | null
 }
 
 interface PriorityTableProps {
@@ -117,6 +121,24 @@ const MemoizedTableRow = memo(function MemoizedTableRow({
           </TableCell>
         </>
       )}
+      <TableCell className="text-right">
+        {item.error_cost !== null ? (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="cursor-help">{formatCurrency(item.error_cost)}</span>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs">
+                  Carrying cost {formatCurrency(item.carrying_cost)} · lost margin {formatCurrency(item.lost_margin)}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        ) : (
+          <span className="text-gray-400">-</span>
+        )}
+      </TableCell>
       <TableCell>
         <PriorityBadge value={type === 'reorder' ? item.replenishment : item.oos} />
       </TableCell>
@@ -158,6 +180,7 @@ export const PriorityTable = memo(function PriorityTable({ items, type }: Priori
               <TableHead className="text-right">Lost Revenue</TableHead>
             </>
           )}
+          <TableHead className="text-right">Error Cost</TableHead>
           <TableHead>Priority</TableHead>
         </TableRow>
       </TableHeader>
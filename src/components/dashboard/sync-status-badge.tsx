@@ -1,13 +1,15 @@
 import { Badge } from '@/components/ui/badge'
-import { formatRelativeTime } from '@/lib/utils/format-date'
-import { CheckCircle, XCircle, RefreshCw, Clock } from 'lucide-react'
+import { formatNextRun, formatRelativeTime } from '@/lib/utils/format-date'
+import { AlertTriangle, CheckCircle, XCircle, RefreshCw, Clock } from 'lucide-react'
 
 interface SyncStatusBadgeProps {
   status: string | null
   lastSync: string | null
+  /** Next scheduled sync (omitted when the scheduler is disabled) */
+  nextSync?: string | null
 }
 
-export function SyncStatusBadge({ status, lastSync }: SyncStatusBadgeProps) {
+export function SyncStatusBadge({ status, lastSync, nextSync }: SyncStatusBadgeProps) {
   const getStatusConfig = () => {
     switch (status) {
       case 'completed':
@@ -17,6 +19,13 @@ export function SyncStatusBadge({ status, lastSync }: SyncStatusBadgeProps) {
           variant: 'default' as const,
           className: 'bg-green-100 text-green-800 hover:bg-green-100',
         }
+      case 'partial':
+        return {
+          icon: AlertTriangle,
+          label: 'Partial sync',
+          variant: 'default' as const,
+          className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100',
+        }
       case 'running':
         return {
           icon: RefreshCw,
@@ -56,6 +65,11 @@ export function SyncStatusBadge({ status, lastSync }: SyncStatusBadgeProps) {
           {formatRelativeTime(lastSync)}
         </span>
       )}
+      {nextSync && status !== 'running' && (
+        <span className="text-xs text-gray-400" title={new Date(nextSync).toLocaleString()}>
+          · next sync {formatNextRun(nextSync)}
+        </span>
+      )}
     </div>
   )
 }
@@ -7,7 +7,13 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { type ForecastSource, getForecastSourceLabel } from '@/lib/utils/calculate-metrics'
+import {
+  type DemandClass,
+  type ForecastSource,
+  getDemandClassLabel,
+  getForecastSourceLabel,
+} from '@/lib/utils/calculate-metrics'
+import { BENCHMARKS, RECOMMENDED_BENCHMARKS } from '@/lib/utils/benchmarks'
 import { AlertCircle, CheckCircle, HelpCircle } from 'lucide-react'
 
 interface ForecastSourceBadgeProps {
@@ -129,12 +135,13 @@ export function ConfidenceIndicator({
 interface PrimaryMetricBadgeProps {
   primaryMetric: 'mape' | 'wape'
   zeroPeriods?: number
+  demandClass?: DemandClass | null
 }
 
 /**
  * Badge indicating which metric is recommended for this SKU
  */
-export function PrimaryMetricBadge({ primaryMetric, zeroPeriods }: PrimaryMetricBadgeProps) {
+export function PrimaryMetricBadge({ primaryMetric, zeroPeriods, demandClass }: PrimaryMetricBadgeProps) {
   if (primaryMetric === 'mape') return null // MAPE is default, no badge needed
 
   return (
@@ -146,7 +153,51 @@ export function PrimaryMetricBadge({ primaryMetric, zeroPeriods }: PrimaryMetric
           </Badge>
         </TooltipTrigger>
         <TooltipContent className="max-w-xs">
-          <p>WAPE is shown because this SKU has {zeroPeriods || 'many'} zero-sales periods where MAPE would be unreliable.</p>
+          <p>
+            {demandClass
+              ? `WAPE is shown because this SKU's ${getDemandClassLabel(demandClass).label.toLowerCase()} demand makes MAPE unreliable.`
+              : `WAPE is shown because this SKU has ${zeroPeriods || 'many'} zero-sales periods where MAPE would be unreliable.`}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+const demandClassColors: Record<DemandClass, string> = {
+  smooth: 'bg-green-50 text-green-700 border-green-200',
+  erratic: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  intermittent: 'bg-purple-50 text-purple-700 border-purple-200',
+  lumpy: 'bg-red-50 text-red-700 border-red-200',
+}
+
+interface DemandClassBadgeProps {
+  demandClass: DemandClass
+  adi?: number | null
+  cv2?: number | null
+}
+
+/**
+ * Badge showing the Syntetos-Boylan demand pattern (ADI / CV²)
+ */
+export function DemandClassBadge({ demandClass, adi, cv2 }: DemandClassBadgeProps) {
+  const { label, tooltip } = getDemandClassLabel(demandClass)
+  const benchmark = BENCHMARKS[RECOMMENDED_BENCHMARKS[demandClass]]
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`text-xs ${demandClassColors[demandClass]}`}>
+            {label}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p>{tooltip}</p>
+          {adi != null && cv2 != null && (
+            <p className="text-xs text-gray-400">ADI {adi.toFixed(2)} · CV² {cv2.toFixed(2)}</p>
+          )}
+          <p className="text-xs text-gray-400">Recommended benchmark: {benchmark.label}</p>
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
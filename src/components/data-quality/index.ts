@@ -2,7 +2,8 @@ export { DataHealthWidget } from './data-health-widget'
 export {
   ForecastSourceBadge,
   ConfidenceIndicator,
-  PrimaryMetricBadge
+  PrimaryMetricBadge,
+  DemandClassBadge
 } from './forecast-source-badge'
 export {
   OOSStatus,
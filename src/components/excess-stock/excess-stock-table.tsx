@@ -0,0 +1,175 @@
+'use client'
+
+import { memo, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatNumber } from '@/lib/utils/format-number'
+import { formatMonthKey } from '@/lib/utils/format-date'
+import { exportToCsv } from '@/lib/utils/export-csv'
+import { EXCESS_ACTION_LABELS, type ExcessAction } from '@/lib/utils/excess-stock'
+import type { ExcessStockReportRow } from '@/types/database'
+import { Download, PackageX } from 'lucide-react'
+
+interface ExcessStockTableProps {
+  rows: ExcessStockReportRow[]
+  loading: boolean
+  horizonMonths: number
+  deadStockMonths: number
+}
+
+const ACTION_STYLES: Record<ExcessAction, string> = {
+  liquidate: 'border-red-300 bg-red-50 text-red-800',
+  markdown: 'border-amber-300 bg-amber-50 text-amber-800',
+}
+
+/**
+ * Markdown and liquidation candidates: SKUs holding more than the horizon's
+ * forecast demand, and dead stock
+ */
+export const ExcessStockTable = memo(function ExcessStockTable({
+  rows,
+  loading,
+  horizonMonths,
+  deadStockMonths,
+}: ExcessStockTableProps) {
+  const [action, setAction] = useState<ExcessAction | 'all'>('all')
+
+  const visible = action === 'all' ? rows : rows.filter(row => row.action === action)
+
+  const handleExport = () => {
+    exportToCsv({
+      data: visible,
+      filename: 'excess-stock',
+      columns: [
+        { key: 'sku', header: 'SKU' },
+        { key: 'title', header: 'Title' },
+        { key: 'brand', header: 'Brand' },
+        { key: 'product_type', header: 'Product Type' },
+        { key: 'action', header: 'Action' },
+        { key: 'in_stock', header: 'In Stock' },
+        { key: 'demand', header: `Demand (${horizonMonths} mo)`, format: v => Math.round(Number(v)) },
+        { key: 'demand_source', header: 'Demand Source' },
+        { key: 'excess_units', header: 'Excess Units' },
+        { key: 'cost_price', header: 'Cost' },
+        { key: 'excess_value', header: 'Excess Value', format: v => (v !== null ? Number(v).toFixed(2) : '') },
+        { key: 'months_of_supply', header: 'Months of Supply', format: v => (v !== null ? Number(v).toFixed(1) : '') },
+        { key: 'last_sale_month', header: 'Last Sale' },
+      ],
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PackageX className="h-5 w-5" />
+              Markdown &amp; Liquidation Candidates
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              Markdown: stock beyond {horizonMonths} months of forecast demand. Liquidate: no sales
+              in {deadStockMonths} months (all stock on hand counts as excess).
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {(['all', 'liquidate', 'markdown'] as const).map(key => (
+              <Button
+                key={key}
+                variant={action === key ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setAction(key)}
+              >
+                {key === 'all' ? 'All' : EXCESS_ACTION_LABELS[key]}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleExport} disabled={visible.length === 0}>
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>In Stock</TableHead>
+                <TableHead>Demand ({horizonMonths} mo)</TableHead>
+                <TableHead>Excess Units</TableHead>
+                <TableHead>Months of Supply</TableHead>
+                <TableHead>Last Sale</TableHead>
+                <TableHead className="text-right">Excess Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={8}>
+                      <div className="h-8 animate-pulse rounded bg-gray-100" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : visible.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-gray-500">
+                    No excess stock
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visible.map(row => (
+                  <TableRow key={row.sku}>
+                    <TableCell>
+                      <Link
+                        href={`/inventory/${encodeURIComponent(row.sku)}`}
+                        className="font-mono text-sm text-blue-600 hover:underline"
+                      >
+                        {row.sku}
+                      </Link>
+                      {row.title && <div className="max-w-[220px] truncate text-xs text-gray-500">{row.title}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[row.action]}>
+                        {EXCESS_ACTION_LABELS[row.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatNumber(row.in_stock)}</TableCell>
+                    <TableCell>
+                      {formatNumber(Math.round(row.demand))}
+                      {row.demand_source === 'run_rate' && (
+                        <div className="text-xs text-gray-500">90-day run rate</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{formatNumber(row.excess_units)}</TableCell>
+                    <TableCell>{row.months_of_supply !== null ? row.months_of_supply.toFixed(1) : '-'}</TableCell>
+                    <TableCell className="text-gray-500">
+                      {row.last_sale_month ? formatMonthKey(row.last_sale_month) : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.excess_value !== null ? formatCurrency(row.excess_value) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+})
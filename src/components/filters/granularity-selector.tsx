@@ -0,0 +1,53 @@
+'use client'
+
+import { memo } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CalendarDays } from 'lucide-react'
+import { useGranularities } from '@/hooks/use-granularities'
+import { GRANULARITY_CONFIG, type Granularity } from '@/lib/utils/periods'
+
+interface GranularitySelectorProps {
+  value: Granularity
+  onChange: (granularity: Granularity) => void
+  /** Restrict the options (e.g. to the series one SKU has) */
+  granularities?: Granularity[]
+  className?: string
+}
+
+/**
+ * Monthly / weekly accuracy picker.
+ * Renders nothing unless both granularities have data.
+ */
+export const GranularitySelector = memo(function GranularitySelector({
+  value,
+  onChange,
+  granularities,
+  className,
+}: GranularitySelectorProps) {
+  const { granularities: available } = useGranularities()
+  const options = granularities ?? available
+
+  if (options.length < 2) return null
+
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as Granularity)}>
+      <SelectTrigger className={className ?? 'w-36'}>
+        <CalendarDays className="mr-2 h-4 w-4 text-gray-400" />
+        <SelectValue placeholder="Granularity" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((g) => (
+          <SelectItem key={g} value={g}>
+            {GRANULARITY_CONFIG[g].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+})
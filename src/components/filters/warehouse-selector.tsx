@@ -0,0 +1,59 @@
+'use client'
+
+import { memo } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Warehouse } from 'lucide-react'
+import { useFilterOptions } from '@/hooks/use-inventory'
+import type { WarehouseOption } from '@/types/database'
+
+const ALL_WAREHOUSES = 'all'
+
+interface WarehouseSelectorProps {
+  value: string | undefined
+  onChange: (warehouse: string | undefined) => void
+  /** Restrict the options (e.g. to the warehouses stocking one SKU) */
+  warehouses?: WarehouseOption[]
+  className?: string
+}
+
+/**
+ * Warehouse picker; "All warehouses" is the combined view.
+ * Renders nothing when fewer than two warehouses are known.
+ */
+export const WarehouseSelector = memo(function WarehouseSelector({
+  value,
+  onChange,
+  warehouses,
+  className,
+}: WarehouseSelectorProps) {
+  const { warehouses: allWarehouses } = useFilterOptions()
+  const options = warehouses ?? allWarehouses
+
+  if (options.length < 2) return null
+
+  return (
+    <Select
+      value={value ?? ALL_WAREHOUSES}
+      onValueChange={(v) => onChange(v === ALL_WAREHOUSES ? undefined : v)}
+    >
+      <SelectTrigger className={className ?? 'w-48'}>
+        <Warehouse className="mr-2 h-4 w-4 text-gray-400" />
+        <SelectValue placeholder="Warehouse" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_WAREHOUSES}>All warehouses</SelectItem>
+        {options.map((w) => (
+          <SelectItem key={w.warehouse} value={w.warehouse}>
+            {w.warehouse_name || w.warehouse}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+})
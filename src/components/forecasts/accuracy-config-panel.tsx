@@ -0,0 +1,338 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { mutate } from 'swr'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ACCURACY_TIERS,
+  DEFAULT_ACCURACY_CONFIG,
+  DEFAULT_TARGET_MAPE,
+  TIER_STYLES,
+  formatTierRange,
+  parseTierThresholds,
+  type AccuracyConfig,
+  type AccuracyTarget,
+} from '@/lib/utils/accuracy-tiers'
+import { ABC_CLASSES, XYZ_CLASSES, SEGMENT_TARGET_MAPE, type SegmentKey } from '@/lib/utils/segments'
+import { Loader2, Plus, Save, Target, Trash2 } from 'lucide-react'
+
+const CONFIG_URL = '/api/settings/accuracy'
+
+type OverrideScope = 'brand' | 'product_type'
+
+interface OverrideRow {
+  scope: OverrideScope
+  scope_value: string
+  target_mape: string
+}
+
+const SCOPE_LABELS: Record<OverrideScope, string> = {
+  brand: 'Brand',
+  product_type: 'Product type',
+}
+
+/**
+ * Admin editor for the MAPE tier thresholds and the accuracy targets
+ * (default, per brand / product type, per ABC/XYZ segment)
+ */
+export const AccuracyConfigPanel = memo(function AccuracyConfigPanel() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [thresholds, setThresholds] = useState<string[]>(DEFAULT_ACCURACY_CONFIG.thresholds.map(String))
+  const [defaultTarget, setDefaultTarget] = useState(String(DEFAULT_TARGET_MAPE))
+  const [segmentTargets, setSegmentTargets] = useState<Record<SegmentKey, string>>(
+    () => Object.fromEntries(
+      Object.entries(SEGMENT_TARGET_MAPE).map(([key, value]) => [key, String(value)])
+    ) as Record<SegmentKey, string>
+  )
+  const [overrides, setOverrides] = useState<OverrideRow[]>([])
+  const [brands, setBrands] = useState<string[]>([])
+  const [productTypes, setProductTypes] = useState<string[]>([])
+
+  useEffect(() => {
+    async function fetchConfig() {
+      try {
+        const [configRes, brandsRes, typesRes] = await Promise.all([
+          fetch(CONFIG_URL),
+          fetch('/api/filters/brands'),
+          fetch('/api/filters/product-types'),
+        ])
+        const config = (await configRes.json()) as AccuracyConfig
+        const brandsJson = await brandsRes.json()
+        const typesJson = await typesRes.json()
+
+        if (config.thresholds) setThresholds(config.thresholds.map(String))
+        const targets = config.targets || []
+        const fallback = targets.find(t => t.scope === 'default')
+        if (fallback) setDefaultTarget(String(fallback.target_mape))
+        setSegmentTargets(prev => {
+          const next = { ...prev }
+          for (const t of targets) {
+            if (t.scope === 'segment') next[t.scope_value as SegmentKey] = String(t.target_mape)
+          }
+          return next
+        })
+        setOverrides(
+          targets
+            .filter((t): t is AccuracyTarget & { scope: OverrideScope } =>
+              t.scope === 'brand' || t.scope === 'product_type'
+            )
+            .map(t => ({ scope: t.scope, scope_value: t.scope_value, target_mape: String(t.target_mape) }))
+        )
+        setBrands(brandsJson.brands || [])
+        setProductTypes(typesJson.productTypes || [])
+      } catch (error) {
+        console.error('Failed to fetch accuracy config:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchConfig()
+  }, [])
+
+  const parsedThresholds = parseTierThresholds(thresholds)
+
+  const updateOverride = (index: number, patch: Partial<OverrideRow>) => {
+    setOverrides(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  const save = async () => {
+    if (!parsedThresholds) {
+      setMessage({ type: 'error', text: 'Thresholds must be four increasing positive numbers' })
+      return
+    }
+
+    const targets: AccuracyTarget[] = [
+      { scope: 'default', scope_value: '', target_mape: Number(defaultTarget) },
+      ...Object.entries(segmentTargets).map(([key, value]) => ({
+        scope: 'segment' as const,
+        scope_value: key,
+        target_mape: Number(value),
+      })),
+      ...overrides
+        .filter(row => row.scope_value)
+        .map(row => ({ scope: row.scope, scope_value: row.scope_value, target_mape: Number(row.target_mape) })),
+    ]
+
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch(CONFIG_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ thresholds: parsedThresholds, targets }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to save')
+      await mutate(CONFIG_URL)
+      setMessage({ type: 'success', text: 'Accuracy targets saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : String(error) })
+    } finally {
+      setSaving(false)
+      setTimeout(() => setMessage(null), 4000)
+    }
+  }
+
+  if (loading) {
+    return <div className="h-64 animate-pulse rounded bg-gray-100" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            MAPE Tiers
+          </CardTitle>
+          <p className="text-sm text-gray-500">
+            Upper bound of each tier. Used by the accuracy distribution charts, badges and filters.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {ACCURACY_TIERS.slice(0, 4).map((tier, i) => (
+              <label key={tier} className="space-y-1 text-sm">
+                <span className="font-medium">{TIER_STYLES[tier].label} below (%)</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={thresholds[i]}
+                  onChange={(e) => setThresholds(prev => prev.map((v, j) => (j === i ? e.target.value : v)))}
+                />
+              </label>
+            ))}
+          </div>
+          {parsedThresholds ? (
+            <div className="flex flex-wrap gap-2">
+              {ACCURACY_TIERS.map(tier => (
+                <Badge key={tier} className={TIER_STYLES[tier].badgeClass}>
+                  {TIER_STYLES[tier].label} {formatTierRange(tier, parsedThresholds)}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-red-600">Thresholds must be positive and strictly increasing.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Accuracy Targets</CardTitle>
+          <p className="text-sm text-gray-500">
+            MAPE a SKU must stay at or under to meet its target. A brand override wins over a product type override;
+            every other SKU uses the default.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <label className="block max-w-xs space-y-1 text-sm">
+            <span className="font-medium">Default target MAPE (%)</span>
+            <Input type="number" min={0} step="any" value={defaultTarget} onChange={(e) => setDefaultTarget(e.target.value)} />
+          </label>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Overrides</div>
+            {overrides.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40">Applies to</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead className="w-32">Target MAPE (%)</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map((row, i) => {
+                    const options = row.scope === 'brand' ? brands : productTypes
+                    return (
+                      <TableRow key={i}>
+                        <TableCell>
+                          <Select
+                            value={row.scope}
+                            onValueChange={(value) => updateOverride(i, { scope: value as OverrideScope, scope_value: '' })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(SCOPE_LABELS) as OverrideScope[]).map(scope => (
+                                <SelectItem key={scope} value={scope}>{SCOPE_LABELS[scope]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select value={row.scope_value} onValueChange={(value) => updateOverride(i, { scope_value: value })}>
+                            <SelectTrigger>
+                              <SelectValue placeholder={`Select ${SCOPE_LABELS[row.scope].toLowerCase()}`} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {[...new Set([row.scope_value, ...options].filter(Boolean))].map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={row.target_mape}
+                            onChange={(e) => updateOverride(i, { target_mape: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOverrides(prev => prev.filter((_, j) => j !== i))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setOverrides(prev => [...prev, { scope: 'brand', scope_value: '', target_mape: defaultTarget }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add override
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">ABC / XYZ segment targets (%)</div>
+            <div className="grid max-w-md grid-cols-[auto_repeat(3,minmax(0,1fr))] items-center gap-2 text-sm">
+              <div />
+              {XYZ_CLASSES.map(xyz => (
+                <div key={xyz} className="text-center font-semibold">{xyz}</div>
+              ))}
+              {ABC_CLASSES.map(abc => (
+                <div key={abc} className="contents">
+                  <div className="pr-2 font-semibold">{abc}</div>
+                  {XYZ_CLASSES.map(xyz => {
+                    const key: SegmentKey = `${abc}${xyz}`
+                    return (
+                      <Input
+                        key={key}
+                        type="number"
+                        min={0}
+                        step="any"
+                        aria-label={`${key} target`}
+                        value={segmentTargets[key]}
+                        onChange={(e) => setSegmentTargets(prev => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center gap-4">
+        <Button onClick={save} disabled={saving || !parsedThresholds} className="gap-2">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Save
+        </Button>
+        {message && (
+          <span className={message.type === 'success' ? 'text-sm text-green-600' : 'text-sm text-red-600'}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+})
@@ -0,0 +1,252 @@
+'use client'
+
+import { memo, useState, useEffect, Fragment } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatPercentage } from '@/lib/utils/format-number'
+import { formatCurrencyCompact } from '@/lib/utils/format-currency'
+import { meetsTarget, resolveTargetMape } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+import type { AccuracyRollupGroup, AccuracyRollupSku, RollupGroupBy } from '@/types/database'
+import { Check, ChevronDown, ChevronRight, X } from 'lucide-react'
+
+type Weighting = 'revenue' | 'cost'
+
+const GROUP_BY_LABELS: Record<RollupGroupBy, string> = {
+  brand: 'Brand',
+  product_type: 'Product Type',
+  vendor: 'Vendor',
+}
+
+/**
+ * Value-weighted accuracy by brand, product type or primary vendor, with a
+ * per-group SKU drill-down
+ */
+export const AccuracyRollupTable = memo(function AccuracyRollupTable() {
+  const router = useRouter()
+  const [groupBy, setGroupBy] = useState<RollupGroupBy>('brand')
+  const [weighting, setWeighting] = useState<Weighting>('revenue')
+  const [groups, setGroups] = useState<AccuracyRollupGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [skus, setSkus] = useState<AccuracyRollupSku[]>([])
+  const [skusLoading, setSkusLoading] = useState(false)
+  const { config } = useAccuracyConfig()
+
+  useEffect(() => {
+    async function fetchRollup() {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/forecasts?view=rollup&groupBy=${groupBy}`)
+        const json = await response.json()
+        setGroups(json.groups || [])
+      } catch (error) {
+        console.error('Failed to fetch accuracy rollup:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchRollup()
+  }, [groupBy])
+
+  const handleGroupByChange = (value: string) => {
+    setGroupBy(value as RollupGroupBy)
+    setExpanded(null)
+  }
+
+  const handleGroupClick = async (groupKey: string) => {
+    if (expanded === groupKey) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(groupKey)
+    setSkus([])
+    setSkusLoading(true)
+    try {
+      const params = new URLSearchParams({ view: 'rollup', groupBy, group: groupKey })
+      const response = await fetch(`/api/forecasts?${params}`)
+      const json = await response.json()
+      setSkus(json.skus || [])
+    } catch (error) {
+      console.error('Failed to fetch rollup SKUs:', error)
+    } finally {
+      setSkusLoading(false)
+    }
+  }
+
+  const weightedMape = (g: AccuracyRollupGroup) =>
+    weighting === 'revenue' ? g.revenue_weighted_mape : g.cost_weighted_mape
+  const weightedWape = (g: AccuracyRollupGroup) =>
+    weighting === 'revenue' ? g.revenue_weighted_wape : g.cost_weighted_wape
+  const weightValue = (row: { revenue: number; cost_value: number }) =>
+    weighting === 'revenue' ? row.revenue : row.cost_value
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="text-lg">Value-Weighted Accuracy</CardTitle>
+            <p className="text-sm text-gray-500">
+              Error weighted by {weighting === 'revenue' ? 'revenue (price × units sold)' : 'cost (cost price × units sold)'}, so best sellers count more than low-value SKUs
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={groupBy} onValueChange={handleGroupByChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GROUP_BY_LABELS) as RollupGroupBy[]).map((key) => (
+                  <SelectItem key={key} value={key}>By {GROUP_BY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={weighting === 'revenue' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setWeighting('revenue')}
+            >
+              Revenue
+            </Button>
+            <Button
+              variant={weighting === 'cost' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setWeighting('cost')}
+            >
+              Cost
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{GROUP_BY_LABELS[groupBy]}</TableHead>
+                <TableHead>SKUs</TableHead>
+                <TableHead>{weighting === 'revenue' ? 'Revenue' : 'Cost'}</TableHead>
+                <TableHead>Simple MAPE</TableHead>
+                <TableHead>Weighted MAPE</TableHead>
+                <TableHead>Weighted WAPE</TableHead>
+                <TableHead>Target MAPE</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={7}>
+                      <div className="h-8 animate-pulse rounded bg-gray-100" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : groups.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                    No metrics to roll up
+                  </TableCell>
+                </TableRow>
+              ) : (
+                groups.map((group) => (
+                  <Fragment key={group.group_key}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-blue-50 transition-colors"
+                      onClick={() => handleGroupClick(group.group_key)}
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1">
+                          {expanded === group.group_key
+                            ? <ChevronDown className="h-4 w-4 text-gray-400" />
+                            : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                          {group.group_key}
+                        </div>
+                      </TableCell>
+                      <TableCell>{group.sku_count}</TableCell>
+                      <TableCell>{formatCurrencyCompact(weightValue(group))}</TableCell>
+                      <TableCell className="text-gray-500">{formatPercentage(group.avg_mape, 1)}</TableCell>
+                      <TableCell className="font-medium">{formatPercentage(weightedMape(group), 1)}</TableCell>
+                      <TableCell>{formatPercentage(weightedWape(group), 1)}</TableCell>
+                      <TargetCell mape={weightedMape(group)} target={resolveTargetMape(config, { [groupBy]: group.group_key })} />
+                    </TableRow>
+
+                    {expanded === group.group_key && (
+                      skusLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={7}>
+                            <div className="h-8 animate-pulse rounded bg-gray-100" />
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        skus.map((sku) => (
+                          <TableRow
+                            key={sku.sku}
+                            className="cursor-pointer bg-gray-50 hover:bg-blue-50 transition-colors"
+                            onClick={() => router.push(`/inventory/${encodeURIComponent(sku.sku)}`)}
+                          >
+                            <TableCell className="pl-10 font-mono text-sm" title={sku.title || undefined}>
+                              {sku.sku}
+                            </TableCell>
+                            <TableCell className="text-gray-500">
+                              {Math.round(sku.units)} units
+                            </TableCell>
+                            <TableCell>{formatCurrencyCompact(weightValue(sku))}</TableCell>
+                            <TableCell>{formatPercentage(sku.mape, 1)}</TableCell>
+                            <TableCell className="text-gray-500">
+                              {weightValue(group) > 0
+                                ? `${((weightValue(sku) / weightValue(group)) * 100).toFixed(1)}% of weight`
+                                : '-'}
+                            </TableCell>
+                            <TableCell>{formatPercentage(sku.wape, 1)}</TableCell>
+                            <TableCell />
+                          </TableRow>
+                        ))
+                      )
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+})
+
+/**
+ * Group target (brand / product type override or the default) and whether
+ * the weighted MAPE meets it
+ */
+function TargetCell({ mape, target }: { mape: number | null; target: number }) {
+  if (mape === null) {
+    return <TableCell className="text-gray-400">≤ {target}%</TableCell>
+  }
+  const met = meetsTarget(mape, target)
+  return (
+    <TableCell className={met ? 'text-green-600' : 'text-red-600'}>
+      <span className="flex items-center gap-1" title={met ? 'Meets target' : 'Misses target'}>
+        ≤ {target}%
+        {met ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+      </span>
+    </TableCell>
+  )
+}
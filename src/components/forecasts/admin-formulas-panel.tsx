@@ -138,29 +138,20 @@ WHERE mape IS NOT NULL`,
   },
   distribution: {
     name: 'Accuracy Distribution',
-    sql: `-- Bucket SKUs by MAPE accuracy
+    sql: `-- Bucket SKUs by MAPE tier; bounds come from
+-- app_settings.mape_tier_thresholds (default [10,20,30,50])
 SELECT
-  CASE
-    WHEN mape < 10 THEN 'Excellent (<10%)'
-    WHEN mape < 20 THEN 'Good (10-20%)'
-    WHEN mape < 30 THEN 'Acceptable (20-30%)'
-    WHEN mape < 50 THEN 'Poor (30-50%)'
-    ELSE 'Very Poor (>50%)'
-  END as accuracy_bucket,
+  mape_tier(mape) as accuracy_tier,
   COUNT(*) as count,
   ROUND(COUNT(*) * 100.0 / SUM(COUNT(*)) OVER (), 2) as percentage
 FROM forecast_metrics
 WHERE mape IS NOT NULL
 GROUP BY 1
-ORDER BY
-  CASE accuracy_bucket
-    WHEN 'Excellent (<10%)' THEN 1
-    WHEN 'Good (10-20%)' THEN 2
-    WHEN 'Acceptable (20-30%)' THEN 3
-    WHEN 'Poor (30-50%)' THEN 4
-    ELSE 5
-  END`,
-    notes: 'Groups SKUs into performance tiers',
+ORDER BY array_position(
+  ARRAY['excellent', 'good', 'acceptable', 'poor', 'very_poor'],
+  mape_tier(mape)
+)`,
+    notes: 'Groups SKUs into performance tiers (edited under Admin > Accuracy Targets)',
   },
   bestWorst: {
     name: 'Best/Worst Performers',
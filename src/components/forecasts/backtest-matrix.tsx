@@ -0,0 +1,120 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPercentage } from '@/lib/utils/format-number'
+import { getForecastSourceLabel, type ForecastSource } from '@/lib/utils/calculate-metrics'
+import type { BacktestResult } from '@/lib/utils/backtest'
+import { Layers } from 'lucide-react'
+
+interface BacktestResponse {
+  sku: string
+  leadTime: number | null
+  leadTimeHorizon: number | null
+  periods: number
+  snapshots: number
+  snapshotBacked: boolean
+  results: BacktestResult[]
+}
+
+interface BacktestMatrixProps {
+  sku: string
+}
+
+/**
+ * Horizon × metric matrix from the rolling-origin backtest
+ */
+export const BacktestMatrix = memo(function BacktestMatrix({ sku }: BacktestMatrixProps) {
+  const [data, setData] = useState<BacktestResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchBacktest() {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/forecasts/${encodeURIComponent(sku)}/backtest`)
+        if (!response.ok) return
+        setData(await response.json())
+      } catch (error) {
+        console.error('Failed to fetch backtest:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchBacktest()
+  }, [sku])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Accuracy by Forecast Horizon
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Rolling-origin backtest: each month is forecast 1, 2, 3 months and one lead time ahead
+          {data?.leadTime ? ` (lead time ${data.leadTime} days)` : ''}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="h-32 animate-pulse rounded bg-gray-100" />
+        ) : !data || data.results.every(r => r.horizons.every(h => h.origins === 0)) ? (
+          <div className="py-8 text-center text-gray-500 text-sm">
+            Not enough history to backtest this SKU
+          </div>
+        ) : (
+          data.results.map(result => (
+            <div key={result.provider} className="space-y-2">
+              <Badge variant="outline">
+                {getForecastSourceLabel(result.provider as ForecastSource).label}
+              </Badge>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Horizon</TableHead>
+                      <TableHead>Origins</TableHead>
+                      <TableHead>MAPE</TableHead>
+                      <TableHead>WAPE</TableHead>
+                      <TableHead>RMSE</TableHead>
+                      <TableHead>Bias</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.horizons.map(row => (
+                      <TableRow key={row.label} className={row.isLeadTime ? 'bg-blue-50' : ''}>
+                        <TableCell className="font-medium">{row.label}</TableCell>
+                        <TableCell>{row.origins}</TableCell>
+                        <TableCell>{formatPercentage(row.mape, 1)}</TableCell>
+                        <TableCell>{formatPercentage(row.wape, 1)}</TableCell>
+                        <TableCell>{row.rmse !== null ? row.rmse.toFixed(1) : '-'}</TableCell>
+                        <TableCell>{row.bias !== null ? row.bias.toFixed(1) : '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ))
+        )}
+        {data && !loading && (
+          <p className="text-xs text-gray-500">
+            {data.snapshotBacked
+              ? `IP rows use the forecast on record at each origin (${data.snapshots} sync snapshots).`
+              : 'Inventory Planner is not scored by horizon yet: it exports only its latest forecast per month, which was set after each origin, so scoring it would use information not available at the time. IP rows appear once forecast snapshots from earlier syncs cover past origins.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
@@ -0,0 +1,134 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatPercentage } from '@/lib/utils/format-number'
+import { BIAS_SIGN_RUN_LIMIT } from '@/lib/utils/calculate-metrics'
+import { GRANULARITY_CONFIG, type Granularity } from '@/lib/utils/periods'
+import type { BiasedForecast } from '@/types/database'
+import { TrendingDown, TrendingUp } from 'lucide-react'
+
+interface BiasedForecastsListProps {
+  /** Show per-warehouse metrics instead of the combined view */
+  warehouse?: string
+  /** Period length the metrics were scored at (default month) */
+  granularity?: Granularity
+}
+
+/**
+ * SKUs whose forecast errors are persistently one-sided: a significant
+ * t-statistic on the error series or a long run of same-sign errors
+ */
+export const BiasedForecastsList = memo(function BiasedForecastsList({
+  warehouse,
+  granularity = 'month',
+}: BiasedForecastsListProps) {
+  const router = useRouter()
+  const [forecasts, setForecasts] = useState<BiasedForecast[]>([])
+  const [count, setCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const unit = GRANULARITY_CONFIG[granularity].unit
+
+  useEffect(() => {
+    async function fetchBiased() {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({ view: 'biased', limit: '20' })
+        if (warehouse) params.set('warehouse', warehouse)
+        if (granularity !== 'month') params.set('granularity', granularity)
+        const response = await fetch(`/api/forecasts?${params}`)
+        const json = await response.json()
+        setForecasts(json.forecasts || [])
+        setCount(json.count || 0)
+      } catch (error) {
+        console.error('Failed to fetch biased forecasts:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchBiased()
+  }, [warehouse, granularity])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          Biased Forecasts
+          {count > 0 && <Badge variant="secondary">{count}</Badge>}
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          SKUs that are consistently over- or under-forecast: mean error significantly non-zero (t-test, 5%)
+          or the last {BIAS_SIGN_RUN_LIMIT}+ {unit}s all off in the same direction.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-48 animate-pulse rounded bg-gray-100" />
+        ) : forecasts.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">No SKUs with persistent bias</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Direction</TableHead>
+                  <TableHead>Bias</TableHead>
+                  <TableHead>Units per {unit}</TableHead>
+                  <TableHead>t-statistic</TableHead>
+                  <TableHead>Same-Sign Run</TableHead>
+                  <TableHead>MAPE</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {forecasts.map((forecast) => (
+                  <TableRow
+                    key={forecast.sku}
+                    className="cursor-pointer hover:bg-blue-50 transition-colors"
+                    onClick={() => router.push(`/inventory/${encodeURIComponent(forecast.sku)}`)}
+                  >
+                    <TableCell className="font-mono text-sm">{forecast.sku}</TableCell>
+                    <TableCell>
+                      {forecast.bias_direction === 'over' ? (
+                        <Badge className="gap-1 bg-yellow-100 text-yellow-800">
+                          <TrendingUp className="h-3 w-3" />
+                          Over
+                        </Badge>
+                      ) : (
+                        <Badge className="gap-1 bg-red-100 text-red-800">
+                          <TrendingDown className="h-3 w-3" />
+                          Under
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {forecast.bias_pct !== null
+                        ? `${forecast.bias_pct > 0 ? '+' : ''}${formatPercentage(forecast.bias_pct, 1)}`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {forecast.bias !== null ? `${forecast.bias > 0 ? '+' : ''}${forecast.bias.toFixed(1)}` : '-'}
+                    </TableCell>
+                    <TableCell>{forecast.bias_t_stat !== null ? forecast.bias_t_stat.toFixed(2) : '-'}</TableCell>
+                    <TableCell>{forecast.bias_sign_run ?? 0} {unit}s</TableCell>
+                    <TableCell>{formatPercentage(forecast.mape, 1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
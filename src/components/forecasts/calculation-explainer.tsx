@@ -3,10 +3,37 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { formatNumber } from '@/lib/utils/format-number'
+import type { CensoringMode } from '@/lib/utils/calculate-metrics'
+import { ACCURACY_TIERS, TIER_STYLES, formatTierRange } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+
+/**
+ * One month of the evaluation window; censored months were spent largely
+ * out of stock
+ */
+export interface ExplainerPeriod {
+  key: string
+  actual: number
+  forecast: number
+  censored: boolean
+  /** Share of the month out of stock (0-1) */
+  fraction?: number
+}
 
 interface CalculationExplainerProps {
   metric: string
   onClose: () => void
+  /** Per-month values for a single SKU; omitted for catalog-wide views */
+  periods?: ExplainerPeriod[]
+  censoringMode?: CensoringMode | null
+}
+
+const CENSORING_NOTES: Record<CensoringMode, string> = {
+  include: 'Censored months are scored like any other month.',
+  exclude: 'Censored months are left out of the score.',
+  adjust:
+    'Censored months are scored with sales scaled up to a full month in stock (actual / (1 - share out of stock)); months more than 80% out of stock are left out.',
 }
 
 const explanations: Record<
@@ -26,12 +53,9 @@ const explanations: Record<
       'MAPE calculates the average of absolute percentage errors across all periods. It tells you, on average, how far off forecasts are from actual values as a percentage.',
     example:
       'If Actual = 100, Forecast = 90, Error = |100-90|/100 = 10%\nIf Actual = 50, Forecast = 60, Error = |50-60|/50 = 20%\nMAPE = (10% + 20%) / 2 = 15%',
+    // Tier ranges are prepended from the configured thresholds
     interpretation: [
-      '< 10%: Excellent forecasting',
-      '10-20%: Good forecasting',
-      '20-30%: Acceptable forecasting',
-      '30-50%: Poor forecasting',
-      '> 50%: Very poor forecasting',
+      'Months spent largely out of stock are scored per the censored demand setting',
     ],
   },
   wape: {
@@ -45,6 +69,7 @@ const explanations: Record<
       'Lower is better',
       'Better than MAPE for mixed-volume catalogs',
       'Compare to MAPE - if WAPE << MAPE, low-volume items are hurting accuracy',
+      'Months spent largely out of stock are scored per the censored demand setting',
     ],
   },
   rmse: {
@@ -88,18 +113,115 @@ const explanations: Record<
       'Large bias: Check for systematic issues in forecasting model',
     ],
   },
+  mase: {
+    title: 'MASE - Mean Absolute Scaled Error',
+    formula: 'MASE = MEAN(|Actual - Forecast|) / MEAN(|y_t - y_{t-1}|) over the in-sample window',
+    description:
+      'MASE divides the forecast error by the error a naive forecast made on the training history before the evaluation window. Unlike WASE, the scale does not depend on the months being evaluated, so it is stable for short series and comparable to published benchmarks.',
+    example:
+      'In-sample history: 80, 100, 90, 110 (naive errors 20, 10, 20 -> scale 16.7)\nEvaluation errors: 10, 15 (MAE 12.5)\nMASE = 12.5 / 16.7 = 0.75',
+    interpretation: [
+      '< 1.0: Better than the in-sample naive forecast',
+      '> 1.0: Worse than the in-sample naive forecast',
+      'Requires history before the 12-month evaluation window',
+    ],
+  },
+  smase: {
+    title: 'Seasonal MASE',
+    formula: 'sMASE = MEAN(|Actual - Forecast|) / MEAN(|y_t - y_{t-12}|) over the in-sample window',
+    description:
+      'Same as MASE but the scale is the error of a seasonal naive forecast (same month last year). This is the fair yardstick for seasonal products.',
+    example:
+      'If last year each month differed from the year before by 30 units on average,\nand the forecast misses by 15 units on average:\nsMASE = 15 / 30 = 0.5',
+    interpretation: [
+      '< 1.0: Better than seasonal naive',
+      'Only calculated with at least 25 periods (a 12-period evaluation window plus 13 in-sample periods)',
+    ],
+  },
+  smape: {
+    title: 'sMAPE - Symmetric Mean Absolute Percentage Error',
+    formula: 'sMAPE = (1/n) * SUM(2 * |Actual - Forecast| / (|Actual| + |Forecast|)) * 100',
+    description:
+      'sMAPE divides the error by the average of actual and forecast instead of the actual alone, so it stays defined when sales are zero and is bounded between 0% and 200%.',
+    example:
+      'Actual = 100, Forecast = 80: 2*20/180 = 22.2%\nActual = 0, Forecast = 5: 2*5/5 = 200%\nsMAPE = (22.2% + 200%) / 2 = 111.1%',
+    interpretation: [
+      'Lower is better, bounded 0-200%',
+      'Handles zero-sales months that break MAPE',
+    ],
+  },
+  mae: {
+    title: 'MAE - Mean Absolute Error',
+    formula: 'MAE = (1/n) * SUM(|Actual - Forecast|)',
+    description:
+      'MAE is the average miss in units. It is the easiest metric to explain to planners and is the MAD used in the tracking signal.',
+    example:
+      'Errors: 5, 10, 15\nMAE = (5 + 10 + 15) / 3 = 10 units',
+    interpretation: [
+      'Same units as sales',
+      'Compare against average monthly demand for context',
+    ],
+  },
+  mdape: {
+    title: 'MdAPE - Median Absolute Percentage Error',
+    formula: 'MdAPE = MEDIAN(|Actual - Forecast| / Actual) * 100',
+    description:
+      'MdAPE takes the median instead of the mean of the percentage errors, so one disastrous month does not dominate the result.',
+    example:
+      'Percentage errors: 5%, 8%, 10%, 12%, 300%\nMAPE = 67% but MdAPE = 10%',
+    interpretation: [
+      'Lower is better',
+      'If MAPE >> MdAPE, a few outlier months drive the error',
+    ],
+  },
+  rmsse: {
+    title: 'RMSSE - Root Mean Squared Scaled Error',
+    formula: 'RMSSE = SQRT(MEAN((Actual - Forecast)^2) / MEAN((y_t - y_{t-1})^2) over the in-sample window)',
+    description:
+      'RMSSE is the scaled version of RMSE used in the M5 forecasting competition. It penalizes large misses like RMSE but is comparable across SKUs of different volume.',
+    example:
+      'In-sample squared naive errors average 400 (scale)\nEvaluation squared errors average 100\nRMSSE = SQRT(100 / 400) = 0.5',
+    interpretation: [
+      '< 1.0: Better than the in-sample naive forecast',
+      'More sensitive to big misses than MASE',
+    ],
+  },
+  tracking_signal: {
+    title: 'Tracking Signal',
+    formula: 'TS = SUM(Forecast - Actual) / MAD',
+    description:
+      'The tracking signal accumulates forecast errors and divides by the mean absolute deviation. A forecast that keeps missing in the same direction builds up a large signal, which is how planners spot drifting forecasts.',
+    example:
+      'Errors (forecast - actual): +10, +12, +8, +10\nMAD = 10, cumulative error = 40\nTS = 40 / 10 = +4.0 (at the review limit)',
+    interpretation: [
+      'Positive: running over-forecast; negative: running under-forecast',
+      '|TS| <= 4: Forecast in control',
+      '|TS| > 4: Forecast drifting - review the SKU',
+    ],
+  },
 }
 
 export function CalculationExplainer({
   metric,
   onClose,
+  periods,
+  censoringMode,
 }: CalculationExplainerProps) {
   const explanation = explanations[metric]
+  const { thresholds } = useAccuracyConfig()
 
   if (!explanation) {
     return null
   }
 
+  const censoredCount = periods?.filter(p => p.censored).length ?? 0
+  const interpretation = metric === 'mape'
+    ? [
+        ...ACCURACY_TIERS.map(tier => `${formatTierRange(tier, thresholds)}: ${TIER_STYLES[tier].label} forecasting`),
+        ...explanation.interpretation,
+      ]
+    : explanation.interpretation
+
   return (
     <Card className="mt-4">
       <CardHeader className="flex flex-row items-center justify-between">
@@ -135,11 +257,53 @@ export function CalculationExplainer({
             How to interpret
           </h4>
           <ul className="list-inside list-disc space-y-1 text-sm text-gray-700">
-            {explanation.interpretation.map((item, i) => (
+            {interpretation.map((item, i) => (
               <li key={i}>{item}</li>
             ))}
           </ul>
         </div>
+
+        {periods && periods.length > 0 && (
+          <div>
+            <h4 className="mb-1 text-sm font-medium text-gray-500">
+              Months evaluated
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-1 font-medium">Month</th>
+                  <th className="py-1 text-right font-medium">Actual</th>
+                  <th className="py-1 text-right font-medium">Forecast</th>
+                  <th className="py-1 text-right font-medium">Out of stock</th>
+                </tr>
+              </thead>
+              <tbody>
+                {periods.map(period => (
+                  <tr
+                    key={period.key}
+                    className={period.censored ? 'bg-amber-50 text-amber-900' : 'border-b border-gray-100'}
+                  >
+                    <td className="py-1">{period.key}</td>
+                    <td className="py-1 text-right">{formatNumber(period.actual)}</td>
+                    <td className="py-1 text-right">{formatNumber(period.forecast)}</td>
+                    <td className="py-1 text-right">
+                      {period.censored && period.fraction !== undefined
+                        ? `${Math.round(period.fraction * 100)}%`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {censoredCount > 0 && (
+              <p className="mt-2 text-xs text-amber-700">
+                {censoredCount} month{censoredCount === 1 ? '' : 's'} highlighted were censored by stockouts: sales
+                reflect missing stock rather than demand.
+                {censoringMode && ` ${CENSORING_NOTES[censoringMode]}`}
+              </p>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
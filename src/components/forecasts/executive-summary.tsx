@@ -3,6 +3,19 @@
 import { memo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { BENCHMARKS, BENCHMARK_IDS, interpretFVA } from '@/lib/utils/benchmarks'
+import {
+  TIER_STYLES,
+  getMAPETier,
+  meetsTarget,
+  resolveTargetMape,
+  type AccuracyTier,
+  type TierThresholds,
+} from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+import { formatCurrency, formatCurrencyCompact } from '@/lib/utils/format-currency'
+import { formatNumber } from '@/lib/utils/format-number'
+import type { ErrorCostSummary } from '@/types/database'
 import {
   TrendingUp,
   TrendingDown,
@@ -20,28 +33,38 @@ interface ExecutiveSummaryProps {
     wase: number | null
     bias: number | null
     naiveMape: number | null
+    fva?: number | null
+    fvaCount?: number
+    benchmarkFva?: Record<string, number>
+    biasAlerts?: number
     skuCount: number
   }
   distribution: Array<{
+    tier: AccuracyTier
     name: string
     count: number
     percentage: number
   }>
+  /** Dollar cost of forecast error (SKUs with a cost price) */
+  errorCost?: ErrorCostSummary | null
 }
 
 export const ExecutiveSummary = memo(function ExecutiveSummary({
   metrics,
   distribution,
+  errorCost,
 }: ExecutiveSummaryProps) {
   const { mape, wape, wase, bias, naiveMape, skuCount } = metrics
+  const { config, thresholds } = useAccuracyConfig()
+  const targetMape = resolveTargetMape(config)
 
   // Calculate key insights
-  const excellentCount = distribution.find((d) => d.name.includes('Excellent'))?.count || 0
-  const poorCount = distribution.find((d) => d.name.includes('Poor') && !d.name.includes('Very'))?.count || 0
-  const veryPoorCount = distribution.find((d) => d.name.includes('Very Poor'))?.count || 0
+  const excellentCount = distribution.find((d) => d.tier === 'excellent')?.count || 0
+  const poorCount = distribution.find((d) => d.tier === 'poor')?.count || 0
+  const veryPoorCount = distribution.find((d) => d.tier === 'very_poor')?.count || 0
   const totalProblematic = poorCount + veryPoorCount
 
-  const accuracyRating = getOverallRating(mape)
+  const accuracyRating = getOverallRating(mape, thresholds, targetMape)
   const beatsNaive = wase !== null && wase < 1
   const forecastBias = getBiasInsight(bias)
   const volumeAccuracy = getVolumeAccuracyInsight(mape, wape)
@@ -130,11 +153,76 @@ export const ExecutiveSummary = memo(function ExecutiveSummary({
           />
         </div>
 
+        {/* Forecast Value Added vs benchmarks */}
+        {metrics.fva != null && (
+          <div className="mt-6 border-t pt-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h4 className="font-medium">Forecast Value Added</h4>
+              <span className="text-xs text-gray-500">
+                Avg {metrics.fva > 0 ? '+' : ''}{metrics.fva.toFixed(1)} pts vs strongest benchmark
+                ({interpretFVA(metrics.fva).toLowerCase()}) across {metrics.fvaCount} SKUs with IP forecasts
+              </span>
+            </div>
+            <div className="grid gap-2 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+              {BENCHMARK_IDS.map((id) => {
+                const value = metrics.benchmarkFva?.[id]
+                return (
+                  <div key={id} className="rounded-lg bg-gray-50 p-2 text-center" title={BENCHMARKS[id].description}>
+                    <div className={`text-sm font-semibold ${value == null ? 'text-gray-400' : value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {value == null ? 'N/A' : `${value > 0 ? '+' : ''}${value.toFixed(1)}`}
+                    </div>
+                    <div className="text-xs text-gray-500">{BENCHMARKS[id].label}</div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Dollar cost of forecast error */}
+        {errorCost && errorCost.skuCount > 0 && (
+          <div className="mt-6 border-t pt-4">
+            <div className="mb-3 flex items-center justify-between">
+              <h4 className="flex items-center gap-2 font-medium">
+                <DollarSign className="h-4 w-4 text-gray-500" />
+                Cost of Forecast Error
+              </h4>
+              <span className="text-xs text-gray-500">
+                {formatNumber(errorCost.skuCount)} SKUs with a cost price · holding cost {errorCost.holdingCostRate}% per year
+              </span>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-2xl font-bold" title={formatCurrency(errorCost.totalCost)}>
+                  {formatCurrencyCompact(errorCost.totalCost)}
+                </div>
+                <div className="text-xs text-gray-500">Total cost of error over the evaluation window</div>
+              </div>
+              <div className="rounded-lg bg-yellow-50 p-3">
+                <div className="text-2xl font-bold text-yellow-700" title={formatCurrency(errorCost.carryingCost)}>
+                  {formatCurrencyCompact(errorCost.carryingCost)}
+                </div>
+                <div className="text-xs text-gray-600">
+                  Carrying cost of {formatNumber(Math.round(errorCost.overForecastUnits))} over-forecast units
+                </div>
+              </div>
+              <div className="rounded-lg bg-red-50 p-3">
+                <div className="text-2xl font-bold text-red-700" title={formatCurrency(errorCost.lostMargin)}>
+                  {formatCurrencyCompact(errorCost.lostMargin)}
+                </div>
+                <div className="text-xs text-gray-600">
+                  Lost margin on {formatNumber(Math.round(errorCost.underForecastUnits))} under-forecast units
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Key Recommendations */}
         <div className="mt-6 border-t pt-4">
           <h4 className="mb-3 font-medium">Key Recommendations</h4>
           <div className="grid gap-2 md:grid-cols-2">
-            {getRecommendations(metrics, distribution).map((rec, i) => (
+            {getRecommendations(metrics, distribution, thresholds, targetMape).map((rec, i) => (
               <div
                 key={i}
                 className={`flex items-start gap-2 rounded-lg p-3 ${rec.priority === 'high' ? 'bg-red-50' : rec.priority === 'medium' ? 'bg-yellow-50' : 'bg-blue-50'}`}
@@ -191,8 +279,40 @@ function InsightCard({
   )
 }
 
-// Rating helper - uses 5-tier system consistent with chart
-function getOverallRating(mape: number | null) {
+const TIER_RATINGS: Record<AccuracyTier, {
+  icon: React.ReactNode
+  variant: 'success' | 'warning' | 'destructive'
+  insight: string
+}> = {
+  excellent: {
+    icon: <CheckCircle className="h-5 w-5 text-green-500" />,
+    variant: 'success',
+    insight: 'Forecasts are highly reliable for planning',
+  },
+  good: {
+    icon: <TrendingUp className="h-5 w-5 text-lime-500" />,
+    variant: 'success',
+    insight: 'Solid forecasting with room for improvement',
+  },
+  acceptable: {
+    icon: <TrendingDown className="h-5 w-5 text-yellow-500" />,
+    variant: 'warning',
+    insight: 'Consider reviewing forecast settings for key SKUs',
+  },
+  poor: {
+    icon: <AlertTriangle className="h-5 w-5 text-orange-500" />,
+    variant: 'warning',
+    insight: 'Forecasts need attention - review methodology',
+  },
+  very_poor: {
+    icon: <AlertTriangle className="h-5 w-5 text-red-500" />,
+    variant: 'destructive',
+    insight: 'High error rate - significant review needed',
+  },
+}
+
+// Rating helper - uses the configured tiers, consistent with the chart
+function getOverallRating(mape: number | null, thresholds: TierThresholds, targetMape: number) {
   if (mape === null) {
     return {
       icon: <AlertTriangle className="h-5 w-5 text-gray-400" />,
@@ -201,43 +321,14 @@ function getOverallRating(mape: number | null) {
       insight: 'Run a sync to calculate forecast accuracy',
     }
   }
-  if (mape < 10) {
-    return {
-      icon: <CheckCircle className="h-5 w-5 text-green-500" />,
-      badge: 'Excellent',
-      variant: 'success' as const,
-      insight: 'Forecasts are highly reliable for planning',
-    }
-  }
-  if (mape < 20) {
-    return {
-      icon: <TrendingUp className="h-5 w-5 text-lime-500" />,
-      badge: 'Good',
-      variant: 'success' as const,
-      insight: 'Solid forecasting with room for improvement',
-    }
-  }
-  if (mape < 30) {
-    return {
-      icon: <TrendingDown className="h-5 w-5 text-yellow-500" />,
-      badge: 'Acceptable',
-      variant: 'warning' as const,
-      insight: 'Consider reviewing forecast settings for key SKUs',
-    }
-  }
-  if (mape < 50) {
-    return {
-      icon: <AlertTriangle className="h-5 w-5 text-orange-500" />,
-      badge: 'Poor',
-      variant: 'warning' as const,
-      insight: 'Forecasts need attention - review methodology',
-    }
-  }
+  const tier = getMAPETier(mape, thresholds)
+  const rating = TIER_RATINGS[tier]
+  const target = meetsTarget(mape, targetMape) ? `meets the ${targetMape}% target` : `misses the ${targetMape}% target`
   return {
-    icon: <AlertTriangle className="h-5 w-5 text-red-500" />,
-    badge: 'Very Poor',
-    variant: 'destructive' as const,
-    insight: 'High error rate - significant review needed',
+    icon: rating.icon,
+    badge: TIER_STYLES[tier].label,
+    variant: rating.variant,
+    insight: `${rating.insight} (${target})`,
   }
 }
 
@@ -291,18 +382,20 @@ function getVolumeAccuracyInsight(mape: number | null, wape: number | null) {
 // Recommendations generator
 function getRecommendations(
   metrics: ExecutiveSummaryProps['metrics'],
-  distribution: ExecutiveSummaryProps['distribution']
+  distribution: ExecutiveSummaryProps['distribution'],
+  thresholds: TierThresholds,
+  targetMape: number
 ) {
   const recommendations: Array<{ title: string; action: string; priority: 'high' | 'medium' | 'low' }> = []
 
   const { mape, wape, wase, bias, skuCount } = metrics
-  const veryPoorCount = distribution.find((d) => d.name.includes('Very Poor'))?.count || 0
+  const veryPoorCount = distribution.find((d) => d.tier === 'very_poor')?.count || 0
 
   // High priority recommendations
-  if (mape !== null && mape > 30) {
+  if (mape !== null && mape >= thresholds[2]) {
     recommendations.push({
       title: 'Review Forecast Model',
-      action: 'MAPE exceeds 30% - consider adjusting forecast parameters or methodology',
+      action: `MAPE exceeds ${thresholds[2]}% - consider adjusting forecast parameters or methodology`,
       priority: 'high',
     })
   }
@@ -315,6 +408,14 @@ function getRecommendations(
     })
   }
 
+  if (metrics.fva != null && metrics.fva < 0) {
+    recommendations.push({
+      title: 'Benchmarks Beat the IP Forecast',
+      action: `A simple benchmark is ${Math.abs(metrics.fva).toFixed(1)} WAPE points more accurate on average - review forecast settings`,
+      priority: 'high',
+    })
+  }
+
   if (veryPoorCount > skuCount * 0.1) {
     recommendations.push({
       title: `${veryPoorCount} SKUs with Very Poor Accuracy`,
@@ -324,6 +425,14 @@ function getRecommendations(
   }
 
   // Medium priority
+  if (metrics.biasAlerts) {
+    recommendations.push({
+      title: `${metrics.biasAlerts} SKUs with Persistent Bias`,
+      action: 'Review the Biased Forecasts list - these errors are systematic, not noise',
+      priority: 'medium',
+    })
+  }
+
   if (bias !== null && Math.abs(bias) > 10) {
     recommendations.push({
       title: bias > 0 ? 'Systematic Over-forecasting' : 'Systematic Under-forecasting',
@@ -341,7 +450,7 @@ function getRecommendations(
   }
 
   // Low priority / positive
-  if (mape !== null && mape < 15) {
+  if (meetsTarget(mape, targetMape)) {
     recommendations.push({
       title: 'Maintain Current Approach',
       action: 'Forecast accuracy is strong - continue monitoring for changes',
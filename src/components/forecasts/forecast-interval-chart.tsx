@@ -0,0 +1,180 @@
+'use client'
+
+import { memo, useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { formatNumber, formatPercentage } from '@/lib/utils/format-number'
+import { GRANULARITY_CONFIG, parsePeriodSeries, type Granularity } from '@/lib/utils/periods'
+import { predictionInterval, quantilesFromMetric } from '@/lib/utils/intervals'
+import type { ForecastMetric } from '@/types/database'
+import { LineChart as LineChartIcon } from 'lucide-react'
+
+// Periods of history and of future forecast drawn
+const HISTORY_PERIODS = 12
+const FUTURE_PERIODS = 12
+
+type IntervalMetric = Pick<
+  ForecastMetric,
+  | 'interval_q025'
+  | 'interval_q10'
+  | 'interval_q90'
+  | 'interval_q975'
+  | 'coverage_80'
+  | 'coverage_95'
+  | 'pinball_loss'
+  | 'interval_periods'
+>
+
+interface ForecastIntervalChartProps {
+  /** {year: {period: qty}} actuals (orders_by_month / orders_by_week) */
+  actualSeries: unknown
+  /** {year: {period: qty}} forecast (forecast_by_period / forecast_by_week) */
+  forecastSeries: unknown
+  /** Forecast for the current period */
+  currentForecast: number | null
+  metrics: IntervalMetric | null
+  granularity?: Granularity
+}
+
+interface ChartPoint {
+  key: string
+  actual?: number
+  forecast?: number
+  band80?: [number, number]
+  band95?: [number, number]
+}
+
+/**
+ * Recent actuals and the forecast ahead, with empirical 80% / 95% prediction
+ * intervals from the SKU's own error history
+ */
+export const ForecastIntervalChart = memo(function ForecastIntervalChart({
+  actualSeries,
+  forecastSeries,
+  currentForecast,
+  metrics,
+  granularity = 'month',
+}: ForecastIntervalChartProps) {
+  const unit = GRANULARITY_CONFIG[granularity].unit
+  const quantiles = metrics ? quantilesFromMetric(metrics) : null
+
+  const points = useMemo(() => {
+    const actual = parsePeriodSeries(actualSeries, granularity).slice(-HISTORY_PERIODS)
+    const forecast = parsePeriodSeries(forecastSeries, granularity)
+    const lastActualKey = actual[actual.length - 1]?.key ?? ''
+    const forecastByKey = new Map(forecast.map(f => [f.key, f.value]))
+
+    const data: ChartPoint[] = actual.map(a => ({
+      key: a.key,
+      actual: a.value,
+      forecast: forecastByKey.get(a.key),
+    }))
+
+    for (const f of forecast.filter(f => f.key > lastActualKey).slice(0, FUTURE_PERIODS)) {
+      const point: ChartPoint = { key: f.key, forecast: f.value }
+      if (quantiles) {
+        const i80 = predictionInterval(f.value, quantiles, 80)
+        const i95 = predictionInterval(f.value, quantiles, 95)
+        point.band80 = [i80.lower, i80.upper]
+        point.band95 = [i95.lower, i95.upper]
+      }
+      data.push(point)
+    }
+    return data
+  }, [actualSeries, forecastSeries, granularity, quantiles])
+
+  const current80 = quantiles && currentForecast !== null ? predictionInterval(currentForecast, quantiles, 80) : null
+  const current95 = quantiles && currentForecast !== null ? predictionInterval(currentForecast, quantiles, 95) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <LineChartIcon className="h-4 w-4" />
+          Forecast with Prediction Intervals
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          {quantiles
+            ? `Bands add this SKU's historical forecast errors (10th-90th and 2.5th-97.5th percentiles) to each future ${unit}'s forecast`
+            : `Intervals need at least 6 ${unit}s of forecast error history`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current80 && current95 && (
+          <div className="grid gap-3 md:grid-cols-3">
+            <div className="rounded-lg bg-gray-50 p-3">
+              <div className="text-xs text-gray-500">Current {unit} forecast</div>
+              <div className="text-lg font-semibold">{formatNumber(currentForecast)}</div>
+            </div>
+            <div className="rounded-lg bg-blue-50 p-3">
+              <div className="text-xs text-gray-500">80% interval</div>
+              <div className="text-lg font-semibold">
+                {formatNumber(Math.round(current80.lower))} – {formatNumber(Math.round(current80.upper))}
+              </div>
+            </div>
+            <div className="rounded-lg bg-blue-50/50 p-3">
+              <div className="text-xs text-gray-500">95% interval</div>
+              <div className="text-lg font-semibold">
+                {formatNumber(Math.round(current95.lower))} – {formatNumber(Math.round(current95.upper))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {points.length > 0 ? (
+          <ResponsiveContainer width="100%" height={280}>
+            <ComposedChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="key" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip
+                formatter={(value, name) => [
+                  Array.isArray(value)
+                    ? `${formatNumber(Math.round(Number(value[0])))} – ${formatNumber(Math.round(Number(value[1])))}`
+                    : formatNumber(Math.round(Number(value) || 0)),
+                  String(name),
+                ]}
+                contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Area dataKey="band95" name="95% interval" stroke="none" fill="#bfdbfe" fillOpacity={0.5} />
+              <Area dataKey="band80" name="80% interval" stroke="none" fill="#60a5fa" fillOpacity={0.4} />
+              <Line dataKey="actual" name="Actual" stroke="#111827" strokeWidth={2} dot={{ r: 2 }} />
+              <Line
+                dataKey="forecast"
+                name="Forecast"
+                stroke="#3b82f6"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                dot={false}
+                connectNulls
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-[200px] flex items-center justify-center text-gray-500">
+            No sales or forecast data available
+          </div>
+        )}
+
+        {metrics?.coverage_80 != null && metrics.coverage_95 != null && (
+          <p className="text-xs text-gray-500">
+            Backtest over {metrics.interval_periods} {unit}s (each interval built from earlier errors only):
+            80% interval hit {formatPercentage(metrics.coverage_80, 0)}, 95% interval
+            hit {formatPercentage(metrics.coverage_95, 0)}, pinball loss {metrics.pinball_loss?.toFixed(1) ?? '-'} units.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
@@ -0,0 +1,230 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatNumberCompact, formatPercentage } from '@/lib/utils/format-number'
+import { HIERARCHY_LEVEL_LABELS, type HierarchyNode } from '@/lib/utils/hierarchy'
+import type { Granularity } from '@/lib/utils/periods'
+
+type GroupLevel = 'brand' | 'product_type'
+
+interface HierarchyData {
+  total: HierarchyNode | null
+  brands: HierarchyNode[]
+  productTypes: HierarchyNode[]
+}
+
+interface HierarchyAccuracyTableProps {
+  /** Aggregate one warehouse's metrics instead of the combined view */
+  warehouse?: string
+  /** Period length the metrics were scored at (default month) */
+  granularity?: Granularity
+}
+
+/**
+ * Accuracy of summed actuals vs summed forecasts at total, brand and product
+ * type level, split into volume error (what survives aggregation) and mix
+ * error (SKU errors that cancel out within the group)
+ */
+export const HierarchyAccuracyTable = memo(function HierarchyAccuracyTable({
+  warehouse,
+  granularity = 'month',
+}: HierarchyAccuracyTableProps) {
+  const [level, setLevel] = useState<GroupLevel>('brand')
+  const [data, setData] = useState<HierarchyData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchHierarchy() {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({ view: 'hierarchy' })
+        if (warehouse) params.set('warehouse', warehouse)
+        if (granularity !== 'month') params.set('granularity', granularity)
+        const response = await fetch(`/api/forecasts?${params}`)
+        const json = await response.json()
+        setData(json.error ? null : json)
+      } catch (error) {
+        console.error('Failed to fetch hierarchy accuracy:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchHierarchy()
+  }, [warehouse, granularity])
+
+  const groups = data ? (level === 'brand' ? data.brands : data.productTypes) : []
+  const total = data?.total ?? null
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <SummaryCard
+          title="SKU-Level WAPE"
+          value={total?.sku_wape}
+          description="Σ SKU absolute errors / Σ actuals"
+          loading={loading}
+        />
+        <SummaryCard
+          title="Mean SKU WAPE"
+          value={total?.mean_sku_wape}
+          description="Unweighted mean of each SKU's WAPE"
+          loading={loading}
+        />
+        <SummaryCard
+          title="Total-Level WAPE"
+          value={total?.aggregate_wape}
+          description="Error on summed actuals vs summed forecasts (volume error)"
+          loading={loading}
+        />
+        <SummaryCard
+          title="Mix Share"
+          value={total?.mix_share}
+          description="Share of SKU-level error that cancels out in the total"
+          loading={loading}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle className="text-lg">Aggregate vs SKU-Level Error</CardTitle>
+              <p className="text-sm text-gray-500">
+                Over- and under-forecasts on different SKUs cancel out when buying at the group level.
+                Volume error is what remains; mix error is the part that cancels.
+              </p>
+            </div>
+            <Select value={level} onValueChange={(value) => setLevel(value as GroupLevel)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['brand', 'product_type'] as GroupLevel[]).map((key) => (
+                  <SelectItem key={key} value={key}>By {HIERARCHY_LEVEL_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{HIERARCHY_LEVEL_LABELS[level]}</TableHead>
+                  <TableHead>SKUs</TableHead>
+                  <TableHead>Actual Units</TableHead>
+                  <TableHead>SKU-Level WAPE</TableHead>
+                  <TableHead>Mean SKU WAPE</TableHead>
+                  <TableHead>Aggregate WAPE</TableHead>
+                  <TableHead>Aggregate Bias</TableHead>
+                  <TableHead>Mix vs Volume</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={8}>
+                        <div className="h-8 animate-pulse rounded bg-gray-100" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : groups.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="py-8 text-center text-gray-500">
+                      No metrics to aggregate
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  [...groups, ...(total ? [total] : [])].map((node) => (
+                    <TableRow
+                      key={`${node.level}-${node.group_key}`}
+                      className={node.level === 'total' ? 'bg-gray-50 font-medium' : undefined}
+                    >
+                      <TableCell className="font-medium">{node.group_key}</TableCell>
+                      <TableCell>{node.sku_count}</TableCell>
+                      <TableCell>{formatNumberCompact(node.actual_units)}</TableCell>
+                      <TableCell>{formatPercentage(node.sku_wape, 1)}</TableCell>
+                      <TableCell className="text-gray-500">{formatPercentage(node.mean_sku_wape, 1)}</TableCell>
+                      <TableCell className="font-medium">{formatPercentage(node.aggregate_wape, 1)}</TableCell>
+                      <TableCell>
+                        {node.aggregate_bias_pct !== null
+                          ? `${node.aggregate_bias_pct > 0 ? '+' : ''}${formatPercentage(node.aggregate_bias_pct, 1)}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <MixBar mixShare={node.mix_share} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+})
+
+function SummaryCard({
+  title,
+  value,
+  description,
+  loading,
+}: {
+  title: string
+  value: number | null | undefined
+  description: string
+  loading: boolean
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm font-medium text-gray-500">{title}</p>
+        {loading ? (
+          <div className="mt-2 h-8 w-20 animate-pulse rounded bg-gray-100" />
+        ) : (
+          <p className="mt-1 text-2xl font-bold">{formatPercentage(value, 1)}</p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">{description}</p>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Split of SKU-level error into mix (cancels out) and volume (remains)
+ */
+function MixBar({ mixShare }: { mixShare: number | null }) {
+  if (mixShare === null) return <span className="text-gray-400">-</span>
+  const mix = Math.min(Math.max(mixShare, 0), 100)
+  return (
+    <div className="w-36 space-y-1">
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className="h-full bg-blue-400" style={{ width: `${mix}%` }} />
+        <div className="h-full bg-orange-400" style={{ width: `${100 - mix}%` }} />
+      </div>
+      <p className="text-xs text-gray-500">
+        {mix.toFixed(0)}% mix · {(100 - mix).toFixed(0)}% volume
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { formatCurrency, formatCurrencyCompact } from '@/lib/utils/format-currency'
+import { formatNumber, formatPercentage } from '@/lib/utils/format-number'
+import { formatMonthKey } from '@/lib/utils/format-date'
+import {
+  LOST_REVENUE_CAUSES,
+  LOST_REVENUE_CAUSE_LABELS,
+  type LostRevenueCause,
+} from '@/lib/utils/lost-revenue'
+import type { LostRevenueByCause, LostRevenueReportRow } from '@/types/database'
+import { TrendingDown } from 'lucide-react'
+
+interface LostRevenueData {
+  rows: LostRevenueReportRow[]
+  byMonth: ({ month: string } & LostRevenueByCause)[]
+  summary: {
+    lost_revenue: number
+    by_cause: LostRevenueByCause
+    sku_count: number
+    stockout_months: number
+    forecasted_lost_revenue: number
+  }
+}
+
+// SKUs listed in the table (largest lost revenue first)
+const TABLE_LIMIT = 50
+
+const CAUSE_COLORS: Record<LostRevenueCause, string> = {
+  under_forecast: '#ef4444',
+  lead_time_overrun: '#f59e0b',
+  other: '#9ca3af',
+}
+
+/**
+ * Revenue lost in past stockout months, attributed to under-forecasting,
+ * lead-time overrun and other causes
+ */
+export const LostRevenueReport = memo(function LostRevenueReport() {
+  const [data, setData] = useState<LostRevenueData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch('/api/forecasts?view=lost-revenue')
+        const json = await response.json()
+        setData(json.error ? null : json)
+      } catch (error) {
+        console.error('Failed to fetch lost revenue attribution:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReport()
+  }, [])
+
+  const summary = data?.summary
+  const rows = data?.rows.slice(0, TABLE_LIMIT) ?? []
+  const chartData = (data?.byMonth ?? []).map(m => ({ ...m, label: formatMonthKey(m.month) }))
+  const share = (value: number) => (summary && summary.lost_revenue > 0 ? (value / summary.lost_revenue) * 100 : null)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-sm text-gray-500">Lost Revenue</div>
+            <div className="text-2xl font-bold">{summary ? formatCurrencyCompact(summary.lost_revenue) : '-'}</div>
+            <p className="text-xs text-gray-500">
+              {summary
+                ? `${formatNumber(summary.stockout_months)} stockout months across ${formatNumber(summary.sku_count)} SKUs`
+                : 'Stockout months in the last 12 months'}
+            </p>
+          </CardContent>
+        </Card>
+        {LOST_REVENUE_CAUSES.map(cause => (
+          <Card key={cause}>
+            <CardContent className="pt-6">
+              <div className="text-sm text-gray-500 flex items-center gap-2">
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: CAUSE_COLORS[cause] }} />
+                {LOST_REVENUE_CAUSE_LABELS[cause]}
+              </div>
+              <div className="text-2xl font-bold">
+                {summary ? formatCurrencyCompact(summary.by_cause[cause]) : '-'}
+              </div>
+              <p className="text-xs text-gray-500">
+                {summary && share(summary.by_cause[cause]) !== null
+                  ? `${formatPercentage(share(summary.by_cause[cause]), 0)} of lost revenue`
+                  : '-'}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            Lost Revenue by Cause
+          </CardTitle>
+          <p className="text-sm text-gray-500">
+            Demand missed in each stockout month, at selling price. Under-forecasting covers the units by which
+            demand over the lead time beat the forecast on record; lead-time overrun the stockout days beyond the
+            lead time.
+            {summary && summary.forecasted_lost_revenue > 0 && (
+              <> Inventory Planner&apos;s forward-looking forecasted lost revenue for these SKUs
+              is {formatCurrency(summary.forecasted_lost_revenue)}.</>
+            )}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="h-[250px] animate-pulse rounded bg-gray-100" />
+          ) : chartData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} tickFormatter={value => formatCurrencyCompact(Number(value))} />
+                <Tooltip
+                  formatter={(value, name) => [formatCurrency(Number(value) || 0), String(name)]}
+                  contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {LOST_REVENUE_CAUSES.map(cause => (
+                  <Bar
+                    key={cause}
+                    dataKey={cause}
+                    name={LOST_REVENUE_CAUSE_LABELS[cause]}
+                    stackId="cause"
+                    fill={CAUSE_COLORS[cause]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="h-[200px] flex items-center justify-center text-gray-500">
+              No stockout months with lost revenue
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">SKUs by Lost Revenue</CardTitle>
+          <p className="text-sm text-gray-500">
+            {data && data.rows.length > TABLE_LIMIT
+              ? `Top ${TABLE_LIMIT} of ${formatNumber(data.rows.length)} SKUs`
+              : 'SKUs with lost revenue in a stockout month'}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Stockout Months</TableHead>
+                  <TableHead>Lost Units</TableHead>
+                  <TableHead>Lost Revenue</TableHead>
+                  {LOST_REVENUE_CAUSES.map(cause => (
+                    <TableHead key={cause}>{LOST_REVENUE_CAUSE_LABELS[cause]}</TableHead>
+                  ))}
+                  <TableHead>Main Cause</TableHead>
+                  <TableHead className="text-right">IP Forecasted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={9}>
+                        <div className="h-8 animate-pulse rounded bg-gray-100" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="py-8 text-center text-gray-500">
+                      No lost revenue found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map(row => (
+                    <TableRow key={row.sku}>
+                      <TableCell>
+                        <Link
+                          href={`/inventory/${encodeURIComponent(row.sku)}`}
+                          className="font-mono text-sm text-blue-600 hover:underline"
+                        >
+                          {row.sku}
+                        </Link>
+                        {row.title && <div className="max-w-[200px] truncate text-xs text-gray-500">{row.title}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-600">
+                        {row.months.map(m => `${formatMonthKey(m.month)} (${formatPercentage(m.fraction * 100, 0)})`).join(', ')}
+                      </TableCell>
+                      <TableCell>{formatNumber(Math.round(row.lost_units))}</TableCell>
+                      <TableCell className="font-medium">{formatCurrency(row.lost_revenue)}</TableCell>
+                      {LOST_REVENUE_CAUSES.map(cause => (
+                        <TableCell key={cause}>
+                          {row.by_cause[cause] > 0 ? formatCurrency(row.by_cause[cause]) : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        {row.primary_cause && (
+                          <Badge
+                            variant="outline"
+                            style={{ borderColor: CAUSE_COLORS[row.primary_cause], color: CAUSE_COLORS[row.primary_cause] }}
+                          >
+                            {LOST_REVENUE_CAUSE_LABELS[row.primary_cause]}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-500">
+                        {row.forecasted_lost_revenue ? formatCurrency(row.forecasted_lost_revenue) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+})
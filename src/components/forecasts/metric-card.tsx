@@ -1,6 +1,11 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { formatPercentage } from '@/lib/utils/format-number'
 import { cn } from '@/lib/utils'
+import { TRACKING_SIGNAL_LIMIT } from '@/lib/utils/calculate-metrics'
+import { DEFAULT_TIER_THRESHOLDS, type TierThresholds } from '@/lib/utils/accuracy-tiers'
+
+// Ratio metrics where 1.0 means "as good as the naive method"
+const SCALED_METRICS = ['WASE', 'MASE', 'Seasonal MASE', 'RMSSE']
 
 interface MetricCardProps {
   name: string
@@ -12,6 +17,8 @@ interface MetricCardProps {
     label: string
   }
   lowerIsBetter?: boolean
+  /** MAPE tier bounds used to color percentage errors */
+  thresholds?: TierThresholds
   onClick?: () => void
 }
 
@@ -22,13 +29,14 @@ export function MetricCard({
   interpretation,
   benchmark,
   lowerIsBetter = true,
+  thresholds = DEFAULT_TIER_THRESHOLDS,
   onClick,
 }: MetricCardProps) {
   const getValueColor = () => {
     if (value === null) return 'text-gray-400'
 
-    if (name === 'WASE') {
-      // WASE < 1 is good, > 1 is bad
+    if (SCALED_METRICS.includes(name)) {
+      // WASE / MASE / RMSSE < 1 is good, > 1 is bad
       if (value < 0.8) return 'text-green-600'
       if (value < 1.0) return 'text-blue-600'
       if (value < 1.2) return 'text-yellow-600'
@@ -44,20 +52,34 @@ export function MetricCard({
       return 'text-red-600'
     }
 
-    // For MAPE, WAPE, RMSE - lower is better
-    if (value < 10) return 'text-green-600'
-    if (value < 20) return 'text-blue-600'
-    if (value < 30) return 'text-yellow-600'
+    if (name === 'Tracking Signal') {
+      // |TS| within the control limit is good
+      const absValue = Math.abs(value)
+      if (absValue < 2) return 'text-green-600'
+      if (absValue <= TRACKING_SIGNAL_LIMIT) return 'text-yellow-600'
+      return 'text-red-600'
+    }
+
+    if (name === 'MAE') return 'text-gray-900'
+
+    // For MAPE, WAPE, RMSE, sMAPE, MdAPE - lower is better, colored by tier
+    if (value < thresholds[0]) return 'text-green-600'
+    if (value < thresholds[1]) return 'text-blue-600'
+    if (value < thresholds[2]) return 'text-yellow-600'
     return 'text-red-600'
   }
 
   const formatValue = () => {
     if (value === null) return '-'
 
-    if (name === 'WASE') {
+    if (SCALED_METRICS.includes(name) || name === 'Tracking Signal') {
       return value.toFixed(2)
     }
 
+    if (name === 'MAE') {
+      return value.toFixed(1)
+    }
+
     if (name === 'Bias') {
       const sign = value > 0 ? '+' : ''
       return `${sign}${value.toFixed(1)}`
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { MetricCard } from './metric-card'
+import { Button } from '@/components/ui/button'
+import {
+  interpretMAPE,
+  interpretWASE,
+  interpretMASE,
+  TRACKING_SIGNAL_LIMIT,
+} from '@/lib/utils/calculate-metrics'
+import type { TierThresholds } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+
+export interface GridMetrics {
+  mape: number | null
+  wape: number | null
+  rmse: number | null
+  wase: number | null
+  bias: number | null
+  naiveMape: number | null
+  mase?: number | null
+  smase?: number | null
+  smape?: number | null
+  mae?: number | null
+  mdape?: number | null
+  rmsse?: number | null
+  trackingSignal?: number | null
+}
+
+export type GridMetricKey = Exclude<keyof GridMetrics, 'naiveMape'>
+
+interface MetricsGridProps {
+  metrics: GridMetrics
+  onMetricClick?: (metric: string) => void
+}
+
+const SELECTED_METRICS_KEY = 'forecast-grid-metrics'
+
+export const DEFAULT_GRID_METRICS: GridMetricKey[] = ['mape', 'wape', 'rmse', 'wase', 'bias']
+
+/**
+ * Card definitions; `explainer` is the key used by CalculationExplainer
+ */
+export const metricDefinitions: Record<GridMetricKey, {
+  name: string
+  description: string
+  explainer: string
+  interpret?: (value: number, thresholds: TierThresholds) => string
+}> = {
+  mape: {
+    name: 'MAPE',
+    description: 'Mean Absolute Percentage Error',
+    explainer: 'mape',
+    interpret: interpretMAPE,
+  },
+  wape: {
+    name: 'WAPE',
+    description: 'Weighted by volume (better for varying SKU sizes)',
+    explainer: 'wape',
+  },
+  rmse: {
+    name: 'RMSE',
+    description: 'Penalizes large errors more heavily',
+    explainer: 'rmse',
+  },
+  wase: {
+    name: 'WASE',
+    description: 'Compared to naive forecast (<1 is better)',
+    explainer: 'wase',
+    interpret: interpretWASE,
+  },
+  bias: {
+    name: 'Bias',
+    description: 'Systematic over/under forecasting',
+    explainer: 'bias',
+    interpret: (value) => value > 0 ? 'Over-forecasting' : value < 0 ? 'Under-forecasting' : 'Well balanced',
+  },
+  mase: {
+    name: 'MASE',
+    description: 'Scaled by in-sample naive error (<1 is better)',
+    explainer: 'mase',
+    interpret: interpretMASE,
+  },
+  smase: {
+    name: 'Seasonal MASE',
+    description: 'Scaled by in-sample same-month-last-year error',
+    explainer: 'smase',
+    interpret: interpretMASE,
+  },
+  smape: {
+    name: 'sMAPE',
+    description: 'Symmetric MAPE, bounded 0-200%',
+    explainer: 'smape',
+  },
+  mae: {
+    name: 'MAE',
+    description: 'Average error in units',
+    explainer: 'mae',
+  },
+  mdape: {
+    name: 'MdAPE',
+    description: 'Median percentage error (robust to outliers)',
+    explainer: 'mdape',
+  },
+  rmsse: {
+    name: 'RMSSE',
+    description: 'Squared error scaled by in-sample naive (<1 is better)',
+    explainer: 'rmsse',
+  },
+  trackingSignal: {
+    name: 'Tracking Signal',
+    description: `Cumulative error / MAD (|TS| > ${TRACKING_SIGNAL_LIMIT} = drifting)`,
+    explainer: 'tracking_signal',
+    interpret: (value) => Math.abs(value) > TRACKING_SIGNAL_LIMIT
+      ? value > 0 ? 'Drifting high' : 'Drifting low'
+      : 'In control',
+  },
+}
+
+const ALL_GRID_METRICS = Object.keys(metricDefinitions) as GridMetricKey[]
+
+/**
+ * Read the persisted card selection; the grid only mounts client-side after
+ * the forecast data has loaded, so localStorage is available here
+ */
+function loadSelectedMetrics(): GridMetricKey[] {
+  if (typeof window === 'undefined') return DEFAULT_GRID_METRICS
+  try {
+    const stored = localStorage.getItem(SELECTED_METRICS_KEY)
+    if (stored) {
+      const keys = (JSON.parse(stored) as string[]).filter(
+        (k): k is GridMetricKey => k in metricDefinitions
+      )
+      if (keys.length > 0) return keys
+    }
+  } catch {
+    // Ignore parsing errors
+  }
+  return DEFAULT_GRID_METRICS
+}
+
+export function MetricsGrid({ metrics, onMetricClick }: MetricsGridProps) {
+  const [selected, setSelected] = useState<GridMetricKey[]>(loadSelectedMetrics)
+  const { thresholds } = useAccuracyConfig()
+
+  const toggleMetric = useCallback((key: GridMetricKey) => {
+    setSelected((prev) => {
+      const next = prev.includes(key)
+        ? prev.filter((k) => k !== key)
+        : ALL_GRID_METRICS.filter((k) => k === key || prev.includes(k))
+      if (next.length === 0) return prev
+      try {
+        localStorage.setItem(SELECTED_METRICS_KEY, JSON.stringify(next))
+      } catch {
+        // Ignore storage errors
+      }
+      return next
+    })
+  }, [])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {ALL_GRID_METRICS.map((key) => (
+          <Button
+            key={key}
+            size="sm"
+            variant={selected.includes(key) ? 'default' : 'outline'}
+            onClick={() => toggleMetric(key)}
+          >
+            {metricDefinitions[key].name}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+        {selected.map((key) => {
+          const definition = metricDefinitions[key]
+          const value = metrics[key] ?? null
+          return (
+            <MetricCard
+              key={key}
+              name={definition.name}
+              value={value}
+              description={definition.description}
+              interpretation={value !== null && definition.interpret ? definition.interpret(value, thresholds) : undefined}
+              thresholds={thresholds}
+              benchmark={
+                key === 'mape' && metrics.naiveMape !== null
+                  ? { value: metrics.naiveMape, label: 'Naive benchmark' }
+                  : undefined
+              }
+              onClick={() => onMetricClick?.(definition.explainer)}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
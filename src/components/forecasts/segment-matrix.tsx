@@ -0,0 +1,121 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatPercentage } from '@/lib/utils/format-number'
+import {
+  ABC_CLASSES,
+  ABC_DESCRIPTIONS,
+  XYZ_CLASSES,
+  XYZ_DESCRIPTIONS,
+  type AbcClass,
+  type XyzClass,
+} from '@/lib/utils/segments'
+import { meetsTarget, resolveSegmentTarget } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+import type { SegmentMatrixCell } from '@/types/database'
+
+interface SegmentMatrixProps {
+  /** Called with the clicked cell's classes */
+  onSelect?: (abc: AbcClass, xyz: XyzClass) => void
+}
+
+/**
+ * ABC × XYZ matrix: SKU count, value share and revenue-weighted MAPE per
+ * cell, colored by whether the cell meets its accuracy target
+ */
+export const SegmentMatrix = memo(function SegmentMatrix({ onSelect }: SegmentMatrixProps) {
+  const [cells, setCells] = useState<SegmentMatrixCell[]>([])
+  const [loading, setLoading] = useState(true)
+  const { config } = useAccuracyConfig()
+
+  useEffect(() => {
+    async function fetchMatrix() {
+      try {
+        const response = await fetch('/api/forecasts?view=segments')
+        const json = await response.json()
+        setCells(json.cells || [])
+      } catch (error) {
+        console.error('Failed to fetch segment matrix:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchMatrix()
+  }, [])
+
+  const cellFor = (abc: AbcClass, xyz: XyzClass) =>
+    cells.find(c => c.abc_class === abc && c.xyz_class === xyz)
+
+  const cellColor = (mape: number | null, target: number) => {
+    if (mape === null) return 'bg-gray-50 border-gray-200'
+    if (meetsTarget(mape, target)) return 'bg-green-50 border-green-200'
+    if (mape <= target * 1.25) return 'bg-yellow-50 border-yellow-200'
+    return 'bg-red-50 border-red-200'
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">ABC / XYZ Segments</CardTitle>
+        <p className="text-sm text-gray-500">
+          Revenue class (ABC) by demand variability (XYZ), with revenue-weighted MAPE against each segment&apos;s target.
+          Click a cell to browse its SKUs.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 animate-pulse rounded bg-gray-100" />
+        ) : cells.length === 0 ? (
+          <p className="py-8 text-center text-gray-500">
+            No segments yet. Segments are calculated after the next sync.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[auto_repeat(3,minmax(0,1fr))] gap-2">
+            <div />
+            {XYZ_CLASSES.map(xyz => (
+              <div key={xyz} className="px-2 text-center">
+                <div className="font-semibold">{xyz}</div>
+                <div className="text-xs text-gray-500">{XYZ_DESCRIPTIONS[xyz]}</div>
+              </div>
+            ))}
+
+            {ABC_CLASSES.map(abc => (
+              <div key={abc} className="contents">
+                <div className="flex flex-col justify-center pr-2">
+                  <div className="font-semibold">{abc}</div>
+                  <div className="text-xs text-gray-500">{ABC_DESCRIPTIONS[abc]}</div>
+                </div>
+                {XYZ_CLASSES.map(xyz => {
+                  const cell = cellFor(abc, xyz)
+                  const target = resolveSegmentTarget(config, `${abc}${xyz}`)
+                  const mape = cell ? cell.weighted_mape ?? cell.avg_mape : null
+
+                  return (
+                    <button
+                      key={xyz}
+                      type="button"
+                      disabled={!cell}
+                      onClick={() => onSelect?.(abc, xyz)}
+                      className={`rounded-lg border p-3 text-left transition-shadow hover:shadow-md disabled:cursor-default disabled:hover:shadow-none ${cellColor(mape, target)}`}
+                    >
+                      <div className="flex items-baseline justify-between">
+                        <span className="font-semibold">{abc}{xyz}</span>
+                        <span className="text-xs text-gray-500">{cell?.sku_count ?? 0} SKUs</span>
+                      </div>
+                      <div className="mt-2 text-2xl font-bold">{formatPercentage(mape, 1)}</div>
+                      <div className="text-xs text-gray-500">Weighted MAPE · target {target}%</div>
+                      <div className="mt-1 text-xs text-gray-600">
+                        {formatPercentage((cell?.value_share ?? 0) * 100, 1)} of revenue
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
@@ -21,7 +21,20 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { formatPercentage } from '@/lib/utils/format-number'
-import { Search, ArrowUpDown, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react'
+import { BENCHMARKS, type BenchmarkId } from '@/lib/utils/benchmarks'
+import {
+  DEMAND_CLASSES,
+  getDemandClassLabel,
+  isTrackingSignalTripped,
+  type DemandClass,
+} from '@/lib/utils/calculate-metrics'
+import { exportMetricsToCsv } from '@/lib/utils/export-csv'
+import { DemandClassBadge, PrimaryMetricBadge } from '@/components/data-quality'
+import type { AbcClass, XyzClass } from '@/lib/utils/segments'
+import type { Granularity } from '@/lib/utils/periods'
+import { ACCURACY_TIERS, TIER_STYLES, getMAPETier, getTierLabel } from '@/lib/utils/accuracy-tiers'
+import { useAccuracyConfig } from '@/hooks/use-accuracy-config'
+import { Search, ArrowUpDown, ChevronLeft, ChevronRight, ExternalLink, Download, AlertTriangle, X } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 
 interface SkuMetric {
@@ -32,13 +45,40 @@ interface SkuMetric {
   rmse: number | null
   wase: number | null
   bias: number | null
+  tracking_signal: number | null
+  bias_persistent?: boolean | null
+  bias_direction?: 'over' | 'under' | null
+  fva: number | null
+  best_benchmark: BenchmarkId | null
+  primary_metric: 'mape' | 'wape' | null
+  zero_periods?: number | null
+  demand_class: DemandClass | null
+  adi: number | null
+  cv2: number | null
   calculated_at: string
 }
 
-type SortField = 'sku' | 'mape' | 'wape' | 'rmse' | 'bias'
+type SortField = 'sku' | 'mape' | 'wape' | 'rmse' | 'bias' | 'tracking_signal' | 'fva'
 type SortDirection = 'asc' | 'desc'
 
-export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
+interface SkuMetricsBrowserProps {
+  /** Show per-warehouse metrics instead of the combined view */
+  warehouse?: string
+  /** Period length the metrics were scored at (default month) */
+  granularity?: Granularity
+  /** Only show SKUs in this ABC / XYZ segment */
+  abcClass?: AbcClass
+  xyzClass?: XyzClass
+  onClearSegment?: () => void
+}
+
+export const SkuMetricsBrowser = memo(function SkuMetricsBrowser({
+  warehouse,
+  granularity = 'month',
+  abcClass,
+  xyzClass,
+  onClearSegment,
+}: SkuMetricsBrowserProps) {
   const router = useRouter()
   const [metrics, setMetrics] = useState<SkuMetric[]>([])
   const [loading, setLoading] = useState(true)
@@ -49,6 +89,9 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
   const [sortField, setSortField] = useState<SortField>('mape')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [accuracyFilter, setAccuracyFilter] = useState<string>('all')
+  const [demandFilter, setDemandFilter] = useState<string>('all')
+  const [exporting, setExporting] = useState(false)
+  const { thresholds } = useAccuracyConfig()
 
   const pageSize = 20
 
@@ -76,6 +119,17 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
         if (debouncedSearch) {
           params.append('search', debouncedSearch)
         }
+        if (warehouse) {
+          params.append('warehouse', warehouse)
+        }
+        if (granularity !== 'month') {
+          params.append('granularity', granularity)
+        }
+        if (demandFilter !== 'all') {
+          params.append('demandClass', demandFilter)
+        }
+        if (abcClass) params.append('abcClass', abcClass)
+        if (xyzClass) params.append('xyzClass', xyzClass)
 
         const response = await fetch(`/api/forecasts?${params}`)
         const json = await response.json()
@@ -88,7 +142,7 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
       }
     }
     fetchMetrics()
-  }, [page, debouncedSearch, sortField, sortDirection])
+  }, [page, debouncedSearch, sortField, sortDirection, warehouse, granularity, demandFilter, abcClass, xyzClass])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -100,38 +154,99 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
     setPage(0)
   }
 
+  const handleExport = useCallback(async () => {
+    setExporting(true)
+    try {
+      const params = new URLSearchParams({
+        view: 'list',
+        limit: '10000',
+        orderBy: sortField,
+        orderDirection: sortDirection,
+      })
+      if (debouncedSearch) {
+        params.append('search', debouncedSearch)
+      }
+      if (warehouse) {
+        params.append('warehouse', warehouse)
+      }
+      if (granularity !== 'month') {
+        params.append('granularity', granularity)
+      }
+      if (demandFilter !== 'all') {
+        params.append('demandClass', demandFilter)
+      }
+      if (abcClass) params.append('abcClass', abcClass)
+      if (xyzClass) params.append('xyzClass', xyzClass)
+
+      const response = await fetch(`/api/forecasts?${params}`)
+      const json = await response.json()
+      exportMetricsToCsv(json.metrics || [])
+    } catch (error) {
+      console.error('Failed to export metrics:', error)
+    } finally {
+      setExporting(false)
+    }
+  }, [debouncedSearch, sortField, sortDirection, warehouse, granularity, demandFilter, abcClass, xyzClass])
+
   const handleRowClick = (sku: string) => {
     router.push(`/inventory/${encodeURIComponent(sku)}`)
   }
 
   const getAccuracyBadge = (mape: number | null) => {
     if (mape === null) return <Badge variant="outline">N/A</Badge>
-    if (mape < 10) return <Badge className="bg-green-100 text-green-800">Excellent</Badge>
-    if (mape < 20) return <Badge className="bg-blue-100 text-blue-800">Good</Badge>
-    if (mape < 30) return <Badge className="bg-yellow-100 text-yellow-800">Acceptable</Badge>
-    if (mape < 50) return <Badge className="bg-orange-100 text-orange-800">Poor</Badge>
-    return <Badge variant="destructive">Very Poor</Badge>
+    const tier = TIER_STYLES[getMAPETier(mape, thresholds)]
+    return <Badge className={tier.badgeClass}>{tier.label}</Badge>
   }
 
-  const getBiasIndicator = (bias: number | null) => {
+  const getBiasIndicator = (bias: number | null, persistent?: boolean | null) => {
     if (bias === null) return '-'
+    if (persistent) {
+      return (
+        <span
+          className="flex items-center gap-1 text-red-600"
+          title="Statistically persistent bias"
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {bias > 0 ? '+' : ''}{bias.toFixed(1)}
+        </span>
+      )
+    }
     if (Math.abs(bias) < 5) return <span className="text-green-600">Balanced</span>
     if (bias > 0) return <span className="text-yellow-600">+{bias.toFixed(1)}%</span>
     return <span className="text-red-600">{bias.toFixed(1)}%</span>
   }
 
+  const getTrackingSignalIndicator = (trackingSignal: number | null) => {
+    if (trackingSignal === null) return <span className="text-gray-400">-</span>
+    const value = `${trackingSignal > 0 ? '+' : ''}${trackingSignal.toFixed(1)}`
+    if (!isTrackingSignalTripped(trackingSignal)) return <span>{value}</span>
+    return (
+      <span
+        className="flex items-center gap-1 text-red-600"
+        title={trackingSignal > 0 ? 'Drifting high (over-forecasting)' : 'Drifting low (under-forecasting)'}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        {value}
+      </span>
+    )
+  }
+
+  const getFvaIndicator = (fva: number | null, bestBenchmark: BenchmarkId | null) => {
+    if (fva === null) return <span className="text-gray-400">-</span>
+    const benchmark = bestBenchmark ? BENCHMARKS[bestBenchmark]?.label : null
+    return (
+      <span
+        className={fva >= 0 ? 'text-green-600' : 'text-red-600'}
+        title={benchmark ? `vs ${benchmark} (strongest benchmark)` : undefined}
+      >
+        {fva > 0 ? '+' : ''}{fva.toFixed(1)} pts
+      </span>
+    )
+  }
+
   const filteredMetrics = accuracyFilter === 'all'
     ? metrics
-    : metrics.filter((m) => {
-        if (m.mape === null) return false
-        switch (accuracyFilter) {
-          case 'excellent': return m.mape < 10
-          case 'good': return m.mape >= 10 && m.mape < 20
-          case 'acceptable': return m.mape >= 20 && m.mape < 30
-          case 'poor': return m.mape >= 30
-          default: return true
-        }
-      })
+    : metrics.filter((m) => m.mape !== null && getMAPETier(m.mape, thresholds) === accuracyFilter)
 
   const totalPages = Math.ceil(totalCount / pageSize)
 
@@ -157,7 +272,19 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
     <Card>
       <CardHeader>
         <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-          <CardTitle className="text-lg">SKU-Level Metrics</CardTitle>
+          <div className="flex items-center gap-2">
+            <CardTitle className="text-lg">SKU-Level Metrics</CardTitle>
+            {(abcClass || xyzClass) && (
+              <Badge variant="secondary" className="gap-1">
+                Segment {abcClass ?? '*'}{xyzClass ?? '*'}
+                {onClearSegment && (
+                  <button type="button" onClick={onClearSegment} aria-label="Clear segment filter">
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            )}
+          </div>
           <div className="flex gap-2">
             <div className="relative w-64">
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
@@ -169,17 +296,41 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
               />
             </div>
             <Select value={accuracyFilter} onValueChange={setAccuracyFilter}>
-              <SelectTrigger className="w-40">
+              <SelectTrigger className="w-48">
                 <SelectValue placeholder="Filter accuracy" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Accuracy</SelectItem>
-                <SelectItem value="excellent">Excellent (&lt;10%)</SelectItem>
-                <SelectItem value="good">Good (10-20%)</SelectItem>
-                <SelectItem value="acceptable">Acceptable (20-30%)</SelectItem>
-                <SelectItem value="poor">Poor (&gt;30%)</SelectItem>
+                {ACCURACY_TIERS.map((tier) => (
+                  <SelectItem key={tier} value={tier}>
+                    {getTierLabel(tier, thresholds)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={demandFilter}
+              onValueChange={(value) => {
+                setDemandFilter(value)
+                setPage(0)
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Filter demand" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Demand</SelectItem>
+                {DEMAND_CLASSES.map((demandClass) => (
+                  <SelectItem key={demandClass} value={demandClass}>
+                    {getDemandClassLabel(demandClass).label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <Button variant="outline" onClick={handleExport} disabled={exporting}>
+              <Download className="mr-2 h-4 w-4" />
+              {exporting ? 'Exporting...' : 'Export CSV'}
+            </Button>
           </div>
         </div>
       </CardHeader>
@@ -193,6 +344,8 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
                 <SortHeader field="wape">WAPE</SortHeader>
                 <SortHeader field="rmse">RMSE</SortHeader>
                 <SortHeader field="bias">Bias</SortHeader>
+                <SortHeader field="tracking_signal">Tracking</SortHeader>
+                <SortHeader field="fva">FVA</SortHeader>
                 <TableHead>Rating</TableHead>
                 <TableHead className="w-10"></TableHead>
               </TableRow>
@@ -201,14 +354,14 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
               {loading ? (
                 Array.from({ length: 5 }).map((_, i) => (
                   <TableRow key={i}>
-                    <TableCell colSpan={7}>
+                    <TableCell colSpan={9}>
                       <div className="h-8 animate-pulse rounded bg-gray-100" />
                     </TableCell>
                   </TableRow>
                 ))
               ) : filteredMetrics.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="py-8 text-center text-gray-500">
+                  <TableCell colSpan={9} className="py-8 text-center text-gray-500">
                     No metrics found
                   </TableCell>
                 </TableRow>
@@ -219,8 +372,20 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
                     className="cursor-pointer hover:bg-blue-50 transition-colors"
                     onClick={() => handleRowClick(metric.sku)}
                   >
-                    <TableCell className="font-mono text-sm">
-                      {metric.sku}
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">{metric.sku}</span>
+                        {metric.demand_class && (
+                          <DemandClassBadge demandClass={metric.demand_class} adi={metric.adi} cv2={metric.cv2} />
+                        )}
+                        {metric.primary_metric && (
+                          <PrimaryMetricBadge
+                            primaryMetric={metric.primary_metric}
+                            zeroPeriods={metric.zero_periods ?? undefined}
+                            demandClass={metric.demand_class}
+                          />
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       {metric.mape !== null ? formatPercentage(metric.mape, 1) : '-'}
@@ -232,7 +397,13 @@ export const SkuMetricsBrowser = memo(function SkuMetricsBrowser() {
                       {metric.rmse !== null ? metric.rmse.toFixed(1) : '-'}
                     </TableCell>
                     <TableCell>
-                      {getBiasIndicator(metric.bias)}
+                      {getBiasIndicator(metric.bias, metric.bias_persistent)}
+                    </TableCell>
+                    <TableCell>
+                      {getTrackingSignalIndicator(metric.tracking_signal)}
+                    </TableCell>
+                    <TableCell>
+                      {getFvaIndicator(metric.fva, metric.best_benchmark)}
                     </TableCell>
                     <TableCell>
                       {getAccuracyBadge(metric.mape)}
@@ -0,0 +1,159 @@
+'use client'
+
+import { memo, useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  ComposedChart,
+  Area,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { formatNumber } from '@/lib/utils/format-number'
+import { formatDate, formatMonthKey } from '@/lib/utils/format-date'
+import {
+  DEFAULT_PROJECTION_MONTHS,
+  PROJECTION_HORIZONS,
+  projectInventory,
+} from '@/lib/utils/inventory-projection'
+import { Layers } from 'lucide-react'
+
+interface InventoryProjectionChartProps {
+  inStock: number
+  /** Open purchase orders; null in a warehouse view (not split by warehouse) */
+  purchaseOrdersQty: number | null
+  leadTimeDays: number | null
+  /** forecast_by_period */
+  forecast: unknown
+}
+
+/**
+ * On-hand inventory month by month: stock drawn down by the monthly
+ * forecast, with open purchase orders received after the lead time
+ */
+export const InventoryProjectionChart = memo(function InventoryProjectionChart({
+  inStock,
+  purchaseOrdersQty,
+  leadTimeDays,
+  forecast,
+}: InventoryProjectionChartProps) {
+  const [months, setMonths] = useState<number>(DEFAULT_PROJECTION_MONTHS)
+
+  const projection = useMemo(
+    () => projectInventory({ inStock, purchaseOrdersQty, leadTimeDays, forecast, months }),
+    [inStock, purchaseOrdersQty, leadTimeDays, forecast, months]
+  )
+
+  const points = useMemo(
+    () =>
+      (projection?.months ?? []).map(m => ({
+        month: formatMonthKey(m.key),
+        closing: Math.round(m.closing),
+        demand: Math.round(m.demand),
+        receipts: m.receipts,
+        unmet: Math.round(m.unmet),
+      })),
+    [projection]
+  )
+
+  // Stocking out before a new order placed today could arrive
+  const withinLeadTime = projection?.stockoutDate != null && leadTimeDays !== null &&
+    projection.daysOfCover <= leadTimeDays
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Layers className="h-4 w-4" />
+              Projected Inventory
+            </CardTitle>
+            <p className="text-sm text-gray-500">
+              {purchaseOrdersQty === null
+                ? 'In stock drawn down by the monthly forecast (purchase orders are not split by warehouse)'
+                : 'In stock drawn down by the monthly forecast, with open purchase orders received after the lead time'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {PROJECTION_HORIZONS.map(horizon => (
+              <Button
+                key={horizon}
+                variant={months === horizon ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setMonths(horizon)}
+              >
+                {horizon} mo
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {projection ? (
+          <>
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className={`rounded-lg p-3 ${withinLeadTime ? 'bg-red-50' : 'bg-gray-50'}`}>
+                <div className="text-xs text-gray-500">Projected stockout</div>
+                <div className={`text-lg font-semibold ${withinLeadTime ? 'text-red-600' : ''}`}>
+                  {projection.stockoutDate ? formatDate(projection.stockoutDate) : `Not within ${months} months`}
+                </div>
+                {withinLeadTime && (
+                  <div className="text-xs text-red-600">Within the {leadTimeDays}-day lead time</div>
+                )}
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Days of cover</div>
+                <div className="text-lg font-semibold">
+                  {projection.stockoutDate ? '' : '≥ '}
+                  {formatNumber(projection.daysOfCover)}
+                </div>
+              </div>
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-gray-500">Purchase orders received</div>
+                <div className="text-lg font-semibold">
+                  {projection.receiptDate
+                    ? `${formatNumber(purchaseOrdersQty)} on ${formatDate(projection.receiptDate)}`
+                    : '-'}
+                </div>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={280}>
+              <ComposedChart data={points}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} />
+                <Tooltip
+                  formatter={(value, name) => [formatNumber(Number(value) || 0), String(name)]}
+                  contentStyle={{ borderRadius: '8px', border: '1px solid #e5e7eb' }}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Area
+                  type="monotone"
+                  dataKey="closing"
+                  name="On hand (month end)"
+                  stroke="#3b82f6"
+                  fill="#bfdbfe"
+                  fillOpacity={0.5}
+                />
+                <Bar dataKey="demand" name="Forecast demand" fill="#9ca3af" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="receipts" name="PO receipts" fill="#22c55e" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="unmet" name="Unmet demand" fill="#ef4444" radius={[4, 4, 0, 0]} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </>
+        ) : (
+          <div className="h-[200px] flex items-center justify-center text-gray-500">
+            No forecast for the current month
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+})
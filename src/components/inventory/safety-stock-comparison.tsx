@@ -0,0 +1,134 @@
+'use client'
+
+import { memo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatNumber } from '@/lib/utils/format-number'
+import { GRANULARITY_CONFIG, type Granularity } from '@/lib/utils/periods'
+import {
+  SAFETY_STOCK_FLAG_LABELS,
+  type SafetyStockFlag,
+  type SafetyStockResult,
+} from '@/lib/utils/safety-stock'
+import { ShieldCheck } from 'lucide-react'
+
+export type SafetyStockDetail = SafetyStockResult & { flags: SafetyStockFlag[] }
+
+interface SafetyStockComparisonProps {
+  safetyStock: SafetyStockDetail | null
+  /** Inventory Planner's minimum stock */
+  minimumStock: number | null
+  /** Inventory Planner's suggested replenishment */
+  replenishment: number | null
+  /** Period length the RMSE was measured at (default month) */
+  granularity?: Granularity
+  /** Selected warehouse; the comparison is combined-only */
+  warehouse?: string | null
+}
+
+/**
+ * Safety stock and reorder point from this app's measured forecast error,
+ * side by side with Inventory Planner's minimum stock and replenishment
+ */
+export const SafetyStockComparison = memo(function SafetyStockComparison({
+  safetyStock,
+  minimumStock,
+  replenishment,
+  granularity = 'month',
+  warehouse,
+}: SafetyStockComparisonProps) {
+  const unit = GRANULARITY_CONFIG[granularity].unit
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Safety Stock &amp; Reorder Point
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          {safetyStock
+            ? `Calculated from this SKU's ${unit}ly forecast RMSE over its lead time at a ${safetyStock.serviceLevel}% service level`
+            : warehouse
+              ? 'Available in the combined view only (minimum stock and purchase orders are not split by warehouse)'
+              : 'Needs forecast metrics (RMSE) and a lead time'}
+        </p>
+      </CardHeader>
+      {safetyStock && (
+        <CardContent className="space-y-4">
+          <div className="rounded-md border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50 text-left text-xs text-gray-500">
+                  <th className="px-3 py-2 font-medium" />
+                  <th className="px-3 py-2 font-medium">This app</th>
+                  <th className="px-3 py-2 font-medium">Inventory Planner</th>
+                </tr>
+              </thead>
+              <tbody>
+                <ComparisonRow
+                  label="Safety / minimum stock"
+                  ours={formatNumber(Math.round(safetyStock.safetyStock))}
+                  theirs={minimumStock !== null ? formatNumber(minimumStock) : '-'}
+                  flagged={safetyStock.flags.includes('safety_stock_gap')}
+                />
+                <ComparisonRow
+                  label="Reorder point"
+                  ours={formatNumber(Math.round(safetyStock.reorderPoint))}
+                  theirs="-"
+                />
+                <ComparisonRow
+                  label="Order now"
+                  ours={
+                    safetyStock.belowReorderPoint
+                      ? `${formatNumber(Math.ceil(safetyStock.shortfall))} units`
+                      : 'No'
+                  }
+                  theirs={replenishment && replenishment > 0 ? `${formatNumber(replenishment)} units` : 'No'}
+                  flagged={safetyStock.flags.includes('reorder_conflict')}
+                />
+              </tbody>
+            </table>
+          </div>
+
+          {safetyStock.flags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {safetyStock.flags.map((flag) => (
+                <Badge key={flag} variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                  {SAFETY_STOCK_FLAG_LABELS[flag]}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            z = {safetyStock.z.toFixed(2)} × lead time error σ {safetyStock.sigmaLeadTime.toFixed(1)} units
+            ({safetyStock.leadTimeDays} days); lead time demand {formatNumber(Math.round(safetyStock.leadTimeDemand))} units
+            at {safetyStock.demandPerDay.toFixed(1)}/day; stock position {formatNumber(safetyStock.stockPosition)} units
+            (in stock + open purchase orders).
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  )
+})
+
+function ComparisonRow({
+  label,
+  ours,
+  theirs,
+  flagged = false,
+}: {
+  label: string
+  ours: string
+  theirs: string
+  flagged?: boolean
+}) {
+  return (
+    <tr className={flagged ? 'border-b bg-amber-50/50 last:border-0' : 'border-b last:border-0'}>
+      <td className="px-3 py-2 text-gray-500">{label}</td>
+      <td className="px-3 py-2 font-medium">{ours}</td>
+      <td className="px-3 py-2">{theirs}</td>
+    </tr>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatNumber } from '@/lib/utils/format-number'
+import { SAFETY_STOCK_FLAG_LABELS } from '@/lib/utils/safety-stock'
+import type { SafetyStockReportRow } from '@/types/database'
+import { ShieldCheck } from 'lucide-react'
+
+interface SafetyStockReportData {
+  rows: SafetyStockReportRow[]
+  checked: number
+  serviceLevel: number
+}
+
+/**
+ * Admin report of SKUs where the safety stock / reorder point calculated from
+ * measured forecast error disagrees with Inventory Planner
+ */
+export const SafetyStockReport = memo(function SafetyStockReport() {
+  const [data, setData] = useState<SafetyStockReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch('/api/admin/safety-stock')
+        const json = await response.json()
+        setData(json.error ? null : json)
+      } catch (error) {
+        console.error('Failed to fetch safety stock report:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReport()
+  }, [])
+
+  const rows = data?.rows ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Safety Stock Discrepancies
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          {data
+            ? `${rows.length} of ${data.checked} SKUs disagree with Inventory Planner. Safety stock = z × RMSE scaled to the lead time, at a ${data.serviceLevel}% service level (app setting target_service_level).`
+            : 'Safety stock from each SKU\'s forecast RMSE and lead time, compared with Inventory Planner\'s minimum stock and replenishment.'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SKU</TableHead>
+                <TableHead>Lead Time</TableHead>
+                <TableHead>Safety Stock</TableHead>
+                <TableHead>IP Min Stock</TableHead>
+                <TableHead>Reorder Point</TableHead>
+                <TableHead>Stock Position</TableHead>
+                <TableHead>IP Replenishment</TableHead>
+                <TableHead>Flags</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={8}>
+                      <div className="h-8 animate-pulse rounded bg-gray-100" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-gray-500">
+                    No discrepancies with Inventory Planner
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={row.sku}>
+                    <TableCell>
+                      <Link
+                        href={`/inventory/${encodeURIComponent(row.sku)}`}
+                        className="font-mono text-sm text-blue-600 hover:underline"
+                      >
+                        {row.sku}
+                      </Link>
+                      {row.title && <div className="max-w-[220px] truncate text-xs text-gray-500">{row.title}</div>}
+                    </TableCell>
+                    <TableCell>{row.lead_time} days</TableCell>
+                    <TableCell className="font-medium">{formatNumber(Math.round(row.safety_stock))}</TableCell>
+                    <TableCell>{row.minimum_stock !== null ? formatNumber(row.minimum_stock) : '-'}</TableCell>
+                    <TableCell>{formatNumber(Math.round(row.reorder_point))}</TableCell>
+                    <TableCell>{formatNumber(row.stock_position)}</TableCell>
+                    <TableCell>{row.replenishment ? formatNumber(row.replenishment) : '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1">
+                        {row.flags.map((flag) => (
+                          <Badge key={flag} variant="outline" className="w-fit border-amber-300 bg-amber-50 text-amber-800">
+                            {SAFETY_STOCK_FLAG_LABELS[flag]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+})
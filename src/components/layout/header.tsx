@@ -9,6 +9,7 @@ interface HeaderProps {
   syncStatus?: {
     status: string | null
     lastSync: string | null
+    nextSync?: string | null
   }
   showSyncButton?: boolean
 }
@@ -33,6 +34,7 @@ export function Header({
           <SyncStatusBadge
             status={syncStatus.status}
             lastSync={syncStatus.lastSync}
+            nextSync={syncStatus.nextSync}
           />
         )}
 
@@ -7,6 +7,8 @@ import {
   LayoutDashboard,
   TrendingUp,
   Package,
+  ClipboardList,
+  PackageX,
   Settings,
   LogOut,
   Shield,
@@ -30,6 +32,16 @@ const navItems = [
     href: '/inventory',
     icon: Package,
   },
+  {
+    name: 'Purchase Orders',
+    href: '/purchase-orders',
+    icon: ClipboardList,
+  },
+  {
+    name: 'Excess Stock',
+    href: '/excess-stock',
+    icon: PackageX,
+  },
   {
     name: 'Admin',
     href: '/admin',
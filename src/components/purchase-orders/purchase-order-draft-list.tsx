@@ -0,0 +1,151 @@
+'use client'
+
+import { memo, useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatNumber } from '@/lib/utils/format-number'
+import { EXPORT_FORMATS, poReference } from '@/lib/utils/purchase-orders'
+import type { PurchaseOrderDraft } from '@/types/database'
+import { Download, History, Pencil, Trash2 } from 'lucide-react'
+
+interface PurchaseOrderDraftListProps {
+  /** Changes whenever a draft is saved, to refetch the list */
+  refreshKey: number
+  onEdit: (id: string) => void
+}
+
+/**
+ * Saved purchase order drafts with edit, ERP export (CSV / JSON) and delete
+ */
+export const PurchaseOrderDraftList = memo(function PurchaseOrderDraftList({
+  refreshKey,
+  onEdit,
+}: PurchaseOrderDraftListProps) {
+  const [drafts, setDrafts] = useState<PurchaseOrderDraft[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchDrafts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/purchase-orders')
+      const json = await response.json()
+      setDrafts(json.drafts || [])
+    } catch (error) {
+      console.error('Failed to fetch purchase order drafts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDrafts()
+  }, [fetchDrafts, refreshKey])
+
+  const remove = async (draft: PurchaseOrderDraft) => {
+    if (!window.confirm(`Delete draft ${poReference(draft.id)}?`)) return
+    const response = await fetch(`/api/purchase-orders/${draft.id}`, { method: 'DELETE' })
+    if (response.ok) {
+      toast.success(`Deleted draft ${poReference(draft.id)}`)
+      fetchDrafts()
+    } else {
+      toast.error('Failed to delete draft')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Drafts
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          Exports use the ERP import layout and mark the draft exported; editing an exported draft returns it to draft.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Lines</TableHead>
+                <TableHead>Units</TableHead>
+                <TableHead>Cost</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={8}>
+                      <div className="h-8 animate-pulse rounded bg-gray-100" />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : drafts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-gray-500">
+                    No drafts saved yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                drafts.map(draft => (
+                  <TableRow key={draft.id}>
+                    <TableCell className="font-mono text-sm">{poReference(draft.id)}</TableCell>
+                    <TableCell>{draft.vendor_name ?? draft.vendor_id}</TableCell>
+                    <TableCell>
+                      <Badge variant={draft.status === 'exported' ? 'default' : 'outline'}>{draft.status}</Badge>
+                    </TableCell>
+                    <TableCell>{draft.line_count}</TableCell>
+                    <TableCell>{formatNumber(draft.total_units)}</TableCell>
+                    <TableCell>{draft.total_cost !== null ? formatCurrency(draft.total_cost) : '-'}</TableCell>
+                    <TableCell className="text-gray-500">{new Date(draft.updated_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" className="gap-1" onClick={() => onEdit(draft.id)}>
+                          <Pencil className="h-3 w-3" />
+                          Edit
+                        </Button>
+                        {EXPORT_FORMATS.map(format => (
+                          <a
+                            key={format}
+                            href={`/api/purchase-orders/${draft.id}/export?format=${format}`}
+                            // The download marks the draft exported; refresh once it has been served
+                            onClick={() => setTimeout(fetchDrafts, 1000)}
+                          >
+                            <Button variant="ghost" size="sm" className="gap-1">
+                              <Download className="h-3 w-3" />
+                              {format.toUpperCase()}
+                            </Button>
+                          </a>
+                        ))}
+                        <Button variant="ghost" size="sm" onClick={() => remove(draft)}>
+                          <Trash2 className="h-3 w-3 text-gray-400" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+})
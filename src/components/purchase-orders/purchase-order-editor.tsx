@@ -0,0 +1,298 @@
+'use client'
+
+import { memo, useState, useEffect } from 'react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { formatCurrency } from '@/lib/utils/format-currency'
+import { formatNumber } from '@/lib/utils/format-number'
+import {
+  poReference,
+  roundOrderQuantity,
+  summarizeLines,
+  type PurchaseOrderLineInput,
+  type VendorGroup,
+} from '@/lib/utils/purchase-orders'
+import type { PurchaseOrderDraft, PurchaseOrderDraftEvent } from '@/types/database'
+import { Loader2, PackageCheck, RotateCcw, Save, Trash2 } from 'lucide-react'
+
+/**
+ * Saved draft loaded into the editor
+ */
+export interface EditableDraft {
+  draft: PurchaseOrderDraft
+  lines: PurchaseOrderLineInput[]
+  events: PurchaseOrderDraftEvent[]
+}
+
+interface PurchaseOrderEditorProps {
+  /** Reorder candidates grouped by vendor */
+  groups: VendorGroup[]
+  loading: boolean
+  /** Draft being edited; null to start a new one from a vendor group */
+  editing: EditableDraft | null
+  onSaved: (id: string) => void
+  onNew: () => void
+}
+
+const EVENT_LABELS: Record<PurchaseOrderDraftEvent['action'], string> = {
+  created: 'Created',
+  updated: 'Saved',
+  exported: 'Exported',
+}
+
+/**
+ * Build a purchase order for one vendor: quantities start at to_order, can
+ * be edited per line and rounded to the vendor's MOQ and case pack
+ */
+export const PurchaseOrderEditor = memo(function PurchaseOrderEditor({
+  groups,
+  loading,
+  editing,
+  onSaved,
+  onNew,
+}: PurchaseOrderEditorProps) {
+  const [vendorId, setVendorId] = useState<string>('')
+  const [lines, setLines] = useState<PurchaseOrderLineInput[]>([])
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  // Load the draft being edited, or the first vendor's candidates
+  useEffect(() => {
+    if (editing) {
+      setVendorId(editing.draft.vendor_id)
+      setLines(editing.lines)
+      setNotes(editing.draft.notes ?? '')
+    } else if (groups.length > 0) {
+      setVendorId(groups[0].vendor_id)
+      setLines(groups[0].lines)
+      setNotes('')
+    }
+  }, [editing, groups])
+
+  const selectVendor = (id: string) => {
+    setVendorId(id)
+    setLines(groups.find(g => g.vendor_id === id)?.lines ?? [])
+    setNotes('')
+  }
+
+  const updateQuantity = (sku: string, value: string) => {
+    const quantity = Math.max(parseInt(value, 10) || 0, 0)
+    setLines(prev => prev.map(line => (line.sku === sku ? { ...line, quantity } : line)))
+  }
+
+  const removeLine = (sku: string) => {
+    setLines(prev => prev.filter(line => line.sku !== sku))
+  }
+
+  const applyRounding = () => {
+    setLines(prev => prev.map(line => ({ ...line, quantity: roundOrderQuantity(line.quantity, line) })))
+  }
+
+  const resetToSuggested = () => {
+    setLines(prev => prev.map(line => ({ ...line, quantity: line.suggested_qty })))
+  }
+
+  const vendorName = editing?.draft.vendor_id === vendorId
+    ? editing.draft.vendor_name
+    : groups.find(g => g.vendor_id === vendorId)?.vendor_name ?? null
+  const totals = summarizeLines(lines)
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(editing ? `/api/purchase-orders/${editing.draft.id}` : '/api/purchase-orders', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vendor_id: vendorId, vendor_name: vendorName, notes, lines }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || 'Save failed')
+      toast.success(`Saved draft ${poReference(json.id)}`)
+      onSaved(json.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Save failed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <PackageCheck className="h-5 w-5" />
+                {editing ? `Draft ${poReference(editing.draft.id)}` : 'New Purchase Order'}
+                {editing && (
+                  <Badge variant={editing.draft.status === 'exported' ? 'default' : 'outline'}>
+                    {editing.draft.status}
+                  </Badge>
+                )}
+              </CardTitle>
+              <p className="text-sm text-gray-500">
+                Quantities start at Inventory Planner&apos;s to_order. Rounding applies the vendor&apos;s
+                minimum order quantity, then whole cases.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {editing ? (
+                <Button variant="outline" onClick={onNew}>New draft</Button>
+              ) : (
+                <Select value={vendorId} onValueChange={selectVendor} disabled={loading || groups.length === 0}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Select vendor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map(group => (
+                      <SelectItem key={group.vendor_id} value={group.vendor_id}>
+                        {group.vendor_name ?? group.vendor_id} ({group.lines.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>To Order</TableHead>
+                  <TableHead>MOQ</TableHead>
+                  <TableHead>Case Pack</TableHead>
+                  <TableHead className="w-28">Quantity</TableHead>
+                  <TableHead>Unit Cost</TableHead>
+                  <TableHead className="text-right">Line Total</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <TableRow key={i}>
+                      <TableCell colSpan={9}>
+                        <div className="h-8 animate-pulse rounded bg-gray-100" />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : lines.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="py-8 text-center text-gray-500">
+                      No SKUs to order
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  lines.map(line => (
+                    <TableRow key={line.sku}>
+                      <TableCell className="font-mono text-sm">
+                        {line.sku}
+                        {line.vendor_sku && <div className="text-xs text-gray-500">{line.vendor_sku}</div>}
+                      </TableCell>
+                      <TableCell className="max-w-[240px] truncate">{line.title || '-'}</TableCell>
+                      <TableCell>{formatNumber(line.suggested_qty)}</TableCell>
+                      <TableCell>{line.moq ? formatNumber(line.moq) : '-'}</TableCell>
+                      <TableCell>{line.case_pack ? formatNumber(line.case_pack) : '-'}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={line.quantity}
+                          onChange={e => updateQuantity(line.sku, e.target.value)}
+                          className="h-8 w-24"
+                        />
+                      </TableCell>
+                      <TableCell>{line.unit_cost !== null ? formatCurrency(line.unit_cost) : '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {line.unit_cost !== null ? formatCurrency(line.quantity * line.unit_cost) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => removeLine(line.sku)}>
+                          <Trash2 className="h-4 w-4 text-gray-400" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+            <div className="flex-1 md:max-w-md">
+              <label className="text-sm text-gray-500">Notes</label>
+              <Input value={notes} onChange={e => setNotes(e.target.value)} placeholder="Optional notes for the buyer" />
+            </div>
+            <div className="text-sm text-gray-600">
+              {totals.line_count} lines · {formatNumber(totals.total_units)} units
+              {totals.total_cost !== null && <> · {formatCurrency(totals.total_cost)}</>}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" className="gap-2" onClick={resetToSuggested} disabled={lines.length === 0}>
+              <RotateCcw className="h-4 w-4" />
+              Reset to To Order
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={applyRounding} disabled={lines.length === 0}>
+              <PackageCheck className="h-4 w-4" />
+              Apply MOQ &amp; Case Pack
+            </Button>
+            <Button className="gap-2" onClick={save} disabled={saving || !vendorId || totals.line_count === 0}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save Draft
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {editing && editing.events.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Draft History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 text-sm">
+              {editing.events.map(event => (
+                <div key={event.id} className="flex items-center justify-between border-b pb-2 last:border-0">
+                  <span>
+                    {EVENT_LABELS[event.action]}
+                    {event.format && ` as ${event.format.toUpperCase()}`}
+                    <span className="text-gray-500">
+                      {' '}· {event.line_count} lines, {formatNumber(event.total_units)} units
+                      {event.total_cost !== null && `, ${formatCurrency(event.total_cost)}`}
+                    </span>
+                  </span>
+                  <span className="text-gray-500">{new Date(event.created_at).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+})
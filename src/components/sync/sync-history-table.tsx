@@ -18,6 +18,7 @@ import {
   RefreshCw,
   CheckCircle,
   XCircle,
+  SkipForward,
   Clock,
   AlertTriangle
 } from 'lucide-react'
@@ -72,7 +73,8 @@ export function SyncHistoryTable({ limit = 10, showTitle = true }: SyncHistoryTa
       failed: { class: 'bg-red-100 text-red-700', icon: XCircle },
       in_progress: { class: 'bg-blue-100 text-blue-700', icon: Clock },
       pending: { class: 'bg-gray-100 text-gray-700', icon: Clock },
-      paused: { class: 'bg-yellow-100 text-yellow-700', icon: AlertTriangle }
+      paused: { class: 'bg-yellow-100 text-yellow-700', icon: AlertTriangle },
+      skipped: { class: 'bg-gray-100 text-gray-500', icon: SkipForward }
     }
 
     const statusKey = status?.toLowerCase() || 'pending'
@@ -0,0 +1,25 @@
+'use client'
+
+import useSWR from 'swr'
+import { DEFAULT_ACCURACY_CONFIG, type AccuracyConfig } from '@/lib/utils/accuracy-tiers'
+
+/**
+ * Tier thresholds and accuracy targets; the defaults are returned until the
+ * stored configuration has loaded
+ */
+export function useAccuracyConfig() {
+  const { data, error, isLoading, mutate } = useSWR<AccuracyConfig>(
+    '/api/settings/accuracy',
+    {
+      dedupingInterval: 60000, // Shared by every badge and chart on the page
+    }
+  )
+
+  return {
+    config: data?.thresholds ? data : DEFAULT_ACCURACY_CONFIG,
+    thresholds: data?.thresholds ?? DEFAULT_ACCURACY_CONFIG.thresholds,
+    isLoading,
+    isError: !!error,
+    refresh: mutate,
+  }
+}
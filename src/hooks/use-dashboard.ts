@@ -21,6 +21,9 @@ export interface PriorityItem {
   lead_time: number | null
   oos: number
   forecasted_lost_revenue: number | null
+  carrying_cost: number | null
+  lost_margin: number | null
+  error_cost: number | null
 }
 
 export interface SyncStatus {
@@ -0,0 +1,23 @@
+'use client'
+
+import useSWR from 'swr'
+import type { Granularity } from '@/lib/utils/periods'
+
+/**
+ * Granularities with calculated metrics (monthly until weekly series exist)
+ */
+export function useGranularities() {
+  const { data, error, isLoading } = useSWR<{ granularities: Granularity[] }>(
+    '/api/forecasts?view=granularities',
+    {
+      revalidateOnFocus: false,
+      revalidateIfStale: false, // Changes only when weekly series are first imported
+    }
+  )
+
+  return {
+    granularities: data?.granularities ?? (['month'] as Granularity[]),
+    isLoading,
+    isError: !!error,
+  }
+}
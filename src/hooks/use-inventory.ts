@@ -2,6 +2,7 @@
 
 import useSWR from 'swr'
 import { useCallback, useState } from 'react'
+import type { WarehouseOption } from '@/types/database'
 
 export interface InventoryFilters {
   search?: string
@@ -9,6 +10,7 @@ export interface InventoryFilters {
   productType?: string
   stockStatus?: 'all' | 'in_stock' | 'low_stock' | 'out_of_stock'
   minOOS?: number
+  warehouse?: string
 }
 
 export interface InventoryItem {
@@ -26,6 +28,9 @@ export interface InventoryItem {
   to_order: number
   oos: number
   forecasted_lost_revenue: number | null
+  lead_time: number | null
+  projected_stockout_date: string | null
+  days_of_cover: number | null
   synced_at: string
   last_7_days_sales: number
   last_30_days_sales: number
@@ -53,6 +58,7 @@ function buildQueryString(
   if (filters.brand) params.set('brand', filters.brand)
   if (filters.productType) params.set('productType', filters.productType)
   if (filters.minOOS !== undefined) params.set('minOOS', String(filters.minOOS))
+  if (filters.warehouse) params.set('warehouse', filters.warehouse)
 
   return params.toString()
 }
@@ -116,8 +122,17 @@ export function useFilterOptions() {
     }
   )
 
+  const { data: warehousesData } = useSWR<{ warehouses: WarehouseOption[] }>(
+    '/api/warehouses',
+    {
+      revalidateOnFocus: false,
+      revalidateIfStale: false,
+    }
+  )
+
   return {
     brands: brandsData?.brands ?? [],
     productTypes: typesData?.productTypes ?? [],
+    warehouses: warehousesData?.warehouses ?? [],
   }
 }
@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts
+ */
+export async function register() {
+  // The scheduler needs Node timers; set DISABLE_SYNC_SCHEDULER=true when an
+  // external cron calls POST /api/sync/schedule instead
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.DISABLE_SYNC_SCHEDULER === 'true') {
+    return
+  }
+
+  const { syncScheduler } = await import('@/lib/sync/scheduler')
+  syncScheduler.start(`http://localhost:${process.env.PORT || 5050}`)
+}
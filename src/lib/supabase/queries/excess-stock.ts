@@ -0,0 +1,91 @@
+import { createAdminClient } from '../admin'
+import { getExcessStockSettings } from './settings'
+import { calculateExcessStock, clampExcessMonths } from '@/lib/utils/excess-stock'
+import type { ExcessStockReportRow, Variant } from '@/types/database'
+
+type ExcessStockVariant = Pick<
+  Variant,
+  | 'sku'
+  | 'title'
+  | 'brand'
+  | 'product_type'
+  | 'in_stock'
+  | 'cost_price'
+  | 'last_90_days_sales'
+  | 'forecast_by_period'
+  | 'orders_by_month'
+>
+
+export interface ExcessStockOptions {
+  /** Override the excess_horizon_months setting (clamped to 1-24; ignored if not a number) */
+  horizonMonths?: number
+  /** Override the dead_stock_months setting (clamped to 1-24; ignored if not a number) */
+  deadStockMonths?: number
+}
+
+/**
+ * Get every in-stock SKU holding more than its forecast demand over the
+ * horizon, or dead stock; largest excess value first
+ */
+export async function getExcessStockReport(options: ExcessStockOptions = {}) {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const settings = await getExcessStockSettings()
+  const horizonMonths = clampExcessMonths(options.horizonMonths ?? NaN, settings.horizonMonths)
+  const deadStockMonths = clampExcessMonths(options.deadStockMonths ?? NaN, settings.deadStockMonths)
+  const rows: ExcessStockReportRow[] = []
+  let checked = 0
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('variants')
+      .select('sku, title, brand, product_type, in_stock, cost_price, last_90_days_sales, forecast_by_period, orders_by_month')
+      .gt('in_stock', 0)
+      .order('sku')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching excess stock report:', error)
+      return { rows: [], checked: 0, horizonMonths, deadStockMonths, error: error.message }
+    }
+
+    const page = (data || []) as ExcessStockVariant[]
+    for (const v of page) {
+      const result = calculateExcessStock({
+        inStock: v.in_stock,
+        costPrice: v.cost_price,
+        forecast: v.forecast_by_period,
+        ordersByMonth: v.orders_by_month,
+        last90DaysSales: v.last_90_days_sales,
+        horizonMonths,
+        deadStockMonths,
+      })
+      if (!result) continue
+      checked++
+      if (!result.action) continue
+
+      rows.push({
+        sku: v.sku,
+        title: v.title,
+        brand: v.brand,
+        product_type: v.product_type,
+        in_stock: v.in_stock,
+        cost_price: v.cost_price,
+        demand: result.demand,
+        demand_source: result.demandSource,
+        excess_units: result.excessUnits,
+        excess_value: result.excessValue,
+        months_of_supply: result.monthsOfSupply,
+        last_sale_month: result.lastSaleMonth,
+        is_dead: result.isDead,
+        action: result.action,
+      })
+    }
+
+    if (page.length < pageSize) break
+  }
+
+  rows.sort((a, b) => (b.excess_value ?? 0) - (a.excess_value ?? 0) || b.excess_units - a.excess_units)
+
+  return { rows, checked, horizonMonths, deadStockMonths, error: null }
+}
@@ -0,0 +1,206 @@
+import { createAdminClient } from '../admin'
+import type { Database, ForecastMetricHistoryInsert, MetricRun } from '@/types/database'
+
+type MetricInsert = Database['public']['Tables']['forecast_metrics']['Insert']
+
+/**
+ * A forecast_metrics row as produced by a calculation run, optionally carrying
+ * the extended fields the enhanced calculators attach.
+ */
+export interface MetricSnapshotInput extends MetricInsert {
+  forecast_source?: string
+  data_tier?: string
+  period_count?: number
+}
+
+/**
+ * First day of the current month as a DATE string (YYYY-MM-01)
+ */
+function currentMonth(): string {
+  return `${new Date().toISOString().slice(0, 7)}-01`
+}
+
+function average(values: (number | null | undefined)[]): number | null {
+  const valid = values.filter((v): v is number => v !== null && v !== undefined)
+  return valid.length > 0 ? valid.reduce((a, b) => a + b, 0) / valid.length : null
+}
+
+/**
+ * Average MAPE/WAPE/Bias over the whole forecast_metrics table
+ */
+async function getTableAverages(supabase: ReturnType<typeof createAdminClient>) {
+  const pageSize = 1000
+  const rows: Pick<MetricInsert, 'mape' | 'wape' | 'bias'>[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('forecast_metrics')
+      .select('mape, wape, bias')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching metrics for run averages:', error)
+      return null
+    }
+
+    const page = (data || []) as Pick<MetricInsert, 'mape' | 'wape' | 'bias'>[]
+    rows.push(...page)
+    if (page.length < pageSize) break
+  }
+
+  return {
+    sku_count: rows.length,
+    avg_mape: average(rows.map(m => m.mape)),
+    avg_wape: average(rows.map(m => m.wape)),
+    avg_bias: average(rows.map(m => m.bias)),
+  }
+}
+
+/**
+ * Record a calculation run: create a metric_runs row and append one
+ * forecast_metrics_history snapshot per metric.
+ *
+ * The as-of month of each snapshot is the metric's period_end (the last actual
+ * month in its evaluation window); the run's as-of month is the latest of those.
+ * A scoped run (incremental sync) only snapshots the variants it recalculated,
+ * so its sku_count and averages are taken over the whole forecast_metrics
+ * table to stay comparable with full runs in the accuracy trend.
+ */
+export async function recordMetricRun(
+  source: string,
+  metrics: MetricSnapshotInput[],
+  options: { scoped?: boolean } = {}
+): Promise<{ run: MetricRun | null; recorded: number; error: string | null }> {
+  if (metrics.length === 0) {
+    return { run: null, recorded: 0, error: null }
+  }
+
+  const supabase = createAdminClient()
+
+  const asOfMonth = metrics.reduce(
+    (latest, m) => (m.period_end && m.period_end > latest ? m.period_end : latest),
+    ''
+  ) || currentMonth()
+
+  const { data: run, error: runError } = await supabase
+    .from('metric_runs')
+    // @ts-expect-error - Supabase types are too strict
+    .insert({
+      source,
+      as_of_month: asOfMonth,
+      started_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (runError || !run) {
+    console.error('Failed to create metric run:', runError)
+    return { run: null, recorded: 0, error: runError?.message || 'Failed to create metric run' }
+  }
+
+  const runId = (run as MetricRun).id
+  const snapshots: ForecastMetricHistoryInsert[] = metrics.map(m => ({
+    run_id: runId,
+    variant_id: m.variant_id,
+    sku: m.sku,
+    as_of_month: m.period_end || asOfMonth,
+    mape: m.mape,
+    wape: m.wape,
+    rmse: m.rmse,
+    wase: m.wase,
+    mase: m.mase ?? null,
+    smase: m.smase ?? null,
+    bias: m.bias,
+    naive_mape: m.naive_mape,
+    smape: m.smape ?? null,
+    mae: m.mae ?? null,
+    mdape: m.mdape ?? null,
+    rmsse: m.rmsse ?? null,
+    tracking_signal: m.tracking_signal ?? null,
+    forecast_source: m.forecast_source ?? null,
+    data_tier: m.data_tier ?? null,
+    period_count: m.period_count ?? null,
+    fva: m.fva ?? null,
+    best_benchmark: m.best_benchmark ?? null,
+    calculated_at: m.calculated_at,
+  }))
+
+  let recorded = 0
+  for (let i = 0; i < snapshots.length; i += 500) {
+    const batch = snapshots.slice(i, i + 500)
+    const { error } = await supabase
+      .from('forecast_metrics_history')
+      // @ts-expect-error - Supabase types are too strict
+      .insert(batch)
+
+    if (!error) {
+      recorded += batch.length
+    } else {
+      console.error('History batch insert error:', error)
+    }
+  }
+
+  const aggregates = (options.scoped ? await getTableAverages(supabase) : null) ?? {
+    sku_count: recorded,
+    avg_mape: average(metrics.map(m => m.mape)),
+    avg_wape: average(metrics.map(m => m.wape)),
+    avg_bias: average(metrics.map(m => m.bias)),
+  }
+
+  const { data: completed, error: updateError } = await supabase
+    .from('metric_runs')
+    // @ts-expect-error - Supabase types are too strict
+    .update({
+      ...aggregates,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .select()
+    .single()
+
+  if (updateError) {
+    return { run: run as MetricRun, recorded, error: updateError.message }
+  }
+
+  return { run: completed as MetricRun, recorded, error: null }
+}
+
+/**
+ * Get the metric history for a SKU, oldest snapshot first
+ */
+export async function getMetricHistoryBySku(sku: string, limit = 36) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('forecast_metrics_history')
+    .select('run_id, as_of_month, mape, wape, rmse, wase, mase, smase, bias, naive_mape, smape, mae, mdape, rmsse, tracking_signal, forecast_source, data_tier, period_count, fva, best_benchmark, calculated_at')
+    .eq('sku', sku)
+    .order('calculated_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return { history: [], error: error.message }
+  }
+
+  return { history: (data || []).reverse(), error: null }
+}
+
+/**
+ * Get aggregate accuracy per completed run, oldest run first
+ */
+export async function getAccuracyTrend(limit = 24) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('metric_runs')
+    .select('*')
+    .not('completed_at', 'is', null)
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return { runs: [], error: error.message }
+  }
+
+  return { runs: ((data || []) as MetricRun[]).reverse(), error: null }
+}
@@ -0,0 +1,136 @@
+import { createAdminClient } from '../admin'
+import { getExAnteForecasts, getSnapshotLag } from './snapshots'
+import {
+  LOST_REVENUE_CAUSES,
+  attributeLostRevenue,
+  type StockoutMonth,
+} from '@/lib/utils/lost-revenue'
+import type {
+  ForecastMetric,
+  LostRevenueByCause,
+  LostRevenueReportRow,
+  Variant,
+} from '@/types/database'
+
+type AttributionVariant = Pick<
+  Variant,
+  | 'id'
+  | 'sku'
+  | 'title'
+  | 'brand'
+  | 'price'
+  | 'lead_time'
+  | 'forecasted_lost_revenue'
+  | 'orders_by_month'
+  | 'forecast_by_period'
+>
+
+export interface LostRevenueSummary {
+  lost_revenue: number
+  by_cause: LostRevenueByCause
+  sku_count: number
+  stockout_months: number
+  /** Sum of IP's forecasted_lost_revenue over the same SKUs */
+  forecasted_lost_revenue: number
+}
+
+/**
+ * Attribute the revenue lost in each SKU's stockout months (the censored
+ * months of the last accuracy run, stored whatever the censoring mode) to
+ * under-forecasting, lead-time overrun or other causes. Forecasts are taken
+ * from the snapshot ledger at the configured lag where available, as in the
+ * accuracy calculation.
+ * Rows are sorted by lost revenue; byMonth totals each cause per month.
+ */
+export async function getLostRevenueAttribution() {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const lagMonths = await getSnapshotLag()
+  const rows: LostRevenueReportRow[] = []
+  const byMonth = new Map<string, LostRevenueByCause>()
+  const summary: LostRevenueSummary = {
+    lost_revenue: 0,
+    by_cause: { under_forecast: 0, lead_time_overrun: 0, other: 0 },
+    sku_count: 0,
+    stockout_months: 0,
+    forecasted_lost_revenue: 0,
+  }
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('forecast_metrics')
+      .select(
+        'censored_months, variants!inner(id, sku, title, brand, price, lead_time, forecasted_lost_revenue, orders_by_month, forecast_by_period)'
+      )
+      // censored_periods is 0 in 'include' mode; the stockout months are stored regardless
+      .not('censored_months', 'is', null)
+      .neq('censored_months', '[]')
+      .order('sku')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching lost revenue attribution:', error)
+      return { rows: [], byMonth: [], summary, error: error.message }
+    }
+
+    const page = (data || []) as unknown as (Pick<ForecastMetric, 'censored_months'> & { variants: AttributionVariant })[]
+    const { forecasts: exAnte } = await getExAnteForecasts(lagMonths, page.map(p => p.variants.id))
+
+    for (const { censored_months, variants: v } of page) {
+      const result = attributeLostRevenue({
+        stockoutMonths: Array.isArray(censored_months) ? (censored_months as unknown as StockoutMonth[]) : [],
+        ordersByMonth: v.orders_by_month,
+        forecast: v.forecast_by_period,
+        exAnteForecast: exAnte.get(v.id),
+        price: v.price,
+        leadTimeDays: v.lead_time,
+      })
+      if (!result || result.lostRevenue <= 0) continue
+
+      rows.push({
+        sku: v.sku,
+        title: v.title,
+        brand: v.brand,
+        price: v.price!,
+        lead_time: v.lead_time,
+        forecasted_lost_revenue: v.forecasted_lost_revenue,
+        lost_units: result.lostUnits,
+        lost_revenue: result.lostRevenue,
+        by_cause: result.revenueByCause,
+        primary_cause: result.primaryCause,
+        months: result.stockouts.map(s => ({
+          month: s.month,
+          fraction: s.fraction,
+          lost_units: s.lostUnits,
+          lost_revenue: s.lostRevenue,
+          by_cause: s.revenueByCause,
+        })),
+      })
+
+      summary.lost_revenue += result.lostRevenue
+      summary.sku_count++
+      summary.stockout_months += result.stockouts.length
+      summary.forecasted_lost_revenue += v.forecasted_lost_revenue ?? 0
+      for (const cause of LOST_REVENUE_CAUSES) summary.by_cause[cause] += result.revenueByCause[cause]
+
+      for (const stockout of result.stockouts) {
+        const month = byMonth.get(stockout.month) ?? { under_forecast: 0, lead_time_overrun: 0, other: 0 }
+        for (const cause of LOST_REVENUE_CAUSES) month[cause] += stockout.revenueByCause[cause]
+        byMonth.set(stockout.month, month)
+      }
+    }
+
+    if (page.length < pageSize) break
+  }
+
+  rows.sort((a, b) => b.lost_revenue - a.lost_revenue)
+
+  return {
+    rows,
+    byMonth: [...byMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, causes]) => ({ month, ...causes })),
+    summary,
+    error: null,
+  }
+}
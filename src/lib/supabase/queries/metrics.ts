@@ -1,12 +1,108 @@
 import { createAdminClient } from '../admin'
-import type { ForecastMetric } from '@/types/database'
+import { recordMetricRun, type MetricSnapshotInput } from './history'
+import { getExAnteForecasts, getSnapshotLag, getStockHistory } from './snapshots'
+import { getCensoringMode, getHoldingCostRate } from './settings'
+import { getAccuracyConfig } from './targets'
+import { variantIdScopes } from './variants'
+import { isTrackingSignalTripped, type DemandClass } from '@/lib/utils/calculate-metrics'
+import { calculateSeriesMetrics } from '@/lib/utils/series-metrics'
+import { ACCURACY_TIERS, getMAPETier, getTierLabel, type AccuracyTier } from '@/lib/utils/accuracy-tiers'
+import { GRANULARITIES, type Granularity } from '@/lib/utils/periods'
+import { aggregateHierarchy, type HierarchySku } from '@/lib/utils/hierarchy'
+import type { AbcClass, XyzClass } from '@/lib/utils/segments'
+import type {
+  ForecastMetric,
+  Variant,
+  WeeklyForecastMetricInsert,
+  AccuracyRollupGroup,
+  AccuracyRollupSku,
+  BiasedForecast,
+  ErrorCostSummary,
+  RollupGroupBy,
+} from '@/types/database'
 
-export interface MetricsQueryOptions {
+/**
+ * Columns the SKU metrics list can be ordered by
+ */
+export const METRIC_ORDER_FIELDS = [
+  'sku',
+  'mape',
+  'wape',
+  'rmse',
+  'wase',
+  'mase',
+  'smase',
+  'bias',
+  'smape',
+  'mae',
+  'mdape',
+  'rmsse',
+  'tracking_signal',
+  'fva',
+  'calculated_at',
+] as const
+
+export type MetricOrderField = typeof METRIC_ORDER_FIELDS[number]
+
+export function isMetricOrderField(value: string): value is MetricOrderField {
+  return (METRIC_ORDER_FIELDS as readonly string[]).includes(value)
+}
+
+export const ROLLUP_GROUP_BY: readonly RollupGroupBy[] = ['brand', 'product_type', 'vendor']
+
+export function isRollupGroupBy(value: string): value is RollupGroupBy {
+  return (ROLLUP_GROUP_BY as readonly string[]).includes(value)
+}
+
+/**
+ * Which metrics table a query reads: combined monthly (default), one
+ * warehouse, or weekly. Weekly metrics are combined-only, so granularity
+ * 'week' ignores the warehouse.
+ */
+export interface MetricsScope {
+  warehouse?: string
+  granularity?: Granularity
+}
+
+export interface MetricsQueryOptions extends MetricsScope {
   limit?: number
   offset?: number
-  orderBy?: 'mape' | 'wape' | 'rmse' | 'calculated_at'
+  orderBy?: MetricOrderField
   orderDirection?: 'asc' | 'desc'
   search?: string
+  demandClass?: DemandClass
+  abcClass?: AbcClass
+  xyzClass?: XyzClass
+}
+
+/**
+ * Select from forecast_metrics, from warehouse_forecast_metrics when a
+ * warehouse is given (one row per SKU × warehouse), or from
+ * weekly_forecast_metrics for weekly granularity; all share the metric columns
+ */
+function selectMetrics(columns: string, scope: MetricsScope = {}, options?: { count: 'exact' }) {
+  const { warehouse, granularity = 'month' } = scope
+  const supabase = createAdminClient()
+  if (granularity === 'week') {
+    return supabase.from('weekly_forecast_metrics').select(columns, options)
+  }
+  if (warehouse) {
+    return supabase
+      .from('warehouse_forecast_metrics')
+      .select(columns, options)
+      .eq('warehouse', warehouse)
+  }
+  return supabase.from('forecast_metrics').select(columns, options)
+}
+
+/**
+ * Mean of a nullable column, ignoring nulls
+ */
+function averageOf(rows: ForecastMetric[], key: keyof ForecastMetric): number | null {
+  const values = rows
+    .map(r => r[key])
+    .filter((v): v is number => typeof v === 'number')
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
 }
 
 /**
@@ -19,19 +115,38 @@ export async function getForecastMetrics(options: MetricsQueryOptions = {}) {
     orderBy = 'mape',
     orderDirection = 'asc',
     search,
+    warehouse,
+    granularity,
+    demandClass,
+    abcClass,
+    xyzClass,
   } = options
 
-  const supabase = createAdminClient()
-
-  let query = supabase
-    .from('forecast_metrics')
-    .select('*', { count: 'exact' })
+  // Segment filters join the variant's ABC / XYZ class
+  const segmented = Boolean(abcClass || xyzClass)
+  let query = selectMetrics(
+    segmented ? '*, variants!inner(abc_class, xyz_class)' : '*',
+    { warehouse, granularity },
+    { count: 'exact' }
+  )
 
   // Search filter
   if (search) {
     query = query.ilike('sku', `%${search}%`)
   }
 
+  if (demandClass) {
+    query = query.eq('demand_class', demandClass)
+  }
+
+  if (abcClass) {
+    query = query.eq('variants.abc_class', abcClass)
+  }
+
+  if (xyzClass) {
+    query = query.eq('variants.xyz_class', xyzClass)
+  }
+
   // Ordering
   query = query.order(orderBy, { ascending: orderDirection === 'asc' })
 
@@ -70,14 +185,10 @@ export async function getVariantMetrics(variantId: string) {
 }
 
 /**
- * Get metrics by SKU
+ * Get metrics by SKU (monthly, or weekly when granularity is 'week')
  */
-export async function getMetricsBySku(sku: string) {
-  const supabase = createAdminClient()
-
-  const { data, error } = await supabase
-    .from('forecast_metrics')
-    .select('*')
+export async function getMetricsBySku(sku: string, granularity: Granularity = 'month') {
+  const { data, error } = await selectMetrics('*', { granularity })
     .eq('sku', sku)
     .order('calculated_at', { ascending: false })
     .limit(1)
@@ -93,14 +204,12 @@ export async function getMetricsBySku(sku: string) {
 /**
  * Get average accuracy across all SKUs
  */
-export async function getAverageAccuracy() {
-  const supabase = createAdminClient()
-
+export async function getAverageAccuracy(scope: MetricsScope = {}) {
   // Get latest metric for each variant
-  const { data, error } = await supabase
-    .from('forecast_metrics')
-    .select('mape, wape, rmse, wase, bias, naive_mape')
-    .not('mape', 'is', null)
+  const { data, error } = await selectMetrics(
+    'mape, wape, rmse, wase, mase, smase, bias, naive_mape, smape, mae, mdape, rmsse, tracking_signal, bias_persistent, fva, benchmark_fva',
+    scope
+  ).not('mape', 'is', null)
 
   if (error) {
     console.error('Error fetching average accuracy:', error)
@@ -111,6 +220,18 @@ export async function getAverageAccuracy() {
       avgWase: null,
       avgBias: null,
       avgNaiveMape: null,
+      avgMase: null,
+      avgSmase: null,
+      avgSmape: null,
+      avgMae: null,
+      avgMdape: null,
+      avgRmsse: null,
+      avgTrackingSignal: null,
+      trackingSignalAlerts: 0,
+      biasAlerts: 0,
+      avgFva: null,
+      benchmarkFva: {},
+      fvaCount: 0,
       count: 0,
       error: error.message,
     }
@@ -124,12 +245,41 @@ export async function getAverageAccuracy() {
       avgWase: null,
       avgBias: null,
       avgNaiveMape: null,
+      avgMase: null,
+      avgSmase: null,
+      avgSmape: null,
+      avgMae: null,
+      avgMdape: null,
+      avgRmsse: null,
+      avgTrackingSignal: null,
+      trackingSignalAlerts: 0,
+      biasAlerts: 0,
+      avgFva: null,
+      benchmarkFva: {},
+      fvaCount: 0,
       count: 0,
       error: null,
     }
   }
 
   const count = data.length
+  const rows = data as ForecastMetric[]
+
+  // FVA only exists for SKUs measured against an IP forecast
+  const withFva = rows.filter(v => v.fva !== null)
+  const benchmarkTotals: Record<string, { sum: number; count: number }> = {}
+  for (const v of withFva) {
+    const perBenchmark = (v.benchmark_fva || {}) as Record<string, number>
+    for (const [id, value] of Object.entries(perBenchmark)) {
+      benchmarkTotals[id] = benchmarkTotals[id] || { sum: 0, count: 0 }
+      benchmarkTotals[id].sum += value
+      benchmarkTotals[id].count++
+    }
+  }
+  const benchmarkFva: Record<string, number> = {}
+  for (const [id, { sum, count: n }] of Object.entries(benchmarkTotals)) {
+    benchmarkFva[id] = sum / n
+  }
 
   return {
     avgMape: data.reduce((sum, v) => sum + (v.mape || 0), 0) / count,
@@ -138,29 +288,108 @@ export async function getAverageAccuracy() {
     avgWase: data.reduce((sum, v) => sum + (v.wase || 0), 0) / count,
     avgBias: data.reduce((sum, v) => sum + (v.bias || 0), 0) / count,
     avgNaiveMape: data.reduce((sum, v) => sum + (v.naive_mape || 0), 0) / count,
+    avgMase: averageOf(rows, 'mase'),
+    avgSmase: averageOf(rows, 'smase'),
+    avgSmape: averageOf(rows, 'smape'),
+    avgMae: averageOf(rows, 'mae'),
+    avgMdape: averageOf(rows, 'mdape'),
+    avgRmsse: averageOf(rows, 'rmsse'),
+    avgTrackingSignal: averageOf(rows, 'tracking_signal'),
+    trackingSignalAlerts: rows.filter(r => isTrackingSignalTripped(r.tracking_signal)).length,
+    biasAlerts: rows.filter(r => r.bias_persistent).length,
+    avgFva: withFva.length > 0
+      ? withFva.reduce((sum, v) => sum + (v.fva || 0), 0) / withFva.length
+      : null,
+    benchmarkFva,
+    fvaCount: withFva.length,
     count,
     error: null,
   }
 }
 
 /**
- * Get best and worst performing SKUs by MAPE
+ * Get the total dollar cost of forecast error: carrying cost of over-forecast
+ * units and lost margin of under-forecast units, summed over SKUs with a cost price
  */
-export async function getAccuracyExtremes(limit = 5) {
-  const supabase = createAdminClient()
+export async function getErrorCostSummary(scope: MetricsScope = {}) {
+  const pageSize = 1000
+  const holdingCostRate = await getHoldingCostRate()
+  const summary: ErrorCostSummary = {
+    carryingCost: 0,
+    lostMargin: 0,
+    totalCost: 0,
+    overForecastUnits: 0,
+    underForecastUnits: 0,
+    skuCount: 0,
+    holdingCostRate,
+  }
 
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await selectMetrics(
+      'carrying_cost, lost_margin, error_cost, over_forecast_units, under_forecast_units',
+      scope
+    )
+      .not('error_cost', 'is', null)
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching error cost summary:', error)
+      return { summary: null, error: error.message }
+    }
+
+    const rows = (data || []) as unknown as Pick<
+      ForecastMetric,
+      'carrying_cost' | 'lost_margin' | 'error_cost' | 'over_forecast_units' | 'under_forecast_units'
+    >[]
+    for (const row of rows) {
+      summary.carryingCost += row.carrying_cost || 0
+      summary.lostMargin += row.lost_margin || 0
+      summary.totalCost += row.error_cost || 0
+      summary.overForecastUnits += row.over_forecast_units || 0
+      summary.underForecastUnits += row.under_forecast_units || 0
+      summary.skuCount++
+    }
+
+    if (rows.length < pageSize) break
+  }
+
+  return { summary, error: null }
+}
+
+/**
+ * Get SKUs with statistically persistent bias, largest relative bias first
+ */
+export async function getBiasedForecasts(limit = 50, scope: MetricsScope = {}) {
+  const { data, error } = await selectMetrics(
+    'sku, mape, wape, bias, bias_pct, bias_t_stat, bias_sign_run, bias_direction',
+    scope
+  ).eq('bias_persistent', true)
+
+  if (error) {
+    console.error('Error fetching biased forecasts:', error)
+    return { forecasts: [], count: 0, error: error.message }
+  }
+
+  const rows = (data || []) as unknown as BiasedForecast[]
+  const forecasts = rows
+    .sort((a, b) => Math.abs(b.bias_pct ?? 0) - Math.abs(a.bias_pct ?? 0))
+    .slice(0, limit)
+
+  return { forecasts, count: rows.length, error: null }
+}
+
+/**
+ * Get best and worst performing SKUs by MAPE
+ */
+export async function getAccuracyExtremes(limit = 5, scope: MetricsScope = {}) {
   // Best performers (lowest MAPE)
-  const { data: bestData, error: bestError } = await supabase
-    .from('forecast_metrics')
-    .select('sku, mape, wape')
+  const { data: bestData, error: bestError } = await selectMetrics('sku, mape, wape', scope)
     .not('mape', 'is', null)
     .order('mape', { ascending: true })
     .limit(limit)
 
   // Worst performers (highest MAPE)
-  const { data: worstData, error: worstError } = await supabase
-    .from('forecast_metrics')
-    .select('sku, mape, wape')
+  const { data: worstData, error: worstError } = await selectMetrics('sku, mape, wape', scope)
     .not('mape', 'is', null)
     .order('mape', { ascending: false })
     .limit(limit)
@@ -175,41 +404,335 @@ export async function getAccuracyExtremes(limit = 5) {
 /**
  * Get metrics distribution for charts
  */
-export async function getMetricsDistribution() {
-  const supabase = createAdminClient()
-
-  const { data, error } = await supabase
-    .from('forecast_metrics')
-    .select('mape')
+export async function getMetricsDistribution(scope: MetricsScope = {}) {
+  const { data, error } = await selectMetrics('mape', scope)
     .not('mape', 'is', null)
 
   if (error || !data) {
     return { distribution: [], error: error?.message || 'No data' }
   }
 
-  // Bucket the MAPE values
-  const buckets = {
-    'Excellent (<10%)': 0,
-    'Good (10-20%)': 0,
-    'Acceptable (20-30%)': 0,
-    'Poor (30-50%)': 0,
-    'Very Poor (>50%)': 0,
-  }
+  // Bucket the MAPE values by the configured tiers
+  const { config } = await getAccuracyConfig()
+  const counts = Object.fromEntries(ACCURACY_TIERS.map(tier => [tier, 0])) as Record<AccuracyTier, number>
 
   data.forEach((v) => {
-    const mape = v.mape!
-    if (mape < 10) buckets['Excellent (<10%)']++
-    else if (mape < 20) buckets['Good (10-20%)']++
-    else if (mape < 30) buckets['Acceptable (20-30%)']++
-    else if (mape < 50) buckets['Poor (30-50%)']++
-    else buckets['Very Poor (>50%)']++
+    counts[getMAPETier(v.mape!, config.thresholds)]++
   })
 
-  const distribution = Object.entries(buckets).map(([name, count]) => ({
-    name,
-    count,
-    percentage: (count / data.length) * 100,
+  const distribution = ACCURACY_TIERS.map(tier => ({
+    tier,
+    name: getTierLabel(tier, config.thresholds),
+    count: counts[tier],
+    percentage: (counts[tier] / data.length) * 100,
   }))
 
   return { distribution, error: null }
 }
+
+/**
+ * Get accuracy aggregated by brand or product type, weighted by revenue
+ * (price × actual units) and by cost (cost_price × actual units)
+ */
+export async function getAccuracyRollup(groupBy: RollupGroupBy) {
+  const supabase = createAdminClient()
+
+  // @ts-expect-error - Supabase types are too strict
+  const { data, error } = await supabase.rpc('get_accuracy_rollup', { p_group_by: groupBy })
+
+  if (error) {
+    console.error('Error fetching accuracy rollup:', error)
+    return { groups: [], error: error.message }
+  }
+
+  return { groups: (data || []) as AccuracyRollupGroup[], error: null }
+}
+
+/**
+ * Get the SKUs behind one rollup group, highest revenue first
+ */
+export async function getAccuracyRollupSkus(groupBy: RollupGroupBy, groupKey: string) {
+  const supabase = createAdminClient()
+
+  // @ts-expect-error - Supabase types are too strict
+  const { data, error } = await supabase.rpc('get_accuracy_rollup_skus', {
+    p_group_by: groupBy,
+    p_group_key: groupKey,
+  })
+
+  if (error) {
+    console.error('Error fetching rollup SKUs:', error)
+    return { skus: [], error: error.message }
+  }
+
+  return { skus: (data || []) as AccuracyRollupSku[], error: null }
+}
+
+/**
+ * Get accuracy of summed actuals vs summed forecasts at the total, brand and
+ * product type levels, next to the SKU-level error of the same SKUs
+ */
+export async function getHierarchyAccuracy(scope: MetricsScope = {}) {
+  const pageSize = 1000
+  const skus: HierarchySku[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await selectMetrics(
+      'period_start, actual_values, forecast_values, censored_months, censoring_mode, wape, variants!inner(brand, product_type)',
+      scope
+    )
+      .not('mape', 'is', null)
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching hierarchy accuracy:', error)
+      return { total: null, brands: [], productTypes: [], error: error.message }
+    }
+
+    const rows = (data || []) as unknown as (Pick<
+      ForecastMetric,
+      'period_start' | 'actual_values' | 'forecast_values' | 'censored_months' | 'censoring_mode' | 'wape'
+    > & { variants: Pick<Variant, 'brand' | 'product_type'> })[]
+
+    for (const row of rows) {
+      skus.push({
+        brand: row.variants.brand,
+        product_type: row.variants.product_type,
+        period_start: row.period_start,
+        actual_values: row.actual_values,
+        forecast_values: row.forecast_values,
+        censored_months: row.censored_months,
+        censoring_mode: row.censoring_mode,
+        wape: row.wape,
+      })
+    }
+
+    if (rows.length < pageSize) break
+  }
+
+  const granularity = scope.granularity ?? 'month'
+  return {
+    total: aggregateHierarchy(skus, 'total', granularity)[0] ?? null,
+    brands: aggregateHierarchy(skus, 'brand', granularity),
+    productTypes: aggregateHierarchy(skus, 'product_type', granularity),
+    error: null,
+  }
+}
+
+/**
+ * forecast_metrics row with the extended fields the calculation attaches
+ */
+interface CalculatedMetric extends MetricSnapshotInput {
+  zero_periods: number
+  ex_ante_periods: number
+}
+
+/**
+ * Recalculate forecast_metrics for every variant with sales history and
+ * record the run in the metrics history.
+ * Months with a forecast snapshot from at least the configured lag before
+ * them are scored against that snapshot (see getExAnteForecasts); stockout
+ * months are scored per the censored_demand_mode setting.
+ * Pass variantIds to recalculate only those variants.
+ */
+export async function calculateForecastMetrics(source: string, variantIds?: string[]) {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const metrics: CalculatedMetric[] = []
+  const [lagMonths, censoringMode, holdingCostRate] = await Promise.all([
+    getSnapshotLag(),
+    getCensoringMode(),
+    getHoldingCostRate(),
+  ])
+  let processed = 0
+
+  for (const ids of variantIdScopes(variantIds)) {
+    for (let from = 0; ; from += pageSize) {
+      let query = supabase
+        .from('variants')
+        .select('id, sku, orders_by_month, forecast_by_period, oos, oos_last_60_days, synced_at, price, cost_price')
+        .not('orders_by_month', 'is', null)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      const { data, error } = await query.range(from, from + pageSize - 1)
+
+      if (error) {
+        console.error('Error fetching variant series:', error)
+        break
+      }
+
+      const rows = (data || []) as Pick<
+        Variant,
+        | 'id'
+        | 'sku'
+        | 'orders_by_month'
+        | 'forecast_by_period'
+        | 'oos'
+        | 'oos_last_60_days'
+        | 'synced_at'
+        | 'price'
+        | 'cost_price'
+      >[]
+      const rowIds = rows.map(r => r.id)
+      const [{ forecasts: exAnte }, { history: stockHistory }] = await Promise.all([
+        getExAnteForecasts(lagMonths, rowIds),
+        getStockHistory(rowIds),
+      ])
+
+      for (const row of rows) {
+        processed++
+        const result = calculateSeriesMetrics(row.orders_by_month, row.forecast_by_period, {
+          exAnteForecast: exAnte.get(row.id),
+          stockout: {
+            oos: row.oos,
+            oosLast60Days: row.oos_last_60_days,
+            asOf: row.synced_at,
+            stockHistory: stockHistory.get(row.id),
+          },
+          censoringMode,
+          errorCost: { price: row.price, costPrice: row.cost_price, holdingCostRate },
+        })
+        if (!result) continue
+
+        metrics.push({
+          variant_id: row.id,
+          sku: row.sku,
+          ...result.metric,
+          zero_periods: result.zeroPeriods,
+          ex_ante_periods: result.exAntePeriods,
+        } as CalculatedMetric)
+      }
+
+      if (rows.length < pageSize) break
+    }
+  }
+
+  let calculated = 0
+  for (let i = 0; i < metrics.length; i += 500) {
+    const batch = metrics.slice(i, i + 500)
+    const { error } = await supabase
+      .from('forecast_metrics')
+      // @ts-expect-error - Supabase types are too strict
+      .upsert(batch, { onConflict: 'variant_id' })
+
+    if (!error) {
+      calculated += batch.length
+    } else {
+      console.error('Metrics batch error:', error)
+    }
+  }
+
+  // Append a snapshot of this run to the metrics history
+  const { run } = await recordMetricRun(source, metrics, { scoped: variantIds !== undefined })
+
+  return {
+    processed,
+    calculated,
+    skipped: processed - metrics.length,
+    runId: run?.id ?? null,
+  }
+}
+
+/**
+ * Recalculate weekly_forecast_metrics for every variant with a weekly sales
+ * history (orders_by_week scored against forecast_by_week).
+ * The snapshot ledger and stock history are monthly, so weeks are always
+ * scored against the latest forecast and censored from the oos figures only.
+ * Pass variantIds to recalculate only those variants.
+ */
+export async function calculateWeeklyMetrics(variantIds?: string[]): Promise<number> {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const metrics: WeeklyForecastMetricInsert[] = []
+  const [censoringMode, holdingCostRate] = await Promise.all([getCensoringMode(), getHoldingCostRate()])
+
+  for (const ids of variantIdScopes(variantIds)) {
+    for (let from = 0; ; from += pageSize) {
+      let query = supabase
+        .from('variants')
+        .select('id, sku, orders_by_week, forecast_by_week, oos, oos_last_60_days, synced_at, price, cost_price')
+        .not('orders_by_week', 'is', null)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      const { data, error } = await query.range(from, from + pageSize - 1)
+
+      if (error) {
+        console.error('Error fetching weekly series:', error)
+        break
+      }
+
+      const rows = (data || []) as Pick<
+        Variant,
+        | 'id'
+        | 'sku'
+        | 'orders_by_week'
+        | 'forecast_by_week'
+        | 'oos'
+        | 'oos_last_60_days'
+        | 'synced_at'
+        | 'price'
+        | 'cost_price'
+      >[]
+
+      for (const row of rows) {
+        const result = calculateSeriesMetrics(row.orders_by_week, row.forecast_by_week, {
+          granularity: 'week',
+          stockout: { oos: row.oos, oosLast60Days: row.oos_last_60_days, asOf: row.synced_at },
+          censoringMode,
+          errorCost: { price: row.price, costPrice: row.cost_price, holdingCostRate },
+        })
+        if (!result) continue
+
+        metrics.push({
+          variant_id: row.id,
+          sku: row.sku,
+          ...result.metric,
+          zero_periods: result.zeroPeriods,
+        })
+      }
+
+      if (rows.length < pageSize) break
+    }
+  }
+
+  let calculated = 0
+  for (let i = 0; i < metrics.length; i += 500) {
+    const batch = metrics.slice(i, i + 500)
+    const { error } = await supabase
+      .from('weekly_forecast_metrics')
+      // @ts-expect-error - Supabase types are too strict
+      .upsert(batch, { onConflict: 'variant_id' })
+
+    if (!error) {
+      calculated += batch.length
+    } else {
+      console.error('Weekly metrics batch error:', error)
+    }
+  }
+
+  return calculated
+}
+
+/**
+ * Granularities with calculated metrics; monthly is always offered
+ */
+export async function getAvailableGranularities(): Promise<{ granularities: Granularity[]; error: string | null }> {
+  const { count, error } = await selectMetrics('id', { granularity: 'week' }, { count: 'exact' })
+    .limit(1)
+
+  if (error) {
+    console.error('Error checking weekly metrics:', error)
+    return { granularities: ['month'], error: error.message }
+  }
+
+  return {
+    granularities: GRANULARITIES.filter(g => g === 'month' || (count ?? 0) > 0),
+    error: null,
+  }
+}
@@ -0,0 +1,189 @@
+import { createAdminClient } from '../admin'
+import {
+  groupByVendor,
+  summarizeLines,
+  type ExportFormat,
+  type PurchaseOrderDraftInput,
+  type ReorderCandidate,
+} from '@/lib/utils/purchase-orders'
+import type {
+  PurchaseOrderDraft,
+  PurchaseOrderDraftEvent,
+  PurchaseOrderDraftLine,
+} from '@/types/database'
+
+export interface SaveDraftInput extends PurchaseOrderDraftInput {
+  /** Existing draft to overwrite; omitted to create one */
+  id?: string
+}
+
+/**
+ * Get every variant with a to_order quantity, grouped by primary vendor
+ */
+export async function getReorderCandidates() {
+  const supabase = createAdminClient()
+  const pageSize = 500
+  const candidates: ReorderCandidate[] = []
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('variants')
+      .select('id, sku, title, barcode, to_order, cost_price, raw_data')
+      .gt('to_order', 0)
+      .order('sku')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching reorder candidates:', error)
+      return { groups: [], error: error.message }
+    }
+
+    const rows = (data || []) as ReorderCandidate[]
+    candidates.push(...rows)
+    if (rows.length < pageSize) break
+  }
+
+  return { groups: groupByVendor(candidates), error: null }
+}
+
+/**
+ * Get saved drafts, most recently changed first
+ */
+export async function getPurchaseOrderDrafts(limit = 50) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('po_drafts')
+    .select('*')
+    .order('updated_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching purchase order drafts:', error)
+    return { drafts: [], error: error.message }
+  }
+
+  return { drafts: (data || []) as PurchaseOrderDraft[], error: null }
+}
+
+/**
+ * Get one draft with its lines and save / export history
+ */
+export async function getPurchaseOrderDraft(id: string) {
+  const supabase = createAdminClient()
+
+  const [draftResult, linesResult, eventsResult] = await Promise.all([
+    supabase.from('po_drafts').select('*').eq('id', id).maybeSingle(),
+    supabase.from('po_draft_lines').select('*').eq('draft_id', id).order('sku'),
+    supabase
+      .from('po_draft_events')
+      .select('*')
+      .eq('draft_id', id)
+      .order('created_at', { ascending: false }),
+  ])
+
+  const error = draftResult.error || linesResult.error || eventsResult.error
+  if (error) {
+    console.error('Error fetching purchase order draft:', error)
+    return { draft: null, lines: [], events: [], error: error.message }
+  }
+
+  return {
+    draft: draftResult.data as PurchaseOrderDraft | null,
+    lines: (linesResult.data || []) as PurchaseOrderDraftLine[],
+    events: (eventsResult.data || []) as PurchaseOrderDraftEvent[],
+    error: null,
+  }
+}
+
+/**
+ * Create a draft, or overwrite an existing one's header and lines (which
+ * returns an exported draft to 'draft'); each save is logged in po_draft_events.
+ * The save_po_draft function does all of this in one transaction.
+ */
+export async function savePurchaseOrderDraft(input: SaveDraftInput) {
+  const supabase = createAdminClient()
+  const totals = summarizeLines(input.lines)
+
+  // @ts-expect-error - Supabase types are too strict
+  const { data, error } = await supabase.rpc('save_po_draft', {
+    p_draft_id: input.id ?? null,
+    p_draft: {
+      vendor_id: input.vendor_id,
+      vendor_name: input.vendor_name,
+      notes: input.notes,
+      ...totals,
+    },
+    p_lines: input.lines,
+  })
+
+  if (error || !data) {
+    console.error('Error saving purchase order draft:', error)
+    return { id: null, error: error?.message ?? 'Draft not saved' }
+  }
+
+  return { id: data as string, error: null }
+}
+
+/**
+ * Delete a draft with its lines and history
+ */
+export async function deletePurchaseOrderDraft(id: string) {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase.from('po_drafts').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting purchase order draft:', error)
+    return { error: error.message }
+  }
+
+  return { error: null }
+}
+
+/**
+ * Mark a draft exported and log the export format
+ */
+export async function markDraftExported(draft: PurchaseOrderDraft, format: ExportFormat) {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from('po_drafts')
+    // @ts-expect-error - Supabase types are too strict
+    .update({ status: 'exported', exported_at: new Date().toISOString() })
+    .eq('id', draft.id)
+
+  if (error) {
+    console.error('Error marking purchase order draft exported:', error)
+    return { error: error.message }
+  }
+
+  await recordDraftEvent(draft.id, 'exported', format, draft)
+
+  return { error: null }
+}
+
+async function recordDraftEvent(
+  draftId: string,
+  action: PurchaseOrderDraftEvent['action'],
+  format: ExportFormat | null,
+  totals: Pick<PurchaseOrderDraftEvent, 'line_count' | 'total_units' | 'total_cost'>
+) {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from('po_draft_events')
+    // @ts-expect-error - Supabase types are too strict
+    .insert({
+      draft_id: draftId,
+      action,
+      format,
+      line_count: totals.line_count,
+      total_units: totals.total_units,
+      total_cost: totals.total_cost,
+    })
+
+  if (error) {
+    console.error('Error recording purchase order event:', error)
+  }
+}
@@ -0,0 +1,95 @@
+import { createAdminClient } from '../admin'
+import { getServiceLevel } from './settings'
+import { calculateSafetyStock, compareWithInventoryPlanner } from '@/lib/utils/safety-stock'
+import { GRANULARITY_CONFIG } from '@/lib/utils/periods'
+import type { ForecastMetric, SafetyStockReportRow, Variant } from '@/types/database'
+
+type SafetyStockVariant = Pick<
+  Variant,
+  | 'sku'
+  | 'title'
+  | 'brand'
+  | 'in_stock'
+  | 'purchase_orders_qty'
+  | 'minimum_stock'
+  | 'replenishment'
+  | 'lead_time'
+  | 'current_forecast'
+  | 'last_30_days_sales'
+>
+
+/**
+ * Get every SKU whose safety stock or reorder signal, calculated from its
+ * monthly forecast RMSE and lead time, disagrees with Inventory Planner's
+ * minimum_stock / replenishment; largest safety stock gap first
+ */
+export async function getSafetyStockReport() {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const serviceLevel = await getServiceLevel()
+  const rows: SafetyStockReportRow[] = []
+  let checked = 0
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('forecast_metrics')
+      .select(
+        'rmse, variants!inner(sku, title, brand, in_stock, purchase_orders_qty, minimum_stock, replenishment, lead_time, current_forecast, last_30_days_sales)'
+      )
+      .not('rmse', 'is', null)
+      .gt('variants.lead_time', 0)
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      console.error('Error fetching safety stock report:', error)
+      return { rows: [], checked: 0, serviceLevel, error: error.message }
+    }
+
+    const page = (data || []) as unknown as (Pick<ForecastMetric, 'rmse'> & { variants: SafetyStockVariant })[]
+    for (const { rmse, variants: v } of page) {
+      const result = calculateSafetyStock({
+        rmse,
+        periodsPerYear: GRANULARITY_CONFIG.month.periodsPerYear,
+        leadTimeDays: v.lead_time,
+        currentForecast: v.current_forecast,
+        last30DaysSales: v.last_30_days_sales,
+        inStock: v.in_stock,
+        purchaseOrdersQty: v.purchase_orders_qty,
+        serviceLevel,
+      })
+      if (!result) continue
+      checked++
+
+      const flags = compareWithInventoryPlanner(result, {
+        minimumStock: v.minimum_stock,
+        replenishment: v.replenishment,
+      })
+      if (flags.length === 0) continue
+
+      rows.push({
+        sku: v.sku,
+        title: v.title,
+        brand: v.brand,
+        rmse: rmse!,
+        lead_time: result.leadTimeDays,
+        in_stock: v.in_stock,
+        purchase_orders_qty: v.purchase_orders_qty,
+        minimum_stock: v.minimum_stock,
+        replenishment: v.replenishment,
+        safety_stock: result.safetyStock,
+        reorder_point: result.reorderPoint,
+        stock_position: result.stockPosition,
+        shortfall: result.shortfall,
+        flags,
+      })
+    }
+
+    if (page.length < pageSize) break
+  }
+
+  rows.sort(
+    (a, b) => Math.abs(b.safety_stock - (b.minimum_stock ?? 0)) - Math.abs(a.safety_stock - (a.minimum_stock ?? 0))
+  )
+
+  return { rows, checked, serviceLevel, error: null }
+}
@@ -0,0 +1,34 @@
+import { createAdminClient } from '../admin'
+import type { SegmentMatrixCell } from '@/types/database'
+
+/**
+ * Recalculate ABC / XYZ classes for every variant (see refresh_abc_xyz_segments)
+ */
+export async function refreshSegments() {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('refresh_abc_xyz_segments')
+
+  if (error) {
+    console.error('Error refreshing ABC/XYZ segments:', error)
+    return { updated: 0, error: error.message }
+  }
+
+  return { updated: (data as number | null) ?? 0, error: null }
+}
+
+/**
+ * SKU count, value share and revenue-weighted MAPE per ABC × XYZ cell
+ */
+export async function getSegmentMatrix() {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase.rpc('get_segment_matrix')
+
+  if (error) {
+    console.error('Error fetching segment matrix:', error)
+    return { cells: [], error: error.message }
+  }
+
+  return { cells: (data || []) as SegmentMatrixCell[], error: null }
+}
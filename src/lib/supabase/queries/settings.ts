@@ -0,0 +1,118 @@
+import { createAdminClient } from '../admin'
+import {
+  CENSORING_MODES,
+  DEFAULT_CENSORING_MODE,
+  DEFAULT_HOLDING_COST_RATE,
+  type CensoringMode,
+} from '@/lib/utils/calculate-metrics'
+import { DEFAULT_SERVICE_LEVEL, MAX_SERVICE_LEVEL, MIN_SERVICE_LEVEL } from '@/lib/utils/safety-stock'
+import {
+  DEFAULT_DEAD_STOCK_MONTHS,
+  DEFAULT_EXCESS_HORIZON_MONTHS,
+  clampExcessMonths,
+} from '@/lib/utils/excess-stock'
+import type { AppSetting } from '@/types/database'
+
+/**
+ * Get a single app setting value (null when unset or empty)
+ */
+export async function getSetting(key: string) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    return { value: null, error: error.message }
+  }
+
+  return { value: (data as Pick<AppSetting, 'key' | 'value'> | null)?.value || null, error: null }
+}
+
+/**
+ * Get several app settings as a key-value object (missing keys are omitted)
+ */
+export async function getSettings(keys: string[]) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('key, value')
+    .in('key', keys)
+
+  const settings: Record<string, string> = {}
+  if (error) {
+    return { settings, error: error.message }
+  }
+
+  for (const row of (data || []) as Pick<AppSetting, 'key' | 'value'>[]) {
+    settings[row.key] = row.value || ''
+  }
+
+  return { settings, error: null }
+}
+
+/**
+ * Create or update an app setting
+ */
+export async function setSetting(key: string, value: string, description?: string) {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from('app_settings')
+    // @ts-expect-error - Supabase types are too strict
+    .upsert(
+      {
+        key,
+        value,
+        ...(description !== undefined && { description }),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'key' }
+    )
+
+  return { error: error?.message ?? null }
+}
+
+/**
+ * How stockout months are scored (app_settings.censored_demand_mode)
+ */
+export async function getCensoringMode(): Promise<CensoringMode> {
+  const { value } = await getSetting('censored_demand_mode')
+  return CENSORING_MODES.includes(value as CensoringMode) ? (value as CensoringMode) : DEFAULT_CENSORING_MODE
+}
+
+/**
+ * Annual holding cost as % of unit cost (app_settings.holding_cost_rate, 0-100)
+ */
+export async function getHoldingCostRate(): Promise<number> {
+  const { value } = await getSetting('holding_cost_rate')
+  const rate = value !== null ? parseFloat(value) : NaN
+  if (Number.isNaN(rate)) return DEFAULT_HOLDING_COST_RATE
+  return Math.min(100, Math.max(0, rate))
+}
+
+/**
+ * Target cycle service level for safety stock, % (app_settings.target_service_level, 50-99.9)
+ */
+export async function getServiceLevel(): Promise<number> {
+  const { value } = await getSetting('target_service_level')
+  const level = value !== null ? parseFloat(value) : NaN
+  if (Number.isNaN(level)) return DEFAULT_SERVICE_LEVEL
+  return Math.min(MAX_SERVICE_LEVEL, Math.max(MIN_SERVICE_LEVEL, level))
+}
+
+/**
+ * Excess stock horizon and dead stock window in months
+ * (app_settings.excess_horizon_months / dead_stock_months, 1-24)
+ */
+export async function getExcessStockSettings(): Promise<{ horizonMonths: number; deadStockMonths: number }> {
+  const { settings } = await getSettings(['excess_horizon_months', 'dead_stock_months'])
+  return {
+    horizonMonths: clampExcessMonths(parseInt(settings.excess_horizon_months, 10), DEFAULT_EXCESS_HORIZON_MONTHS),
+    deadStockMonths: clampExcessMonths(parseInt(settings.dead_stock_months, 10), DEFAULT_DEAD_STOCK_MONTHS),
+  }
+}
@@ -0,0 +1,125 @@
+import { createAdminClient } from '../admin'
+import { getSetting } from './settings'
+import type { ForecastSnapshot, ForecastSnapshotInsert } from '@/types/database'
+
+export const DEFAULT_SNAPSHOT_LAG_MONTHS = 1
+const MAX_SNAPSHOT_LAG_MONTHS = 12
+
+/**
+ * Append the forecast vectors received in a sync to the snapshot ledger
+ * (one row per variant per sync date; a later sync the same day replaces it)
+ */
+export async function upsertForecastSnapshots(rows: ForecastSnapshotInsert[]) {
+  if (rows.length === 0) {
+    return { upserted: 0, error: null }
+  }
+
+  const supabase = createAdminClient()
+  let upserted = 0
+  let lastError: string | null = null
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const batch = rows.slice(i, i + 500)
+    const { error } = await supabase
+      .from('forecast_snapshots')
+      // @ts-expect-error - Supabase types are too strict
+      .upsert(batch, { onConflict: 'variant_id,snapshot_date' })
+
+    if (error) {
+      console.error('Forecast snapshot upsert error:', error)
+      lastError = error.message
+    } else {
+      upserted += batch.length
+    }
+  }
+
+  return { upserted, error: lastError }
+}
+
+/**
+ * Months before a target month whose recorded forecast is scored
+ * (app_settings.forecast_snapshot_lag_months, 0-12)
+ */
+export async function getSnapshotLag(): Promise<number> {
+  const { value } = await getSetting('forecast_snapshot_lag_months')
+  const lag = value !== null ? parseInt(value, 10) : NaN
+  if (Number.isNaN(lag)) return DEFAULT_SNAPSHOT_LAG_MONTHS
+  return Math.min(MAX_SNAPSHOT_LAG_MONTHS, Math.max(0, lag))
+}
+
+/**
+ * Ex-ante forecast per variant: for each month, the value from the latest
+ * snapshot taken in month (target - lag) or earlier, keyed YYYY-MM
+ */
+export async function getExAnteForecasts(lagMonths: number, variantIds: string[]) {
+  const forecasts = new Map<string, Map<string, number>>()
+  if (variantIds.length === 0) {
+    return { forecasts, error: null }
+  }
+
+  const supabase = createAdminClient()
+
+  // @ts-expect-error - Supabase types are too strict
+  const { data, error } = await supabase.rpc('get_ex_ante_forecasts', {
+    p_lag_months: lagMonths,
+    p_variant_ids: variantIds,
+  })
+
+  if (error) {
+    console.error('Error fetching ex-ante forecasts:', error)
+    return { forecasts, error: error.message }
+  }
+
+  for (const row of (data || []) as { variant_id: string; forecasts: Record<string, number> }[]) {
+    forecasts.set(row.variant_id, new Map(Object.entries(row.forecasts).map(([k, v]) => [k, Number(v)])))
+  }
+
+  return { forecasts, error: null }
+}
+
+/**
+ * Stock history per variant from the snapshot ledger: sync snapshots per
+ * month (YYYY-MM) and how many found the variant out of stock
+ */
+export async function getStockHistory(variantIds: string[]) {
+  const history = new Map<string, Map<string, { snapshots: number; stockouts: number }>>()
+  if (variantIds.length === 0) {
+    return { history, error: null }
+  }
+
+  const supabase = createAdminClient()
+
+  // @ts-expect-error - Supabase types are too strict
+  const { data, error } = await supabase.rpc('get_stock_history', { p_variant_ids: variantIds })
+
+  if (error) {
+    console.error('Error fetching stock history:', error)
+    return { history, error: error.message }
+  }
+
+  type Row = { variant_id: string; months: Record<string, { snapshots: number; stockouts: number }> }
+  for (const row of (data || []) as Row[]) {
+    history.set(row.variant_id, new Map(Object.entries(row.months)))
+  }
+
+  return { history, error: null }
+}
+
+/**
+ * Get every snapshot for a SKU, oldest first
+ */
+export async function getForecastSnapshotsBySku(sku: string) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('forecast_snapshots')
+    .select('*')
+    .eq('sku', sku)
+    .order('snapshot_date', { ascending: true })
+
+  if (error) {
+    return { snapshots: [], error: error.message }
+  }
+
+  return { snapshots: (data || []) as ForecastSnapshot[], error: null }
+}
@@ -1,5 +1,7 @@
 import { createAdminClient } from '../admin'
-import type { SyncMetric } from '@/types/database'
+import { getExcessStockSettings } from './settings'
+import { calculateExcessStock } from '@/lib/utils/excess-stock'
+import type { SyncMetric, Variant } from '@/types/database'
 
 /**
  * Get latest business summary
@@ -66,9 +68,11 @@ export async function getSummaryHistory(days = 30) {
 export async function getLatestSyncStatus() {
   const supabase = createAdminClient()
 
+  // Skipped scheduler runs are not syncs
   const { data, error } = await supabase
     .from('sync_metrics')
     .select('*')
+    .neq('status', 'skipped')
     .order('started_at', { ascending: false })
     .limit(1)
     .single()
@@ -139,7 +143,7 @@ export async function createSyncRecord(syncType: string): Promise<{ sync: SyncMe
  */
 export async function completeSyncRecord(
   syncId: string,
-  status: 'completed' | 'failed',
+  status: 'completed' | 'partial' | 'failed',
   recordsFetched: number,
   recordsUpdated: number,
   errorMessage?: string
@@ -175,3 +179,120 @@ export async function completeSyncRecord(
 
   return { error: null }
 }
+
+/**
+ * Record a sync that was due but did not run (e.g. the previous sync was
+ * still running). Stored with status 'skipped' so it shows in sync history.
+ */
+export async function recordSkippedSync(syncType: string, reason: string) {
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+
+  const { error } = await supabase
+    .from('sync_metrics')
+    // @ts-expect-error - Supabase types are too strict
+    .insert({
+      sync_type: syncType,
+      started_at: now,
+      completed_at: now,
+      duration_ms: 0,
+      status: 'skipped',
+      error_message: reason,
+    })
+
+  return { error: error?.message ?? null }
+}
+
+/**
+ * Recompute today's business_summary row (one per snapshot_date) from
+ * variants and forecast_metrics
+ */
+export async function updateBusinessSummary() {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const rows: Pick<
+    Variant,
+    | 'in_stock'
+    | 'cost_price'
+    | 'oos'
+    | 'replenishment'
+    | 'forecasted_lost_revenue'
+    | 'last_90_days_sales'
+    | 'forecast_by_period'
+    | 'orders_by_month'
+  >[] = []
+  const metrics: { mape: number | null }[] = []
+
+  // Paged: a single select is capped at 1000 rows
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('variants')
+      .select('in_stock, cost_price, oos, replenishment, forecasted_lost_revenue, last_90_days_sales, forecast_by_period, orders_by_month')
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error || !data) return { error: 'Failed to read variants' }
+
+    rows.push(...(data as typeof rows))
+    if (data.length < pageSize) break
+  }
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from('forecast_metrics')
+      .select('mape')
+      .order('variant_id')
+      .range(from, from + pageSize - 1)
+
+    if (error || !data) break
+
+    metrics.push(...(data as typeof metrics))
+    if (data.length < pageSize) break
+  }
+  const { horizonMonths, deadStockMonths } = await getExcessStockSettings()
+  const totalInStock = rows.reduce((sum, v) => sum + (v.in_stock || 0), 0)
+  const totalValue = rows.reduce((sum, v) => sum + ((v.in_stock || 0) * (v.cost_price || 0)), 0)
+  const itemsNeedingReorder = rows.filter(v => (v.replenishment || 0) > 0).length
+  const itemsOutOfStock = rows.filter(v => (v.in_stock || 0) === 0).length
+  // Excess over the forecast horizon, or dead stock (same rule as the Excess Stock page)
+  const itemsOverstocked = rows.filter(v => calculateExcessStock({
+    inStock: v.in_stock || 0,
+    costPrice: v.cost_price,
+    forecast: v.forecast_by_period,
+    ordersByMonth: v.orders_by_month,
+    last90DaysSales: v.last_90_days_sales || 0,
+    horizonMonths,
+    deadStockMonths,
+  })?.action).length
+  const totalLostRevenue = rows.reduce((sum, v) => sum + (v.forecasted_lost_revenue || 0), 0)
+
+  const validMape = metrics
+    .filter(m => m.mape !== null)
+    .map(m => m.mape as number)
+  const avgForecastAccuracy = validMape.length > 0
+    ? 100 - (validMape.reduce((a, b) => a + b, 0) / validMape.length)
+    : null
+
+  const { error } = await supabase
+    .from('business_summary')
+    // @ts-expect-error - Supabase types are too strict
+    .upsert({
+      snapshot_date: new Date().toISOString().split('T')[0],
+      total_skus: rows.length,
+      total_in_stock: totalInStock,
+      total_value: totalValue,
+      items_needing_reorder: itemsNeedingReorder,
+      items_overstocked: itemsOverstocked,
+      items_out_of_stock: itemsOutOfStock,
+      avg_forecast_accuracy: avgForecastAccuracy,
+      total_lost_revenue: totalLostRevenue,
+      top_priority_items: null
+    }, { onConflict: 'snapshot_date' })
+
+  if (error) {
+    console.error('Error updating business summary:', error)
+    return { error: error.message }
+  }
+
+  return { error: null }
+}
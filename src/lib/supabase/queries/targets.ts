@@ -0,0 +1,84 @@
+import { createAdminClient } from '../admin'
+import { getSetting, setSetting } from './settings'
+import {
+  DEFAULT_ACCURACY_CONFIG,
+  DEFAULT_TIER_THRESHOLDS,
+  parseTierThresholds,
+  type AccuracyConfig,
+  type AccuracyTarget,
+} from '@/lib/utils/accuracy-tiers'
+import type { AccuracyTargetRow } from '@/types/database'
+
+/**
+ * Tier thresholds (app_settings.mape_tier_thresholds) and every accuracy
+ * target; falls back to the defaults when nothing is stored
+ */
+export async function getAccuracyConfig(): Promise<{ config: AccuracyConfig; error: string | null }> {
+  const supabase = createAdminClient()
+
+  const [{ value }, { data, error }] = await Promise.all([
+    getSetting('mape_tier_thresholds'),
+    supabase
+      .from('accuracy_targets')
+      .select('scope, scope_value, target_mape')
+      .order('scope')
+      .order('scope_value'),
+  ])
+
+  const thresholds = parseTierThresholds(value) ?? DEFAULT_TIER_THRESHOLDS
+
+  if (error) {
+    console.error('Error fetching accuracy targets:', error)
+    return { config: { ...DEFAULT_ACCURACY_CONFIG, thresholds }, error: error.message }
+  }
+
+  const rows = (data || []) as Pick<AccuracyTargetRow, 'scope' | 'scope_value' | 'target_mape'>[]
+  const targets: AccuracyTarget[] = rows.map(row => ({
+    scope: row.scope,
+    scope_value: row.scope_value,
+    target_mape: Number(row.target_mape),
+  }))
+
+  return {
+    config: { thresholds, targets: targets.length > 0 ? targets : DEFAULT_ACCURACY_CONFIG.targets },
+    error: null,
+  }
+}
+
+/**
+ * Replace the stored tier thresholds and targets; targets missing from
+ * `config` are deleted
+ */
+export async function saveAccuracyConfig(config: AccuracyConfig) {
+  const supabase = createAdminClient()
+
+  const { error: settingError } = await setSetting('mape_tier_thresholds', JSON.stringify(config.thresholds))
+  if (settingError) {
+    return { error: settingError }
+  }
+
+  const now = new Date().toISOString()
+  const rows = config.targets.map(t => ({ ...t, updated_at: now }))
+  const { error: upsertError } = await supabase
+    .from('accuracy_targets')
+    // @ts-expect-error - Supabase types are too strict
+    .upsert(rows, { onConflict: 'scope,scope_value' })
+
+  if (upsertError) {
+    console.error('Error saving accuracy targets:', upsertError)
+    return { error: upsertError.message }
+  }
+
+  // Every row not touched above was removed by the admin
+  const { error: deleteError } = await supabase
+    .from('accuracy_targets')
+    .delete()
+    .lt('updated_at', now)
+
+  if (deleteError) {
+    console.error('Error removing accuracy targets:', deleteError)
+    return { error: deleteError.message }
+  }
+
+  return { error: null }
+}
@@ -1,5 +1,5 @@
 import { createAdminClient } from '../admin'
-import type { Variant } from '@/types/database'
+import type { ForecastMetric, Variant, VariantInsert } from '@/types/database'
 
 // Columns for list views (excludes heavy JSON fields)
 const VARIANT_LIST_COLUMNS = `
@@ -9,12 +9,29 @@ const VARIANT_LIST_COLUMNS = `
   last_180_days_sales, last_365_days_sales, total_sales,
   forecasted_stock, current_forecast, replenishment, to_order,
   minimum_stock, lead_time, oos, oos_last_60_days,
-  forecasted_lost_revenue, synced_at, created_at, updated_at
+  forecasted_lost_revenue, projected_stockout_date, days_of_cover,
+  synced_at, created_at, updated_at
 ` as const
 
 // Full columns including JSON data (for detail views only)
 const VARIANT_DETAIL_COLUMNS = '*'
 
+// Variant IDs per request when a query is scoped to given variants
+const VARIANT_ID_CHUNK = 200
+
+/**
+ * Split an optional variant ID scope into chunks for `.in()` filters, so
+ * scoped queries keep the URL short. An unscoped query gets one null chunk.
+ */
+export function variantIdScopes(variantIds?: string[]): (string[] | null)[] {
+  if (!variantIds) return [null]
+  const scopes: string[][] = []
+  for (let i = 0; i < variantIds.length; i += VARIANT_ID_CHUNK) {
+    scopes.push(variantIds.slice(i, i + VARIANT_ID_CHUNK))
+  }
+  return scopes
+}
+
 export interface VariantQueryOptions {
   limit?: number
   offset?: number
@@ -121,10 +138,105 @@ export async function getVariantById(id: string) {
   return { variant: data, error: null }
 }
 
+// Columns shown in the dashboard priority lists
+const PRIORITY_COLUMNS =
+  'id, sku, title, brand, in_stock, replenishment, to_order, lead_time, oos, oos_last_60_days, forecasted_lost_revenue'
+
+/**
+ * How the priority lists are ordered: by stock urgency (replenishment need,
+ * or days out of stock) or by the dollar cost of forecast error
+ */
+export type PrioritySort = 'urgency' | 'error_cost'
+
+export const PRIORITY_SORTS: readonly PrioritySort[] = ['urgency', 'error_cost']
+
+export function isPrioritySort(value: string | null | undefined): value is PrioritySort {
+  return PRIORITY_SORTS.includes(value as PrioritySort)
+}
+
+type PriorityVariant = Pick<
+  Variant,
+  | 'id'
+  | 'sku'
+  | 'title'
+  | 'brand'
+  | 'in_stock'
+  | 'replenishment'
+  | 'to_order'
+  | 'lead_time'
+  | 'oos'
+  | 'oos_last_60_days'
+  | 'forecasted_lost_revenue'
+>
+
+type PriorityCost = Pick<ForecastMetric, 'carrying_cost' | 'lost_margin' | 'error_cost'>
+
+export type PriorityItem = PriorityVariant & PriorityCost
+
+/**
+ * Attach each variant's cost of forecast error (null without metrics)
+ */
+async function withErrorCost(variants: PriorityVariant[]): Promise<PriorityItem[]> {
+  const costs = new Map<string, PriorityCost>()
+  if (variants.length > 0) {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from('forecast_metrics')
+      .select('variant_id, carrying_cost, lost_margin, error_cost')
+      .in('variant_id', variants.map(v => v.id))
+
+    if (error) {
+      console.error('Error fetching error cost:', error)
+    }
+    for (const row of (data || []) as (PriorityCost & { variant_id: string })[]) {
+      costs.set(row.variant_id, row)
+    }
+  }
+
+  return variants.map(v => ({
+    ...v,
+    carrying_cost: costs.get(v.id)?.carrying_cost ?? null,
+    lost_margin: costs.get(v.id)?.lost_margin ?? null,
+    error_cost: costs.get(v.id)?.error_cost ?? null,
+  }))
+}
+
 /**
- * Get top priority items (highest replenishment needs)
+ * Reorder or out-of-stock variants, costliest forecast error first
+ * (SKUs without a priced error are left out)
  */
-export async function getTopPriorityItems(limit = 10) {
+async function getCostliestItems(type: 'reorder' | 'oos', limit: number) {
+  const supabase = createAdminClient()
+
+  let query = supabase
+    .from('forecast_metrics')
+    .select(`carrying_cost, lost_margin, error_cost, variants!inner(${PRIORITY_COLUMNS})`)
+    .not('error_cost', 'is', null)
+
+  query = type === 'reorder'
+    ? query.gt('variants.replenishment', 0)
+    : query.lte('variants.in_stock', 0)
+
+  const { data, error } = await query
+    .order('error_cost', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    return { items: [] as PriorityItem[], error: error.message }
+  }
+
+  const rows = (data || []) as unknown as (PriorityCost & { variants: PriorityVariant })[]
+  return {
+    items: rows.map(({ variants, ...cost }) => ({ ...variants, ...cost })),
+    error: null,
+  }
+}
+
+/**
+ * Get top priority items (highest replenishment needs, or costliest
+ * forecast error with sort 'error_cost')
+ */
+export async function getTopPriorityItems(limit = 10, sort: PrioritySort = 'urgency') {
   const supabase = createAdminClient()
 
   // Get total count first
@@ -133,9 +245,18 @@ export async function getTopPriorityItems(limit = 10) {
     .select('*', { count: 'exact', head: true })
     .gt('replenishment', 0)
 
+  if (sort === 'error_cost') {
+    const { items, error } = await getCostliestItems('reorder', limit)
+    if (error) {
+      console.error('Error fetching priority items:', error)
+      return { items: [], totalCount: 0, error }
+    }
+    return { items, totalCount: totalCount || 0, error: null }
+  }
+
   const { data, error } = await supabase
     .from('variants')
-    .select('id, sku, title, brand, in_stock, replenishment, to_order, lead_time, oos, forecasted_lost_revenue')
+    .select(PRIORITY_COLUMNS)
     .gt('replenishment', 0)
     .order('replenishment', { ascending: false })
     .limit(limit)
@@ -145,14 +266,16 @@ export async function getTopPriorityItems(limit = 10) {
     return { items: [], totalCount: 0, error: error.message }
   }
 
-  return { items: data || [], totalCount: totalCount || 0, error: null }
+  const items = await withErrorCost((data || []) as PriorityVariant[])
+  return { items, totalCount: totalCount || 0, error: null }
 }
 
 /**
  * Get out-of-stock items (in_stock <= 0)
- * Ordered by days OOS (oos field) to show longest OOS items first
+ * Ordered by days OOS (oos field) to show longest OOS items first, or by
+ * the costliest forecast error with sort 'error_cost'
  */
-export async function getOutOfStockItems(limit = 50) {
+export async function getOutOfStockItems(limit = 50, sort: PrioritySort = 'urgency') {
   const supabase = createAdminClient()
 
   // Get total count of currently out of stock items (in_stock <= 0)
@@ -161,10 +284,19 @@ export async function getOutOfStockItems(limit = 50) {
     .select('*', { count: 'exact', head: true })
     .lte('in_stock', 0)
 
+  if (sort === 'error_cost') {
+    const { items, error } = await getCostliestItems('oos', limit)
+    if (error) {
+      console.error('Error fetching OOS items:', error)
+      return { items: [], totalCount: 0, error }
+    }
+    return { items, totalCount: totalCount || 0, error: null }
+  }
+
   // Get items ordered by how long they've been OOS
   const { data, error } = await supabase
     .from('variants')
-    .select('id, sku, title, brand, in_stock, oos, oos_last_60_days, forecasted_lost_revenue, replenishment, to_order, lead_time')
+    .select(PRIORITY_COLUMNS)
     .lte('in_stock', 0)
     .order('oos', { ascending: false, nullsFirst: false })
     .limit(limit)
@@ -174,7 +306,8 @@ export async function getOutOfStockItems(limit = 50) {
     return { items: [], totalCount: 0, error: error.message }
   }
 
-  return { items: data || [], totalCount: totalCount || 0, error: null }
+  const items = await withErrorCost((data || []) as PriorityVariant[])
+  return { items, totalCount: totalCount || 0, error: null }
 }
 
 /**
@@ -269,3 +402,21 @@ export async function getInventoryStats() {
     totalLostRevenue,
   }
 }
+
+/**
+ * Upsert one batch of variants (keyed by Inventory Planner id)
+ */
+export async function upsertVariants(rows: VariantInsert[]) {
+  const supabase = createAdminClient()
+
+  const { error } = await supabase
+    .from('variants')
+    // @ts-expect-error - Supabase types are too strict
+    .upsert(rows, { onConflict: 'id' })
+
+  if (error) {
+    return { upserted: 0, error: { message: error.message, code: error.code, details: error.details } }
+  }
+
+  return { upserted: rows.length, error: null }
+}
@@ -0,0 +1,258 @@
+import { createAdminClient } from '../admin'
+import { calculateWarehouseMetric } from '@/lib/utils/warehouses'
+import { getCensoringMode, getHoldingCostRate } from './settings'
+import { variantIdScopes } from './variants'
+import type {
+  Variant,
+  VariantWarehouse,
+  VariantWarehouseInsert,
+  WarehouseForecastMetric,
+  WarehouseForecastMetricInsert,
+  WarehouseOption,
+} from '@/types/database'
+
+// Variant columns shown alongside per-warehouse stock in list views
+const WAREHOUSE_VARIANT_COLUMNS = 'title, barcode, brand, product_type, image, price, cost_price'
+
+/**
+ * Upsert variant_warehouses rows (one per SKU × warehouse)
+ */
+export async function upsertVariantWarehouses(rows: VariantWarehouseInsert[]) {
+  if (rows.length === 0) {
+    return { upserted: 0, error: null }
+  }
+
+  const supabase = createAdminClient()
+  let upserted = 0
+  let lastError: string | null = null
+
+  for (let i = 0; i < rows.length; i += 500) {
+    const batch = rows.slice(i, i + 500)
+    const { error } = await supabase
+      .from('variant_warehouses')
+      // @ts-expect-error - Supabase types are too strict
+      .upsert(batch, { onConflict: 'variant_id,warehouse' })
+
+    if (error) {
+      console.error('Warehouse batch upsert error:', error)
+      lastError = error.message
+    } else {
+      upserted += batch.length
+    }
+  }
+
+  return { upserted, error: lastError }
+}
+
+/**
+ * Recalculate accuracy metrics for every SKU × warehouse (excluding IP's
+ * "combined" entry, which forecast_metrics already covers).
+ * Pass variantIds to recalculate only those variants.
+ */
+export async function calculateWarehouseMetrics(variantIds?: string[]): Promise<number> {
+  const supabase = createAdminClient()
+  const pageSize = 1000
+  const metrics: WarehouseForecastMetricInsert[] = []
+  const [censoringMode, holdingCostRate] = await Promise.all([getCensoringMode(), getHoldingCostRate()])
+
+  for (const ids of variantIdScopes(variantIds)) {
+    for (let from = 0; ; from += pageSize) {
+      let query = supabase
+        .from('variant_warehouses')
+        .select('variant_id, sku, warehouse, orders_by_month, forecast_by_period, oos, oos_last_60_days, synced_at, variants!inner(price, cost_price)')
+        .eq('is_combined', false)
+        .not('orders_by_month', 'is', null)
+
+      if (ids) {
+        query = query.in('variant_id', ids)
+      }
+
+      const { data, error } = await query.range(from, from + pageSize - 1)
+
+      if (error) {
+        console.error('Error fetching warehouse series:', error)
+        break
+      }
+
+      const rows = (data || []) as unknown as (Pick<
+        VariantWarehouse,
+        | 'variant_id'
+        | 'sku'
+        | 'warehouse'
+        | 'orders_by_month'
+        | 'forecast_by_period'
+        | 'oos'
+        | 'oos_last_60_days'
+        | 'synced_at'
+      > & { variants: Pick<Variant, 'price' | 'cost_price'> })[]
+      for (const row of rows) {
+        const metric = calculateWarehouseMetric(row, censoringMode, {
+          price: row.variants.price,
+          costPrice: row.variants.cost_price,
+          holdingCostRate,
+        })
+        if (metric) metrics.push(metric)
+      }
+
+      if (rows.length < pageSize) break
+    }
+  }
+
+  let calculated = 0
+  for (let i = 0; i < metrics.length; i += 500) {
+    const batch = metrics.slice(i, i + 500)
+    const { error } = await supabase
+      .from('warehouse_forecast_metrics')
+      // @ts-expect-error - Supabase types are too strict
+      .upsert(batch, { onConflict: 'variant_id,warehouse' })
+
+    if (!error) {
+      calculated += batch.length
+    } else {
+      console.error('Warehouse metrics batch error:', error)
+    }
+  }
+
+  return calculated
+}
+
+/**
+ * Get the distinct physical warehouses (excludes the "combined" aggregate)
+ */
+export async function getWarehouses() {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('variant_warehouses')
+    .select('warehouse, warehouse_name')
+    .eq('is_combined', false)
+    .order('warehouse')
+
+  if (error) {
+    return { warehouses: [], error: error.message }
+  }
+
+  const unique = new Map<string, WarehouseOption>()
+  for (const row of (data || []) as WarehouseOption[]) {
+    if (!unique.has(row.warehouse)) unique.set(row.warehouse, row)
+  }
+
+  return { warehouses: [...unique.values()], error: null }
+}
+
+/**
+ * Get every warehouse row for a SKU
+ */
+export async function getVariantWarehousesBySku(sku: string) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('variant_warehouses')
+    .select('*')
+    .eq('sku', sku)
+    .eq('is_combined', false)
+    .order('warehouse')
+
+  if (error) {
+    return { warehouses: [], error: error.message }
+  }
+
+  return { warehouses: (data || []) as VariantWarehouse[], error: null }
+}
+
+/**
+ * Get the metrics for one SKU in one warehouse
+ */
+export async function getWarehouseMetricBySku(sku: string, warehouse: string) {
+  const supabase = createAdminClient()
+
+  const { data, error } = await supabase
+    .from('warehouse_forecast_metrics')
+    .select('*')
+    .eq('sku', sku)
+    .eq('warehouse', warehouse)
+    .maybeSingle()
+
+  if (error) {
+    return { metric: null, error: error.message }
+  }
+
+  return { metric: data as WarehouseForecastMetric | null, error: null }
+}
+
+export interface WarehouseVariantQueryOptions {
+  warehouse: string
+  limit?: number
+  offset?: number
+  orderBy?: keyof VariantWarehouse
+  orderDirection?: 'asc' | 'desc'
+  search?: string
+  brand?: string
+  productType?: string
+  minOOS?: number
+}
+
+/**
+ * Get variants with stock figures from a single warehouse, shaped like the
+ * variants list so the inventory table can render either
+ */
+export async function getWarehouseVariants(options: WarehouseVariantQueryOptions) {
+  const {
+    warehouse,
+    limit = 50,
+    offset = 0,
+    orderBy = 'replenishment',
+    orderDirection = 'desc',
+    search,
+    brand,
+    productType,
+    minOOS,
+  } = options
+
+  const supabase = createAdminClient()
+
+  let query = supabase
+    .from('variant_warehouses')
+    .select(`*, variants!inner(${WAREHOUSE_VARIANT_COLUMNS})`, { count: 'exact' })
+    .eq('warehouse', warehouse)
+
+  // Search filter (SKU only - title lives on the parent variant)
+  if (search) {
+    query = query.ilike('sku', `%${search}%`)
+  }
+
+  if (brand) {
+    query = query.eq('variants.brand', brand)
+  }
+
+  if (productType) {
+    query = query.eq('variants.product_type', productType)
+  }
+
+  if (minOOS !== undefined) {
+    query = query.gte('oos', minOOS)
+  }
+
+  query = query
+    .order(orderBy, { ascending: orderDirection === 'asc' })
+    .range(offset, offset + limit - 1)
+
+  const { data, error, count } = await query
+
+  if (error) {
+    console.error('Error fetching warehouse variants:', error)
+    return { variants: [], count: 0, error: error.message }
+  }
+
+  type Row = VariantWarehouse & {
+    variants: Pick<Variant, 'title' | 'barcode' | 'brand' | 'product_type' | 'image' | 'price' | 'cost_price'>
+  }
+
+  const variants = ((data || []) as unknown as Row[]).map(({ variants: parent, ...row }) => ({
+    ...parent,
+    ...row,
+    id: row.variant_id,
+  }))
+
+  return { variants, count: count || 0, error: null }
+}
@@ -1,3 +1,14 @@
 export { SyncProgressTracker, updateSyncProgress } from './progress-tracker'
 export { SyncErrorLogger } from './error-logger'
 export { SyncSessionManager, sessionManager } from './session-manager'
+export {
+  extractVariants,
+  flattenIPVariant,
+  transformVariant,
+  ingestVariants,
+  finalizeIngestion,
+  getIngestionReport,
+} from './ingestion'
+export type { IngestOptions, IngestResult, FinalizeResult } from './ingestion'
+export { SyncScheduler, syncScheduler } from './scheduler'
+export type { SyncScheduleTarget, SyncScheduleStatus, ScheduledRunResult } from './scheduler'
@@ -0,0 +1,454 @@
+import { upsertVariants } from '@/lib/supabase/queries/variants'
+import { calculateForecastMetrics, calculateWeeklyMetrics } from '@/lib/supabase/queries/metrics'
+import { updateBusinessSummary } from '@/lib/supabase/queries/summary'
+import { upsertVariantWarehouses, calculateWarehouseMetrics } from '@/lib/supabase/queries/warehouses'
+import { upsertForecastSnapshots } from '@/lib/supabase/queries/snapshots'
+import { refreshSegments } from '@/lib/supabase/queries/segments'
+import {
+  validateVariants,
+  getErrorSummary,
+  getWarningSummary,
+  type ValidatedVariant,
+  type ValidationResult,
+} from '@/lib/validation/variant-schema'
+import {
+  detectFieldMappings,
+  getCostValue,
+  getLostRevenueValue,
+  type FieldMappingDetection,
+} from '@/lib/utils/field-detection'
+import { extractWarehouseRows, getWarehouseEntries, isCombinedWarehouse } from '@/lib/utils/warehouses'
+import { normalizeWeeklySeries } from '@/lib/utils/periods'
+import { projectionColumns } from '@/lib/utils/inventory-projection'
+import type { SyncErrorLogger } from './error-logger'
+import type { SyncProgressTracker } from './progress-tracker'
+import type { ForecastSnapshotInsert, Json, Variant, VariantInsert, VariantWarehouseInsert } from '@/types/database'
+
+/**
+ * Ingestion pipeline shared by every import route (file upload, JSON upload,
+ * local import, n8n webhook, Inventory Planner API sync):
+ *
+ *   extractVariants → ingestVariants (validate, detect fields, transform,
+ *   upsert variants + warehouses, snapshot forecasts) → finalizeIngestion
+ *   (metrics, summary)
+ */
+
+const BATCH_SIZE = 500
+
+export interface IngestOptions {
+  errorLogger?: SyncErrorLogger
+  progressTracker?: SyncProgressTracker
+}
+
+export interface IngestResult {
+  received: number
+  imported: number
+  /** Records rejected by validation */
+  rejected: number
+  /** Records that failed to transform or upsert */
+  errors: number
+  /** IDs of the variants that were stored */
+  variantIds: string[]
+  validation: ValidationResult
+  fieldMappings: FieldMappingDetection
+}
+
+export interface FinalizeResult {
+  processed: number
+  metricsCalculated: number
+  warehouseMetricsCalculated: number
+  weeklyMetricsCalculated: number
+  skipped: number
+  runId: string | null
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Locate the variants array in any supported payload and flatten each entry:
+ * - [...variants] or [{ json: { variants } }, { variants }] (n8n / file export)
+ * - { variants }, { body: { variants } }, { data }, { items }, { results }, { json: { variants } }
+ * - a single variant object
+ */
+export function extractVariants(body: unknown): Record<string, unknown>[] {
+  if (!body || typeof body !== 'object') return []
+
+  let rawVariants: unknown[] = []
+
+  if (Array.isArray(body)) {
+    for (const item of body) {
+      if (!item || typeof item !== 'object') continue
+      const obj = item as Record<string, unknown>
+      const wrapped = findVariantsArray(obj)
+      if (wrapped) {
+        rawVariants = rawVariants.concat(wrapped)
+      } else {
+        rawVariants.push(obj)
+      }
+    }
+  } else {
+    const obj = body as Record<string, unknown>
+    const nested = obj.body && typeof obj.body === 'object'
+      ? findVariantsArray(obj.body as Record<string, unknown>)
+      : null
+    rawVariants = nested || findVariantsArray(obj) || []
+
+    if (rawVariants.length === 0 && (obj.connections || obj.id || obj.sku)) {
+      rawVariants = [obj]
+    }
+  }
+
+  const flattened: Record<string, unknown>[] = []
+  for (let i = 0; i < rawVariants.length; i++) {
+    const variant = rawVariants[i]
+    if (!variant || typeof variant !== 'object') {
+      console.warn(`Variant ${i} is not an object:`, typeof variant)
+      continue
+    }
+    const flat = flattenIPVariant(variant as Record<string, unknown>)
+    if (flat) flattened.push(flat)
+  }
+
+  return flattened
+}
+
+function findVariantsArray(obj: Record<string, unknown>): unknown[] | null {
+  const json = obj.json && typeof obj.json === 'object' ? obj.json as Record<string, unknown> : null
+  const candidates = [obj.variants, json?.variants, obj.data, obj.items, obj.results]
+
+  for (const candidate of candidates) {
+    if (Array.isArray(candidate) && candidate.length > 0) return candidate
+  }
+  return null
+}
+
+/**
+ * Flatten Inventory Planner's nested variant structure (connections[] +
+ * warehouse[]) into the flat shape the schema validates. Flat variants are
+ * returned as-is.
+ */
+export function flattenIPVariant(variant: Record<string, unknown>): Record<string, unknown> | null {
+  // Already flat (has id and sku at root)
+  if (variant.id && variant.sku) {
+    return variant
+  }
+
+  const connections = variant.connections
+  if (!connections) {
+    // Variant data at root level but missing id - use sku as id
+    if (variant.sku) {
+      return { ...variant, id: variant.sku }
+    }
+    return variant // Let validation reject it
+  }
+
+  const connectionsArray = Array.isArray(connections)
+    ? connections as Record<string, unknown>[]
+    : [connections as Record<string, unknown>]
+
+  if (connectionsArray.length === 0) {
+    return variant
+  }
+
+  // Main connection (connection_main: true) or first
+  const mainConnection = connectionsArray.find(c => c?.connection_main === true) || connectionsArray[0]
+  if (!mainConnection) {
+    return null
+  }
+
+  // variants holds the combined view ('combined' or first available);
+  // every warehouse entry is kept in variant_warehouses via raw_data
+  const warehousesArray = getWarehouseEntries(variant)
+  const warehouseData: Record<string, unknown> =
+    warehousesArray.find(isCombinedWarehouse) || warehousesArray[0] || {}
+
+  // Connection fields take priority, warehouse adds inventory-specific fields
+  return {
+    // Core identifiers from connection
+    id: mainConnection.id,
+    sku: mainConnection.sku,
+    title: mainConnection.title || mainConnection.product_title,
+    barcode: mainConnection.barcode,
+    brand: mainConnection.brand,
+    product_type: mainConnection.product_type,
+    image: mainConnection.image,
+    price: mainConnection.price,
+
+    // Cost from vendors array or warehouse
+    cost_price: extractCostPrice(mainConnection, warehouseData),
+
+    // Inventory from warehouse
+    in_stock: warehouseData.in_stock ?? 0,
+    replenishment: warehouseData.replenishment ?? 0,
+    to_order: warehouseData.to_order ?? 0,
+    lead_time: warehouseData.lead_time,
+    oos: warehouseData.oos ?? 0,
+
+    // Sales data from warehouse
+    last_7_days_sales: warehouseData.last_7_days ?? warehouseData.sales_last_7_days ?? 0,
+    last_30_days_sales: warehouseData.last_30_days ?? warehouseData.sales_last_30_days ?? 0,
+    last_90_days_sales: warehouseData.last_90_days ?? warehouseData.sales_last_90_days ?? 0,
+    last_180_days_sales: warehouseData.last_180_days ?? warehouseData.sales_last_180_days ?? 0,
+    last_365_days_sales: warehouseData.last_365_days ?? warehouseData.sales_last_365_days ?? 0,
+
+    // Forecast data
+    orders_by_month: warehouseData.orders_by_month ?? variant.orders_by_month,
+    forecast_by_period: warehouseData.forecast_by_period ?? variant.forecast_by_period,
+    orders_by_week: warehouseData.orders_by_week ?? variant.orders_by_week,
+    forecast_by_week: warehouseData.forecast_by_week ?? variant.forecast_by_week,
+    current_forecast: warehouseData.current_forecast ?? warehouseData.forecast,
+
+    // Lost revenue
+    forecasted_lost_revenue: warehouseData.forecasted_lost_revenue ?? warehouseData.lost_revenue,
+
+    // Keep raw data for debugging
+    raw_data: variant
+  }
+}
+
+/**
+ * Extract cost price from various locations in IP data
+ */
+function extractCostPrice(connection: Record<string, unknown>, warehouse: Record<string, unknown>): number | undefined {
+  if (warehouse.cost_price != null && Number(warehouse.cost_price) > 0) {
+    return Number(warehouse.cost_price)
+  }
+
+  const vendors = connection.vendors as Record<string, unknown>[] | undefined
+  if (vendors && Array.isArray(vendors) && vendors.length > 0) {
+    const vendorCost = vendors[0].cost_price
+    if (vendorCost != null && Number(vendorCost) > 0) {
+      return Number(vendorCost)
+    }
+  }
+
+  if (connection.cost_price != null && Number(connection.cost_price) > 0) {
+    return Number(connection.cost_price)
+  }
+
+  return undefined
+}
+
+// ============================================================================
+// Transformation
+// ============================================================================
+
+/**
+ * Map a validated variant to a variants row, using the detected cost and
+ * lost revenue fields
+ */
+export function transformVariant(v: ValidatedVariant, fieldMappings: FieldMappingDetection): VariantInsert {
+  const record = v as Record<string, unknown>
+  const costValue = getCostValue(record, fieldMappings.cost.detectedField || undefined)
+  const lostRevenueValue = getLostRevenueValue(record, fieldMappings.lostRevenue.detectedField || undefined)
+  const inStock = Number(v.in_stock) || 0
+  const purchaseOrdersQty = Number(v.purchase_orders_qty) || 0
+  const leadTime = v.lead_time != null ? Number(v.lead_time) : undefined
+
+  return {
+    id: String(v.id),
+    sku: String(v.sku),
+    title: v.title ? String(v.title) : undefined,
+    barcode: v.barcode ? String(v.barcode) : undefined,
+    brand: v.brand ? String(v.brand) : undefined,
+    product_type: v.product_type ? String(v.product_type) : undefined,
+    image: v.image ? String(v.image) : undefined,
+    price: v.price != null ? Number(v.price) : undefined,
+    cost_price: costValue ?? undefined,
+    in_stock: inStock,
+    purchase_orders_qty: purchaseOrdersQty,
+    last_7_days_sales: Number(v.last_7_days_sales) || 0,
+    last_30_days_sales: Number(v.last_30_days_sales) || 0,
+    last_90_days_sales: Number(v.last_90_days_sales) || 0,
+    last_180_days_sales: Number(v.last_180_days_sales) || 0,
+    last_365_days_sales: Number(v.last_365_days_sales) || 0,
+    total_sales: Number(v.total_sales) || 0,
+    orders_by_month: v.orders_by_month as Variant['orders_by_month'],
+    forecast_by_period: v.forecast_by_period as Variant['forecast_by_period'],
+    orders_by_week: normalizeWeeklySeries(v.orders_by_week) ?? undefined,
+    forecast_by_week: normalizeWeeklySeries(v.forecast_by_week) ?? undefined,
+    forecasted_stock: v.forecasted_stock != null ? Number(v.forecasted_stock) : undefined,
+    current_forecast: v.current_forecast != null ? Number(v.current_forecast) : undefined,
+    replenishment: Number(v.replenishment) || 0,
+    to_order: Number(v.to_order) || 0,
+    minimum_stock: v.minimum_stock != null ? Number(v.minimum_stock) : undefined,
+    lead_time: leadTime,
+    oos: Number(v.oos) || 0,
+    oos_last_60_days: Number(v.oos_last_60_days) || 0,
+    forecasted_lost_revenue: lostRevenueValue ?? undefined,
+    ...projectionColumns({
+      inStock,
+      purchaseOrdersQty,
+      leadTimeDays: leadTime ?? null,
+      forecast: v.forecast_by_period,
+    }),
+    raw_data: v as Variant['raw_data'],
+    synced_at: new Date().toISOString()
+  }
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Validate, map and upsert a set of extracted variants (plus their
+ * per-warehouse rows). Rejected and failed records go to the error logger.
+ */
+export async function ingestVariants(
+  rawVariants: Record<string, unknown>[],
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const { errorLogger, progressTracker } = options
+
+  const validation = validateVariants(rawVariants)
+  console.log(`Validation: ${validation.summary.passed} passed, ${validation.summary.failed} failed, ${validation.summary.withWarnings} warnings`)
+
+  if (errorLogger) {
+    for (const invalid of validation.invalid) {
+      for (const error of invalid.errors) {
+        await errorLogger.logValidationErrorSimple(
+          rawVariants[invalid.index] || {},
+          error.message,
+          error.field,
+          invalid.index
+        )
+      }
+    }
+  }
+
+  const fieldMappings = detectFieldMappings(rawVariants)
+  console.log(`Field detection: ${fieldMappings.summary}`)
+
+  const variants = validation.valid
+  const variantIds: string[] = []
+  let imported = 0
+  let errors = 0
+
+  for (let i = 0; i < variants.length; i += BATCH_SIZE) {
+    const batch = variants.slice(i, i + BATCH_SIZE)
+    const transformedBatch: VariantInsert[] = []
+    const warehouseRows: VariantWarehouseInsert[] = []
+
+    for (const v of batch) {
+      try {
+        const row = transformVariant(v, fieldMappings)
+        transformedBatch.push(row)
+        warehouseRows.push(...extractWarehouseRows(row.id, row.sku, v as Record<string, unknown>))
+      } catch (transformError) {
+        console.error('Error transforming variant:', transformError)
+        errors++
+        await errorLogger?.logTransformError(
+          v as Record<string, unknown>,
+          transformError instanceof Error ? transformError : new Error(String(transformError))
+        )
+      }
+    }
+
+    if (transformedBatch.length === 0) continue
+
+    const { error } = await upsertVariants(transformedBatch)
+    if (error) {
+      console.error('Batch error:', error.message)
+      errors += transformedBatch.length
+      await errorLogger?.logDatabaseError(batch as Record<string, unknown>[], error)
+    } else {
+      imported += transformedBatch.length
+      variantIds.push(...transformedBatch.map(row => row.id))
+      await upsertVariantWarehouses(warehouseRows)
+      await upsertForecastSnapshots(toForecastSnapshots(transformedBatch))
+    }
+
+    await progressTracker?.updateProgress(imported + errors, {
+      currentBatch: Math.floor(i / BATCH_SIZE) + 1,
+      errorsCount: errors + validation.summary.failed,
+      message: `Processed ${imported + errors} of ${rawVariants.length} records...`
+    })
+  }
+
+  await errorLogger?.flush()
+
+  return {
+    received: rawVariants.length,
+    imported,
+    rejected: validation.summary.failed,
+    errors,
+    variantIds,
+    validation,
+    fieldMappings,
+  }
+}
+
+/**
+ * Snapshot ledger rows for the forecasts and stock received in this sync
+ */
+function toForecastSnapshots(rows: VariantInsert[]): ForecastSnapshotInsert[] {
+  const snapshotDate = new Date().toISOString().split('T')[0]
+  return rows.map(row => ({
+    variant_id: row.id,
+    sku: row.sku,
+    snapshot_date: snapshotDate,
+    forecast_by_period: (row.forecast_by_period ?? null) as Json | null,
+    in_stock: row.in_stock ?? null,
+  }))
+}
+
+/**
+ * Recalculate combined, per-warehouse and weekly metrics and refresh the ABC/XYZ
+ * segments and business summary once all variants of an import are stored.
+ * Pass variantIds to recalculate only those variants' metrics (incremental
+ * syncs); segments always cover the whole catalog.
+ */
+export async function finalizeIngestion(
+  source: string,
+  variantIds?: string[]
+): Promise<FinalizeResult> {
+  const metrics = await calculateForecastMetrics(source, variantIds)
+  const warehouseMetricsCalculated = await calculateWarehouseMetrics(variantIds)
+  const weeklyMetricsCalculated = await calculateWeeklyMetrics(variantIds)
+  await refreshSegments()
+  await updateBusinessSummary()
+
+  return {
+    processed: metrics.processed,
+    metricsCalculated: metrics.calculated,
+    warehouseMetricsCalculated,
+    weeklyMetricsCalculated,
+    skipped: metrics.skipped,
+    runId: metrics.runId,
+  }
+}
+
+/**
+ * Validation and field detection details returned by every import route
+ */
+export function getIngestionReport(result: IngestResult) {
+  const { validation, fieldMappings } = result
+
+  return {
+    validation: {
+      passed: validation.summary.passed,
+      failed: validation.summary.failed,
+      errorSummary: getErrorSummary(validation),
+      warningSummary: getWarningSummary(validation),
+      sampleErrors: validation.invalid.slice(0, 3),
+      sampleWarnings: validation.warnings.slice(0, 3)
+    },
+    fieldDetection: {
+      cost: {
+        detected: fieldMappings.cost.detectedField,
+        coverage: Math.round(fieldMappings.cost.coverage * 100),
+        alternatives: fieldMappings.cost.alternatives.slice(0, 3).map(a =>
+          `${a.field} (${Math.round(a.coverage * 100)}%)`
+        )
+      },
+      lostRevenue: {
+        detected: fieldMappings.lostRevenue.detectedField,
+        coverage: Math.round(fieldMappings.lostRevenue.coverage * 100)
+      },
+      needsConfirmation: fieldMappings.needsConfirmation
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { getSettings, setSetting } from '@/lib/supabase/queries/settings'
+import { getLatestSyncStatus, recordSkippedSync } from '@/lib/supabase/queries/summary'
+
+export type SyncScheduleTarget = 'n8n' | 'inventory_planner'
+
+export interface SyncScheduleStatus {
+  enabled: boolean
+  intervalHours: number
+  /** Where scheduled syncs are sent (null when neither is configured) */
+  target: SyncScheduleTarget | null
+  lastSyncAt: string | null
+  nextRunAt: string | null
+}
+
+export interface ScheduledRunResult {
+  action: 'triggered' | 'skipped' | 'not_due' | 'disabled'
+  reason?: string
+  target?: SyncScheduleTarget
+}
+
+const DEFAULT_INTERVAL_HOURS = 6
+// When the scheduler last triggered a sync; n8n only records its sync once the
+// data is posted back, so this keeps the run from counting as due meanwhile
+const LAST_TRIGGERED_KEY = 'sync_last_triggered_at'
+const CHECK_INTERVAL_MS = 5 * 60 * 1000
+// A 'running' sync older than this is treated as crashed, not overlapping
+const STALE_RUN_MS = 60 * 60 * 1000
+
+const TARGET_PATHS: Record<SyncScheduleTarget, string> = {
+  n8n: '/api/sync/trigger',
+  inventory_planner: '/api/sync/inventory-planner',
+}
+
+/**
+ * SyncScheduler - Runs the inventory sync on the interval configured in
+ * app_settings (sync_enabled, sync_interval_hours)
+ *
+ * A local timer (started from instrumentation.ts) checks every few minutes
+ * whether a sync is due; POST /api/sync/schedule runs the same check for
+ * hosts that prefer an external cron. The interval counts from the start of
+ * the last sync of any kind (or the last scheduled trigger), so a manual
+ * sync pushes the next run back. The target route records the sync it runs
+ * in sync_metrics.
+ */
+export class SyncScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running = false
+
+  /**
+   * Current schedule and when the next sync is due
+   */
+  async getStatus(): Promise<SyncScheduleStatus> {
+    const [{ settings }, { sync }] = await Promise.all([
+      getSettings(['sync_enabled', 'sync_interval_hours', 'sync_schedule_target', 'n8n_webhook_url', LAST_TRIGGERED_KEY]),
+      getLatestSyncStatus(),
+    ])
+
+    const enabled = settings.sync_enabled === 'true'
+    const parsedInterval = parseFloat(settings.sync_interval_hours)
+    const intervalHours = parsedInterval > 0 ? parsedInterval : DEFAULT_INTERVAL_HOURS
+    const target = resolveTarget(settings.sync_schedule_target, settings.n8n_webhook_url)
+
+    const lastTriggeredAt = settings[LAST_TRIGGERED_KEY] || null
+    const lastSyncAt = [sync?.started_at || null, lastTriggeredAt]
+      .filter((at): at is string => !!at)
+      .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())[0] ?? null
+    let nextRunAt: string | null = null
+    if (enabled && target) {
+      nextRunAt = lastSyncAt
+        ? new Date(new Date(lastSyncAt).getTime() + intervalHours * 60 * 60 * 1000).toISOString()
+        : new Date().toISOString()
+    }
+
+    return { enabled, intervalHours, target, lastSyncAt, nextRunAt }
+  }
+
+  /**
+   * Trigger a sync if one is due. Due runs that cannot start because another
+   * sync is still running are recorded in sync_metrics as 'skipped'.
+   */
+  async runIfDue(baseUrl: string): Promise<ScheduledRunResult> {
+    const status = await this.getStatus()
+
+    if (!status.enabled) {
+      return { action: 'disabled' }
+    }
+    if (!status.target || !status.nextRunAt) {
+      return { action: 'skipped', reason: 'No sync target configured' }
+    }
+    if (new Date(status.nextRunAt).getTime() > Date.now()) {
+      return { action: 'not_due' }
+    }
+
+    if (this.running) {
+      const reason = 'Previous scheduled sync still in progress'
+      await recordSkippedSync('scheduled', reason)
+      return { action: 'skipped', reason, target: status.target }
+    }
+
+    this.running = true
+    try {
+      const { sync: latest } = await getLatestSyncStatus()
+      if (
+        latest?.status === 'running' &&
+        latest.started_at &&
+        Date.now() - new Date(latest.started_at).getTime() < STALE_RUN_MS
+      ) {
+        const reason = `Previous sync still running (started ${latest.started_at})`
+        await recordSkippedSync('scheduled', reason)
+        return { action: 'skipped', reason, target: status.target }
+      }
+
+      return await this.trigger(status.target, baseUrl)
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Start the local timer (no-op if already started)
+   */
+  start(baseUrl: string) {
+    if (this.timer) return
+
+    this.timer = setInterval(() => {
+      this.runIfDue(baseUrl).catch(error => {
+        console.error('Scheduled sync check failed:', error)
+      })
+    }, CHECK_INTERVAL_MS)
+
+    console.log(`Sync scheduler started (checking every ${CHECK_INTERVAL_MS / 60000} minutes)`)
+  }
+
+  /**
+   * Stop the local timer
+   */
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async trigger(target: SyncScheduleTarget, baseUrl: string): Promise<ScheduledRunResult> {
+    console.log(`Scheduled sync: triggering ${target}`)
+    await setSetting(LAST_TRIGGERED_KEY, new Date().toISOString())
+
+    try {
+      const response = await fetch(`${baseUrl}${TARGET_PATHS[target]}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(data.error || `Sync request failed: ${response.status}`)
+      }
+
+      return { action: 'triggered', target }
+    } catch (error) {
+      console.error('Scheduled sync failed:', error)
+      return { action: 'triggered', reason: String(error), target }
+    }
+  }
+}
+
+/**
+ * Explicit sync_schedule_target wins; otherwise n8n when its webhook is
+ * configured, then the IP API when credentials are set
+ */
+function resolveTarget(setting: string | undefined, n8nWebhookUrl: string | undefined): SyncScheduleTarget | null {
+  if (setting === 'n8n' || setting === 'inventory_planner') return setting
+  if (n8nWebhookUrl) return 'n8n'
+  if (process.env.IP_API_KEY && process.env.IP_ACCOUNT_ID) return 'inventory_planner'
+  return null
+}
+
+// Export singleton instance
+export const syncScheduler = new SyncScheduler()
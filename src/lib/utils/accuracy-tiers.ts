@@ -0,0 +1,160 @@
+/**
+ * Accuracy Tiers and Targets
+ *
+ * MAPE tier boundaries and accuracy targets are admin-editable and stored in
+ * the database (app_settings.mape_tier_thresholds, accuracy_targets). This
+ * module holds their shape, defaults and the helpers every distribution,
+ * badge and "meets target" indicator uses to read them.
+ */
+
+import { SEGMENT_TARGET_MAPE, type SegmentKey } from './segments'
+
+// ============================================================================
+// Tiers
+// ============================================================================
+
+export type AccuracyTier = 'excellent' | 'good' | 'acceptable' | 'poor' | 'very_poor'
+
+export const ACCURACY_TIERS: AccuracyTier[] = ['excellent', 'good', 'acceptable', 'poor', 'very_poor']
+
+/**
+ * Exclusive upper MAPE bound of the excellent, good, acceptable and poor
+ * tiers; anything at or above the last bound is very poor
+ */
+export type TierThresholds = [number, number, number, number]
+
+export const DEFAULT_TIER_THRESHOLDS: TierThresholds = [10, 20, 30, 50]
+
+export const TIER_STYLES: Record<AccuracyTier, { label: string; color: string; badgeClass: string }> = {
+  excellent: { label: 'Excellent', color: '#22c55e', badgeClass: 'bg-green-100 text-green-800' },
+  good: { label: 'Good', color: '#84cc16', badgeClass: 'bg-lime-100 text-lime-800' },
+  acceptable: { label: 'Acceptable', color: '#eab308', badgeClass: 'bg-yellow-100 text-yellow-800' },
+  poor: { label: 'Poor', color: '#f97316', badgeClass: 'bg-orange-100 text-orange-800' },
+  very_poor: { label: 'Very Poor', color: '#ef4444', badgeClass: 'bg-red-100 text-red-800' },
+}
+
+export function getMAPETier(value: number, thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS): AccuracyTier {
+  const index = thresholds.findIndex(bound => value < bound)
+  return ACCURACY_TIERS[index === -1 ? ACCURACY_TIERS.length - 1 : index]
+}
+
+/**
+ * MAPE range of a tier, e.g. '<10%', '10-20%', '>50%'
+ */
+export function formatTierRange(tier: AccuracyTier, thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS): string {
+  const index = ACCURACY_TIERS.indexOf(tier)
+  if (index === 0) return `<${thresholds[0]}%`
+  if (index === ACCURACY_TIERS.length - 1) return `>${thresholds[thresholds.length - 1]}%`
+  return `${thresholds[index - 1]}-${thresholds[index]}%`
+}
+
+/**
+ * Tier name with its range, e.g. 'Excellent (<10%)'
+ */
+export function getTierLabel(tier: AccuracyTier, thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS): string {
+  return `${TIER_STYLES[tier].label} (${formatTierRange(tier, thresholds)})`
+}
+
+/**
+ * Validate stored or submitted thresholds: four positive, strictly
+ * increasing numbers. Returns null when invalid.
+ */
+export function parseTierThresholds(value: unknown): TierThresholds | null {
+  let parsed = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 4) return null
+  const numbers = parsed.map(Number)
+  if (numbers.some(n => !Number.isFinite(n) || n <= 0)) return null
+  if (numbers.some((n, i) => i > 0 && n <= numbers[i - 1])) return null
+  return numbers as TierThresholds
+}
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/**
+ * What an accuracy target applies to. Brand and product type overrides
+ * apply to SKUs; segment targets (AX ... CZ) apply to the ABC/XYZ matrix.
+ */
+export type TargetScope = 'default' | 'brand' | 'product_type' | 'segment'
+
+export const TARGET_SCOPES: TargetScope[] = ['default', 'brand', 'product_type', 'segment']
+
+export interface AccuracyTarget {
+  scope: TargetScope
+  /** Brand, product type or segment key ('' for the default target) */
+  scope_value: string
+  target_mape: number
+}
+
+export interface AccuracyConfig {
+  thresholds: TierThresholds
+  targets: AccuracyTarget[]
+}
+
+export const DEFAULT_TARGET_MAPE = 20
+
+export const DEFAULT_ACCURACY_CONFIG: AccuracyConfig = {
+  thresholds: DEFAULT_TIER_THRESHOLDS,
+  targets: [{ scope: 'default', scope_value: '', target_mape: DEFAULT_TARGET_MAPE }],
+}
+
+/**
+ * Validate a submitted target: known scope, a value for every scope but
+ * default (a segment key for segments), and a positive MAPE. Returns null
+ * when invalid.
+ */
+export function parseAccuracyTarget(value: unknown): AccuracyTarget | null {
+  if (!value || typeof value !== 'object') return null
+  const { scope, scope_value, target_mape } = value as Record<string, unknown>
+
+  if (!TARGET_SCOPES.includes(scope as TargetScope)) return null
+  const target = Number(target_mape)
+  if (!Number.isFinite(target) || target <= 0) return null
+
+  const key = scope === 'default' ? '' : typeof scope_value === 'string' ? scope_value.trim() : ''
+  if (scope !== 'default' && !key) return null
+  if (scope === 'segment' && !(key in SEGMENT_TARGET_MAPE)) return null
+
+  return { scope: scope as TargetScope, scope_value: key, target_mape: target }
+}
+
+function findTarget(config: AccuracyConfig, scope: TargetScope, value: string | null | undefined) {
+  if (value === null || value === undefined) return undefined
+  return config.targets.find(t => t.scope === scope && t.scope_value === value)?.target_mape
+}
+
+/**
+ * MAPE target for a SKU: its brand override, else its product type
+ * override, else the default target
+ */
+export function resolveTargetMape(
+  config: AccuracyConfig,
+  item: { brand?: string | null; product_type?: string | null } = {}
+): number {
+  return (
+    findTarget(config, 'brand', item.brand) ??
+    findTarget(config, 'product_type', item.product_type) ??
+    findTarget(config, 'default', '') ??
+    DEFAULT_TARGET_MAPE
+  )
+}
+
+/**
+ * MAPE target for an ABC/XYZ segment
+ */
+export function resolveSegmentTarget(config: AccuracyConfig, key: SegmentKey): number {
+  return findTarget(config, 'segment', key) ?? SEGMENT_TARGET_MAPE[key]
+}
+
+export function meetsTarget(mape: number | null | undefined, target: number): boolean {
+  return mape !== null && mape !== undefined && mape <= target
+}
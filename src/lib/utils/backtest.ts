@@ -0,0 +1,201 @@
+/**
+ * Rolling-Origin Backtest
+ *
+ * Evaluates forecast accuracy by horizon instead of as one flat vector.
+ * For every origin month t we ask a provider for the forecast of month t+h
+ * (made with information up to t) and compare it with the actual at t+h.
+ * Errors are then aggregated per horizon into a horizon × metric matrix.
+ */
+
+import {
+  calculateBias,
+  calculateRMSE,
+  calculateSmoothedMAPE,
+  calculateWAPE,
+  type MonthlyPoint,
+} from './calculate-metrics'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Produces the forecast for series[originIndex + horizon] using information
+ * available at originIndex. Returns null when no forecast exists.
+ */
+export type ForecastProvider = (
+  series: MonthlyPoint[],
+  originIndex: number,
+  horizon: number
+) => number | null
+
+export interface HorizonAccuracy {
+  horizon: number
+  label: string
+  isLeadTime: boolean
+  origins: number
+  mape: number | null
+  wape: number | null
+  rmse: number | null
+  bias: number | null
+}
+
+export interface BacktestResult {
+  provider: string
+  periods: number
+  horizons: HorizonAccuracy[]
+}
+
+/**
+ * One forecast_snapshots row parsed into a series
+ */
+export interface ForecastSnapshotSeries {
+  /** Sync date (YYYY-MM-DD) */
+  snapshotDate: string
+  forecast: MonthlyPoint[]
+}
+
+export interface BacktestOptions {
+  /** Horizons in months to evaluate (default 1, 2, 3) */
+  horizons?: number[]
+  /** SKU lead time in days; adds a lead-time-ahead row when set */
+  leadTimeDays?: number | null
+  /** Months of history required before the first origin (default 3) */
+  minTrainPeriods?: number
+  /** Most recent origins evaluated per horizon (default 12) */
+  maxOrigins?: number
+}
+
+export const DEFAULT_HORIZONS = [1, 2, 3]
+const MAX_HORIZON = 12
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Naive provider: the last observed month is the forecast for every horizon
+ */
+export const naiveProvider: ForecastProvider = (series, originIndex) => {
+  return series[originIndex]?.value ?? null
+}
+
+/**
+ * Inventory Planner provider backed by the forecast snapshot ledger.
+ *
+ * The forecast for month t+h made at origin t is the value from the latest
+ * snapshot taken in month t or earlier, so each horizon sees the forecast
+ * that was actually on record h months ahead. Origins before the first
+ * snapshot have no forecast. There is deliberately no provider over
+ * forecast_by_period: it only holds the latest forecast per month, which
+ * was set after the origin (look-ahead) and is the same at every horizon.
+ */
+export function createSnapshotProvider(snapshots: ForecastSnapshotSeries[]): ForecastProvider {
+  const ledger = [...snapshots]
+    .sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate))
+    .map(s => ({
+      month: s.snapshotDate.slice(0, 7),
+      forecast: new Map(s.forecast.map(f => [f.key, f.value])),
+    }))
+
+  return (series, originIndex, horizon) => {
+    const origin = series[originIndex]
+    const target = series[originIndex + horizon]
+    if (!origin || !target) return null
+
+    for (let i = ledger.length - 1; i >= 0; i--) {
+      if (ledger[i].month > origin.key) continue
+      const value = ledger[i].forecast.get(target.key)
+      if (value !== undefined) return value
+    }
+    return null
+  }
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * Convert a lead time in days to a forecast horizon in months
+ *
+ * Formula: max(1, ⌈days / 30⌉), capped at 12
+ */
+export function leadTimeToHorizon(leadTimeDays: number | null | undefined): number | null {
+  if (!leadTimeDays || leadTimeDays <= 0) return null
+  return Math.min(MAX_HORIZON, Math.max(1, Math.ceil(leadTimeDays / 30)))
+}
+
+function horizonLabel(horizon: number, isLeadTime: boolean): string {
+  if (isLeadTime) return `Lead time (${horizon}m)`
+  return `${horizon}-month ahead`
+}
+
+/**
+ * Evaluate one horizon over rolling origins
+ */
+function evaluateHorizon(
+  series: MonthlyPoint[],
+  provider: ForecastProvider,
+  horizon: number,
+  isLeadTime: boolean,
+  minTrainPeriods: number,
+  maxOrigins: number
+): HorizonAccuracy {
+  const actual: number[] = []
+  const forecast: number[] = []
+
+  const firstOrigin = Math.max(0, minTrainPeriods - 1)
+  const lastOrigin = series.length - 1 - horizon
+  const startOrigin = Math.max(firstOrigin, lastOrigin - maxOrigins + 1)
+
+  for (let origin = startOrigin; origin <= lastOrigin; origin++) {
+    const predicted = provider(series, origin, horizon)
+    if (predicted === null) continue
+    actual.push(series[origin + horizon].value)
+    forecast.push(predicted)
+  }
+
+  return {
+    horizon,
+    label: horizonLabel(horizon, isLeadTime),
+    isLeadTime,
+    origins: actual.length,
+    mape: actual.length > 0 ? calculateSmoothedMAPE(actual, forecast).value : null,
+    wape: calculateWAPE(actual, forecast),
+    rmse: calculateRMSE(actual, forecast),
+    bias: calculateBias(actual, forecast),
+  }
+}
+
+/**
+ * Run a rolling-origin backtest and return the horizon × metric matrix
+ */
+export function runBacktest(
+  series: MonthlyPoint[],
+  provider: ForecastProvider,
+  providerName: string,
+  options: BacktestOptions = {}
+): BacktestResult {
+  const {
+    horizons = DEFAULT_HORIZONS,
+    leadTimeDays = null,
+    minTrainPeriods = 3,
+    maxOrigins = 12,
+  } = options
+
+  const rows = horizons.map(h =>
+    evaluateHorizon(series, provider, h, false, minTrainPeriods, maxOrigins)
+  )
+
+  const leadTimeHorizon = leadTimeToHorizon(leadTimeDays)
+  if (leadTimeHorizon !== null) {
+    rows.push(evaluateHorizon(series, provider, leadTimeHorizon, true, minTrainPeriods, maxOrigins))
+  }
+
+  return {
+    provider: providerName,
+    periods: series.length,
+    horizons: rows,
+  }
+}
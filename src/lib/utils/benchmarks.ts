@@ -0,0 +1,272 @@
+/**
+ * Benchmark Forecast Library
+ *
+ * Simple statistical forecasts used as yardsticks for the Inventory Planner
+ * forecast. Every benchmark is a one-step-ahead method: the forecast for
+ * period t only uses actuals up to t-1.
+ *
+ * Forecast Value Added (FVA) = benchmark WAPE - IP WAPE (percentage points).
+ * Positive FVA means the IP forecast beats the benchmark.
+ */
+
+import {
+  applyCensoring,
+  calculateWAPE,
+  SEASONAL_PERIOD,
+  type CensoringOptions,
+  type DemandClass,
+} from './calculate-metrics'
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export type BenchmarkId =
+  | 'naive'
+  | 'seasonal_naive'
+  | 'ma3'
+  | 'ma6'
+  | 'ma12'
+  | 'ses'
+  | 'croston_sba'
+
+export interface Benchmark {
+  id: BenchmarkId
+  label: string
+  description: string
+  /**
+   * Forecast for the next period given history (oldest first), or null if
+   * not enough data; seasonalPeriod is the cycle length in periods
+   */
+  forecast: (history: number[], seasonalPeriod: number) => number | null
+}
+
+const SES_ALPHA = 0.3
+const CROSTON_ALPHA = 0.1
+
+function movingAverage(window: number) {
+  return (history: number[]): number | null => {
+    if (history.length < window) return null
+    const recent = history.slice(-window)
+    return recent.reduce((sum, v) => sum + v, 0) / window
+  }
+}
+
+/**
+ * Simple exponential smoothing
+ *
+ * Formula: level_t = α * actual_t + (1 - α) * level_{t-1}, forecast = level
+ */
+function simpleExponentialSmoothing(history: number[]): number | null {
+  if (history.length === 0) return null
+  let level = history[0]
+  for (let i = 1; i < history.length; i++) {
+    level = SES_ALPHA * history[i] + (1 - SES_ALPHA) * level
+  }
+  return level
+}
+
+/**
+ * Croston's method with the Syntetos-Boylan approximation (SBA)
+ * Smooths non-zero demand size (z) and inter-demand interval (p) separately
+ *
+ * Formula: forecast = (1 - α/2) * z / p
+ */
+function crostonSBA(history: number[]): number | null {
+  let size: number | null = null
+  let interval: number | null = null
+  let periodsSinceDemand = 1
+
+  for (const value of history) {
+    if (value > 0) {
+      if (size === null || interval === null) {
+        size = value
+        interval = periodsSinceDemand
+      } else {
+        size = CROSTON_ALPHA * value + (1 - CROSTON_ALPHA) * size
+        interval = CROSTON_ALPHA * periodsSinceDemand + (1 - CROSTON_ALPHA) * interval
+      }
+      periodsSinceDemand = 1
+    } else {
+      periodsSinceDemand++
+    }
+  }
+
+  if (size === null || interval === null) return null
+  return (1 - CROSTON_ALPHA / 2) * (size / interval)
+}
+
+export const BENCHMARKS: Record<BenchmarkId, Benchmark> = {
+  naive: {
+    id: 'naive',
+    label: 'Naive',
+    description: 'Last period = next period',
+    forecast: (history) => history.length > 0 ? history[history.length - 1] : null,
+  },
+  seasonal_naive: {
+    id: 'seasonal_naive',
+    label: 'Seasonal Naive',
+    description: 'Same period last year',
+    forecast: (history, seasonalPeriod) =>
+      history.length >= seasonalPeriod ? history[history.length - seasonalPeriod] : null,
+  },
+  ma3: {
+    id: 'ma3',
+    label: 'Moving Avg (3)',
+    description: 'Average of the last 3 periods',
+    forecast: movingAverage(3),
+  },
+  ma6: {
+    id: 'ma6',
+    label: 'Moving Avg (6)',
+    description: 'Average of the last 6 periods',
+    forecast: movingAverage(6),
+  },
+  ma12: {
+    id: 'ma12',
+    label: 'Moving Avg (12)',
+    description: 'Average of the last 12 periods',
+    forecast: movingAverage(12),
+  },
+  ses: {
+    id: 'ses',
+    label: 'Exp. Smoothing',
+    description: `Simple exponential smoothing (α = ${SES_ALPHA})`,
+    forecast: simpleExponentialSmoothing,
+  },
+  croston_sba: {
+    id: 'croston_sba',
+    label: 'Croston (SBA)',
+    description: `Croston with Syntetos-Boylan correction (α = ${CROSTON_ALPHA}) for intermittent demand`,
+    forecast: crostonSBA,
+  },
+}
+
+export const BENCHMARK_IDS = Object.keys(BENCHMARKS) as BenchmarkId[]
+
+/**
+ * Benchmark suited to each demand pattern: exponential smoothing for smooth
+ * demand, a longer moving average to damp erratic sizes, and Croston (SBA)
+ * where months without demand dominate
+ */
+export const RECOMMENDED_BENCHMARKS: Record<DemandClass, BenchmarkId> = {
+  smooth: 'ses',
+  erratic: 'ma6',
+  intermittent: 'croston_sba',
+  lumpy: 'croston_sba',
+}
+
+/**
+ * One-step-ahead benchmark forecasts for every period of a series
+ */
+export function generateBenchmarkForecasts(
+  series: number[],
+  id: BenchmarkId,
+  seasonalPeriod: number = SEASONAL_PERIOD
+): (number | null)[] {
+  const benchmark = BENCHMARKS[id]
+  return series.map((_, i) => benchmark.forecast(series.slice(0, i), seasonalPeriod))
+}
+
+// ============================================================================
+// Forecast Value Added
+// ============================================================================
+
+export interface BenchmarkComparison {
+  id: BenchmarkId
+  wape: number | null
+  fva: number | null
+  periods: number
+}
+
+export interface FVAResult {
+  comparisons: BenchmarkComparison[]
+  /** FVA against the strongest benchmark (lowest WAPE) */
+  fva: number | null
+  bestBenchmark: BenchmarkId | null
+}
+
+/** Minimum aligned periods for an FVA comparison to be reported */
+const MIN_FVA_PERIODS = 3
+
+/**
+ * Compare a forecast with every benchmark over the evaluation window
+ *
+ * @param series - Full actual history, oldest first (benchmarks train on it)
+ * @param forecast - Forecast aligned to the last forecast.length periods of series
+ * @param seasonalPeriod - Cycle length for the seasonal naive benchmark
+ * @param censoring - Stockout periods of the evaluation window (aligned to
+ *   forecast); the forecast and every benchmark are scored on the censored
+ *   window, while benchmarks still train on the full series
+ */
+export function calculateFVA(
+  series: number[],
+  forecast: number[],
+  seasonalPeriod: number = SEASONAL_PERIOD,
+  censoring?: CensoringOptions
+): FVAResult {
+  const windowStart = series.length - forecast.length
+  const comparisons: BenchmarkComparison[] = []
+
+  for (const id of BENCHMARK_IDS) {
+    const benchmarkForecast = generateBenchmarkForecasts(series, id, seasonalPeriod).slice(windowStart)
+
+    const aligned: number[] = []
+    const alignedIp: number[] = []
+    const alignedBench: number[] = []
+    const periods: CensoringOptions['periods'] = []
+    benchmarkForecast.forEach((b, i) => {
+      if (b === null) return
+      aligned.push(series[windowStart + i])
+      alignedIp.push(forecast[i])
+      alignedBench.push(b)
+      if (censoring) periods.push(censoring.periods[i])
+    })
+
+    const scoring = censoring ? { periods, mode: censoring.mode } : undefined
+    const { actual, forecast: ip } = applyCensoring(aligned, alignedIp, scoring)
+    const bench = applyCensoring(aligned, alignedBench, scoring).forecast
+
+    if (actual.length < MIN_FVA_PERIODS) {
+      comparisons.push({ id, wape: null, fva: null, periods: actual.length })
+      continue
+    }
+
+    const benchWape = calculateWAPE(actual, bench)
+    const ipWape = calculateWAPE(actual, ip)
+    comparisons.push({
+      id,
+      wape: benchWape,
+      fva: benchWape !== null && ipWape !== null ? benchWape - ipWape : null,
+      periods: actual.length,
+    })
+  }
+
+  const best = comparisons
+    .filter(c => c.wape !== null && c.fva !== null)
+    .sort((a, b) => (a.wape as number) - (b.wape as number))[0]
+
+  return {
+    comparisons,
+    fva: best?.fva ?? null,
+    bestBenchmark: best?.id ?? null,
+  }
+}
+
+/**
+ * Compact per-benchmark FVA map for storage ({ naive: 4.2, ma3: -1.3, ... })
+ */
+export function toBenchmarkFVAMap(result: FVAResult): Partial<Record<BenchmarkId, number>> {
+  const map: Partial<Record<BenchmarkId, number>> = {}
+  for (const c of result.comparisons) {
+    if (c.fva !== null) map[c.id] = Math.round(c.fva * 100) / 100
+  }
+  return map
+}
+
+export function interpretFVA(value: number): string {
+  if (value > 5) return 'Adds clear value'
+  if (value > 0) return 'Adds some value'
+  if (value > -5) return 'No better than benchmark'
+  return 'Worse than benchmark'
+}
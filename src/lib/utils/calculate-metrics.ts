@@ -5,6 +5,16 @@
  * These are calculated by comparing forecasted values to actual values.
  */
 
+import { DEFAULT_TIER_THRESHOLDS, TIER_STYLES, getMAPETier, type TierThresholds } from './accuracy-tiers'
+import {
+  monthsToPeriods,
+  parsePeriodSeries,
+  periodDays,
+  periodKeyOf,
+  type Granularity,
+  type PeriodPoint,
+} from './periods'
+
 export interface MetricResult {
   value: number
   interpretation: string
@@ -32,37 +42,83 @@ export interface DataTier {
   metricsAvailable: string[]
   confidence: 'high' | 'medium' | 'low' | 'none'
   message: string
+  seasonalScaling: boolean
+}
+
+/**
+ * Seasonal cycle length for monthly data
+ */
+export const SEASONAL_PERIOD = 12
+
+/**
+ * Months at the end of a series held out as the evaluation window; the
+ * periods before it are the in-sample window that scales MASE
+ */
+export const EVALUATION_MONTHS = 12
+
+/**
+ * Seasonal cycle length in periods of the granularity (12 months, 52 weeks)
+ */
+export function getSeasonalPeriod(granularity: Granularity = 'month'): number {
+  return monthsToPeriods(SEASONAL_PERIOD, granularity)
+}
+
+/**
+ * Periods needed before seasonal scaling (seasonal MASE) is attempted: the
+ * evaluation window plus an in-sample window of one seasonal cycle and one
+ * period, the least that yields a seasonal difference (25 months, 105 weeks)
+ */
+export function getSeasonalScalingMinPeriods(granularity: Granularity = 'month'): number {
+  return monthsToPeriods(EVALUATION_MONTHS, granularity) + getSeasonalPeriod(granularity) + 1
 }
 
 /**
- * Determine data tier based on period count
+ * Determine data tier based on period count.
+ * Thresholds are set in months (3 / 6 / 12) and scaled to the granularity,
+ * so 52 weeks of history counts the same as 12 months; seasonal scaling
+ * needs getSeasonalScalingMinPeriods.
  */
-export function getDataTier(periodCount: number): DataTier {
-  if (periodCount >= 12) {
+export function getDataTier(periodCount: number, granularity: Granularity = 'month'): DataTier {
+  const periods = (months: number) => monthsToPeriods(months, granularity)
+
+  if (periodCount >= getSeasonalScalingMinPeriods(granularity)) {
     return {
       tier: 'full',
       periods: periodCount,
-      metricsAvailable: ['mape', 'wape', 'rmse', 'wase', 'bias'],
+      metricsAvailable: ['mape', 'wape', 'rmse', 'wase', 'mase', 'smase', 'bias'],
       confidence: 'high',
-      message: 'Full historical data available'
+      message: 'Full historical data available, including seasonal scaling',
+      seasonalScaling: true
     }
   }
-  if (periodCount >= 6) {
+  if (periodCount >= periods(12)) {
+    return {
+      tier: 'full',
+      periods: periodCount,
+      metricsAvailable: ['mape', 'wape', 'rmse', 'wase', 'mase', 'bias'],
+      confidence: 'high',
+      message: 'Full historical data available',
+      seasonalScaling: false
+    }
+  }
+  if (periodCount >= periods(6)) {
     return {
       tier: 'limited',
       periods: periodCount,
       metricsAvailable: ['mape', 'wape', 'rmse', 'bias'],
       confidence: 'medium',
-      message: 'Limited history - WASE may be unreliable'
+      message: 'Limited history - WASE may be unreliable',
+      seasonalScaling: false
     }
   }
-  if (periodCount >= 3) {
+  if (periodCount >= periods(3)) {
     return {
       tier: 'minimal',
       periods: periodCount,
       metricsAvailable: ['mape', 'wape', 'bias'],
       confidence: 'low',
-      message: 'Minimal data - metrics are directional only'
+      message: 'Minimal data - metrics are directional only',
+      seasonalScaling: false
     }
   }
   return {
@@ -70,16 +126,24 @@ export function getDataTier(periodCount: number): DataTier {
     periods: periodCount,
     metricsAvailable: [],
     confidence: 'none',
-    message: 'Insufficient data for reliable metrics'
+    message: 'Insufficient data for reliable metrics',
+    seasonalScaling: false
   }
 }
 
 /**
  * Select primary metric based on data characteristics
- * - Use WAPE for SKUs with many zero-sales periods
- * - Use MAPE for normal SKUs
+ * - Use MAPE for smooth demand
+ * - Use WAPE for erratic, intermittent and lumpy demand, where small or
+ *   zero months make percentage errors unstable
+ * Without a demand class, falls back to WAPE when more than 30% of periods
+ * have zero sales.
  */
-export function selectPrimaryMetric(actuals: number[]): 'mape' | 'wape' {
+export function selectPrimaryMetric(actuals: number[], demandClass?: DemandClass | null): 'mape' | 'wape' {
+  if (demandClass) {
+    return demandClass === 'smooth' ? 'mape' : 'wape'
+  }
+
   const zeroCount = actuals.filter(a => a === 0).length
   const zeroRatio = zeroCount / actuals.length
 
@@ -87,6 +151,95 @@ export function selectPrimaryMetric(actuals: number[]): 'mape' | 'wape' {
   return zeroRatio > 0.3 ? 'wape' : 'mape'
 }
 
+// ============================================================================
+// Demand Classification - Syntetos-Boylan ADI / CV²
+// ============================================================================
+
+/**
+ * Demand pattern from the Syntetos-Boylan matrix
+ * - smooth:       regular demand, stable size       (ADI < 1.32, CV² < 0.49)
+ * - erratic:      regular demand, variable size     (ADI < 1.32, CV² >= 0.49)
+ * - intermittent: sporadic demand, stable size      (ADI >= 1.32, CV² < 0.49)
+ * - lumpy:        sporadic demand, variable size    (ADI >= 1.32, CV² >= 0.49)
+ */
+export type DemandClass = 'smooth' | 'erratic' | 'intermittent' | 'lumpy'
+
+export const DEMAND_CLASSES: DemandClass[] = ['smooth', 'erratic', 'intermittent', 'lumpy']
+
+export const ADI_CUTOFF = 1.32
+export const CV2_CUTOFF = 0.49
+
+export interface DemandClassification {
+  demandClass: DemandClass
+  /** Average Demand Interval: periods per period with demand */
+  adi: number
+  /** Squared coefficient of variation of the non-zero demand sizes */
+  cv2: number
+}
+
+/**
+ * Classify a demand series (oldest first)
+ *
+ * Formula: ADI = periods / periods with demand
+ *          CV² = (std dev / mean)² of non-zero demand
+ *
+ * Returns null when the series has no demand at all.
+ */
+export function classifyDemand(values: number[]): DemandClassification | null {
+  const demand = values.filter(v => v > 0)
+  if (demand.length === 0) return null
+
+  const adi = values.length / demand.length
+  const mean = demand.reduce((sum, v) => sum + v, 0) / demand.length
+  const variance = demand.reduce((sum, v) => sum + (v - mean) ** 2, 0) / demand.length
+  const cv2 = variance / (mean * mean)
+
+  const sporadic = adi >= ADI_CUTOFF
+  const variable = cv2 >= CV2_CUTOFF
+  const demandClass: DemandClass = sporadic
+    ? variable ? 'lumpy' : 'intermittent'
+    : variable ? 'erratic' : 'smooth'
+
+  return {
+    demandClass,
+    adi: Math.round(adi * 100) / 100,
+    cv2: Math.round(cv2 * 100) / 100,
+  }
+}
+
+/**
+ * Get display label for a demand class
+ */
+export function getDemandClassLabel(demandClass: DemandClass): { label: string; tooltip: string } {
+  switch (demandClass) {
+    case 'smooth':
+      return { label: 'Smooth', tooltip: 'Sells most months in steady quantities' }
+    case 'erratic':
+      return { label: 'Erratic', tooltip: 'Sells most months, but quantities swing widely' }
+    case 'intermittent':
+      return { label: 'Intermittent', tooltip: 'Sells in few months, in similar quantities' }
+    case 'lumpy':
+      return { label: 'Lumpy', tooltip: 'Sells in few months, in widely varying quantities' }
+  }
+}
+
+// ============================================================================
+// MONTHLY SERIES PARSING
+// ============================================================================
+
+/**
+ * A single month of data keyed as YYYY-MM
+ */
+export type MonthlyPoint = PeriodPoint
+
+/**
+ * Flatten Inventory Planner's {year: {month: qty}} JSON (orders_by_month,
+ * forecast_by_period) into a chronologically sorted YYYY-MM series
+ */
+export function parseMonthlySeries(json: unknown): MonthlyPoint[] {
+  return parsePeriodSeries(json, 'month')
+}
+
 // ============================================================================
 // MAPE - Mean Absolute Percentage Error
 // ============================================================================
@@ -137,10 +290,12 @@ export interface SmoothedMAPEResult {
 }
 
 export function calculateSmoothedMAPE(
-  actuals: number[],
-  forecasts: number[],
-  smoothingFactor: number = 1
+  actualValues: number[],
+  forecastValues: number[],
+  smoothingFactor: number = 1,
+  censoring?: CensoringOptions
 ): SmoothedMAPEResult {
+  const { actual: actuals, forecast: forecasts } = applyCensoring(actualValues, forecastValues, censoring)
   if (actuals.length !== forecasts.length || actuals.length === 0) {
     return { value: null, periodsExcluded: 0, zeroPeriods: 0, method: 'standard' }
   }
@@ -193,7 +348,12 @@ export function calculateSmoothedMAPE(
  *
  * Formula: Σ|actual - forecast| / Σ actual * 100
  */
-export function calculateWAPE(actual: number[], forecast: number[]): number | null {
+export function calculateWAPE(
+  actualValues: number[],
+  forecastValues: number[],
+  censoring?: CensoringOptions
+): number | null {
+  const { actual, forecast } = applyCensoring(actualValues, forecastValues, censoring)
   if (actual.length !== forecast.length || actual.length === 0) return null
 
   const sumAbsError = actual.reduce(
@@ -261,6 +421,42 @@ export function calculateWASE(actual: number[], forecast: number[]): number | nu
   return forecastError / naiveError
 }
 
+// ============================================================================
+// MASE - Mean Absolute Scaled Error
+// ============================================================================
+
+/**
+ * MASE - Mean Absolute Scaled Error (Hyndman & Koehler)
+ * Forecast error scaled by the in-sample error of a (seasonal) naive forecast.
+ * Unlike WASE, the scale comes from the training window that precedes the
+ * evaluation window, so it is stable for short windows and comparable to the
+ * literature. Use m = 1 for MASE and m = SEASONAL_PERIOD for seasonal MASE.
+ * Value < 1 means better than the in-sample naive method
+ *
+ * Formula: mean|actual - forecast| / [(1/(T-m)) * Σ_{t=m+1..T} |y_t - y_{t-m}|]
+ * where y_1..y_T is the in-sample window
+ */
+export function calculateMASE(
+  actual: number[],
+  forecast: number[],
+  inSample: number[],
+  m: number = 1
+): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+  if (inSample.length < m + 1) return null
+
+  let scaleSum = 0
+  for (let t = m; t < inSample.length; t++) {
+    scaleSum += Math.abs(inSample[t] - inSample[t - m])
+  }
+  const scale = scaleSum / (inSample.length - m)
+
+  if (scale === 0) return null
+
+  const mae = actual.reduce((sum, a, i) => sum + Math.abs(a - forecast[i]), 0) / actual.length
+  return mae / scale
+}
+
 // ============================================================================
 // Bias - Forecast Bias
 // ============================================================================
@@ -280,6 +476,301 @@ export function calculateBias(actual: number[], forecast: number[]): number | nu
   return sum / actual.length
 }
 
+// ============================================================================
+// sMAPE - Symmetric Mean Absolute Percentage Error
+// ============================================================================
+
+/**
+ * sMAPE - Symmetric Mean Absolute Percentage Error
+ * Percentage error relative to the mean of actual and forecast
+ * Good for: Bounded (0-200%) alternative to MAPE that tolerates zero actuals
+ * Periods where both actual and forecast are 0 count as 0% error
+ *
+ * Formula: (1/n) * Σ 2|actual - forecast| / (|actual| + |forecast|) * 100
+ */
+export function calculateSMAPE(actual: number[], forecast: number[]): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+
+  const sum = actual.reduce((acc, a, i) => {
+    const denominator = Math.abs(a) + Math.abs(forecast[i])
+    return denominator === 0 ? acc : acc + (2 * Math.abs(a - forecast[i])) / denominator
+  }, 0)
+
+  return (sum / actual.length) * 100
+}
+
+// ============================================================================
+// MAE - Mean Absolute Error
+// ============================================================================
+
+/**
+ * MAE - Mean Absolute Error
+ * Average absolute error in units
+ * Good for: Plain-language error size ("off by 12 units a month")
+ *
+ * Formula: (1/n) * Σ|actual - forecast|
+ */
+export function calculateMAE(actual: number[], forecast: number[]): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+
+  return actual.reduce((sum, a, i) => sum + Math.abs(a - forecast[i]), 0) / actual.length
+}
+
+// ============================================================================
+// MdAPE - Median Absolute Percentage Error
+// ============================================================================
+
+/**
+ * MdAPE - Median Absolute Percentage Error
+ * Median of the per-period absolute percentage errors
+ * Good for: Robust to the occasional huge miss that dominates MAPE
+ * Periods with actual = 0 are excluded (as in MAPE)
+ *
+ * Formula: median(|actual - forecast| / actual) * 100
+ */
+export function calculateMdAPE(actual: number[], forecast: number[]): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+
+  const errors: number[] = []
+  for (let i = 0; i < actual.length; i++) {
+    if (actual[i] !== 0) {
+      errors.push(Math.abs((actual[i] - forecast[i]) / actual[i]))
+    }
+  }
+
+  if (errors.length === 0) return null
+
+  errors.sort((a, b) => a - b)
+  const mid = Math.floor(errors.length / 2)
+  const median = errors.length % 2 === 0 ? (errors[mid - 1] + errors[mid]) / 2 : errors[mid]
+  return median * 100
+}
+
+// ============================================================================
+// RMSSE - Root Mean Squared Scaled Error
+// ============================================================================
+
+/**
+ * RMSSE - Root Mean Squared Scaled Error (M5 competition metric)
+ * Squared error scaled by the in-sample squared naive error
+ * Good for: Scale-free comparison that still penalizes large misses
+ * Value < 1 means better than the in-sample naive method
+ *
+ * Formula: √[ mean((actual - forecast)²) / ((1/(T-1)) * Σ_{t=2..T} (y_t - y_{t-1})²) ]
+ * where y_1..y_T is the in-sample window
+ */
+export function calculateRMSSE(
+  actual: number[],
+  forecast: number[],
+  inSample: number[]
+): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+  if (inSample.length < 2) return null
+
+  let scaleSum = 0
+  for (let t = 1; t < inSample.length; t++) {
+    scaleSum += Math.pow(inSample[t] - inSample[t - 1], 2)
+  }
+  const scale = scaleSum / (inSample.length - 1)
+
+  if (scale === 0) return null
+
+  const mse = actual.reduce((sum, a, i) => sum + Math.pow(a - forecast[i], 2), 0) / actual.length
+  return Math.sqrt(mse / scale)
+}
+
+// ============================================================================
+// Tracking Signal - Cumulative drift detector
+// ============================================================================
+
+/**
+ * Absolute tracking signal beyond which a forecast is flagged as drifting
+ */
+export const TRACKING_SIGNAL_LIMIT = 4
+
+/**
+ * Tracking Signal - cumulative error divided by MAD
+ * Uses the same sign convention as Bias:
+ * Positive = running over-forecast, Negative = running under-forecast
+ * Good for: Flagging forecasts that drift in one direction over time
+ * |TS| > 4 is the usual trigger for a forecast review
+ *
+ * Formula: Σ(forecast - actual) / MAD, where MAD = (1/n) * Σ|actual - forecast|
+ */
+export function calculateTrackingSignal(actual: number[], forecast: number[]): number | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+
+  const mad = calculateMAE(actual, forecast)
+  if (mad === null || mad === 0) return null
+
+  const cumulativeError = actual.reduce((sum, a, i) => sum + (forecast[i] - a), 0)
+  return cumulativeError / mad
+}
+
+export function isTrackingSignalTripped(value: number | null | undefined): boolean {
+  return value !== null && value !== undefined && Math.abs(value) > TRACKING_SIGNAL_LIMIT
+}
+
+// ============================================================================
+// Bias Significance - persistent over / under-forecasting
+// ============================================================================
+
+/**
+ * Fewest periods the bias test runs on
+ */
+export const BIAS_TEST_MIN_PERIODS = 6
+
+/**
+ * Consecutive most-recent errors of one sign that flag persistent bias.
+ * With unbiased errors each sign is a coin flip, so 6 in a row happens
+ * about 3% of the time (2 × 0.5^6) - a sign test on the latest periods.
+ */
+export const BIAS_SIGN_RUN_LIMIT = 6
+
+// Two-sided 5% critical values of Student's t, indexed by degrees of freedom
+const T_CRITICAL_95 = [
+  NaN, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+]
+
+export type BiasDirection = 'over' | 'under'
+
+export interface BiasTestResult {
+  /** Mean error / standard error; null when the errors do not vary */
+  tStatistic: number | null
+  /** |t| beyond the two-sided 5% critical value */
+  significant: boolean
+  /** Consecutive most-recent periods with the same (non-zero) error sign */
+  signRun: number
+  direction: BiasDirection | null
+  /** Significant t-statistic or a sign run of BIAS_SIGN_RUN_LIMIT or more */
+  persistent: boolean
+  /** Mean error as a percentage of mean actual demand */
+  biasPercent: number | null
+}
+
+/**
+ * Bias Significance - separates systematic bias from noise
+ * Errors use the Bias convention (forecast - actual), so positive =
+ * over-forecasting. Bias is persistent when the mean error is significantly
+ * non-zero (one-sample t-test, 5% two-sided) or the latest
+ * BIAS_SIGN_RUN_LIMIT errors share a sign.
+ *
+ * Formula: t = mean(e) / (sd(e) / √n), e = forecast - actual
+ */
+export function testBiasSignificance(actual: number[], forecast: number[]): BiasTestResult {
+  const none: BiasTestResult = {
+    tStatistic: null,
+    significant: false,
+    signRun: 0,
+    direction: null,
+    persistent: false,
+    biasPercent: null,
+  }
+  if (actual.length !== forecast.length || actual.length < BIAS_TEST_MIN_PERIODS) return none
+
+  const n = actual.length
+  const errors = actual.map((a, i) => forecast[i] - a)
+  const mean = errors.reduce((sum, e) => sum + e, 0) / n
+  const variance = errors.reduce((sum, e) => sum + (e - mean) ** 2, 0) / (n - 1)
+  const standardError = Math.sqrt(variance / n)
+  const tStatistic = standardError > 0 ? mean / standardError : null
+  const critical = T_CRITICAL_95[n - 1] ?? 1.96
+  const significant = tStatistic !== null && Math.abs(tStatistic) > critical
+
+  // Trailing run of same-sign errors; a perfect period ends it
+  let signRun = 0
+  const lastSign = Math.sign(errors[n - 1])
+  if (lastSign !== 0) {
+    for (let i = n - 1; i >= 0 && Math.sign(errors[i]) === lastSign; i--) signRun++
+  }
+  const runTripped = signRun >= BIAS_SIGN_RUN_LIMIT
+
+  const meanActual = actual.reduce((sum, a) => sum + a, 0) / n
+  const directionSign = significant ? Math.sign(mean) : runTripped ? lastSign : Math.sign(mean)
+
+  return {
+    tStatistic,
+    significant,
+    signRun,
+    direction: directionSign > 0 ? 'over' : directionSign < 0 ? 'under' : null,
+    persistent: significant || runTripped,
+    biasPercent: meanActual > 0 ? (mean / meanActual) * 100 : null,
+  }
+}
+
+// ============================================================================
+// Cost of Error - what forecast error costs in dollars
+// ============================================================================
+
+/**
+ * Default annual holding cost as a percentage of unit cost
+ * (app_settings.holding_cost_rate)
+ */
+export const DEFAULT_HOLDING_COST_RATE = 25
+
+export interface ErrorCostInputs {
+  /** Selling price per unit */
+  price: number | null
+  /** Cost price per unit */
+  costPrice: number | null
+  /** Annual holding cost, % of cost price */
+  holdingCostRate: number
+}
+
+export interface ErrorCostResult {
+  overForecastUnits: number
+  underForecastUnits: number
+  /** Over-forecast units × cost price × holding rate for one period */
+  carryingCost: number
+  /** Under-forecast units × gross margin per unit */
+  lostMargin: number
+  totalCost: number
+}
+
+/**
+ * Cost of Error - dollar impact of each period's signed error
+ * Over-forecast units sit in stock for a period and incur holding cost;
+ * under-forecast units are demand the plan did not cover, costing their
+ * gross margin.
+ *
+ * Formula:
+ *   carrying = Σ max(F - A, 0) × cost_price × (holding_rate / periods_per_year)
+ *   lost     = Σ max(A - F, 0) × max(price - cost_price, 0)
+ * Returns null when the SKU has no cost price.
+ */
+export function calculateErrorCost(
+  actual: number[],
+  forecast: number[],
+  inputs: ErrorCostInputs,
+  granularity: Granularity = 'month'
+): ErrorCostResult | null {
+  if (actual.length !== forecast.length || actual.length === 0) return null
+  const { price, costPrice, holdingCostRate } = inputs
+  if (costPrice === null || !(costPrice > 0)) return null
+
+  let overForecastUnits = 0
+  let underForecastUnits = 0
+  for (let i = 0; i < actual.length; i++) {
+    const error = forecast[i] - actual[i]
+    if (error > 0) overForecastUnits += error
+    else underForecastUnits -= error
+  }
+
+  const periodsPerYear = monthsToPeriods(12, granularity)
+  const carryingCost = overForecastUnits * costPrice * (holdingCostRate / 100 / periodsPerYear)
+  const lostMargin = underForecastUnits * Math.max((price ?? 0) - costPrice, 0)
+
+  return {
+    overForecastUnits,
+    underForecastUnits,
+    carryingCost,
+    lostMargin,
+    totalCost: carryingCost + lostMargin,
+  }
+}
+
 // ============================================================================
 // Naive Forecast
 // ============================================================================
@@ -293,6 +784,151 @@ export function naiveForecast(actual: number[]): number[] {
   return [actual[0], ...actual.slice(0, -1)]
 }
 
+// ============================================================================
+// Censored Demand - Stockout months
+// ============================================================================
+
+/**
+ * How stockout-censored months are scored. Sales in a month spent out of
+ * stock reflect missing stock, not low demand.
+ * - include: score them like any other month
+ * - exclude: drop them from the evaluation
+ * - adjust: scale sales up to a full month of availability
+ *   (actual / (1 - stockout share)); months mostly out of stock are dropped
+ */
+export type CensoringMode = 'include' | 'exclude' | 'adjust'
+
+export const CENSORING_MODES: CensoringMode[] = ['include', 'exclude', 'adjust']
+export const DEFAULT_CENSORING_MODE: CensoringMode = 'exclude'
+
+/**
+ * Share of a month out of stock before its sales count as censored
+ */
+export const CENSORED_MIN_FRACTION = 0.2
+
+/**
+ * Above this share there is too little in-stock time to adjust from
+ */
+export const MAX_ADJUSTABLE_FRACTION = 0.8
+
+// Longest current stockout streak spread over past months
+const MAX_STREAK_DAYS = 730
+
+export interface StockoutEvidence {
+  /** Current consecutive days out of stock (oos) */
+  oos: number
+  /** Days out of stock in the last 60 days (oos_last_60_days) */
+  oosLast60Days: number
+  /** When the oos figures were reported (synced_at) */
+  asOf: string
+  /** Sync snapshots per month (YYYY-MM) and how many found no stock */
+  stockHistory?: Map<string, { snapshots: number; stockouts: number }>
+}
+
+export interface CensoredPeriod {
+  key: string
+  stockoutDays: number
+  /** Estimated share of the period out of stock (0-1) */
+  fraction: number
+  censored: boolean
+}
+
+export interface CensoringOptions {
+  /** One entry per evaluated period, aligned with the actual series */
+  periods: CensoredPeriod[]
+  mode: CensoringMode
+}
+
+/**
+ * Estimate stockout days per period and flag censored periods.
+ *
+ * - The current streak (oos) covers the oos days up to asOf
+ * - oos_last_60_days beyond that streak is spread evenly over the rest of
+ *   the 60-day window
+ * - Months with sync snapshots use the share of snapshots with no stock,
+ *   when that is higher (stockHistory is keyed by month, so weekly series
+ *   use the oos figures only)
+ * The period of asOf is measured against the days elapsed so far.
+ */
+export function detectCensoredPeriods(
+  keys: string[],
+  evidence: StockoutEvidence,
+  granularity: Granularity = 'month'
+): CensoredPeriod[] {
+  const asOf = new Date(evidence.asOf)
+  const stockoutDays = new Map<string, number>()
+  const dayKey = (offset: number) =>
+    periodKeyOf(new Date(asOf.getTime() - offset * 24 * 60 * 60 * 1000), granularity)
+
+  const streak = Math.min(Math.max(0, evidence.oos || 0), MAX_STREAK_DAYS)
+  for (let d = 0; d < streak; d++) {
+    const key = dayKey(d)
+    stockoutDays.set(key, (stockoutDays.get(key) || 0) + 1)
+  }
+
+  const streakIn60 = Math.min(streak, 60)
+  const extra = Math.max(0, (evidence.oosLast60Days || 0) - streakIn60)
+  if (extra > 0 && streakIn60 < 60) {
+    const rate = Math.min(1, extra / (60 - streakIn60))
+    for (let d = streakIn60; d < 60; d++) {
+      const key = dayKey(d)
+      stockoutDays.set(key, (stockoutDays.get(key) || 0) + rate)
+    }
+  }
+
+  const asOfKey = periodKeyOf(asOf, granularity)
+  const elapsedDays = granularity === 'week' ? asOf.getUTCDay() || 7 : asOf.getUTCDate()
+
+  return keys.map(key => {
+    const totalDays = key === asOfKey ? elapsedDays : periodDays(key, granularity)
+    let days = stockoutDays.get(key) || 0
+
+    const history = granularity === 'month' ? evidence.stockHistory?.get(key) : undefined
+    if (history && history.snapshots > 0) {
+      days = Math.max(days, (history.stockouts / history.snapshots) * totalDays)
+    }
+
+    const fraction = totalDays > 0 ? Math.min(1, days / totalDays) : 0
+    return {
+      key,
+      stockoutDays: Math.round(days * 10) / 10,
+      fraction,
+      censored: fraction >= CENSORED_MIN_FRACTION,
+    }
+  })
+}
+
+/**
+ * Apply a censoring mode to aligned actual / forecast series
+ */
+export function applyCensoring(
+  actual: number[],
+  forecast: number[],
+  censoring?: CensoringOptions
+): { actual: number[]; forecast: number[] } {
+  if (!censoring || censoring.mode === 'include' || !censoring.periods.some(p => p.censored)) {
+    return { actual, forecast }
+  }
+
+  const scoredActual: number[] = []
+  const scoredForecast: number[] = []
+
+  for (let i = 0; i < actual.length; i++) {
+    const period = censoring.periods[i]
+    if (!period?.censored) {
+      scoredActual.push(actual[i])
+      scoredForecast.push(forecast[i])
+      continue
+    }
+    if (censoring.mode === 'exclude' || period.fraction > MAX_ADJUSTABLE_FRACTION) continue
+
+    scoredActual.push(actual[i] / (1 - period.fraction))
+    scoredForecast.push(forecast[i])
+  }
+
+  return { actual: scoredActual, forecast: scoredForecast }
+}
+
 // ============================================================================
 // Combined Metrics Calculation
 // ============================================================================
@@ -304,11 +940,20 @@ export interface AllMetrics {
   wase: number | null
   bias: number | null
   naiveMape: number | null
+  smape: number | null
+  mae: number | null
+  mdape: number | null
+  rmsse: number | null
+  trackingSignal: number | null
 }
 
+/**
+ * @param inSample - Actuals before the evaluation window (used by scaled metrics)
+ */
 export function calculateAllMetrics(
   actual: number[],
-  forecast: number[]
+  forecast: number[],
+  inSample: number[] = []
 ): AllMetrics {
   const naive = naiveForecast(actual)
 
@@ -319,6 +964,11 @@ export function calculateAllMetrics(
     wase: calculateWASE(actual, forecast),
     bias: calculateBias(actual, forecast),
     naiveMape: calculateMAPE(actual, naive),
+    smape: calculateSMAPE(actual, forecast),
+    mae: calculateMAE(actual, forecast),
+    mdape: calculateMdAPE(actual, forecast),
+    rmsse: calculateRMSSE(actual, forecast, inSample),
+    trackingSignal: calculateTrackingSignal(actual, forecast),
   }
 }
 
@@ -330,21 +980,38 @@ export interface ExtendedMetricsResult {
   source: ForecastSource
   dataTier: DataTier
   primaryMetric: 'mape' | 'wape'
+  biasTest: BiasTestResult
   dataQuality: {
     actualPeriods: number
     forecastPeriods: number
     alignedPeriods: number
     zeroPeriods: number
+    /** Stockout months excluded or adjusted by the censoring mode */
+    censoredPeriods: number
     mapeMethod: 'standard' | 'smoothed'
   }
 }
 
+/**
+ * @param censoring - Stockout months and how to score them; every metric is
+ *   calculated on the censored series
+ * @param granularity - Period length of the series; scales the data tier
+ */
 export function calculateExtendedMetrics(
-  actuals: number[],
-  forecasts: number[],
-  hasIPForecast: boolean
+  actualValues: number[],
+  forecastValues: number[],
+  hasIPForecast: boolean,
+  inSample: number[] = [],
+  censoring?: CensoringOptions,
+  granularity: Granularity = 'month'
 ): ExtendedMetricsResult {
-  const dataTier = getDataTier(actuals.length)
+  const dataTier = getDataTier(actualValues.length, granularity)
+  const { actual: actuals, forecast: forecasts } = applyCensoring(actualValues, forecastValues, censoring)
+  // Naive benchmark from the uncensored series, then censored the same way
+  const naive = applyCensoring(actualValues, naiveForecast(actualValues), censoring).forecast
+  const censoredPeriods = censoring && censoring.mode !== 'include'
+    ? censoring.periods.filter(p => p.censored).length
+    : 0
   const primaryMetric = selectPrimaryMetric(actuals)
   const zeroPeriods = actuals.filter(a => a === 0).length
 
@@ -365,7 +1032,12 @@ export function calculateExtendedMetrics(
     rmse: dataTier.metricsAvailable.includes('rmse') ? calculateRMSE(actuals, forecasts) : null,
     wase: dataTier.metricsAvailable.includes('wase') ? calculateWASE(actuals, forecasts) : null,
     bias: calculateBias(actuals, forecasts),
-    naiveMape: calculateMAPE(actuals, naiveForecast(actuals)),
+    naiveMape: calculateMAPE(actuals, naive),
+    smape: calculateSMAPE(actuals, forecasts),
+    mae: calculateMAE(actuals, forecasts),
+    mdape: calculateMdAPE(actuals, forecasts),
+    rmsse: calculateRMSSE(actuals, forecasts, inSample),
+    trackingSignal: calculateTrackingSignal(actuals, forecasts),
   }
 
   return {
@@ -373,11 +1045,13 @@ export function calculateExtendedMetrics(
     source,
     dataTier,
     primaryMetric,
+    biasTest: testBiasSignificance(actuals, forecasts),
     dataQuality: {
       actualPeriods: actuals.length,
       forecastPeriods: forecasts.length,
       alignedPeriods: Math.min(actuals.length, forecasts.length),
       zeroPeriods,
+      censoredPeriods,
       mapeMethod: smoothedResult.method
     }
   }
@@ -387,21 +1061,11 @@ export function calculateExtendedMetrics(
 // Interpretation Helpers
 // ============================================================================
 
-export function interpretMAPE(value: number): string {
-  if (value < 10) return 'Excellent'
-  if (value < 20) return 'Good'
-  if (value < 30) return 'Acceptable'
-  if (value < 50) return 'Poor'
-  return 'Very Poor'
+export function interpretMAPE(value: number, thresholds: TierThresholds = DEFAULT_TIER_THRESHOLDS): string {
+  return TIER_STYLES[getMAPETier(value, thresholds)].label
 }
 
-export function getMAPETier(value: number): 'excellent' | 'good' | 'acceptable' | 'poor' | 'very_poor' {
-  if (value < 10) return 'excellent'
-  if (value < 20) return 'good'
-  if (value < 30) return 'acceptable'
-  if (value < 50) return 'poor'
-  return 'very_poor'
-}
+export { getMAPETier }
 
 export function interpretWASE(value: number): string {
   if (value < 0.8) return 'Much better than naive'
@@ -411,9 +1075,22 @@ export function interpretWASE(value: number): string {
   return 'Worse than naive'
 }
 
-export function interpretBias(value: number, avgActual: number): string {
+export function interpretMASE(value: number): string {
+  if (value < 0.8) return 'Much better than in-sample naive'
+  if (value < 1.0) return 'Better than in-sample naive'
+  if (value < 1.2) return 'Comparable to in-sample naive'
+  return 'Worse than in-sample naive'
+}
+
+/**
+ * @param test - When given, bias that is not statistically persistent reads
+ *   as noise whatever its size
+ */
+export function interpretBias(value: number, avgActual: number, test?: BiasTestResult): string {
   if (avgActual === 0) return 'Cannot interpret (no sales)'
   const biasPercent = (value / avgActual) * 100
+  if (test && !test.persistent) return 'No persistent bias'
+  if (test) return `Persistent ${biasPercent > 0 ? 'over' : 'under'}-forecasting by ${Math.abs(biasPercent).toFixed(1)}%`
   if (Math.abs(biasPercent) < 5) return 'Well balanced'
   if (biasPercent > 0) return `Over-forecasting by ${biasPercent.toFixed(1)}%`
   return `Under-forecasting by ${Math.abs(biasPercent).toFixed(1)}%`
@@ -0,0 +1,155 @@
+/**
+ * Excess and Dead Stock
+ *
+ * Compares on-hand stock with the forecast demand over a horizon: stock
+ * beyond that demand is excess, valued at cost_price. A SKU with stock but
+ * no sales in the last N months of orders_by_month is dead stock, and all of
+ * its on-hand stock counts as excess whatever the forecast says.
+ */
+
+import { addPeriods, parsePeriodSeries, periodDays, periodKeyOf } from './periods'
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/** Months of forecast demand stock is compared with (app_settings.excess_horizon_months) */
+export const DEFAULT_EXCESS_HORIZON_MONTHS = 6
+
+/** Months without a sale before stock is dead (app_settings.dead_stock_months) */
+export const DEFAULT_DEAD_STOCK_MONTHS = 6
+
+export const MIN_EXCESS_MONTHS = 1
+export const MAX_EXCESS_MONTHS = 24
+
+/** Choices offered on the Excess Stock page */
+export const EXCESS_MONTH_OPTIONS = [3, 6, 9, 12] as const
+
+/**
+ * Clamp a month setting to 1-24, falling back when it is not a number
+ */
+export function clampExcessMonths(value: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback
+  return Math.min(MAX_EXCESS_MONTHS, Math.max(MIN_EXCESS_MONTHS, Math.round(value)))
+}
+
+// ============================================================================
+// Demand
+// ============================================================================
+
+const DAYS_PER_MONTH = 30.44
+
+export type ExcessDemandSource = 'forecast' | 'run_rate'
+
+/**
+ * Forecast demand over the next `months` months: the rest of the current
+ * month (prorated by days left) plus the following whole months. Months
+ * past the end of the forecast count as zero. Null without a forecast for
+ * the current month.
+ */
+export function forecastDemandOverHorizon(forecast: unknown, months: number, asOf = new Date()): number | null {
+  const forecastByKey = new Map(parsePeriodSeries(forecast, 'month').map(p => [p.key, p.value]))
+  const currentKey = periodKeyOf(asOf, 'month')
+  const current = forecastByKey.get(currentKey)
+  if (current === undefined) return null
+
+  const daysInMonth = periodDays(currentKey, 'month')
+  const daysLeft = daysInMonth - asOf.getUTCDate() + 1
+  let demand = Math.max(current, 0) * (daysLeft / daysInMonth)
+
+  for (let m = 1; m < months; m++) {
+    demand += Math.max(forecastByKey.get(addPeriods(currentKey, m, 'month')) ?? 0, 0)
+  }
+  return demand
+}
+
+// ============================================================================
+// Dead Stock
+// ============================================================================
+
+/**
+ * Latest month (YYYY-MM) with sales in orders_by_month, or null if none
+ */
+export function lastSaleMonth(ordersByMonth: unknown): string | null {
+  const series = parsePeriodSeries(ordersByMonth, 'month')
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i].value > 0) return series[i].key
+  }
+  return null
+}
+
+// ============================================================================
+// Excess Stock
+// ============================================================================
+
+export type ExcessAction = 'liquidate' | 'markdown'
+
+export const EXCESS_ACTION_LABELS: Record<ExcessAction, string> = {
+  liquidate: 'Liquidate',
+  markdown: 'Markdown',
+}
+
+export interface ExcessStockInputs {
+  inStock: number
+  costPrice: number | null
+  /** forecast_by_period: {year: {month: qty}} */
+  forecast: unknown
+  /** orders_by_month: {year: {month: qty}} */
+  ordersByMonth: unknown
+  /** Run-rate fallback when there is no current forecast */
+  last90DaysSales: number
+  horizonMonths: number
+  deadStockMonths: number
+  asOf?: Date
+}
+
+export interface ExcessStockResult {
+  /** Demand expected over the horizon */
+  demand: number
+  demandSource: ExcessDemandSource
+  /** On hand beyond the horizon's demand (all on hand for dead stock) */
+  excessUnits: number
+  /** excessUnits × cost_price; null without a cost */
+  excessValue: number | null
+  /** On hand / monthly demand; null without demand */
+  monthsOfSupply: number | null
+  lastSaleMonth: string | null
+  /** No sales in the last deadStockMonths months (with that much history) */
+  isDead: boolean
+  /** Suggested action; null when there is no excess */
+  action: ExcessAction | null
+}
+
+/**
+ * Excess units, value and dead-stock status for one SKU; null when nothing
+ * is on hand
+ */
+export function calculateExcessStock(inputs: ExcessStockInputs): ExcessStockResult | null {
+  const { inStock, costPrice, horizonMonths, deadStockMonths } = inputs
+  if (inStock <= 0) return null
+  const asOf = inputs.asOf ?? new Date()
+
+  const forecastDemand = forecastDemandOverHorizon(inputs.forecast, horizonMonths, asOf)
+  const demand = forecastDemand ?? Math.max(inputs.last90DaysSales, 0) / 90 * DAYS_PER_MONTH * horizonMonths
+  const monthlyDemand = demand / horizonMonths
+
+  // Dead: no sale since the cutoff month, and the series reaches back that
+  // far (a SKU first stocked recently has not had the chance to sell)
+  const orders = parsePeriodSeries(inputs.ordersByMonth, 'month')
+  const cutoff = addPeriods(periodKeyOf(asOf, 'month'), -deadStockMonths, 'month')
+  const lastSale = lastSaleMonth(inputs.ordersByMonth)
+  const isDead = orders.length > 0 && orders[0].key <= cutoff && (lastSale === null || lastSale < cutoff)
+
+  const excessUnits = isDead ? inStock : Math.max(inStock - Math.ceil(demand), 0)
+
+  return {
+    demand,
+    demandSource: forecastDemand !== null ? 'forecast' : 'run_rate',
+    excessUnits,
+    excessValue: costPrice !== null ? excessUnits * costPrice : null,
+    monthsOfSupply: monthlyDemand > 0 ? inStock / monthlyDemand : null,
+    lastSaleMonth: lastSale,
+    isDead,
+    action: isDead ? 'liquidate' : excessUnits > 0 ? 'markdown' : null,
+  }
+}
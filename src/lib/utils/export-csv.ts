@@ -30,7 +30,10 @@ function escapeCsvValue(value: CsvValue): string {
   return stringValue
 }
 
-export function exportToCsv<T>({ data, filename, columns }: ExportOptions<T>): void {
+/**
+ * Build CSV text (header row plus one row per item) without downloading it
+ */
+export function buildCsv<T>({ data, columns }: Omit<ExportOptions<T>, 'filename'>): string {
   // Create header row
   const headers = columns.map((col) => escapeCsvValue(col.header))
   const headerRow = headers.join(',')
@@ -47,7 +50,11 @@ export function exportToCsv<T>({ data, filename, columns }: ExportOptions<T>): v
   })
 
   // Combine all rows
-  const csvContent = [headerRow, ...dataRows].join('\n')
+  return [headerRow, ...dataRows].join('\n')
+}
+
+export function exportToCsv<T>({ data, filename, columns }: ExportOptions<T>): void {
+  const csvContent = buildCsv({ data, columns })
 
   // Create blob and download
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
@@ -110,32 +117,40 @@ export function exportMetricsToCsv(metrics: {
   wape: number | null
   rmse: number | null
   bias: number | null
+  wase?: number | null
+  mase?: number | null
+  smase?: number | null
+  smape?: number | null
+  mae?: number | null
+  mdape?: number | null
+  rmsse?: number | null
+  tracking_signal?: number | null
+  bias_t_stat?: number | null
+  bias_persistent?: boolean | null
+  fva?: number | null
 }[]): void {
+  const decimal = (v: unknown) => (v !== null && v !== undefined ? Number(v).toFixed(2) : '')
+
   exportToCsv({
     data: metrics,
     filename: 'forecast-metrics-export',
     columns: [
       { key: 'sku', header: 'SKU' },
-      {
-        key: 'mape',
-        header: 'MAPE (%)',
-        format: (v) => (v !== null ? Number(v).toFixed(2) : ''),
-      },
-      {
-        key: 'wape',
-        header: 'WAPE (%)',
-        format: (v) => (v !== null ? Number(v).toFixed(2) : ''),
-      },
-      {
-        key: 'rmse',
-        header: 'RMSE',
-        format: (v) => (v !== null ? Number(v).toFixed(2) : ''),
-      },
-      {
-        key: 'bias',
-        header: 'Bias (%)',
-        format: (v) => (v !== null ? Number(v).toFixed(2) : ''),
-      },
+      { key: 'mape', header: 'MAPE (%)', format: decimal },
+      { key: 'wape', header: 'WAPE (%)', format: decimal },
+      { key: 'rmse', header: 'RMSE', format: decimal },
+      { key: 'bias', header: 'Bias (%)', format: decimal },
+      { key: 'wase', header: 'WASE', format: decimal },
+      { key: 'mase', header: 'MASE', format: decimal },
+      { key: 'smase', header: 'Seasonal MASE', format: decimal },
+      { key: 'smape', header: 'sMAPE (%)', format: decimal },
+      { key: 'mae', header: 'MAE', format: decimal },
+      { key: 'mdape', header: 'MdAPE (%)', format: decimal },
+      { key: 'rmsse', header: 'RMSSE', format: decimal },
+      { key: 'tracking_signal', header: 'Tracking Signal', format: decimal },
+      { key: 'bias_t_stat', header: 'Bias t-statistic', format: decimal },
+      { key: 'bias_persistent', header: 'Persistent Bias', format: (v) => (v ? 'Yes' : 'No') },
+      { key: 'fva', header: 'FVA (pts)', format: decimal },
     ],
   })
 }
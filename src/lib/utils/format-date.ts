@@ -48,6 +48,20 @@ export function formatSyncTime(
   return `Last synced ${relative}`
 }
 
+/**
+ * Format a scheduled time (e.g., "in 3 hours", or "due now" once passed)
+ */
+export function formatNextRun(
+  date: string | Date | null | undefined
+): string {
+  if (!date) return '-'
+
+  const dateObj = typeof date === 'string' ? parseISO(date) : date
+  if (dateObj.getTime() <= Date.now()) return 'due now'
+
+  return formatDistanceToNow(dateObj, { addSuffix: true })
+}
+
 /**
  * Format month key from orders_by_month (e.g., "2024-01" -> "Jan 2024")
  */
@@ -0,0 +1,211 @@
+/**
+ * Hierarchical Accuracy
+ *
+ * Planners buy at the brand / vendor level, where SKU errors in opposite
+ * directions cancel out. This module sums each SKU's actuals and forecasts
+ * per period up to brand, product type and total, scores the summed series,
+ * and splits SKU-level error into the part that survives aggregation
+ * (volume error) and the part that cancels (mix error).
+ *
+ * The stored windows are uncensored, so each SKU's stockout months are first
+ * scored the way its own metrics were (censored_months / censoring_mode):
+ * left out, or scaled to a full period in stock.
+ *
+ * With a shared denominator (the group's total actual units):
+ *   SKU-level WAPE = Σ_sku Σ_t |F - A| / Σ A
+ *   Aggregate WAPE = Σ_t |Σ_sku F - Σ_sku A| / Σ A
+ *   Mix error      = SKU-level WAPE - Aggregate WAPE  (never negative)
+ */
+
+import { calculateBias, calculateMAPE, MAX_ADJUSTABLE_FRACTION } from './calculate-metrics'
+import { addPeriods, periodKeyOf, type Granularity } from './periods'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HierarchyLevel = 'total' | 'brand' | 'product_type'
+
+export const HIERARCHY_LEVELS: HierarchyLevel[] = ['total', 'brand', 'product_type']
+
+export const HIERARCHY_LEVEL_LABELS: Record<HierarchyLevel, string> = {
+  total: 'Total',
+  brand: 'Brand',
+  product_type: 'Product Type',
+}
+
+/** Group key for SKUs without a brand or product type (matches the rollup) */
+export const UNASSIGNED_GROUP = 'Unassigned'
+
+/**
+ * One SKU's evaluation window, as stored on the metrics row
+ */
+export interface HierarchySku {
+  brand: string | null
+  product_type: string | null
+  /** First evaluated period (YYYY-MM-DD) */
+  period_start: string | null
+  /** Uncensored window */
+  actual_values: unknown
+  forecast_values: unknown
+  /** Stockout periods ([{month, fraction}]) and how they were scored */
+  censored_months: unknown
+  censoring_mode: string | null
+  /** SKU-level WAPE as stored (for the simple mean) */
+  wape: number | null
+}
+
+export interface HierarchyNode {
+  level: HierarchyLevel
+  group_key: string
+  sku_count: number
+  periods: number
+  actual_units: number
+  forecast_units: number
+  /** Accuracy of the summed series */
+  aggregate_wape: number | null
+  aggregate_mape: number | null
+  /** Mean period error of the summed series as % of mean actual */
+  aggregate_bias_pct: number | null
+  /** Σ SKU absolute errors / Σ actuals */
+  sku_wape: number | null
+  /** Unweighted mean of the SKUs' own WAPE */
+  mean_sku_wape: number | null
+  /** Percentage points of SKU-level WAPE that cancel out in the group */
+  mix_error: number | null
+  /** Share of SKU-level error that is mix (0-100) */
+  mix_share: number | null
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function toNumbers(json: unknown): number[] {
+  return Array.isArray(json) ? json.map(v => Number(v) || 0) : []
+}
+
+/**
+ * Stockout share per period key from censored_months
+ */
+function censoredFractions(json: unknown): Map<string, number> {
+  const fractions = new Map<string, number>()
+  if (!Array.isArray(json)) return fractions
+  for (const entry of json) {
+    if (entry && typeof entry.month === 'string') fractions.set(entry.month, Number(entry.fraction) || 0)
+  }
+  return fractions
+}
+
+function groupKeyOf(sku: HierarchySku, level: HierarchyLevel): string {
+  if (level === 'total') return 'All SKUs'
+  const value = level === 'brand' ? sku.brand : sku.product_type
+  return value && value.trim() !== '' ? value : UNASSIGNED_GROUP
+}
+
+/**
+ * Score one group: sum the SKUs' censored series per period (aligned by
+ * period key, since SKU windows can end in different periods) and compare
+ * the summed error with the SKU-level error. Only SKUs that contribute at
+ * least one period are counted.
+ */
+function scoreGroup(
+  level: HierarchyLevel,
+  groupKey: string,
+  skus: HierarchySku[],
+  granularity: Granularity
+): HierarchyNode {
+  const byPeriod = new Map<string, { actual: number; forecast: number }>()
+  let skuAbsError = 0
+  let skuCount = 0
+  const skuWapes: number[] = []
+
+  for (const sku of skus) {
+    if (!sku.period_start) continue
+    const actual = toNumbers(sku.actual_values)
+    const forecast = toNumbers(sku.forecast_values)
+    if (actual.length === 0 || actual.length !== forecast.length) continue
+
+    const censored = sku.censoring_mode === 'exclude' || sku.censoring_mode === 'adjust'
+      ? censoredFractions(sku.censored_months)
+      : new Map<string, number>()
+    const firstKey = periodKeyOf(new Date(`${sku.period_start}T00:00:00Z`), granularity)
+    let contributed = false
+    for (let i = 0; i < actual.length; i++) {
+      const key = addPeriods(firstKey, i, granularity)
+      let value = actual[i]
+      const fraction = censored.get(key)
+      if (fraction !== undefined) {
+        if (sku.censoring_mode === 'exclude' || fraction > MAX_ADJUSTABLE_FRACTION) continue
+        value = value / (1 - fraction)
+      }
+
+      const period = byPeriod.get(key) ?? { actual: 0, forecast: 0 }
+      period.actual += value
+      period.forecast += forecast[i]
+      byPeriod.set(key, period)
+      skuAbsError += Math.abs(forecast[i] - value)
+      contributed = true
+    }
+
+    if (!contributed) continue
+    skuCount++
+    if (typeof sku.wape === 'number') skuWapes.push(sku.wape)
+  }
+
+  const periods = Array.from(byPeriod.keys()).sort().map(key => byPeriod.get(key)!)
+  const actual = periods.map(p => p.actual)
+  const forecast = periods.map(p => p.forecast)
+  const actualUnits = actual.reduce((a, b) => a + b, 0)
+  const forecastUnits = forecast.reduce((a, b) => a + b, 0)
+
+  let aggregateWape: number | null = null
+  let skuWape: number | null = null
+  let aggregateBiasPct: number | null = null
+  if (actualUnits > 0) {
+    const aggregateAbsError = periods.reduce((sum, p) => sum + Math.abs(p.forecast - p.actual), 0)
+    aggregateWape = (aggregateAbsError / actualUnits) * 100
+    skuWape = (skuAbsError / actualUnits) * 100
+    const bias = calculateBias(actual, forecast)
+    aggregateBiasPct = bias !== null ? (bias / (actualUnits / periods.length)) * 100 : null
+  }
+
+  const mixError = skuWape !== null && aggregateWape !== null ? Math.max(skuWape - aggregateWape, 0) : null
+
+  return {
+    level,
+    group_key: groupKey,
+    sku_count: skuCount,
+    periods: periods.length,
+    actual_units: actualUnits,
+    forecast_units: forecastUnits,
+    aggregate_wape: aggregateWape,
+    aggregate_mape: calculateMAPE(actual, forecast),
+    aggregate_bias_pct: aggregateBiasPct,
+    sku_wape: skuWape,
+    mean_sku_wape: skuWapes.length > 0 ? skuWapes.reduce((a, b) => a + b, 0) / skuWapes.length : null,
+    mix_error: mixError,
+    mix_share: mixError !== null && skuWape ? (mixError / skuWape) * 100 : null,
+  }
+}
+
+/**
+ * Aggregate-level accuracy for every group at one level, highest volume first
+ */
+export function aggregateHierarchy(
+  skus: HierarchySku[],
+  level: HierarchyLevel,
+  granularity: Granularity = 'month'
+): HierarchyNode[] {
+  const groups = new Map<string, HierarchySku[]>()
+  for (const sku of skus) {
+    const key = groupKeyOf(sku, level)
+    const members = groups.get(key) ?? []
+    members.push(sku)
+    groups.set(key, members)
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, members]) => scoreGroup(level, key, members, granularity))
+    .sort((a, b) => b.actual_units - a.actual_units)
+}
@@ -0,0 +1,175 @@
+/**
+ * Empirical Prediction Intervals
+ *
+ * Inventory Planner only sends point forecasts. Each SKU's own error history
+ * (actual - forecast over the evaluation window) gives an empirical error
+ * distribution; its quantiles added to a point forecast give 80% and 95%
+ * prediction intervals. The same construction is backtested on the history
+ * (rolling origin: each period's interval uses only earlier errors) and
+ * scored with hit rate and pinball loss.
+ */
+
+// ============================================================================
+// Levels and Quantiles
+// ============================================================================
+
+export type IntervalLevel = 80 | 95
+
+export const INTERVAL_LEVELS: IntervalLevel[] = [80, 95]
+
+/** Lower / upper error quantile of each central interval */
+export const INTERVAL_QUANTILES: Record<IntervalLevel, [number, number]> = {
+  80: [0.1, 0.9],
+  95: [0.025, 0.975],
+}
+
+/**
+ * Fewest errors the quantiles are estimated from
+ */
+export const MIN_INTERVAL_ERRORS = 6
+
+/**
+ * Error quantiles (actual - forecast), as stored on the metrics row
+ */
+export interface ErrorQuantiles {
+  q025: number
+  q10: number
+  q90: number
+  q975: number
+}
+
+/**
+ * Quantile of a sample with linear interpolation between order statistics
+ */
+export function quantile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * Quantiles of the error series; null with fewer than MIN_INTERVAL_ERRORS
+ */
+export function calculateErrorQuantiles(actual: number[], forecast: number[]): ErrorQuantiles | null {
+  if (actual.length !== forecast.length || actual.length < MIN_INTERVAL_ERRORS) return null
+  const errors = actual.map((a, i) => a - forecast[i])
+  return {
+    q025: quantile(errors, 0.025)!,
+    q10: quantile(errors, 0.1)!,
+    q90: quantile(errors, 0.9)!,
+    q975: quantile(errors, 0.975)!,
+  }
+}
+
+function quantileBounds(quantiles: ErrorQuantiles, level: IntervalLevel): [number, number] {
+  return level === 80 ? [quantiles.q10, quantiles.q90] : [quantiles.q025, quantiles.q975]
+}
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+export interface PredictionInterval {
+  lower: number
+  upper: number
+}
+
+/**
+ * Interval around a point forecast: forecast + error quantiles, floored at
+ * zero since demand cannot be negative
+ */
+export function predictionInterval(
+  forecast: number,
+  quantiles: ErrorQuantiles,
+  level: IntervalLevel
+): PredictionInterval {
+  const [low, high] = quantileBounds(quantiles, level)
+  return {
+    lower: Math.max(forecast + low, 0),
+    upper: Math.max(forecast + high, 0),
+  }
+}
+
+/**
+ * Read the stored quantile columns back (null when not calculated)
+ */
+export function quantilesFromMetric(metric: {
+  interval_q025: number | null
+  interval_q10: number | null
+  interval_q90: number | null
+  interval_q975: number | null
+}): ErrorQuantiles | null {
+  const { interval_q025, interval_q10, interval_q90, interval_q975 } = metric
+  if (interval_q025 === null || interval_q10 === null || interval_q90 === null || interval_q975 === null) {
+    return null
+  }
+  return {
+    q025: Number(interval_q025),
+    q10: Number(interval_q10),
+    q90: Number(interval_q90),
+    q975: Number(interval_q975),
+  }
+}
+
+// ============================================================================
+// Coverage Scoring
+// ============================================================================
+
+export interface IntervalCoverage {
+  /** Share of backtested periods whose actual fell inside the 80% interval */
+  coverage80: number
+  /** Share inside the 95% interval */
+  coverage95: number
+  /** Mean pinball loss over the four interval quantiles, in units */
+  pinballLoss: number
+  /** Periods backtested */
+  periods: number
+}
+
+/**
+ * Pinball (quantile) loss of predicting q for quantile level tau
+ */
+export function pinballLoss(actual: number, predicted: number, tau: number): number {
+  return actual >= predicted ? tau * (actual - predicted) : (1 - tau) * (predicted - actual)
+}
+
+/**
+ * Backtest the intervals: each period from MIN_INTERVAL_ERRORS on gets
+ * intervals built from the errors before it only, and is scored on whether
+ * its actual fell inside (hit rate) and on pinball loss at each bound.
+ * A well-calibrated 80% interval covers about 80% of periods; lower pinball
+ * loss means sharper intervals at the same coverage.
+ * Returns null when there is nothing to backtest.
+ */
+export function scoreIntervalCoverage(actual: number[], forecast: number[]): IntervalCoverage | null {
+  if (actual.length !== forecast.length || actual.length <= MIN_INTERVAL_ERRORS) return null
+
+  const errors = actual.map((a, i) => a - forecast[i])
+  const hits: Record<IntervalLevel, number> = { 80: 0, 95: 0 }
+  let lossSum = 0
+  let lossCount = 0
+  let periods = 0
+
+  for (let t = MIN_INTERVAL_ERRORS; t < actual.length; t++) {
+    const prior = errors.slice(0, t)
+    periods++
+    for (const level of INTERVAL_LEVELS) {
+      const [lowTau, highTau] = INTERVAL_QUANTILES[level]
+      const lower = Math.max(forecast[t] + quantile(prior, lowTau)!, 0)
+      const upper = Math.max(forecast[t] + quantile(prior, highTau)!, 0)
+      if (actual[t] >= lower && actual[t] <= upper) hits[level]++
+      lossSum += pinballLoss(actual[t], lower, lowTau) + pinballLoss(actual[t], upper, highTau)
+      lossCount += 2
+    }
+  }
+
+  return {
+    coverage80: (hits[80] / periods) * 100,
+    coverage95: (hits[95] / periods) * 100,
+    pinballLoss: lossSum / lossCount,
+    periods,
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Projected Inventory
+ *
+ * forecasted_stock and current_forecast are single numbers. This projects
+ * on-hand stock day by day from today: stock is drawn down at each month's
+ * forecast_by_period rate (spread evenly over the month's days) and open
+ * purchase orders arrive once the lead time has passed. Stock does not go
+ * below zero (demand while out of stock is lost), so a receipt after a
+ * stockout restarts from the received quantity.
+ */
+
+import { parsePeriodSeries, periodDays, periodKeyOf } from './periods'
+
+// ============================================================================
+// Horizon
+// ============================================================================
+
+/** Months projected by default (and for the stored stockout date) */
+export const DEFAULT_PROJECTION_MONTHS = 12
+
+/** Horizons offered on the SKU page */
+export const PROJECTION_HORIZONS = [6, 12] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+export interface ProjectionInputs {
+  inStock: number
+  /** Open purchase orders, received after the lead time */
+  purchaseOrdersQty: number | null
+  leadTimeDays: number | null
+  /** forecast_by_period: {year: {month: qty}} */
+  forecast: unknown
+  months?: number
+  /** Projection start (default today) */
+  asOf?: Date
+}
+
+export interface ProjectedMonth {
+  /** YYYY-MM */
+  key: string
+  /** On hand at the start of the month (today for the current month) */
+  opening: number
+  /** Forecast demand over the projected days of the month */
+  demand: number
+  receipts: number
+  /** On hand at the end of the month */
+  closing: number
+  /** Demand that falls while out of stock */
+  unmet: number
+}
+
+export interface InventoryProjection {
+  months: ProjectedMonth[]
+  /** First day on-hand stock reaches zero (YYYY-MM-DD); null when it lasts the horizon */
+  stockoutDate: string | null
+  /**
+   * Days until the stockout, or the days projected when stock lasts the
+   * whole horizon
+   */
+  daysOfCover: number
+  /** Days projected (today through the last forecast month in the horizon) */
+  horizonDays: number
+  /** Date the open purchase orders are expected, when there are any */
+  receiptDate: string | null
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Project on-hand inventory month by month. The horizon stops early at the
+ * last month with a forecast; returns null without a forecast for the
+ * current month.
+ */
+export function projectInventory(inputs: ProjectionInputs): InventoryProjection | null {
+  const { purchaseOrdersQty, leadTimeDays, months = DEFAULT_PROJECTION_MONTHS } = inputs
+  const asOf = inputs.asOf ?? new Date()
+  const today = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()))
+
+  const forecastByKey = new Map(parsePeriodSeries(inputs.forecast, 'month').map(p => [p.key, p.value]))
+  if (!forecastByKey.has(periodKeyOf(today, 'month'))) return null
+
+  const receiptQty = purchaseOrdersQty && purchaseOrdersQty > 0 ? purchaseOrdersQty : 0
+  const receiptDay = receiptQty > 0 ? Math.max(Math.round(leadTimeDays ?? 0), 0) : -1
+
+  const projected: ProjectedMonth[] = []
+  let stock = Math.max(inputs.inStock, 0)
+  let stockoutDay: number | null = inputs.inStock <= 0 ? 0 : null
+  let day = 0
+
+  for (let m = 0; m < months; m++) {
+    const monthStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + m, 1))
+    const key = periodKeyOf(monthStart, 'month')
+    const forecast = forecastByKey.get(key)
+    if (forecast === undefined) break
+
+    const daysInMonth = periodDays(key, 'month')
+    const firstDay = m === 0 ? today.getUTCDate() : 1
+    const dailyDemand = Math.max(forecast, 0) / daysInMonth
+    const month: ProjectedMonth = { key, opening: stock, demand: 0, receipts: 0, closing: 0, unmet: 0 }
+
+    for (let d = firstDay; d <= daysInMonth; d++, day++) {
+      if (day === receiptDay) {
+        stock += receiptQty
+        month.receipts += receiptQty
+      }
+      month.demand += dailyDemand
+      const served = Math.min(stock, dailyDemand)
+      month.unmet += dailyDemand - served
+      stock -= served
+      if (stock <= 1e-9 && dailyDemand > 0 && stockoutDay === null) stockoutDay = day
+    }
+
+    month.closing = stock
+    projected.push(month)
+  }
+
+  return {
+    months: projected,
+    stockoutDate: stockoutDay !== null ? toDateString(new Date(today.getTime() + stockoutDay * DAY_MS)) : null,
+    daysOfCover: stockoutDay ?? day,
+    horizonDays: day,
+    receiptDate: receiptDay >= 0 ? toDateString(new Date(today.getTime() + receiptDay * DAY_MS)) : null,
+  }
+}
+
+/**
+ * Stored projection columns (variants / variant_warehouses), both null
+ * without a current forecast
+ */
+export function projectionColumns(inputs: ProjectionInputs): {
+  projected_stockout_date: string | null
+  days_of_cover: number | null
+} {
+  const projection = projectInventory(inputs)
+  return {
+    projected_stockout_date: projection?.stockoutDate ?? null,
+    days_of_cover: projection?.daysOfCover ?? null,
+  }
+}
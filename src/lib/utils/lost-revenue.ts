@@ -0,0 +1,201 @@
+/**
+ * Lost Revenue Attribution
+ *
+ * forecasted_lost_revenue is one forward-looking figure from Inventory
+ * Planner. This estimates the revenue already lost in past stockout months
+ * (the censored months of the accuracy calculation) and attributes it:
+ *
+ * 1. Under-forecasting: demand over the lead time up to the stockout month
+ *    exceeded the forecast on record for it, so stock planned on that
+ *    forecast ran short. Up to the shortfall in units; months without a
+ *    forecast are left out of both sides.
+ * 2. Lead-time overrun: the stockout lasted longer than the lead time, so
+ *    replenishment took longer than planned. The share of the stockout's
+ *    days beyond the lead time, of what under-forecasting does not explain.
+ * 3. Other: the rest (late ordering, supply issues, data gaps).
+ */
+
+import { MAX_ADJUSTABLE_FRACTION } from './calculate-metrics'
+import { addPeriods, parsePeriodSeries, periodDays } from './periods'
+
+// ============================================================================
+// Causes
+// ============================================================================
+
+export type LostRevenueCause = 'under_forecast' | 'lead_time_overrun' | 'other'
+
+export const LOST_REVENUE_CAUSES: LostRevenueCause[] = ['under_forecast', 'lead_time_overrun', 'other']
+
+export const LOST_REVENUE_CAUSE_LABELS: Record<LostRevenueCause, string> = {
+  under_forecast: 'Under-forecasting',
+  lead_time_overrun: 'Lead-time overrun',
+  other: 'Other',
+}
+
+export type CauseAmounts = Record<LostRevenueCause, number>
+
+function emptyCauses(): CauseAmounts {
+  return { under_forecast: 0, lead_time_overrun: 0, other: 0 }
+}
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+const DAYS_PER_MONTH = 30.44
+
+// In-stock months before a mostly-out-of-stock month its demand is taken from
+const BASELINE_MONTHS = 3
+
+export interface StockoutMonth {
+  /** YYYY-MM */
+  month: string
+  /** Share of the month out of stock (0-1) */
+  fraction: number
+}
+
+export interface LostRevenueInputs {
+  /** Stockout months (forecast_metrics.censored_months) */
+  stockoutMonths: StockoutMonth[]
+  /** orders_by_month: {year: {month: qty}} */
+  ordersByMonth: unknown
+  /** forecast_by_period: {year: {month: qty}} */
+  forecast: unknown
+  /** Forecast on record before each month (snapshot ledger), keyed YYYY-MM */
+  exAnteForecast?: Map<string, number> | null
+  price: number | null
+  leadTimeDays: number | null
+}
+
+export interface AttributedStockout {
+  month: string
+  fraction: number
+  /** Estimated demand for the whole month had it been in stock */
+  demand: number
+  lostUnits: number
+  lostRevenue: number
+  /** Months from the lead time before the stockout through it */
+  windowStart: string
+  /** Demand over the window months that have a forecast */
+  windowDemand: number
+  /** Null when no month in the window has a forecast */
+  windowForecast: number | null
+  /** Days out of stock in the run of consecutive stockout months */
+  runDays: number
+  revenueByCause: CauseAmounts
+}
+
+export interface LostRevenueAttribution {
+  stockouts: AttributedStockout[]
+  lostUnits: number
+  lostRevenue: number
+  revenueByCause: CauseAmounts
+  /** Cause with the most lost revenue; null when nothing was lost */
+  primaryCause: LostRevenueCause | null
+}
+
+/**
+ * Lost units and revenue per stockout month, split by cause. Demand in a
+ * stockout month is its sales scaled to a full month in stock, or (for
+ * months mostly out of stock) the average of up to 3 earlier in-stock
+ * months, falling back to the forecast. Returns null without a price or
+ * stockout months.
+ */
+export function attributeLostRevenue(inputs: LostRevenueInputs): LostRevenueAttribution | null {
+  const { price, leadTimeDays, exAnteForecast } = inputs
+  if (price === null || !(price > 0) || inputs.stockoutMonths.length === 0) return null
+
+  const actualByKey = new Map(parsePeriodSeries(inputs.ordersByMonth, 'month').map(p => [p.key, p.value]))
+  const latestByKey = new Map(parsePeriodSeries(inputs.forecast, 'month').map(p => [p.key, p.value]))
+  const forecastFor = (key: string) => exAnteForecast?.get(key) ?? latestByKey.get(key)
+
+  const stockouts = [...inputs.stockoutMonths].sort((a, b) => a.month.localeCompare(b.month))
+  const fractionByKey = new Map(stockouts.map(s => [s.month, s.fraction]))
+
+  const demandFor = (key: string): number => {
+    const actual = actualByKey.get(key) ?? 0
+    const fraction = fractionByKey.get(key)
+    if (fraction === undefined) return actual
+    if (fraction <= MAX_ADJUSTABLE_FRACTION) return actual / (1 - fraction)
+
+    const baseline: number[] = []
+    for (let m = 1; m <= 12 && baseline.length < BASELINE_MONTHS; m++) {
+      const earlier = addPeriods(key, -m, 'month')
+      if (!fractionByKey.has(earlier) && actualByKey.has(earlier)) baseline.push(actualByKey.get(earlier)!)
+    }
+    if (baseline.length > 0) return baseline.reduce((a, b) => a + b, 0) / baseline.length
+    return Math.max(forecastFor(key) ?? 0, actual)
+  }
+
+  // Stockout days per run of consecutive stockout months
+  const runDaysByKey = new Map<string, number>()
+  let run: string[] = []
+  const closeRun = () => {
+    const days = run.reduce((sum, key) => sum + fractionByKey.get(key)! * periodDays(key, 'month'), 0)
+    for (const key of run) runDaysByKey.set(key, days)
+    run = []
+  }
+  for (const { month } of stockouts) {
+    if (run.length > 0 && addPeriods(run[run.length - 1], 1, 'month') !== month) closeRun()
+    run.push(month)
+  }
+  closeRun()
+
+  const leadMonths = leadTimeDays && leadTimeDays > 0 ? Math.ceil(leadTimeDays / DAYS_PER_MONTH) : 1
+
+  const attributed: AttributedStockout[] = []
+  const totals = emptyCauses()
+  let lostUnits = 0
+
+  for (const { month, fraction } of stockouts) {
+    const demand = demandFor(month)
+    const units = demand * fraction
+
+    // Forecast error over the lead time up to and including the stockout
+    // month, over the months that have a forecast
+    const windowStart = addPeriods(month, -leadMonths, 'month')
+    let windowDemand = 0
+    let windowForecast: number | null = null
+    for (let key = windowStart; key <= month; key = addPeriods(key, 1, 'month')) {
+      const f = forecastFor(key)
+      if (f === undefined) continue
+      windowDemand += demandFor(key)
+      windowForecast = (windowForecast ?? 0) + f
+    }
+
+    const underUnits = windowForecast !== null ? Math.min(units, Math.max(windowDemand - windowForecast, 0)) : 0
+    const runDays = runDaysByKey.get(month) ?? 0
+    const overrunShare = leadTimeDays && leadTimeDays > 0 && runDays > leadTimeDays
+      ? (runDays - leadTimeDays) / runDays
+      : 0
+    const overrunUnits = (units - underUnits) * overrunShare
+
+    const revenueByCause: CauseAmounts = {
+      under_forecast: underUnits * price,
+      lead_time_overrun: overrunUnits * price,
+      other: (units - underUnits - overrunUnits) * price,
+    }
+    for (const cause of LOST_REVENUE_CAUSES) totals[cause] += revenueByCause[cause]
+    lostUnits += units
+
+    attributed.push({
+      month,
+      fraction,
+      demand,
+      lostUnits: units,
+      lostRevenue: units * price,
+      windowStart,
+      windowDemand,
+      windowForecast,
+      runDays,
+      revenueByCause,
+    })
+  }
+
+  const lostRevenue = lostUnits * price
+  const primaryCause = lostRevenue > 0
+    ? LOST_REVENUE_CAUSES.reduce((best, cause) => (totals[cause] > totals[best] ? cause : best))
+    : null
+
+  return { stockouts: attributed, lostUnits, lostRevenue, revenueByCause: totals, primaryCause }
+}
@@ -0,0 +1,217 @@
+/**
+ * Period Granularity
+ *
+ * Actuals and forecasts are stored as {year: {period: qty}} JSON: calendar
+ * months from Inventory Planner (orders_by_month, forecast_by_period) and,
+ * for SKUs that have them, ISO weeks (orders_by_week, forecast_by_week).
+ * Everything that builds, aligns or scores period keys goes through here so
+ * the metric pipeline runs the same way on either granularity.
+ *
+ * Keys: YYYY-MM for months, YYYY-Www (ISO week-numbering year) for weeks.
+ */
+
+export type Granularity = 'month' | 'week'
+
+export const GRANULARITIES: Granularity[] = ['month', 'week']
+export const DEFAULT_GRANULARITY: Granularity = 'month'
+
+export function isGranularity(value: string | null | undefined): value is Granularity {
+  return GRANULARITIES.includes(value as Granularity)
+}
+
+export interface GranularityConfig {
+  label: string
+  /** Singular period name for messages ("3 stockout weeks") */
+  unit: string
+  periodsPerYear: number
+  /** Variant columns holding the actual and forecast series */
+  ordersColumn: 'orders_by_month' | 'orders_by_week'
+  forecastColumn: 'forecast_by_period' | 'forecast_by_week'
+}
+
+export const GRANULARITY_CONFIG: Record<Granularity, GranularityConfig> = {
+  month: {
+    label: 'Monthly',
+    unit: 'month',
+    periodsPerYear: 12,
+    ordersColumn: 'orders_by_month',
+    forecastColumn: 'forecast_by_period',
+  },
+  week: {
+    label: 'Weekly',
+    unit: 'week',
+    periodsPerYear: 52,
+    ordersColumn: 'orders_by_week',
+    forecastColumn: 'forecast_by_week',
+  },
+}
+
+/**
+ * Convert a span in months to periods of the granularity (12 months -> 52
+ * weeks), so month-based thresholds and windows scale with it
+ */
+export function monthsToPeriods(months: number, granularity: Granularity): number {
+  if (granularity === 'month') return months
+  return Math.round((months * GRANULARITY_CONFIG[granularity].periodsPerYear) / 12)
+}
+
+// ============================================================================
+// Period Keys
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const WEEK_KEY = /^(\d{4})-W(\d{1,2})$/
+const DATE_KEY = /^(\d{4})-(\d{2})-(\d{2})$/
+
+function pad2(value: number | string): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * ISO 8601 week-numbering year and week of a date (weeks start on Monday;
+ * week 1 holds the year's first Thursday)
+ */
+function isoWeekOf(date: Date): { year: number; week: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  const weekday = d.getUTCDay() || 7
+  d.setUTCDate(d.getUTCDate() + 4 - weekday)
+  const year = d.getUTCFullYear()
+  const week = Math.ceil(((d.getTime() - Date.UTC(year, 0, 1)) / DAY_MS + 1) / 7)
+  return { year, week }
+}
+
+function weekKey(year: number | string, week: number | string): string {
+  return `${year}-W${pad2(week)}`
+}
+
+/**
+ * Key of the period containing a date (UTC)
+ */
+export function periodKeyOf(date: Date, granularity: Granularity): string {
+  if (granularity === 'week') {
+    const { year, week } = isoWeekOf(date)
+    return weekKey(year, week)
+  }
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}`
+}
+
+/**
+ * First day of a period (midnight UTC): the 1st of the month, or the Monday
+ * of the ISO week
+ */
+export function periodStart(key: string, granularity: Granularity): Date {
+  if (granularity === 'week') {
+    const [, year, week] = key.match(WEEK_KEY) ?? []
+    const jan4 = new Date(Date.UTC(Number(year), 0, 4))
+    const week1Monday = jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS
+    return new Date(week1Monday + (Number(week) - 1) * 7 * DAY_MS)
+  }
+  const [year, month] = key.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, 1))
+}
+
+/**
+ * Days in a period
+ */
+export function periodDays(key: string, granularity: Granularity): number {
+  if (granularity === 'week') return 7
+  const [year, month] = key.split('-').map(Number)
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Key n periods after (or before, for negative n) a key
+ */
+export function addPeriods(key: string, n: number, granularity: Granularity): string {
+  const start = periodStart(key, granularity)
+  if (granularity === 'week') {
+    return periodKeyOf(new Date(start.getTime() + n * 7 * DAY_MS), granularity)
+  }
+  return periodKeyOf(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + n, 1)), granularity)
+}
+
+/**
+ * Period start as a DATE column value (YYYY-MM-DD)
+ */
+export function periodStartDate(key: string, granularity: Granularity): string {
+  return periodStart(key, granularity).toISOString().split('T')[0]
+}
+
+// ============================================================================
+// Series Parsing
+// ============================================================================
+
+/**
+ * A single period of data
+ */
+export interface PeriodPoint {
+  key: string
+  value: number
+}
+
+type NestedSeries = Record<string, Record<string, number>>
+
+/**
+ * Flatten {year: {period: qty}} JSON into a chronologically sorted series.
+ * For weeks the year is the ISO week-numbering year.
+ */
+export function parsePeriodSeries(json: unknown, granularity: Granularity = 'month'): PeriodPoint[] {
+  if (!json || typeof json !== 'object') return []
+
+  const byYear = json as NestedSeries
+  const series: PeriodPoint[] = []
+  for (const year of Object.keys(byYear).sort()) {
+    const periods = byYear[year]
+    if (!periods || typeof periods !== 'object') continue
+    for (const period of Object.keys(periods).sort((a, b) => Number(a) - Number(b))) {
+      series.push({
+        key: granularity === 'week' ? weekKey(year, period) : `${year}-${pad2(period)}`,
+        value: Number(periods[period]) || 0
+      })
+    }
+  }
+  return series
+}
+
+/**
+ * Normalize an incoming weekly series to the stored {isoYear: {week: qty}}
+ * shape. Accepts that shape, or a flat map keyed by ISO week (2024-W05) or
+ * by any date in the week (2024-01-29; dates in one week are summed).
+ * Returns null when nothing usable is found.
+ */
+export function normalizeWeeklySeries(json: unknown): NestedSeries | null {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null
+
+  const result: NestedSeries = {}
+  const add = (year: number | string, week: number | string, value: unknown) => {
+    const qty = Number(value)
+    const weekNum = Number(week)
+    if (!Number.isFinite(qty) || !Number.isInteger(weekNum) || weekNum < 1 || weekNum > 53) return
+    const yearKey = String(year)
+    result[yearKey] = result[yearKey] || {}
+    result[yearKey][String(weekNum)] = (result[yearKey][String(weekNum)] || 0) + qty
+  }
+
+  for (const [key, value] of Object.entries(json as Record<string, unknown>)) {
+    if (value && typeof value === 'object') {
+      if (!/^\d{4}$/.test(key)) continue
+      for (const [week, qty] of Object.entries(value as Record<string, unknown>)) add(key, week, qty)
+      continue
+    }
+
+    const week = key.match(WEEK_KEY)
+    if (week) {
+      add(week[1], week[2], value)
+      continue
+    }
+
+    const date = key.match(DATE_KEY)
+    if (date) {
+      const iso = isoWeekOf(new Date(Date.UTC(Number(date[1]), Number(date[2]) - 1, Number(date[3]))))
+      add(iso.year, iso.week, value)
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : null
+}
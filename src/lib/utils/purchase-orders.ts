@@ -0,0 +1,360 @@
+/**
+ * Purchase Order Drafts
+ *
+ * Reorder candidates (variants with to_order > 0) are grouped by their
+ * primary vendor from Inventory Planner's vendors[] in raw_data. Quantities
+ * start at to_order and are rounded up to the vendor's minimum order
+ * quantity and case pack. Saved drafts export in the ERP import layout
+ * (ERP_COLUMNS) as CSV or JSON.
+ */
+
+import type { Variant } from '@/types/database'
+
+// ============================================================================
+// Vendors
+// ============================================================================
+
+/** Group for SKUs without a vendor in raw_data */
+export const UNASSIGNED_VENDOR_ID = 'unassigned'
+export const UNASSIGNED_VENDOR_NAME = 'No vendor'
+
+/**
+ * Ordering terms of one vendor for a SKU, from Inventory Planner's vendors[]
+ */
+export interface VendorTerms {
+  vendor_id: string
+  vendor_name: string | null
+  vendor_sku: string | null
+  cost_price: number | null
+  /** Minimum order quantity */
+  moq: number | null
+  /** Units per case */
+  case_pack: number | null
+  lead_time: number | null
+}
+
+function firstValue(entry: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (entry[key] !== undefined && entry[key] !== null && entry[key] !== '') return entry[key]
+  }
+  return null
+}
+
+function positiveNumber(value: unknown): number | null {
+  const n = Number(value)
+  return value !== null && Number.isFinite(n) && n > 0 ? n : null
+}
+
+function optionalString(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value)
+}
+
+/**
+ * vendors[] from raw_data: at the root for flat variants, on the main
+ * connection for Inventory Planner's nested connections[] structure
+ */
+function rawVendors(rawData: unknown): Record<string, unknown>[] {
+  if (!rawData || typeof rawData !== 'object') return []
+  const raw = rawData as Record<string, unknown>
+  if (Array.isArray(raw.vendors)) return raw.vendors as Record<string, unknown>[]
+
+  const connections = Array.isArray(raw.connections)
+    ? (raw.connections as Record<string, unknown>[])
+    : raw.connections && typeof raw.connections === 'object'
+      ? [raw.connections as Record<string, unknown>]
+      : []
+  const main = connections.find(c => c?.connection_main === true) || connections[0]
+  return main && Array.isArray(main.vendors) ? (main.vendors as Record<string, unknown>[]) : []
+}
+
+/**
+ * Vendor terms from a variant's raw_data, primary vendor first. The vendor
+ * may be an id or a nested {id, name} object; field names vary between
+ * Inventory Planner accounts, so the common aliases are accepted.
+ */
+export function extractVendors(rawData: unknown): VendorTerms[] {
+  const vendors: VendorTerms[] = []
+
+  for (const entry of rawVendors(rawData)) {
+    if (!entry || typeof entry !== 'object') continue
+    const nested = entry.vendor && typeof entry.vendor === 'object'
+      ? (entry.vendor as Record<string, unknown>)
+      : null
+    const id = nested
+      ? firstValue(nested, ['id', 'vendor_id'])
+      : firstValue(entry, ['vendor', 'vendor_id', 'id'])
+    if (id === null) continue
+
+    vendors.push({
+      vendor_id: String(id),
+      vendor_name: optionalString(
+        (nested && firstValue(nested, ['name', 'title'])) ?? firstValue(entry, ['vendor_name', 'name', 'title'])
+      ),
+      vendor_sku: optionalString(firstValue(entry, ['vendor_sku', 'supplier_sku', 'vendor_code'])),
+      cost_price: positiveNumber(firstValue(entry, ['cost_price', 'cost'])),
+      moq: positiveNumber(firstValue(entry, ['moq', 'minimum_order_quantity', 'min_order_qty'])),
+      case_pack: positiveNumber(firstValue(entry, ['case_pack', 'pack_size', 'case_quantity', 'units_per_case'])),
+      lead_time: positiveNumber(firstValue(entry, ['lead_time'])),
+    })
+  }
+
+  return vendors
+}
+
+// ============================================================================
+// Quantities
+// ============================================================================
+
+/**
+ * Round an order quantity to the vendor's terms: at least the MOQ, then up
+ * to a whole number of cases. Zero stays zero (the line is not ordered).
+ */
+export function roundOrderQuantity(
+  quantity: number,
+  terms: { moq: number | null; case_pack: number | null }
+): number {
+  if (!(quantity > 0)) return 0
+  let rounded = Math.max(Math.ceil(quantity), terms.moq ?? 0)
+  if (terms.case_pack && terms.case_pack > 1) {
+    rounded = Math.ceil(rounded / terms.case_pack) * terms.case_pack
+  }
+  return rounded
+}
+
+// ============================================================================
+// Draft Lines
+// ============================================================================
+
+/**
+ * One SKU on a draft as edited in the workbench (po_draft_lines without the
+ * draft keys)
+ */
+export interface PurchaseOrderLineInput {
+  variant_id: string | null
+  sku: string
+  title: string | null
+  barcode: string | null
+  vendor_sku: string | null
+  suggested_qty: number
+  quantity: number
+  moq: number | null
+  case_pack: number | null
+  unit_cost: number | null
+}
+
+function nullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : null
+}
+
+function nullableString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * Validate a submitted draft line: a SKU and a whole, non-negative quantity.
+ * Returns null when invalid.
+ */
+export function parseOrderLine(value: unknown): PurchaseOrderLineInput | null {
+  if (!value || typeof value !== 'object') return null
+  const line = value as Record<string, unknown>
+
+  const sku = nullableString(line.sku)
+  const quantity = Number(line.quantity)
+  if (!sku || !Number.isInteger(quantity) || quantity < 0) return null
+
+  return {
+    variant_id: nullableString(line.variant_id),
+    sku,
+    title: nullableString(line.title),
+    barcode: nullableString(line.barcode),
+    vendor_sku: nullableString(line.vendor_sku),
+    suggested_qty: Math.round(nullableNumber(line.suggested_qty) ?? 0),
+    quantity,
+    moq: nullableNumber(line.moq),
+    case_pack: nullableNumber(line.case_pack),
+    unit_cost: nullableNumber(line.unit_cost),
+  }
+}
+
+/**
+ * Header and lines of a draft as submitted from the workbench
+ */
+export interface PurchaseOrderDraftInput {
+  vendor_id: string
+  vendor_name: string | null
+  notes: string | null
+  lines: PurchaseOrderLineInput[]
+}
+
+/**
+ * Validate a submitted draft: a vendor id and valid, unique-SKU lines
+ */
+export function parseDraftInput(value: unknown): { draft: PurchaseOrderDraftInput | null; error: string | null } {
+  if (!value || typeof value !== 'object') return { draft: null, error: 'Invalid draft' }
+  const body = value as Record<string, unknown>
+
+  const vendorId = nullableString(body.vendor_id)
+  if (!vendorId) return { draft: null, error: 'A vendor is required' }
+  if (!Array.isArray(body.lines)) return { draft: null, error: 'Invalid lines array' }
+
+  const lines: PurchaseOrderLineInput[] = []
+  for (const entry of body.lines) {
+    const line = parseOrderLine(entry)
+    if (!line) return { draft: null, error: `Invalid line: ${JSON.stringify(entry)}` }
+    if (lines.some(l => l.sku === line.sku)) return { draft: null, error: `Duplicate line for ${line.sku}` }
+    lines.push(line)
+  }
+
+  return {
+    draft: {
+      vendor_id: vendorId,
+      vendor_name: nullableString(body.vendor_name),
+      notes: nullableString(body.notes),
+      lines,
+    },
+    error: null,
+  }
+}
+
+export interface VendorGroup {
+  vendor_id: string
+  vendor_name: string | null
+  lines: PurchaseOrderLineInput[]
+}
+
+export type ReorderCandidate = Pick<Variant, 'id' | 'sku' | 'title' | 'barcode' | 'to_order' | 'cost_price' | 'raw_data'>
+
+/**
+ * Group reorder candidates by primary vendor, each line starting at to_order
+ * rounded to the vendor's MOQ and case pack. Vendors are ordered by name,
+ * with SKUs lacking a vendor last.
+ */
+export function groupByVendor(candidates: ReorderCandidate[]): VendorGroup[] {
+  const groups = new Map<string, VendorGroup>()
+
+  for (const candidate of candidates) {
+    const vendor = extractVendors(candidate.raw_data)[0]
+    const vendorId = vendor?.vendor_id ?? UNASSIGNED_VENDOR_ID
+    let group = groups.get(vendorId)
+    if (!group) {
+      group = { vendor_id: vendorId, vendor_name: vendor?.vendor_name ?? (vendor ? null : UNASSIGNED_VENDOR_NAME), lines: [] }
+      groups.set(vendorId, group)
+    }
+
+    const terms = { moq: vendor?.moq ?? null, case_pack: vendor?.case_pack ?? null }
+    group.lines.push({
+      variant_id: candidate.id,
+      sku: candidate.sku,
+      title: candidate.title,
+      barcode: candidate.barcode,
+      vendor_sku: vendor?.vendor_sku ?? null,
+      suggested_qty: candidate.to_order,
+      quantity: roundOrderQuantity(candidate.to_order, terms),
+      ...terms,
+      unit_cost: vendor?.cost_price ?? candidate.cost_price ?? null,
+    })
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    if (a.vendor_id === UNASSIGNED_VENDOR_ID) return 1
+    if (b.vendor_id === UNASSIGNED_VENDOR_ID) return -1
+    return (a.vendor_name ?? a.vendor_id).localeCompare(b.vendor_name ?? b.vendor_id)
+  })
+}
+
+export interface DraftTotals {
+  line_count: number
+  total_units: number
+  /** Σ quantity × unit_cost; null when no line has a cost */
+  total_cost: number | null
+}
+
+/**
+ * Totals over the lines being ordered (quantity > 0)
+ */
+export function summarizeLines(lines: Pick<PurchaseOrderLineInput, 'quantity' | 'unit_cost'>[]): DraftTotals {
+  const ordered = lines.filter(line => line.quantity > 0)
+  const costed = ordered.filter(line => line.unit_cost !== null)
+  return {
+    line_count: ordered.length,
+    total_units: ordered.reduce((sum, line) => sum + line.quantity, 0),
+    total_cost: costed.length > 0
+      ? Math.round(costed.reduce((sum, line) => sum + line.quantity * line.unit_cost!, 0) * 100) / 100
+      : null,
+  }
+}
+
+// ============================================================================
+// ERP Export
+// ============================================================================
+
+export type ExportFormat = 'csv' | 'json'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'json']
+
+export function isExportFormat(value: string | null | undefined): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value ?? '')
+}
+
+/**
+ * One row of the ERP purchase order import (same fields in CSV and JSON)
+ */
+export interface ErpOrderRow {
+  po_reference: string
+  vendor_id: string
+  vendor_name: string
+  sku: string
+  vendor_sku: string
+  barcode: string
+  description: string
+  quantity: number
+  unit_cost: number | null
+  line_total: number | null
+}
+
+/** ERP import columns, in order, with their CSV headers */
+export const ERP_COLUMNS: { key: keyof ErpOrderRow; header: string }[] = [
+  { key: 'po_reference', header: 'PO Reference' },
+  { key: 'vendor_id', header: 'Vendor ID' },
+  { key: 'vendor_name', header: 'Vendor Name' },
+  { key: 'sku', header: 'SKU' },
+  { key: 'vendor_sku', header: 'Vendor SKU' },
+  { key: 'barcode', header: 'Barcode' },
+  { key: 'description', header: 'Description' },
+  { key: 'quantity', header: 'Quantity' },
+  { key: 'unit_cost', header: 'Unit Cost' },
+  { key: 'line_total', header: 'Line Total' },
+]
+
+/**
+ * Reference the ERP keys the order on: PO- and the first 8 characters of the draft id
+ */
+export function poReference(draftId: string): string {
+  return `PO-${draftId.slice(0, 8).toUpperCase()}`
+}
+
+/**
+ * ERP rows for a draft; lines with a zero quantity are left out
+ */
+export function toErpRows(
+  draft: { id: string; vendor_id: string; vendor_name: string | null },
+  lines: Omit<PurchaseOrderLineInput, 'variant_id' | 'suggested_qty' | 'moq' | 'case_pack'>[]
+): ErpOrderRow[] {
+  const reference = poReference(draft.id)
+  return lines
+    .filter(line => line.quantity > 0)
+    .map(line => ({
+      po_reference: reference,
+      vendor_id: draft.vendor_id,
+      vendor_name: draft.vendor_name ?? '',
+      sku: line.sku,
+      vendor_sku: line.vendor_sku ?? '',
+      barcode: line.barcode ?? '',
+      description: line.title ?? '',
+      quantity: line.quantity,
+      unit_cost: line.unit_cost,
+      line_total: line.unit_cost !== null ? Math.round(line.quantity * line.unit_cost * 100) / 100 : null,
+    }))
+}
@@ -0,0 +1,169 @@
+/**
+ * Safety Stock and Reorder Point
+ *
+ * Inventory Planner's minimum_stock and replenishment are black boxes. This
+ * module recalculates them from the app's own measured forecast error: the
+ * RMSE of the SKU's forecasts, scaled to the lead time, sets the safety
+ * stock for a target service level (cycle service level, normal errors).
+ *
+ *   σ_LT           = RMSE × √(lead_time_days / days_per_period)
+ *   safety stock   = z(service level) × σ_LT
+ *   lead time demand = daily forecast × lead_time_days
+ *   reorder point  = lead time demand + safety stock
+ */
+
+// ============================================================================
+// Service Level
+// ============================================================================
+
+/**
+ * Default target cycle service level, % (app_settings.target_service_level)
+ */
+export const DEFAULT_SERVICE_LEVEL = 95
+
+export const MIN_SERVICE_LEVEL = 50
+export const MAX_SERVICE_LEVEL = 99.9
+
+/** Average days per month, for converting monthly figures to days */
+export const DAYS_PER_MONTH = 365.25 / 12
+
+/**
+ * z-score of a service level: the standard normal quantile, via Acklam's
+ * rational approximation (relative error below 1.2e-9)
+ */
+export function serviceLevelZ(serviceLevel: number): number {
+  const p = Math.min(Math.max(serviceLevel, MIN_SERVICE_LEVEL), MAX_SERVICE_LEVEL) / 100
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239]
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1]
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+
+  const pLow = 0.02425
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p))
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+export interface SafetyStockInputs {
+  /** RMSE of the SKU's forecasts, units per period */
+  rmse: number | null
+  /** Periods per year of the granularity the RMSE was measured at */
+  periodsPerYear: number
+  leadTimeDays: number | null
+  /** Forecast for the current month */
+  currentForecast: number | null
+  /** Fallback demand rate when there is no current forecast */
+  last30DaysSales: number | null
+  inStock: number
+  purchaseOrdersQty: number | null
+  /** Target cycle service level, % */
+  serviceLevel: number
+}
+
+export interface SafetyStockResult {
+  serviceLevel: number
+  z: number
+  leadTimeDays: number
+  demandPerDay: number
+  /** Forecast error standard deviation over the lead time */
+  sigmaLeadTime: number
+  safetyStock: number
+  leadTimeDemand: number
+  reorderPoint: number
+  /** In stock plus open purchase orders */
+  stockPosition: number
+  belowReorderPoint: boolean
+  /** Units to bring the stock position back to the reorder point */
+  shortfall: number
+}
+
+/**
+ * Safety stock and reorder point for one SKU; null without an RMSE or a
+ * lead time
+ */
+export function calculateSafetyStock(inputs: SafetyStockInputs): SafetyStockResult | null {
+  const { rmse, periodsPerYear, leadTimeDays, currentForecast, last30DaysSales, serviceLevel } = inputs
+  if (rmse === null || !(leadTimeDays && leadTimeDays > 0) || !(periodsPerYear > 0)) return null
+
+  const z = serviceLevelZ(serviceLevel)
+  const demandPerDay = currentForecast && currentForecast > 0
+    ? currentForecast / DAYS_PER_MONTH
+    : (last30DaysSales ?? 0) / 30
+
+  const periodDays = 365.25 / periodsPerYear
+  const sigmaLeadTime = rmse * Math.sqrt(leadTimeDays / periodDays)
+  const safetyStock = Math.max(z * sigmaLeadTime, 0)
+  const leadTimeDemand = demandPerDay * leadTimeDays
+  const reorderPoint = leadTimeDemand + safetyStock
+  const stockPosition = inputs.inStock + (inputs.purchaseOrdersQty ?? 0)
+
+  return {
+    serviceLevel,
+    z,
+    leadTimeDays,
+    demandPerDay,
+    sigmaLeadTime,
+    safetyStock,
+    leadTimeDemand,
+    reorderPoint,
+    stockPosition,
+    belowReorderPoint: stockPosition <= reorderPoint,
+    shortfall: Math.max(reorderPoint - stockPosition, 0),
+  }
+}
+
+// ============================================================================
+// Comparison with Inventory Planner
+// ============================================================================
+
+/**
+ * Relative gap between our safety stock and IP's minimum_stock that is
+ * flagged (50% of the larger of the two)
+ */
+export const SAFETY_STOCK_TOLERANCE = 0.5
+
+export type SafetyStockFlag = 'safety_stock_gap' | 'reorder_conflict'
+
+export const SAFETY_STOCK_FLAG_LABELS: Record<SafetyStockFlag, string> = {
+  safety_stock_gap: 'Safety stock differs from IP minimum stock',
+  reorder_conflict: 'Reorder signal disagrees with IP replenishment',
+}
+
+/**
+ * Where the independent calculation disagrees with Inventory Planner:
+ * - safety_stock_gap: safety stock and minimum_stock differ by more than
+ *   SAFETY_STOCK_TOLERANCE of the larger (and by at least one unit)
+ * - reorder_conflict: the stock position is below the reorder point but IP
+ *   suggests no replenishment, or IP suggests one while the stock position
+ *   is above the reorder point
+ */
+export function compareWithInventoryPlanner(
+  result: SafetyStockResult,
+  ip: { minimumStock: number | null; replenishment: number | null }
+): SafetyStockFlag[] {
+  const flags: SafetyStockFlag[] = []
+
+  const minimumStock = ip.minimumStock ?? 0
+  const gap = Math.abs(result.safetyStock - minimumStock)
+  if (gap >= 1 && gap > SAFETY_STOCK_TOLERANCE * Math.max(result.safetyStock, minimumStock)) {
+    flags.push('safety_stock_gap')
+  }
+
+  const ipReorders = (ip.replenishment ?? 0) > 0
+  if (result.belowReorderPoint !== ipReorders) {
+    flags.push('reorder_conflict')
+  }
+
+  return flags
+}
@@ -0,0 +1,66 @@
+/**
+ * ABC / XYZ Segmentation
+ *
+ * ABC ranks SKUs by annual revenue (last_365_days_sales × price); XYZ groups
+ * them by the variability of monthly demand. Both are calculated for the
+ * whole catalog in SQL (refresh_abc_xyz_segments) after every ingest; this
+ * module holds the class definitions and accuracy targets used for display.
+ */
+
+// ============================================================================
+// Classes
+// ============================================================================
+
+export type AbcClass = 'A' | 'B' | 'C'
+export type XyzClass = 'X' | 'Y' | 'Z'
+export type SegmentKey = `${AbcClass}${XyzClass}`
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C']
+export const XYZ_CLASSES: XyzClass[] = ['X', 'Y', 'Z']
+
+/** Cumulative revenue share that closes the A and B classes */
+export const ABC_CUTOFFS = { A: 0.8, B: 0.95 } as const
+
+/** Coefficient of variation below which demand is X or Y */
+export const XYZ_CUTOFFS = { X: 0.5, Y: 1.0 } as const
+
+export const ABC_DESCRIPTIONS: Record<AbcClass, string> = {
+  A: 'Top 80% of revenue',
+  B: 'Next 15% of revenue',
+  C: 'Last 5% of revenue',
+}
+
+export const XYZ_DESCRIPTIONS: Record<XyzClass, string> = {
+  X: 'Stable demand (CV < 0.5)',
+  Y: 'Variable demand (CV 0.5-1.0)',
+  Z: 'Erratic demand (CV ≥ 1.0)',
+}
+
+export function isAbcClass(value: unknown): value is AbcClass {
+  return ABC_CLASSES.includes(value as AbcClass)
+}
+
+export function isXyzClass(value: unknown): value is XyzClass {
+  return XYZ_CLASSES.includes(value as XyzClass)
+}
+
+// ============================================================================
+// Accuracy Targets
+// ============================================================================
+
+/**
+ * Default MAPE target per segment: valuable, stable SKUs are held to the
+ * tightest target; low-value erratic SKUs get the loosest. Admins can
+ * override these in accuracy_targets (see resolveSegmentTarget).
+ */
+export const SEGMENT_TARGET_MAPE: Record<SegmentKey, number> = {
+  AX: 15,
+  AY: 25,
+  AZ: 40,
+  BX: 20,
+  BY: 30,
+  BZ: 45,
+  CX: 25,
+  CY: 35,
+  CZ: 50,
+}
@@ -0,0 +1,206 @@
+/**
+ * Series Metrics
+ *
+ * Turns a stored actual / forecast series pair (orders_by_month /
+ * forecast_by_period, or orders_by_week / forecast_by_week) into one
+ * metrics row. Shared by the combined (forecast_metrics), per-warehouse
+ * (warehouse_forecast_metrics) and weekly (weekly_forecast_metrics)
+ * calculations so every import source scores a SKU the same way.
+ */
+
+import {
+  calculateErrorCost,
+  calculateExtendedMetrics,
+  calculateMASE,
+  classifyDemand,
+  detectCensoredPeriods,
+  applyCensoring,
+  DEFAULT_CENSORING_MODE,
+  EVALUATION_MONTHS,
+  getDataTier,
+  getSeasonalPeriod,
+  naiveForecast,
+  selectPrimaryMetric,
+  type CensoringMode,
+  type ErrorCostInputs,
+  type StockoutEvidence,
+} from './calculate-metrics'
+import { calculateFVA, RECOMMENDED_BENCHMARKS, toBenchmarkFVAMap } from './benchmarks'
+import { calculateErrorQuantiles, scoreIntervalCoverage } from './intervals'
+import { monthsToPeriods, parsePeriodSeries, periodStartDate, type Granularity } from './periods'
+import type { WarehouseForecastMetricInsert } from '@/types/database'
+
+/**
+ * Metric columns shared by forecast_metrics and warehouse_forecast_metrics
+ */
+export type SeriesMetric = Omit<WarehouseForecastMetricInsert, 'id' | 'variant_id' | 'sku' | 'warehouse'>
+
+export interface SeriesMetricsOptions {
+  /** Period length of the series (default month) */
+  granularity?: Granularity
+  /** Forecast on record before each month (snapshot ledger), keyed YYYY-MM */
+  exAnteForecast?: Map<string, number> | null
+  /** Stock-out evidence used to flag censored months */
+  stockout?: StockoutEvidence | null
+  censoringMode?: CensoringMode
+  /** Prices and holding rate for the dollar cost of error */
+  errorCost?: ErrorCostInputs | null
+}
+
+export interface SeriesMetricsResult {
+  metric: SeriesMetric
+  primaryMetric: 'mape' | 'wape'
+  zeroPeriods: number
+  /** Periods scored against a snapshot forecast instead of the latest one */
+  exAntePeriods: number
+}
+
+// Months of history the demand pattern is classified on
+const DEMAND_CLASS_WINDOW = 24
+
+/**
+ * Accuracy metrics over the last 12 months (52 weeks) of a series.
+ * Uses the IP forecast when it has any non-zero aligned period, otherwise
+ * the naive benchmark. Months found in exAnteForecast (the forecast on
+ * record before the month, from the snapshot ledger) are scored against it
+ * instead of the latest, possibly restated, forecast_by_period value.
+ * Months the SKU spent largely out of stock are scored per censoringMode.
+ * The demand pattern (ADI / CV² over the last 24 months) selects the
+ * primary metric and the recommended benchmark; the error series is tested
+ * for persistent bias. Windows and data tier thresholds are set in months
+ * and scaled to the granularity. With errorCost inputs the signed errors are
+ * also priced (carrying cost of over-forecasts, lost margin of under-forecasts).
+ * The error distribution also yields empirical prediction interval quantiles,
+ * backtested for coverage.
+ * Returns null when history is insufficient or MAPE cannot be calculated.
+ */
+export function calculateSeriesMetrics(
+  actualSeries: unknown,
+  forecastSeries: unknown,
+  options: SeriesMetricsOptions = {}
+): SeriesMetricsResult | null {
+  const {
+    granularity = 'month',
+    exAnteForecast,
+    stockout,
+    censoringMode = DEFAULT_CENSORING_MODE,
+    errorCost: errorCostInputs,
+  } = options
+  const actualData = parsePeriodSeries(actualSeries, granularity)
+  // Tier from the full history (the evaluation window is capped at a year)
+  const dataTier = getDataTier(actualData.length, granularity)
+  if (dataTier.tier === 'insufficient') return null
+
+  const recentActual = actualData.slice(-monthsToPeriods(EVALUATION_MONTHS, granularity))
+  const actual = recentActual.map(d => d.value)
+
+  const forecastMap = new Map(parsePeriodSeries(forecastSeries, granularity).map(f => [f.key, f.value]))
+  let exAntePeriods = 0
+  let forecast = recentActual.map(a => {
+    const exAnte = exAnteForecast?.get(a.key)
+    if (exAnte === undefined) return forecastMap.get(a.key) ?? 0
+    exAntePeriods++
+    return exAnte
+  })
+  const hasIPForecast = forecast.some(v => v > 0)
+  if (!hasIPForecast) {
+    forecast = naiveForecast(actual)
+    exAntePeriods = 0
+  }
+
+  // Actuals before the evaluation window scale MASE / RMSSE
+  const inSample = actualData.slice(0, -recentActual.length).map(d => d.value)
+  const censoredPeriods = stockout
+    ? detectCensoredPeriods(recentActual.map(d => d.key), stockout, granularity)
+    : []
+  const censoredMonths = censoredPeriods
+    .filter(p => p.censored)
+    .map(p => ({ month: p.key, fraction: Math.round(p.fraction * 100) / 100 }))
+
+  const censoring = censoredPeriods.length > 0 ? { periods: censoredPeriods, mode: censoringMode } : undefined
+  const result = calculateExtendedMetrics(actual, forecast, hasIPForecast, inSample, censoring, granularity)
+  if (result.metrics.mape === null) return null
+
+  // Demand pattern over recent history picks the primary metric and benchmark
+  const demand = classifyDemand(
+    actualData.slice(-monthsToPeriods(DEMAND_CLASS_WINDOW, granularity)).map(d => d.value)
+  )
+  const primaryMetric = demand ? selectPrimaryMetric(actual, demand.demandClass) : result.primaryMetric
+
+  // The remaining metrics are scored on the censored window too
+  const scored = applyCensoring(actual, forecast, censoring)
+
+  // Forecast Value Added vs the benchmark library (IP forecasts only)
+  const fvaResult = hasIPForecast
+    ? calculateFVA(actualData.map(d => d.value), forecast, getSeasonalPeriod(granularity), censoring)
+    : null
+
+  // Dollar cost of the error (needs a cost price)
+  const errorCost = errorCostInputs
+    ? calculateErrorCost(scored.actual, scored.forecast, errorCostInputs, granularity)
+    : null
+
+  // Empirical prediction intervals from the error history, and their backtest
+  const quantiles = calculateErrorQuantiles(scored.actual, scored.forecast)
+  const coverage = scoreIntervalCoverage(scored.actual, scored.forecast)
+
+  return {
+    metric: {
+      period_start: periodStartDate(recentActual[0].key, granularity),
+      period_end: periodStartDate(recentActual[recentActual.length - 1].key, granularity),
+      mape: result.metrics.mape,
+      wape: result.metrics.wape,
+      rmse: result.metrics.rmse,
+      wase: result.metrics.wase,
+      mase: calculateMASE(scored.actual, scored.forecast, inSample),
+      smase: dataTier.seasonalScaling
+        ? calculateMASE(scored.actual, scored.forecast, inSample, getSeasonalPeriod(granularity))
+        : null,
+      bias: result.metrics.bias,
+      naive_mape: result.metrics.naiveMape,
+      smape: result.metrics.smape,
+      mae: result.metrics.mae,
+      mdape: result.metrics.mdape,
+      rmsse: result.metrics.rmsse,
+      tracking_signal: result.metrics.trackingSignal,
+      bias_t_stat: result.biasTest.tStatistic,
+      bias_sign_run: result.biasTest.signRun,
+      bias_direction: result.biasTest.direction,
+      bias_persistent: result.biasTest.persistent,
+      bias_pct: result.biasTest.biasPercent,
+      over_forecast_units: errorCost?.overForecastUnits ?? null,
+      under_forecast_units: errorCost?.underForecastUnits ?? null,
+      carrying_cost: errorCost?.carryingCost ?? null,
+      lost_margin: errorCost?.lostMargin ?? null,
+      error_cost: errorCost?.totalCost ?? null,
+      interval_q025: quantiles?.q025 ?? null,
+      interval_q10: quantiles?.q10 ?? null,
+      interval_q90: quantiles?.q90 ?? null,
+      interval_q975: quantiles?.q975 ?? null,
+      coverage_80: coverage?.coverage80 ?? null,
+      coverage_95: coverage?.coverage95 ?? null,
+      pinball_loss: coverage?.pinballLoss ?? null,
+      interval_periods: coverage?.periods ?? null,
+      fva: fvaResult?.fva ?? null,
+      best_benchmark: fvaResult?.bestBenchmark ?? null,
+      benchmark_fva: fvaResult ? toBenchmarkFVAMap(fvaResult) : null,
+      demand_class: demand?.demandClass ?? null,
+      adi: demand?.adi ?? null,
+      cv2: demand?.cv2 ?? null,
+      recommended_benchmark: demand ? RECOMMENDED_BENCHMARKS[demand.demandClass] : null,
+      primary_metric: primaryMetric,
+      forecast_source: result.source,
+      data_tier: dataTier.tier,
+      period_count: actual.length,
+      censored_periods: result.dataQuality.censoredPeriods,
+      censored_months: censoredMonths,
+      censoring_mode: censoringMode,
+      actual_values: actual,
+      forecast_values: forecast,
+      calculated_at: new Date().toISOString(),
+    },
+    primaryMetric,
+    zeroPeriods: result.dataQuality.zeroPeriods,
+    exAntePeriods,
+  }
+}
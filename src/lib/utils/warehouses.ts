@@ -0,0 +1,140 @@
+/**
+ * Warehouse Utilities
+ *
+ * Inventory Planner sends one entry per warehouse in `warehouse[]`, plus an
+ * aggregate "combined" entry. `variants` keeps the combined view; these helpers
+ * turn every entry into a variant_warehouses row and compute accuracy metrics
+ * per SKU × warehouse.
+ */
+
+import type { CensoringMode, ErrorCostInputs } from './calculate-metrics'
+import { calculateSeriesMetrics } from './series-metrics'
+import { projectionColumns } from './inventory-projection'
+import type {
+  VariantWarehouse,
+  VariantWarehouseInsert,
+  WarehouseForecastMetricInsert,
+} from '@/types/database'
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Whether a warehouse entry is IP's aggregate across all warehouses
+ */
+export function isCombinedWarehouse(warehouse: Record<string, unknown>): boolean {
+  return String(warehouse.warehouse || '').includes('combined')
+}
+
+/**
+ * Normalize the warehouse[] field (array or single object) into entries
+ */
+export function getWarehouseEntries(variant: Record<string, unknown>): Record<string, unknown>[] {
+  const warehouses = variant.warehouse || variant.warehouses
+  if (Array.isArray(warehouses)) {
+    return (warehouses as unknown[]).filter(
+      (w): w is Record<string, unknown> => !!w && typeof w === 'object'
+    )
+  }
+  if (warehouses && typeof warehouses === 'object') {
+    return [warehouses as Record<string, unknown>]
+  }
+  return []
+}
+
+function toNumber(value: unknown): number {
+  return Number(value) || 0
+}
+
+function toNullableNumber(value: unknown): number | null {
+  return value != null && value !== '' ? Number(value) : null
+}
+
+/**
+ * Build one variant_warehouses row per warehouse entry of a variant.
+ * Reads from raw_data when the variant has already been flattened.
+ */
+export function extractWarehouseRows(
+  variantId: string,
+  sku: string,
+  variant: Record<string, unknown>
+): VariantWarehouseInsert[] {
+  const source = variant.raw_data && typeof variant.raw_data === 'object'
+    ? variant.raw_data as Record<string, unknown>
+    : variant
+
+  const syncedAt = new Date().toISOString()
+  const rows: VariantWarehouseInsert[] = []
+
+  for (const w of getWarehouseEntries(source)) {
+    const warehouse = String(w.warehouse ?? w.warehouse_id ?? w.id ?? '')
+    if (!warehouse) continue
+
+    rows.push({
+      variant_id: variantId,
+      sku,
+      warehouse,
+      warehouse_name: String(w.warehouse_name ?? w.name ?? warehouse),
+      is_combined: isCombinedWarehouse(w),
+      in_stock: toNumber(w.in_stock),
+      replenishment: toNumber(w.replenishment),
+      to_order: toNumber(w.to_order),
+      lead_time: toNullableNumber(w.lead_time),
+      oos: toNumber(w.oos),
+      oos_last_60_days: toNumber(w.oos_last_60_days),
+      last_7_days_sales: toNumber(w.last_7_days ?? w.sales_last_7_days),
+      last_30_days_sales: toNumber(w.last_30_days ?? w.sales_last_30_days),
+      last_90_days_sales: toNumber(w.last_90_days ?? w.sales_last_90_days),
+      last_180_days_sales: toNumber(w.last_180_days ?? w.sales_last_180_days),
+      last_365_days_sales: toNumber(w.last_365_days ?? w.sales_last_365_days),
+      orders_by_month: (w.orders_by_month ?? null) as VariantWarehouseInsert['orders_by_month'],
+      forecast_by_period: (w.forecast_by_period ?? null) as VariantWarehouseInsert['forecast_by_period'],
+      current_forecast: toNullableNumber(w.current_forecast ?? w.forecast),
+      forecasted_lost_revenue: toNullableNumber(w.forecasted_lost_revenue ?? w.lost_revenue),
+      // Purchase orders are not split by warehouse, so only stock on hand is projected
+      ...projectionColumns({
+        inStock: toNumber(w.in_stock),
+        purchaseOrdersQty: null,
+        leadTimeDays: toNullableNumber(w.lead_time),
+        forecast: w.forecast_by_period,
+      }),
+      synced_at: syncedAt,
+    })
+  }
+
+  return rows
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Accuracy metrics for one SKU × warehouse over the last 12 months.
+ * Uses the warehouse's IP forecast when present, otherwise the naive benchmark.
+ * Stockout months are flagged from the warehouse's own oos figures; the
+ * error is priced at the variant's price and cost price.
+ */
+export function calculateWarehouseMetric(
+  row: Pick<
+    VariantWarehouse,
+    'variant_id' | 'sku' | 'warehouse' | 'orders_by_month' | 'forecast_by_period' | 'oos' | 'oos_last_60_days' | 'synced_at'
+  >,
+  censoringMode?: CensoringMode,
+  errorCost?: ErrorCostInputs
+): WarehouseForecastMetricInsert | null {
+  const result = calculateSeriesMetrics(row.orders_by_month, row.forecast_by_period, {
+    stockout: { oos: row.oos, oosLast60Days: row.oos_last_60_days, asOf: row.synced_at },
+    censoringMode,
+    errorCost,
+  })
+  if (!result) return null
+
+  return {
+    variant_id: row.variant_id,
+    sku: row.sku,
+    warehouse: row.warehouse,
+    ...result.metric,
+  }
+}
@@ -62,6 +62,11 @@ export const variantSchema = z.object({
   // JSON fields - allow any structure, validate in business logic
   orders_by_month: z.record(z.record(z.number())).nullable().optional(),
   forecast_by_period: z.record(z.record(z.number())).nullable().optional(),
+
+  // Weekly series: {isoYear: {week: qty}}, or flat keys by ISO week (2024-W05)
+  // or week date (2024-01-29); normalized on transform
+  orders_by_week: z.record(z.string(), z.union([z.number(), z.record(z.string(), z.number())])).nullable().optional(),
+  forecast_by_week: z.record(z.string(), z.union([z.number(), z.record(z.string(), z.number())])).nullable().optional(),
 }).passthrough() // Allow extra fields for raw_data storage
 
 export type ValidatedVariant = z.infer<typeof variantSchema>
@@ -13,6 +13,7 @@ export interface DashboardSummaryResponse {
     oos_count: number
     reorder_count: number
     out_of_stock_count: number
+    /** SKUs with excess or dead stock at the last sync (business_summary) */
     overstocked_count: number
     total_value: number
     total_lost_revenue: number
@@ -23,6 +24,10 @@ export interface DashboardSummaryResponse {
     avg_rmse: number
     avg_bias: number
     count: number
+    /** Default MAPE target (accuracy_targets) */
+    target_mape?: number
+    /** SKUs at or under their brand / product type / default target */
+    meets_target_count?: number
   }
   priority_items: {
     id: string
@@ -61,6 +66,143 @@ export interface DashboardSummaryResponse {
     poor: number
     very_poor: number
   }
+  /** Stored tier bounds (app_settings.mape_tier_thresholds) */
+  tier_thresholds?: number[]
+}
+
+// Accuracy Rollup RPC Response Types
+export type RollupGroupBy = 'brand' | 'product_type' | 'vendor'
+
+export interface AccuracyRollupGroup {
+  group_key: string
+  sku_count: number
+  units: number
+  revenue: number
+  cost_value: number
+  avg_mape: number | null
+  avg_wape: number | null
+  revenue_weighted_mape: number | null
+  revenue_weighted_wape: number | null
+  cost_weighted_mape: number | null
+  cost_weighted_wape: number | null
+}
+
+export interface AccuracyRollupSku {
+  sku: string
+  title: string | null
+  mape: number | null
+  wape: number | null
+  bias: number | null
+  units: number
+  revenue: number
+  cost_value: number
+}
+
+// SKU flagged with statistically persistent bias (forecast_metrics subset)
+export interface BiasedForecast {
+  sku: string
+  mape: number | null
+  wape: number | null
+  bias: number | null
+  bias_pct: number | null
+  bias_t_stat: number | null
+  bias_sign_run: number | null
+  bias_direction: 'over' | 'under' | null
+}
+
+// Dollar cost of forecast error summed over SKUs with a cost price
+export interface ErrorCostSummary {
+  carryingCost: number
+  lostMargin: number
+  totalCost: number
+  overForecastUnits: number
+  underForecastUnits: number
+  skuCount: number
+  /** Annual holding cost, % of cost price */
+  holdingCostRate: number
+}
+
+// SKU where the independent safety stock / reorder point disagrees with Inventory Planner
+export interface SafetyStockReportRow {
+  sku: string
+  title: string | null
+  brand: string | null
+  rmse: number
+  lead_time: number
+  in_stock: number
+  purchase_orders_qty: number | null
+  minimum_stock: number | null
+  replenishment: number | null
+  safety_stock: number
+  reorder_point: number
+  stock_position: number
+  shortfall: number
+  flags: ('safety_stock_gap' | 'reorder_conflict')[]
+}
+
+// Excess stock page row (calculated in the app, not stored)
+export interface ExcessStockReportRow {
+  sku: string
+  title: string | null
+  brand: string | null
+  product_type: string | null
+  in_stock: number
+  cost_price: number | null
+  demand: number
+  demand_source: 'forecast' | 'run_rate'
+  excess_units: number
+  excess_value: number | null
+  months_of_supply: number | null
+  last_sale_month: string | null
+  is_dead: boolean
+  action: 'liquidate' | 'markdown'
+}
+
+// Lost revenue attribution row (calculated in the app, not stored); amounts
+// split into under_forecast / lead_time_overrun / other
+export type LostRevenueByCause = {
+  under_forecast: number
+  lead_time_overrun: number
+  other: number
+}
+
+export interface LostRevenueReportRow {
+  sku: string
+  title: string | null
+  brand: string | null
+  price: number
+  lead_time: number | null
+  /** IP's forward-looking figure, for comparison */
+  forecasted_lost_revenue: number | null
+  lost_units: number
+  lost_revenue: number
+  by_cause: LostRevenueByCause
+  primary_cause: keyof LostRevenueByCause | null
+  months: {
+    month: string
+    fraction: number
+    lost_units: number
+    lost_revenue: number
+    by_cause: LostRevenueByCause
+  }[]
+}
+
+// ABC × XYZ matrix RPC response (one row per populated cell)
+export interface SegmentMatrixCell {
+  abc_class: string
+  xyz_class: string
+  sku_count: number
+  metric_count: number
+  revenue: number
+  value_share: number
+  avg_mape: number | null
+  weighted_mape: number | null
+}
+
+// Warehouse selector option (a physical warehouse from variant_warehouses)
+export interface WarehouseOption {
+  warehouse: string
+  warehouse_name: string | null
 }
 
 export interface Database {
@@ -87,6 +229,8 @@ export interface Database {
           total_sales: number
           orders_by_month: Json | null
           forecast_by_period: Json | null
+          orders_by_week: Json | null
+          forecast_by_week: Json | null
           forecasted_stock: number | null
           current_forecast: number | null
           replenishment: number
@@ -96,8 +240,14 @@ export interface Database {
           oos: number
           oos_last_60_days: number
           forecasted_lost_revenue: number | null
+          projected_stockout_date: string | null
+          days_of_cover: number | null
           raw_data: Json | null
           synced_at: string
+          abc_class: string | null
+          xyz_class: string | null
+          annual_revenue: number | null
+          demand_cv: number | null
           created_at: string
           updated_at: string
         }
@@ -121,6 +271,8 @@ export interface Database {
           total_sales?: number
           orders_by_month?: Json | null
           forecast_by_period?: Json | null
+          orders_by_week?: Json | null
+          forecast_by_week?: Json | null
           forecasted_stock?: number | null
           current_forecast?: number | null
           replenishment?: number
@@ -130,8 +282,14 @@ export interface Database {
           oos?: number
           oos_last_60_days?: number
           forecasted_lost_revenue?: number | null
+          projected_stockout_date?: string | null
+          days_of_cover?: number | null
           raw_data?: Json | null
           synced_at?: string
+          abc_class?: string | null
+          xyz_class?: string | null
+          annual_revenue?: number | null
+          demand_cv?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -155,6 +313,8 @@ export interface Database {
           total_sales?: number
           orders_by_month?: Json | null
           forecast_by_period?: Json | null
+          orders_by_week?: Json | null
+          forecast_by_week?: Json | null
           forecasted_stock?: number | null
           current_forecast?: number | null
           replenishment?: number
@@ -164,8 +324,14 @@ export interface Database {
           oos?: number
           oos_last_60_days?: number
           forecasted_lost_revenue?: number | null
+          projected_stockout_date?: string | null
+          days_of_cover?: number | null
           raw_data?: Json | null
           synced_at?: string
+          abc_class?: string | null
+          xyz_class?: string | null
+          annual_revenue?: number | null
+          demand_cv?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -181,11 +347,48 @@ export interface Database {
           wape: number | null
           rmse: number | null
           wase: number | null
+          mase: number | null
+          smase: number | null
           bias: number | null
           naive_mape: number | null
+          smape: number | null
+          mae: number | null
+          mdape: number | null
+          rmsse: number | null
+          tracking_signal: number | null
           actual_values: Json | null
           forecast_values: Json | null
           calculated_at: string
+          fva: number | null
+          best_benchmark: string | null
+          benchmark_fva: Json | null
+          censored_periods: number | null
+          censored_months: Json | null
+          censoring_mode: string | null
+          demand_class: string | null
+          adi: number | null
+          cv2: number | null
+          recommended_benchmark: string | null
+          bias_t_stat: number | null
+          bias_sign_run: number | null
+          bias_direction: 'over' | 'under' | null
+          bias_persistent: boolean | null
+          bias_pct: number | null
+          over_forecast_units: number | null
+          under_forecast_units: number | null
+          carrying_cost: number | null
+          lost_margin: number | null
+          error_cost: number | null
+          interval_q025: number | null
+          interval_q10: number | null
+          interval_q90: number | null
+          interval_q975: number | null
+          coverage_80: number | null
+          coverage_95: number | null
+          pinball_loss: number | null
+          interval_periods: number | null
+          primary_metric: string | null
+          ex_ante_periods: number | null
         }
         Insert: {
           id?: string
@@ -197,11 +400,48 @@ export interface Database {
           wape?: number | null
           rmse?: number | null
           wase?: number | null
+          mase?: number | null
+          smase?: number | null
           bias?: number | null
           naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
           actual_values?: Json | null
           forecast_values?: Json | null
           calculated_at?: string
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          ex_ante_periods?: number | null
         }
         Update: {
           id?: string
@@ -213,11 +453,48 @@ export interface Database {
           wape?: number | null
           rmse?: number | null
           wase?: number | null
+          mase?: number | null
+          smase?: number | null
           bias?: number | null
           naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
           actual_values?: Json | null
           forecast_values?: Json | null
           calculated_at?: string
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          ex_ante_periods?: number | null
         }
       }
       business_summary: {
@@ -522,6 +799,730 @@ export interface Database {
           message?: string | null
         }
       }
+      app_settings: {
+        Row: {
+          key: string
+          value: string | null
+          description: string | null
+          updated_at: string
+        }
+        Insert: {
+          key: string
+          value?: string | null
+          description?: string | null
+          updated_at?: string
+        }
+        Update: {
+          key?: string
+          value?: string | null
+          description?: string | null
+          updated_at?: string
+        }
+      }
+      accuracy_targets: {
+        Row: {
+          id: string
+          scope: 'default' | 'brand' | 'product_type' | 'segment'
+          scope_value: string
+          target_mape: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          scope: 'default' | 'brand' | 'product_type' | 'segment'
+          scope_value?: string
+          target_mape: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          scope?: 'default' | 'brand' | 'product_type' | 'segment'
+          scope_value?: string
+          target_mape?: number
+          updated_at?: string
+        }
+      }
+      metric_runs: {
+        Row: {
+          id: string
+          source: string
+          as_of_month: string
+          sku_count: number
+          avg_mape: number | null
+          avg_wape: number | null
+          avg_bias: number | null
+          started_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          source: string
+          as_of_month: string
+          sku_count?: number
+          avg_mape?: number | null
+          avg_wape?: number | null
+          avg_bias?: number | null
+          started_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          source?: string
+          as_of_month?: string
+          sku_count?: number
+          avg_mape?: number | null
+          avg_wape?: number | null
+          avg_bias?: number | null
+          started_at?: string
+          completed_at?: string | null
+        }
+      }
+      forecast_metrics_history: {
+        Row: {
+          id: string
+          run_id: string | null
+          variant_id: string | null
+          sku: string
+          as_of_month: string
+          mape: number | null
+          wape: number | null
+          rmse: number | null
+          wase: number | null
+          mase: number | null
+          smase: number | null
+          bias: number | null
+          naive_mape: number | null
+          smape: number | null
+          mae: number | null
+          mdape: number | null
+          rmsse: number | null
+          tracking_signal: number | null
+          forecast_source: string | null
+          data_tier: string | null
+          period_count: number | null
+          fva: number | null
+          best_benchmark: string | null
+          calculated_at: string
+        }
+        Insert: {
+          id?: string
+          run_id?: string | null
+          variant_id?: string | null
+          sku: string
+          as_of_month: string
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          calculated_at?: string
+        }
+        Update: {
+          id?: string
+          run_id?: string | null
+          variant_id?: string | null
+          sku?: string
+          as_of_month?: string
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          calculated_at?: string
+        }
+      }
+      variant_warehouses: {
+        Row: {
+          id: string
+          variant_id: string
+          sku: string
+          warehouse: string
+          warehouse_name: string | null
+          is_combined: boolean
+          in_stock: number
+          replenishment: number
+          to_order: number
+          lead_time: number | null
+          oos: number
+          oos_last_60_days: number
+          last_7_days_sales: number
+          last_30_days_sales: number
+          last_90_days_sales: number
+          last_180_days_sales: number
+          last_365_days_sales: number
+          orders_by_month: Json | null
+          forecast_by_period: Json | null
+          current_forecast: number | null
+          forecasted_lost_revenue: number | null
+          projected_stockout_date: string | null
+          days_of_cover: number | null
+          synced_at: string
+        }
+        Insert: {
+          id?: string
+          variant_id: string
+          sku: string
+          warehouse: string
+          warehouse_name?: string | null
+          is_combined?: boolean
+          in_stock?: number
+          replenishment?: number
+          to_order?: number
+          lead_time?: number | null
+          oos?: number
+          oos_last_60_days?: number
+          last_7_days_sales?: number
+          last_30_days_sales?: number
+          last_90_days_sales?: number
+          last_180_days_sales?: number
+          last_365_days_sales?: number
+          orders_by_month?: Json | null
+          forecast_by_period?: Json | null
+          current_forecast?: number | null
+          forecasted_lost_revenue?: number | null
+          projected_stockout_date?: string | null
+          days_of_cover?: number | null
+          synced_at?: string
+        }
+        Update: {
+          id?: string
+          variant_id?: string
+          sku?: string
+          warehouse?: string
+          warehouse_name?: string | null
+          is_combined?: boolean
+          in_stock?: number
+          replenishment?: number
+          to_order?: number
+          lead_time?: number | null
+          oos?: number
+          oos_last_60_days?: number
+          last_7_days_sales?: number
+          last_30_days_sales?: number
+          last_90_days_sales?: number
+          last_180_days_sales?: number
+          last_365_days_sales?: number
+          orders_by_month?: Json | null
+          forecast_by_period?: Json | null
+          current_forecast?: number | null
+          forecasted_lost_revenue?: number | null
+          projected_stockout_date?: string | null
+          days_of_cover?: number | null
+          synced_at?: string
+        }
+      }
+      warehouse_forecast_metrics: {
+        Row: {
+          id: string
+          variant_id: string
+          sku: string
+          warehouse: string
+          period_start: string | null
+          period_end: string | null
+          mape: number | null
+          wape: number | null
+          rmse: number | null
+          wase: number | null
+          mase: number | null
+          smase: number | null
+          bias: number | null
+          naive_mape: number | null
+          smape: number | null
+          mae: number | null
+          mdape: number | null
+          rmsse: number | null
+          tracking_signal: number | null
+          fva: number | null
+          best_benchmark: string | null
+          benchmark_fva: Json | null
+          censored_periods: number | null
+          censored_months: Json | null
+          censoring_mode: string | null
+          demand_class: string | null
+          adi: number | null
+          cv2: number | null
+          recommended_benchmark: string | null
+          bias_t_stat: number | null
+          bias_sign_run: number | null
+          bias_direction: 'over' | 'under' | null
+          bias_persistent: boolean | null
+          bias_pct: number | null
+          over_forecast_units: number | null
+          under_forecast_units: number | null
+          carrying_cost: number | null
+          lost_margin: number | null
+          error_cost: number | null
+          interval_q025: number | null
+          interval_q10: number | null
+          interval_q90: number | null
+          interval_q975: number | null
+          coverage_80: number | null
+          coverage_95: number | null
+          pinball_loss: number | null
+          interval_periods: number | null
+          primary_metric: string | null
+          forecast_source: string | null
+          data_tier: string | null
+          period_count: number | null
+          actual_values: Json | null
+          forecast_values: Json | null
+          calculated_at: string
+        }
+        Insert: {
+          id?: string
+          variant_id: string
+          sku: string
+          warehouse: string
+          period_start?: string | null
+          period_end?: string | null
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          actual_values?: Json | null
+          forecast_values?: Json | null
+          calculated_at?: string
+        }
+        Update: {
+          id?: string
+          variant_id?: string
+          sku?: string
+          warehouse?: string
+          period_start?: string | null
+          period_end?: string | null
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          actual_values?: Json | null
+          forecast_values?: Json | null
+          calculated_at?: string
+        }
+      }
+      weekly_forecast_metrics: {
+        Row: {
+          id: string
+          variant_id: string
+          sku: string
+          period_start: string | null
+          period_end: string | null
+          mape: number | null
+          wape: number | null
+          rmse: number | null
+          wase: number | null
+          mase: number | null
+          smase: number | null
+          bias: number | null
+          naive_mape: number | null
+          smape: number | null
+          mae: number | null
+          mdape: number | null
+          rmsse: number | null
+          tracking_signal: number | null
+          fva: number | null
+          best_benchmark: string | null
+          benchmark_fva: Json | null
+          censored_periods: number | null
+          censored_months: Json | null
+          censoring_mode: string | null
+          demand_class: string | null
+          adi: number | null
+          cv2: number | null
+          recommended_benchmark: string | null
+          bias_t_stat: number | null
+          bias_sign_run: number | null
+          bias_direction: 'over' | 'under' | null
+          bias_persistent: boolean | null
+          bias_pct: number | null
+          over_forecast_units: number | null
+          under_forecast_units: number | null
+          carrying_cost: number | null
+          lost_margin: number | null
+          error_cost: number | null
+          interval_q025: number | null
+          interval_q10: number | null
+          interval_q90: number | null
+          interval_q975: number | null
+          coverage_80: number | null
+          coverage_95: number | null
+          pinball_loss: number | null
+          interval_periods: number | null
+          primary_metric: string | null
+          zero_periods: number | null
+          forecast_source: string | null
+          data_tier: string | null
+          period_count: number | null
+          actual_values: Json | null
+          forecast_values: Json | null
+          calculated_at: string
+        }
+        Insert: {
+          id?: string
+          variant_id: string
+          sku: string
+          period_start?: string | null
+          period_end?: string | null
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          zero_periods?: number | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          actual_values?: Json | null
+          forecast_values?: Json | null
+          calculated_at?: string
+        }
+        Update: {
+          id?: string
+          variant_id?: string
+          sku?: string
+          period_start?: string | null
+          period_end?: string | null
+          mape?: number | null
+          wape?: number | null
+          rmse?: number | null
+          wase?: number | null
+          mase?: number | null
+          smase?: number | null
+          bias?: number | null
+          naive_mape?: number | null
+          smape?: number | null
+          mae?: number | null
+          mdape?: number | null
+          rmsse?: number | null
+          tracking_signal?: number | null
+          fva?: number | null
+          best_benchmark?: string | null
+          benchmark_fva?: Json | null
+          censored_periods?: number | null
+          censored_months?: Json | null
+          censoring_mode?: string | null
+          demand_class?: string | null
+          adi?: number | null
+          cv2?: number | null
+          recommended_benchmark?: string | null
+          bias_t_stat?: number | null
+          bias_sign_run?: number | null
+          bias_direction?: 'over' | 'under' | null
+          bias_persistent?: boolean | null
+          bias_pct?: number | null
+          over_forecast_units?: number | null
+          under_forecast_units?: number | null
+          carrying_cost?: number | null
+          lost_margin?: number | null
+          error_cost?: number | null
+          interval_q025?: number | null
+          interval_q10?: number | null
+          interval_q90?: number | null
+          interval_q975?: number | null
+          coverage_80?: number | null
+          coverage_95?: number | null
+          pinball_loss?: number | null
+          interval_periods?: number | null
+          primary_metric?: string | null
+          zero_periods?: number | null
+          forecast_source?: string | null
+          data_tier?: string | null
+          period_count?: number | null
+          actual_values?: Json | null
+          forecast_values?: Json | null
+          calculated_at?: string
+        }
+      }
+      forecast_snapshots: {
+        Row: {
+          id: string
+          variant_id: string
+          sku: string
+          snapshot_date: string
+          forecast_by_period: Json | null
+          in_stock: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          variant_id: string
+          sku: string
+          snapshot_date: string
+          forecast_by_period: Json | null
+          in_stock: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          variant_id?: string
+          sku?: string
+          snapshot_date?: string
+          forecast_by_period?: Json | null
+          in_stock?: number | null
+          created_at?: string
+        }
+      }
+      po_drafts: {
+        Row: {
+          id: string
+          vendor_id: string
+          vendor_name: string | null
+          status: 'draft' | 'exported'
+          notes: string | null
+          line_count: number
+          total_units: number
+          total_cost: number | null
+          created_at: string
+          updated_at: string
+          exported_at: string | null
+        }
+        Insert: {
+          id?: string
+          vendor_id: string
+          vendor_name?: string | null
+          status?: 'draft' | 'exported'
+          notes?: string | null
+          line_count?: number
+          total_units?: number
+          total_cost?: number | null
+          created_at?: string
+          updated_at?: string
+          exported_at?: string | null
+        }
+        Update: {
+          id?: string
+          vendor_id?: string
+          vendor_name?: string | null
+          status?: 'draft' | 'exported'
+          notes?: string | null
+          line_count?: number
+          total_units?: number
+          total_cost?: number | null
+          created_at?: string
+          updated_at?: string
+          exported_at?: string | null
+        }
+      }
+      po_draft_lines: {
+        Row: {
+          id: string
+          draft_id: string
+          variant_id: string | null
+          sku: string
+          title: string | null
+          barcode: string | null
+          vendor_sku: string | null
+          suggested_qty: number
+          quantity: number
+          moq: number | null
+          case_pack: number | null
+          unit_cost: number | null
+        }
+        Insert: {
+          id?: string
+          draft_id: string
+          variant_id?: string | null
+          sku: string
+          title?: string | null
+          barcode?: string | null
+          vendor_sku?: string | null
+          suggested_qty?: number
+          quantity: number
+          moq?: number | null
+          case_pack?: number | null
+          unit_cost?: number | null
+        }
+        Update: {
+          id?: string
+          draft_id?: string
+          variant_id?: string | null
+          sku?: string
+          title?: string | null
+          barcode?: string | null
+          vendor_sku?: string | null
+          suggested_qty?: number
+          quantity?: number
+          moq?: number | null
+          case_pack?: number | null
+          unit_cost?: number | null
+        }
+      }
+      po_draft_events: {
+        Row: {
+          id: string
+          draft_id: string
+          action: 'created' | 'updated' | 'exported'
+          format: 'csv' | 'json' | null
+          line_count: number
+          total_units: number
+          total_cost: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          draft_id: string
+          action: 'created' | 'updated' | 'exported'
+          format?: 'csv' | 'json' | null
+          line_count?: number
+          total_units?: number
+          total_cost?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          draft_id?: string
+          action?: 'created' | 'updated' | 'exported'
+          format?: 'csv' | 'json' | null
+          line_count?: number
+          total_units?: number
+          total_cost?: number | null
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -531,6 +1532,50 @@ export interface Database {
         Args: Record<string, never>
         Returns: DashboardSummaryResponse
       }
+      get_accuracy_rollup: {
+        Args: { p_group_by?: RollupGroupBy }
+        Returns: AccuracyRollupGroup[]
+      }
+      get_accuracy_rollup_skus: {
+        Args: { p_group_by: RollupGroupBy; p_group_key: string }
+        Returns: AccuracyRollupSku[]
+      }
+      get_ex_ante_forecasts: {
+        Args: { p_lag_months?: number; p_variant_ids?: string[] | null }
+        Returns: { variant_id: string; forecasts: Record<string, number> }[]
+      }
+      refresh_abc_xyz_segments: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      get_segment_matrix: {
+        Args: Record<string, never>
+        Returns: SegmentMatrixCell[]
+      }
+      mape_tier_thresholds: {
+        Args: Record<string, never>
+        Returns: number[]
+      }
+      mape_tier: {
+        Args: { p_mape: number; p_thresholds?: number[] }
+        Returns: string | null
+      }
+      accuracy_target_mape: {
+        Args: { p_brand: string | null; p_product_type: string | null }
+        Returns: number
+      }
+      get_stock_history: {
+        Args: { p_variant_ids: string[] }
+        Returns: { variant_id: string; months: Record<string, { snapshots: number; stockouts: number }> }[]
+      }
+      save_po_draft: {
+        Args: {
+          p_draft_id: string | null
+          p_draft: Pick<PurchaseOrderDraft, 'vendor_id' | 'vendor_name' | 'notes' | 'line_count' | 'total_units' | 'total_cost'>
+          p_lines: Omit<PurchaseOrderDraftLineInsert, 'id' | 'draft_id'>[]
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -548,9 +1593,28 @@ export type SyncSession = Database['public']['Tables']['sync_sessions']['Row']
 export type SyncChunk = Database['public']['Tables']['sync_chunks']['Row']
 export type SyncError = Database['public']['Tables']['sync_errors']['Row']
 export type SyncProgress = Database['public']['Tables']['sync_progress']['Row']
+export type AppSetting = Database['public']['Tables']['app_settings']['Row']
+export type AccuracyTargetRow = Database['public']['Tables']['accuracy_targets']['Row']
+export type MetricRun = Database['public']['Tables']['metric_runs']['Row']
+export type ForecastMetricHistory = Database['public']['Tables']['forecast_metrics_history']['Row']
+export type VariantWarehouse = Database['public']['Tables']['variant_warehouses']['Row']
+export type WarehouseForecastMetric = Database['public']['Tables']['warehouse_forecast_metrics']['Row']
+export type WeeklyForecastMetric = Database['public']['Tables']['weekly_forecast_metrics']['Row']
+export type ForecastSnapshot = Database['public']['Tables']['forecast_snapshots']['Row']
+export type PurchaseOrderDraft = Database['public']['Tables']['po_drafts']['Row']
+export type PurchaseOrderDraftLine = Database['public']['Tables']['po_draft_lines']['Row']
+export type PurchaseOrderDraftEvent = Database['public']['Tables']['po_draft_events']['Row']
 
 // Insert types
+export type VariantInsert = Database['public']['Tables']['variants']['Insert']
+export type ForecastMetricInsert = Database['public']['Tables']['forecast_metrics']['Insert']
 export type SyncSessionInsert = Database['public']['Tables']['sync_sessions']['Insert']
 export type SyncChunkInsert = Database['public']['Tables']['sync_chunks']['Insert']
 export type SyncErrorInsert = Database['public']['Tables']['sync_errors']['Insert']
 export type SyncProgressUpdate = Database['public']['Tables']['sync_progress']['Update']
+export type ForecastMetricHistoryInsert = Database['public']['Tables']['forecast_metrics_history']['Insert']
+export type VariantWarehouseInsert = Database['public']['Tables']['variant_warehouses']['Insert']
+export type WarehouseForecastMetricInsert = Database['public']['Tables']['warehouse_forecast_metrics']['Insert']
+export type WeeklyForecastMetricInsert = Database['public']['Tables']['weekly_forecast_metrics']['Insert']
+export type ForecastSnapshotInsert = Database['public']['Tables']['forecast_snapshots']['Insert']
+export type PurchaseOrderDraftLineInsert = Database['public']['Tables']['po_draft_lines']['Insert']
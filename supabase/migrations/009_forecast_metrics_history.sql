@@ -0,0 +1,52 @@
+-- Migration: 009_forecast_metrics_history.sql
+-- Purpose: Keep a versioned history of forecast accuracy metrics.
+-- forecast_metrics stays the "latest value per variant" table; every calculation
+-- run additionally appends one snapshot per variant to forecast_metrics_history.
+
+-- ============================================
+-- 1. Metric Runs - One row per calculation run
+-- ============================================
+CREATE TABLE IF NOT EXISTS metric_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source TEXT NOT NULL,                         -- recalculate, upload, upload_json, webhook, import
+  as_of_month DATE NOT NULL,                    -- Last actual month covered by the run
+  sku_count INTEGER DEFAULT 0,
+  avg_mape DECIMAL(10,4),
+  avg_wape DECIMAL(10,4),
+  avg_bias DECIMAL(10,4),
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_runs_started ON metric_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_metric_runs_as_of ON metric_runs(as_of_month DESC);
+
+-- ============================================
+-- 2. Forecast Metrics History - Per-variant snapshots
+-- ============================================
+CREATE TABLE IF NOT EXISTS forecast_metrics_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID REFERENCES metric_runs(id) ON DELETE CASCADE,
+  variant_id TEXT REFERENCES variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  as_of_month DATE NOT NULL,
+
+  mape DECIMAL(10,4),
+  wape DECIMAL(10,4),
+  rmse DECIMAL(10,4),
+  wase DECIMAL(10,4),
+  bias DECIMAL(10,4),
+  naive_mape DECIMAL(10,4),
+
+  forecast_source TEXT,
+  data_tier TEXT,
+  period_count INTEGER,
+
+  calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(run_id, variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_history_sku ON forecast_metrics_history(sku, as_of_month DESC);
+CREATE INDEX IF NOT EXISTS idx_metrics_history_variant ON forecast_metrics_history(variant_id);
+CREATE INDEX IF NOT EXISTS idx_metrics_history_run ON forecast_metrics_history(run_id);
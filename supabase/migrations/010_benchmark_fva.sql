@@ -0,0 +1,15 @@
+-- Migration: 010_benchmark_fva.sql
+-- Purpose: Store Forecast Value Added (FVA) of the Inventory Planner forecast
+-- against the benchmark library (naive, seasonal naive, moving averages, SES, Croston/SBA).
+-- FVA = benchmark WAPE - IP WAPE in percentage points; positive means IP adds value.
+
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS fva DECIMAL(10,4),             -- FVA vs the strongest benchmark
+  ADD COLUMN IF NOT EXISTS best_benchmark TEXT,           -- Benchmark with the lowest WAPE
+  ADD COLUMN IF NOT EXISTS benchmark_fva JSONB;           -- Per-benchmark FVA: {"naive": 4.2, "ma3": -1.3, ...}
+
+ALTER TABLE forecast_metrics_history
+  ADD COLUMN IF NOT EXISTS fva DECIMAL(10,4),
+  ADD COLUMN IF NOT EXISTS best_benchmark TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_forecast_metrics_fva ON forecast_metrics(fva);
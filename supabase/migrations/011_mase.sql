@@ -0,0 +1,12 @@
+-- Migration: 011_mase.sql
+-- Purpose: Store MASE and seasonal MASE (m=12) alongside WASE.
+-- Both are scaled by the in-sample naive error of the training window that
+-- precedes the evaluation window (Hyndman & Koehler), not the evaluation window itself.
+
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS mase DECIMAL(10,4),            -- Mean Absolute Scaled Error (m=1)
+  ADD COLUMN IF NOT EXISTS smase DECIMAL(10,4);           -- Seasonal MASE (m=12), needs >= 24 periods
+
+ALTER TABLE forecast_metrics_history
+  ADD COLUMN IF NOT EXISTS mase DECIMAL(10,4),
+  ADD COLUMN IF NOT EXISTS smase DECIMAL(10,4);
@@ -0,0 +1,18 @@
+-- Migration: 012_additional_metrics.sql
+-- Purpose: Persist sMAPE, MAE, MdAPE, RMSSE and the cumulative tracking signal
+
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS smape DECIMAL(10,4),           -- Symmetric MAPE (0-200%)
+  ADD COLUMN IF NOT EXISTS mae DECIMAL(12,4),             -- Mean Absolute Error (units)
+  ADD COLUMN IF NOT EXISTS mdape DECIMAL(10,4),           -- Median Absolute Percentage Error
+  ADD COLUMN IF NOT EXISTS rmsse DECIMAL(10,4),           -- Root Mean Squared Scaled Error (in-sample scaled)
+  ADD COLUMN IF NOT EXISTS tracking_signal DECIMAL(10,4); -- Σ(forecast - actual) / MAD, |TS| > 4 = drifting
+
+ALTER TABLE forecast_metrics_history
+  ADD COLUMN IF NOT EXISTS smape DECIMAL(10,4),
+  ADD COLUMN IF NOT EXISTS mae DECIMAL(12,4),
+  ADD COLUMN IF NOT EXISTS mdape DECIMAL(10,4),
+  ADD COLUMN IF NOT EXISTS rmsse DECIMAL(10,4),
+  ADD COLUMN IF NOT EXISTS tracking_signal DECIMAL(10,4);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_metrics_tracking_signal ON forecast_metrics(tracking_signal);
@@ -0,0 +1,112 @@
+-- Migration: Value-weighted accuracy rollups
+-- Purpose: Aggregate SKU accuracy by brand / product type weighted by value,
+-- so high-revenue SKUs count more than low-value ones
+
+-- Units actually sold over a metric's evaluation window
+CREATE OR REPLACE FUNCTION metric_actual_units(actual_values JSONB)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM(value::numeric), 0)
+  FROM jsonb_array_elements_text(COALESCE(actual_values, '[]'::jsonb)) AS value
+$$;
+
+-- ============================================
+-- 1. Group-level rollup
+-- ============================================
+-- Weights per SKU:
+--   revenue = price * actual units
+--   cost    = cost_price * actual units
+-- Weighted MAPE = SUM(weight * mape) / SUM(weight)
+-- Weighted WAPE = SUM(weight * wape) / SUM(weight), which equals
+--   SUM(price * |error|) / SUM(price * actual) for revenue weights
+CREATE OR REPLACE FUNCTION get_accuracy_rollup(p_group_by TEXT DEFAULT 'brand')
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF p_group_by NOT IN ('brand', 'product_type') THEN
+    RAISE EXCEPTION 'Unsupported group_by: %', p_group_by;
+  END IF;
+
+  WITH weighted AS (
+    SELECT
+      COALESCE(NULLIF(CASE WHEN p_group_by = 'brand' THEN v.brand ELSE v.product_type END, ''), 'Unassigned') AS group_key,
+      fm.mape,
+      fm.wape,
+      metric_actual_units(fm.actual_values) AS units,
+      metric_actual_units(fm.actual_values) * COALESCE(v.price, 0) AS revenue,
+      metric_actual_units(fm.actual_values) * COALESCE(v.cost_price, 0) AS cost_value
+    FROM forecast_metrics fm
+    JOIN variants v ON v.id = fm.variant_id
+    WHERE fm.mape IS NOT NULL
+  )
+  SELECT COALESCE(json_agg(groups ORDER BY groups.revenue DESC), '[]'::json)
+  INTO result
+  FROM (
+    SELECT
+      group_key,
+      COUNT(*) AS sku_count,
+      SUM(units) AS units,
+      SUM(revenue) AS revenue,
+      SUM(cost_value) AS cost_value,
+      AVG(mape) AS avg_mape,
+      AVG(wape) AS avg_wape,
+      SUM(revenue * mape) / NULLIF(SUM(revenue), 0) AS revenue_weighted_mape,
+      SUM(revenue * wape) / NULLIF(SUM(revenue) FILTER (WHERE wape IS NOT NULL), 0) AS revenue_weighted_wape,
+      SUM(cost_value * mape) / NULLIF(SUM(cost_value), 0) AS cost_weighted_mape,
+      SUM(cost_value * wape) / NULLIF(SUM(cost_value) FILTER (WHERE wape IS NOT NULL), 0) AS cost_weighted_wape
+    FROM weighted
+    GROUP BY group_key
+  ) groups;
+
+  RETURN result;
+END;
+$$;
+
+-- ============================================
+-- 2. Drill-down: SKUs within one group
+-- ============================================
+CREATE OR REPLACE FUNCTION get_accuracy_rollup_skus(
+  p_group_by TEXT,
+  p_group_key TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF p_group_by NOT IN ('brand', 'product_type') THEN
+    RAISE EXCEPTION 'Unsupported group_by: %', p_group_by;
+  END IF;
+
+  SELECT COALESCE(json_agg(skus ORDER BY skus.revenue DESC), '[]'::json)
+  INTO result
+  FROM (
+    SELECT
+      fm.sku,
+      v.title,
+      fm.mape,
+      fm.wape,
+      fm.bias,
+      metric_actual_units(fm.actual_values) AS units,
+      metric_actual_units(fm.actual_values) * COALESCE(v.price, 0) AS revenue,
+      metric_actual_units(fm.actual_values) * COALESCE(v.cost_price, 0) AS cost_value
+    FROM forecast_metrics fm
+    JOIN variants v ON v.id = fm.variant_id
+    WHERE fm.mape IS NOT NULL
+      AND COALESCE(NULLIF(CASE WHEN p_group_by = 'brand' THEN v.brand ELSE v.product_type END, ''), 'Unassigned') = p_group_key
+  ) skus;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_accuracy_rollup(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_accuracy_rollup_skus(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,89 @@
+-- Migration: Per-warehouse inventory and forecast metrics
+-- Purpose: Keep every entry of Inventory Planner's warehouse[] instead of
+-- collapsing to the "combined" warehouse. variants keeps the combined view;
+-- these tables hold one row per SKU x warehouse.
+
+-- ============================================
+-- 1. variant_warehouses - stock and series per SKU x warehouse
+-- ============================================
+CREATE TABLE IF NOT EXISTS variant_warehouses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id TEXT NOT NULL REFERENCES variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  warehouse TEXT NOT NULL,            -- Inventory Planner warehouse id
+  warehouse_name TEXT,
+  is_combined BOOLEAN DEFAULT FALSE,  -- IP's aggregate "combined" entry
+
+  -- Inventory
+  in_stock INTEGER DEFAULT 0,
+  replenishment INTEGER DEFAULT 0,
+  to_order INTEGER DEFAULT 0,
+  lead_time INTEGER,
+  oos INTEGER DEFAULT 0,
+  oos_last_60_days INTEGER DEFAULT 0,
+
+  -- Sales
+  last_7_days_sales INTEGER DEFAULT 0,
+  last_30_days_sales INTEGER DEFAULT 0,
+  last_90_days_sales INTEGER DEFAULT 0,
+  last_180_days_sales INTEGER DEFAULT 0,
+  last_365_days_sales INTEGER DEFAULT 0,
+
+  -- Forecast data
+  orders_by_month JSONB,
+  forecast_by_period JSONB,
+  current_forecast DECIMAL(12,2),
+  forecasted_lost_revenue DECIMAL(12,2),
+
+  synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(variant_id, warehouse)
+);
+
+CREATE INDEX IF NOT EXISTS idx_variant_warehouses_sku ON variant_warehouses(sku);
+CREATE INDEX IF NOT EXISTS idx_variant_warehouses_warehouse ON variant_warehouses(warehouse);
+
+-- ============================================
+-- 2. warehouse_forecast_metrics - accuracy per SKU x warehouse
+-- ============================================
+-- Same metric columns as forecast_metrics so list/overview queries can
+-- switch tables when a warehouse is selected
+CREATE TABLE IF NOT EXISTS warehouse_forecast_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id TEXT NOT NULL REFERENCES variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  warehouse TEXT NOT NULL,
+  period_start DATE,
+  period_end DATE,
+
+  mape DECIMAL(10,4),
+  wape DECIMAL(10,4),
+  rmse DECIMAL(10,4),
+  wase DECIMAL(10,4),
+  mase DECIMAL(10,4),
+  smase DECIMAL(10,4),
+  bias DECIMAL(10,4),
+  naive_mape DECIMAL(10,4),
+  smape DECIMAL(10,4),
+  mae DECIMAL(12,4),
+  mdape DECIMAL(10,4),
+  rmsse DECIMAL(10,4),
+  tracking_signal DECIMAL(10,4),
+  fva DECIMAL(10,4),
+  best_benchmark TEXT,
+  benchmark_fva JSONB,
+
+  forecast_source TEXT,
+  data_tier TEXT,
+  period_count INTEGER,
+  actual_values JSONB,
+  forecast_values JSONB,
+
+  calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(variant_id, warehouse)
+);
+
+CREATE INDEX IF NOT EXISTS idx_warehouse_forecast_metrics_sku ON warehouse_forecast_metrics(sku);
+CREATE INDEX IF NOT EXISTS idx_warehouse_forecast_metrics_warehouse ON warehouse_forecast_metrics(warehouse);
+CREATE INDEX IF NOT EXISTS idx_warehouse_forecast_metrics_mape ON warehouse_forecast_metrics(mape) WHERE mape IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Migration: 015_ip_sync_cursor.sql
+-- Purpose: High-water mark for incremental Inventory Planner API syncs
+
+-- Start time of the last successful IP API sync (ISO timestamp).
+-- Empty means the next sync fetches every variant.
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('ip_sync_cursor', '', 'Start time of the last successful Inventory Planner API sync (incremental high-water mark)')
+ON CONFLICT (key) DO NOTHING;
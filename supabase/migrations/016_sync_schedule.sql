@@ -0,0 +1,9 @@
+-- Migration: 016_sync_schedule.sql
+-- Purpose: Target for the built-in sync scheduler (sync_enabled and
+-- sync_interval_hours are seeded by 008_app_settings.sql).
+-- Skipped scheduler runs are stored in sync_metrics with status 'skipped'.
+
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('sync_schedule_target', '', 'Scheduled sync target: n8n, inventory_planner, or empty to pick automatically')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,66 @@
+-- Migration: 017_forecast_snapshots.sql
+-- Purpose: Ledger of the forecast vector received on each sync.
+-- variants.forecast_by_period is overwritten every sync and Inventory Planner
+-- can restate past months, so accuracy is measured against the forecast that
+-- was on record a configurable number of months before each target month.
+
+-- ============================================
+-- 1. forecast_snapshots - one forecast vector per variant per sync date
+-- ============================================
+CREATE TABLE IF NOT EXISTS forecast_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id TEXT NOT NULL REFERENCES variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  snapshot_date DATE NOT NULL,        -- Sync date (several syncs a day keep the last)
+  forecast_by_period JSONB NOT NULL,  -- {year: {month: qty}}, as received
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (variant_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshots_sku ON forecast_snapshots(sku, snapshot_date);
+
+-- ============================================
+-- 2. Ex-ante forecast lookup
+-- ============================================
+-- For each target month M, the value from the latest snapshot taken before
+-- the first day of (M - lag + 1), i.e. in month M - lag or earlier.
+-- lag 1 = the forecast on record before the month started.
+-- Returns one row per variant with a flat {"YYYY-MM": qty} object.
+CREATE OR REPLACE FUNCTION get_ex_ante_forecasts(
+  p_lag_months INT DEFAULT 1,
+  p_variant_ids TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (variant_id TEXT, forecasts JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.variant_id, jsonb_object_agg(t.month_key, t.qty)
+  FROM (
+    SELECT DISTINCT ON (fs.variant_id, y.key, lpad(m.key, 2, '0'))
+      fs.variant_id,
+      y.key || '-' || lpad(m.key, 2, '0') AS month_key,
+      (m.value #>> '{}')::numeric AS qty
+    FROM forecast_snapshots fs
+    CROSS JOIN LATERAL jsonb_each(fs.forecast_by_period) y
+    CROSS JOIN LATERAL jsonb_each(CASE WHEN jsonb_typeof(y.value) = 'object' THEN y.value ELSE '{}'::jsonb END) m
+    WHERE (p_variant_ids IS NULL OR fs.variant_id = ANY(p_variant_ids))
+      AND y.key ~ '^\d{4}$'
+      AND m.key ~ '^\d{1,2}$'
+      AND jsonb_typeof(m.value) = 'number'
+      AND fs.snapshot_date < make_date(y.key::int, m.key::int, 1) - make_interval(months => p_lag_months - 1)
+    ORDER BY fs.variant_id, y.key, lpad(m.key, 2, '0'), fs.snapshot_date DESC
+  ) t
+  GROUP BY t.variant_id
+$$;
+
+-- ============================================
+-- 3. Settings and metric coverage
+-- ============================================
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('forecast_snapshot_lag_months', '1', 'Months before a target month whose recorded forecast is used for accuracy')
+ON CONFLICT (key) DO NOTHING;
+
+-- Months of the evaluation window scored against a snapshot forecast
+ALTER TABLE forecast_metrics ADD COLUMN IF NOT EXISTS ex_ante_periods INTEGER DEFAULT 0;
@@ -0,0 +1,55 @@
+-- Migration: 018_censored_demand.sql
+-- Purpose: Treat stockout months as censored demand in accuracy metrics.
+-- Sales in a month spent out of stock reflect missing stock, not low demand.
+
+-- ============================================
+-- 1. Stock history on the sync snapshot ledger
+-- ============================================
+-- Every sync now records in_stock per variant; the forecast is optional so
+-- variants without one still get a stock snapshot
+ALTER TABLE forecast_snapshots ADD COLUMN IF NOT EXISTS in_stock INTEGER;
+ALTER TABLE forecast_snapshots ALTER COLUMN forecast_by_period DROP NOT NULL;
+
+-- Sync snapshots per month and how many found the variant out of stock.
+-- Returns one row per variant with {"YYYY-MM": {"snapshots": n, "stockouts": n}}
+CREATE OR REPLACE FUNCTION get_stock_history(p_variant_ids TEXT[])
+RETURNS TABLE (variant_id TEXT, months JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.variant_id, jsonb_object_agg(t.month_key, jsonb_build_object('snapshots', t.snapshots, 'stockouts', t.stockouts))
+  FROM (
+    SELECT
+      fs.variant_id,
+      to_char(fs.snapshot_date, 'YYYY-MM') AS month_key,
+      COUNT(*) AS snapshots,
+      COUNT(*) FILTER (WHERE fs.in_stock <= 0) AS stockouts
+    FROM forecast_snapshots fs
+    WHERE fs.variant_id = ANY(p_variant_ids)
+      AND fs.in_stock IS NOT NULL
+    GROUP BY fs.variant_id, to_char(fs.snapshot_date, 'YYYY-MM')
+  ) t
+  GROUP BY t.variant_id
+$$;
+
+-- ============================================
+-- 2. Censoring columns on the metric tables
+-- ============================================
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS censored_periods INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS censored_months JSONB,     -- [{month: 'YYYY-MM', fraction: 0-1}]
+  ADD COLUMN IF NOT EXISTS censoring_mode TEXT;
+
+ALTER TABLE warehouse_forecast_metrics
+  ADD COLUMN IF NOT EXISTS censored_periods INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS censored_months JSONB,
+  ADD COLUMN IF NOT EXISTS censoring_mode TEXT;
+
+-- ============================================
+-- 3. Settings
+-- ============================================
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('censored_demand_mode', 'exclude', 'How stockout months are scored: include, exclude or adjust')
+ON CONFLICT (key) DO NOTHING;
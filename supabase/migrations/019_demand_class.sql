@@ -0,0 +1,26 @@
+-- Migration: 019_demand_class.sql
+-- Purpose: Syntetos-Boylan demand classification per SKU.
+-- ADI (average demand interval) and CV² (variability of non-zero demand)
+-- place each SKU in smooth / erratic / intermittent / lumpy, which decides
+-- the primary accuracy metric and the recommended benchmark.
+
+-- ============================================
+-- 1. Classification columns on the metric tables
+-- ============================================
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS demand_class TEXT,           -- smooth, erratic, intermittent, lumpy
+  ADD COLUMN IF NOT EXISTS adi NUMERIC,
+  ADD COLUMN IF NOT EXISTS cv2 NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_benchmark TEXT,  -- BenchmarkId suited to the demand class
+  ADD COLUMN IF NOT EXISTS primary_metric TEXT,         -- mape or wape
+  ADD COLUMN IF NOT EXISTS zero_periods INTEGER DEFAULT 0;
+
+ALTER TABLE warehouse_forecast_metrics
+  ADD COLUMN IF NOT EXISTS demand_class TEXT,
+  ADD COLUMN IF NOT EXISTS adi NUMERIC,
+  ADD COLUMN IF NOT EXISTS cv2 NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_benchmark TEXT,
+  ADD COLUMN IF NOT EXISTS primary_metric TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_forecast_metrics_demand_class ON forecast_metrics(demand_class);
+CREATE INDEX IF NOT EXISTS idx_warehouse_forecast_metrics_demand_class ON warehouse_forecast_metrics(warehouse, demand_class);
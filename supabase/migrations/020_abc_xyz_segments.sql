@@ -0,0 +1,139 @@
+-- Migration: 020_abc_xyz_segments.sql
+-- Purpose: ABC (annual revenue) and XYZ (demand variability) segmentation.
+-- Segments are recalculated for the whole catalog after every ingest, since
+-- ABC ranks each SKU against all others.
+
+-- ============================================
+-- 1. Segment columns on variants
+-- ============================================
+ALTER TABLE variants
+  ADD COLUMN IF NOT EXISTS abc_class TEXT,        -- A, B, C
+  ADD COLUMN IF NOT EXISTS xyz_class TEXT,        -- X, Y, Z (NULL with under 3 months of history)
+  ADD COLUMN IF NOT EXISTS annual_revenue NUMERIC, -- last_365_days_sales * price
+  ADD COLUMN IF NOT EXISTS demand_cv NUMERIC;     -- CV of the last 12 months of orders_by_month
+
+CREATE INDEX IF NOT EXISTS idx_variants_abc_xyz ON variants(abc_class, xyz_class);
+
+-- ============================================
+-- 2. Recalculate segments
+-- ============================================
+-- ABC: SKUs ranked by annual revenue; A until 80% of cumulative revenue,
+--      B until 95%, C for the rest (and every SKU without revenue)
+-- XYZ: coefficient of variation (std dev / mean) of monthly sales over the
+--      last 12 months; X < 0.5, Y < 1.0, Z otherwise (or no sales)
+CREATE OR REPLACE FUNCTION refresh_abc_xyz_segments()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  updated INTEGER;
+BEGIN
+  WITH revenue AS (
+    SELECT id, GREATEST(COALESCE(last_365_days_sales, 0), 0) * GREATEST(COALESCE(price, 0), 0) AS value
+    FROM variants
+  ),
+  ranked AS (
+    SELECT
+      id,
+      value,
+      SUM(value) OVER (ORDER BY value DESC, id ROWS UNBOUNDED PRECEDING) - value AS preceding,
+      SUM(value) OVER () AS total
+    FROM revenue
+  ),
+  series AS (
+    SELECT
+      v.id,
+      (m.value #>> '{}')::numeric AS qty,
+      ROW_NUMBER() OVER (PARTITION BY v.id ORDER BY y.key DESC, lpad(m.key, 2, '0') DESC) AS recency
+    FROM variants v
+    CROSS JOIN LATERAL jsonb_each(CASE WHEN jsonb_typeof(v.orders_by_month) = 'object' THEN v.orders_by_month ELSE '{}'::jsonb END) y
+    CROSS JOIN LATERAL jsonb_each(CASE WHEN jsonb_typeof(y.value) = 'object' THEN y.value ELSE '{}'::jsonb END) m
+    WHERE y.key ~ '^\d{4}$'
+      AND m.key ~ '^\d{1,2}$'
+      AND jsonb_typeof(m.value) = 'number'
+  ),
+  variability AS (
+    SELECT id, COUNT(*) AS months, AVG(qty) AS mean, STDDEV_POP(qty) AS sd
+    FROM series
+    WHERE recency <= 12
+    GROUP BY id
+  ),
+  segments AS (
+    SELECT
+      r.id,
+      r.value,
+      CASE
+        WHEN r.value <= 0 OR r.total <= 0 THEN 'C'
+        WHEN r.preceding / r.total < 0.80 THEN 'A'
+        WHEN r.preceding / r.total < 0.95 THEN 'B'
+        ELSE 'C'
+      END AS abc_class,
+      CASE WHEN va.mean > 0 THEN va.sd / va.mean END AS cv,
+      CASE
+        WHEN va.months IS NULL OR va.months < 3 THEN NULL
+        WHEN va.mean <= 0 THEN 'Z'
+        WHEN va.sd / va.mean < 0.5 THEN 'X'
+        WHEN va.sd / va.mean < 1.0 THEN 'Y'
+        ELSE 'Z'
+      END AS xyz_class
+    FROM ranked r
+    LEFT JOIN variability va ON va.id = r.id
+  )
+  UPDATE variants v
+  SET
+    abc_class = s.abc_class,
+    xyz_class = s.xyz_class,
+    annual_revenue = s.value,
+    demand_cv = ROUND(s.cv, 3)
+  FROM segments s
+  WHERE v.id = s.id
+    AND (
+      v.abc_class IS DISTINCT FROM s.abc_class
+      OR v.xyz_class IS DISTINCT FROM s.xyz_class
+      OR v.annual_revenue IS DISTINCT FROM s.value
+      OR v.demand_cv IS DISTINCT FROM ROUND(s.cv, 3)
+    );
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END;
+$$;
+
+-- ============================================
+-- 3. ABC × XYZ matrix
+-- ============================================
+-- One row per populated cell: SKU count, share of annual revenue and
+-- revenue-weighted MAPE of the SKUs with metrics
+CREATE OR REPLACE FUNCTION get_segment_matrix()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH classified AS (
+    SELECT v.abc_class, v.xyz_class, COALESCE(v.annual_revenue, 0) AS revenue, fm.mape
+    FROM variants v
+    LEFT JOIN forecast_metrics fm ON fm.variant_id = v.id
+    WHERE v.abc_class IS NOT NULL AND v.xyz_class IS NOT NULL
+  ),
+  total AS (
+    SELECT NULLIF(SUM(revenue), 0) AS revenue FROM classified
+  )
+  SELECT COALESCE(json_agg(cells ORDER BY cells.abc_class, cells.xyz_class), '[]'::json)
+  FROM (
+    SELECT
+      c.abc_class,
+      c.xyz_class,
+      COUNT(*) AS sku_count,
+      COUNT(c.mape) AS metric_count,
+      SUM(c.revenue) AS revenue,
+      COALESCE(SUM(c.revenue) / (SELECT revenue FROM total), 0) AS value_share,
+      AVG(c.mape) AS avg_mape,
+      SUM(c.revenue * c.mape) / NULLIF(SUM(c.revenue) FILTER (WHERE c.mape IS NOT NULL), 0) AS weighted_mape
+    FROM classified c
+    GROUP BY c.abc_class, c.xyz_class
+  ) cells
+$$;
+
+GRANT EXECUTE ON FUNCTION get_segment_matrix() TO anon, authenticated;
@@ -0,0 +1,193 @@
+-- Migration: 021_accuracy_config.sql
+-- Purpose: Admin-editable MAPE tier thresholds and accuracy targets.
+-- Tier boundaries were hard-coded (10/20/30/50) in the app and in
+-- get_dashboard_summary; they now live in app_settings, and targets can be
+-- overridden per brand, product type and ABC/XYZ segment.
+
+-- ============================================
+-- 1. Tier thresholds
+-- ============================================
+-- JSON array of four increasing MAPE bounds closing the excellent, good,
+-- acceptable and poor tiers; anything at or above the last is very poor
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('mape_tier_thresholds', '[10,20,30,50]', 'Upper MAPE bound (%) of the excellent, good, acceptable and poor tiers')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION mape_tier_thresholds()
+RETURNS NUMERIC[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT ARRAY(SELECT jsonb_array_elements_text(value::jsonb)::numeric)
+      FROM app_settings
+      WHERE key = 'mape_tier_thresholds'
+        AND jsonb_typeof(value::jsonb) = 'array'
+        AND jsonb_array_length(value::jsonb) = 4
+    ),
+    ARRAY[10, 20, 30, 50]::numeric[]
+  )
+$$;
+
+-- Tier of a MAPE value against the given (or stored) thresholds
+CREATE OR REPLACE FUNCTION mape_tier(p_mape NUMERIC, p_thresholds NUMERIC[] DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  t NUMERIC[] := COALESCE(p_thresholds, mape_tier_thresholds());
+BEGIN
+  IF p_mape IS NULL THEN RETURN NULL; END IF;
+  IF p_mape < t[1] THEN RETURN 'excellent'; END IF;
+  IF p_mape < t[2] THEN RETURN 'good'; END IF;
+  IF p_mape < t[3] THEN RETURN 'acceptable'; END IF;
+  IF p_mape < t[4] THEN RETURN 'poor'; END IF;
+  RETURN 'very_poor';
+END;
+$$;
+
+-- ============================================
+-- 2. accuracy_targets - MAPE target per scope
+-- ============================================
+-- scope 'default' (scope_value '') applies to every SKU without an override;
+-- a brand override wins over a product type override. Segment targets
+-- (AX ... CZ) are compared against the ABC/XYZ matrix.
+CREATE TABLE IF NOT EXISTS accuracy_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('default', 'brand', 'product_type', 'segment')),
+  scope_value TEXT NOT NULL DEFAULT '',
+  target_mape NUMERIC NOT NULL CHECK (target_mape > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (scope, scope_value)
+);
+
+INSERT INTO accuracy_targets (scope, scope_value, target_mape)
+VALUES
+  ('default', '', 20),
+  ('segment', 'AX', 15),
+  ('segment', 'AY', 25),
+  ('segment', 'AZ', 40),
+  ('segment', 'BX', 20),
+  ('segment', 'BY', 30),
+  ('segment', 'BZ', 45),
+  ('segment', 'CX', 25),
+  ('segment', 'CY', 35),
+  ('segment', 'CZ', 50)
+ON CONFLICT (scope, scope_value) DO NOTHING;
+
+-- Target for a SKU: brand override, else product type override, else default
+CREATE OR REPLACE FUNCTION accuracy_target_mape(p_brand TEXT, p_product_type TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (SELECT target_mape FROM accuracy_targets WHERE scope = 'brand' AND scope_value = p_brand),
+    (SELECT target_mape FROM accuracy_targets WHERE scope = 'product_type' AND scope_value = p_product_type),
+    (SELECT target_mape FROM accuracy_targets WHERE scope = 'default' AND scope_value = ''),
+    20
+  )
+$$;
+
+-- ============================================
+-- 3. Dashboard summary - distribution from the stored tiers
+-- ============================================
+-- Same as 006_dashboard_rpc.sql except mape_distribution, which buckets by
+-- mape_tier(), and the added tier_thresholds / target_mape / meets_target
+CREATE OR REPLACE FUNCTION get_dashboard_summary()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  thresholds NUMERIC[] := mape_tier_thresholds();
+BEGIN
+  SELECT json_build_object(
+    'stats', (
+      SELECT json_build_object(
+        'total_skus', COUNT(*),
+        'oos_count', COUNT(*) FILTER (WHERE oos > 0),
+        'reorder_count', COUNT(*) FILTER (WHERE replenishment > 0),
+        'out_of_stock_count', COUNT(*) FILTER (WHERE in_stock = 0),
+        'overstocked_count', COUNT(*) FILTER (WHERE oos > 30),
+        'total_value', COALESCE(SUM(in_stock * COALESCE(cost_price, 0)), 0),
+        'total_lost_revenue', COALESCE(SUM(forecasted_lost_revenue), 0)
+      )
+      FROM variants
+    ),
+    'accuracy', (
+      SELECT json_build_object(
+        'avg_mape', COALESCE(AVG(fm.mape), 0),
+        'avg_wape', COALESCE(AVG(fm.wape), 0),
+        'avg_rmse', COALESCE(AVG(fm.rmse), 0),
+        'avg_bias', COALESCE(AVG(fm.bias), 0),
+        'count', COUNT(*),
+        'target_mape', accuracy_target_mape(NULL, NULL),
+        'meets_target_count', COUNT(*) FILTER (
+          WHERE fm.mape <= accuracy_target_mape(v.brand, v.product_type)
+        )
+      )
+      FROM forecast_metrics fm
+      LEFT JOIN variants v ON v.id = fm.variant_id
+      WHERE fm.mape IS NOT NULL
+    ),
+    'priority_items', (
+      SELECT COALESCE(json_agg(items), '[]'::json)
+      FROM (
+        SELECT id, sku, title, brand, in_stock, replenishment, to_order,
+               lead_time, oos, forecasted_lost_revenue
+        FROM variants
+        WHERE replenishment > 0
+        ORDER BY replenishment DESC
+        LIMIT 10
+      ) items
+    ),
+    'oos_items', (
+      SELECT COALESCE(json_agg(items), '[]'::json)
+      FROM (
+        SELECT id, sku, title, brand, oos, oos_last_60_days, forecasted_lost_revenue
+        FROM variants
+        WHERE oos > 0
+        ORDER BY oos DESC
+        LIMIT 10
+      ) items
+    ),
+    'last_sync', (
+      SELECT json_build_object(
+        'id', id,
+        'source', sync_type,
+        'status', status,
+        'records_fetched', records_fetched,
+        'records_updated', records_updated,
+        'started_at', started_at,
+        'completed_at', completed_at
+      )
+      FROM sync_metrics
+      ORDER BY started_at DESC
+      LIMIT 1
+    ),
+    'mape_distribution', (
+      SELECT json_build_object(
+        'excellent', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'excellent'),
+        'good', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'good'),
+        'acceptable', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'acceptable'),
+        'poor', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'poor'),
+        'very_poor', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'very_poor')
+      )
+      FROM forecast_metrics
+      WHERE mape IS NOT NULL
+    ),
+    'tier_thresholds', to_json(thresholds)
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_summary() TO anon, authenticated;
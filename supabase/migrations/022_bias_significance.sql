@@ -0,0 +1,25 @@
+-- Migration: 022_bias_significance.sql
+-- Purpose: Statistically tested forecast bias per SKU.
+-- The mean error alone cannot tell systematic bias from noise, so each
+-- calculation also stores a t-statistic on the error series and the run of
+-- consecutive same-sign errors, and flags persistent over/under-forecasting.
+
+-- ============================================
+-- 1. Bias test columns on the metric tables
+-- ============================================
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS bias_t_stat NUMERIC,         -- mean error / standard error
+  ADD COLUMN IF NOT EXISTS bias_sign_run INTEGER,       -- latest consecutive periods with one error sign
+  ADD COLUMN IF NOT EXISTS bias_direction TEXT,         -- over, under
+  ADD COLUMN IF NOT EXISTS bias_persistent BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS bias_pct NUMERIC;            -- mean error as % of mean actual
+
+ALTER TABLE warehouse_forecast_metrics
+  ADD COLUMN IF NOT EXISTS bias_t_stat NUMERIC,
+  ADD COLUMN IF NOT EXISTS bias_sign_run INTEGER,
+  ADD COLUMN IF NOT EXISTS bias_direction TEXT,
+  ADD COLUMN IF NOT EXISTS bias_persistent BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS bias_pct NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_forecast_metrics_bias_persistent ON forecast_metrics(bias_persistent) WHERE bias_persistent;
+CREATE INDEX IF NOT EXISTS idx_warehouse_forecast_metrics_bias_persistent ON warehouse_forecast_metrics(warehouse) WHERE bias_persistent;
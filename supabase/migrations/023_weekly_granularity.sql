@@ -0,0 +1,75 @@
+-- Migration: 023_weekly_granularity.sql
+-- Purpose: Weekly actuals and forecasts alongside the monthly series.
+-- Fast movers need accuracy at weekly grain. Weekly series are stored in the
+-- same {year: {period: qty}} shape as orders_by_month, keyed by ISO
+-- week-numbering year and week, and scored into their own metrics table so
+-- every monthly query keeps working unchanged.
+
+-- ============================================
+-- 1. Weekly series on variants
+-- ============================================
+ALTER TABLE variants
+  ADD COLUMN IF NOT EXISTS orders_by_week JSONB,       -- {isoYear: {week: qty}}
+  ADD COLUMN IF NOT EXISTS forecast_by_week JSONB;     -- {isoYear: {week: qty}}
+
+-- ============================================
+-- 2. weekly_forecast_metrics - accuracy per SKU at weekly grain
+-- ============================================
+-- Same metric columns as forecast_metrics so list/overview queries can
+-- switch tables when weekly granularity is selected
+CREATE TABLE IF NOT EXISTS weekly_forecast_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  variant_id TEXT NOT NULL REFERENCES variants(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL,
+  period_start DATE,                  -- Monday of the first evaluated week
+  period_end DATE,                    -- Monday of the last evaluated week
+
+  mape DECIMAL(10,4),
+  wape DECIMAL(10,4),
+  rmse DECIMAL(10,4),
+  wase DECIMAL(10,4),
+  mase DECIMAL(10,4),
+  smase DECIMAL(10,4),
+  bias DECIMAL(10,4),
+  naive_mape DECIMAL(10,4),
+  smape DECIMAL(10,4),
+  mae DECIMAL(12,4),
+  mdape DECIMAL(10,4),
+  rmsse DECIMAL(10,4),
+  tracking_signal DECIMAL(10,4),
+  fva DECIMAL(10,4),
+  best_benchmark TEXT,
+  benchmark_fva JSONB,
+
+  censored_periods INTEGER DEFAULT 0,
+  censored_months JSONB,              -- [{month: 'YYYY-Www', fraction: 0-1}]
+  censoring_mode TEXT,
+
+  demand_class TEXT,
+  adi NUMERIC,
+  cv2 NUMERIC,
+  recommended_benchmark TEXT,
+  primary_metric TEXT,
+  zero_periods INTEGER DEFAULT 0,
+
+  bias_t_stat NUMERIC,
+  bias_sign_run INTEGER,
+  bias_direction TEXT,
+  bias_persistent BOOLEAN DEFAULT FALSE,
+  bias_pct NUMERIC,
+
+  forecast_source TEXT,
+  data_tier TEXT,
+  period_count INTEGER,
+  actual_values JSONB,
+  forecast_values JSONB,
+
+  calculated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(variant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_forecast_metrics_sku ON weekly_forecast_metrics(sku);
+CREATE INDEX IF NOT EXISTS idx_weekly_forecast_metrics_mape ON weekly_forecast_metrics(mape) WHERE mape IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_weekly_forecast_metrics_demand_class ON weekly_forecast_metrics(demand_class);
+CREATE INDEX IF NOT EXISTS idx_weekly_forecast_metrics_bias_persistent ON weekly_forecast_metrics(bias_persistent) WHERE bias_persistent;
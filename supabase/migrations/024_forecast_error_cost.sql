@@ -0,0 +1,40 @@
+-- Migration: 024_forecast_error_cost.sql
+-- Purpose: Dollar cost of forecast error per SKU.
+-- Each period's signed error is priced: over-forecast units incur a period of
+-- holding cost (cost_price × annual holding_cost_rate), under-forecast units
+-- lose their gross margin (price - cost_price).
+
+-- ============================================
+-- 1. Cost columns on the metric tables
+-- ============================================
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS over_forecast_units NUMERIC,   -- Σ max(forecast - actual, 0)
+  ADD COLUMN IF NOT EXISTS under_forecast_units NUMERIC,  -- Σ max(actual - forecast, 0)
+  ADD COLUMN IF NOT EXISTS carrying_cost NUMERIC,         -- holding cost of over-forecast units
+  ADD COLUMN IF NOT EXISTS lost_margin NUMERIC,           -- gross margin of under-forecast units
+  ADD COLUMN IF NOT EXISTS error_cost NUMERIC;            -- carrying_cost + lost_margin
+
+ALTER TABLE warehouse_forecast_metrics
+  ADD COLUMN IF NOT EXISTS over_forecast_units NUMERIC,
+  ADD COLUMN IF NOT EXISTS under_forecast_units NUMERIC,
+  ADD COLUMN IF NOT EXISTS carrying_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS lost_margin NUMERIC,
+  ADD COLUMN IF NOT EXISTS error_cost NUMERIC;
+
+ALTER TABLE weekly_forecast_metrics
+  ADD COLUMN IF NOT EXISTS over_forecast_units NUMERIC,
+  ADD COLUMN IF NOT EXISTS under_forecast_units NUMERIC,
+  ADD COLUMN IF NOT EXISTS carrying_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS lost_margin NUMERIC,
+  ADD COLUMN IF NOT EXISTS error_cost NUMERIC;
+
+-- Priority lists sort by the combined monthly cost
+CREATE INDEX IF NOT EXISTS idx_forecast_metrics_error_cost ON forecast_metrics(error_cost DESC NULLS LAST);
+
+-- ============================================
+-- 2. Settings
+-- ============================================
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('holding_cost_rate', '25', 'Annual holding cost as % of unit cost, used to price over-forecast units')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,38 @@
+-- Migration: 025_prediction_intervals.sql
+-- Purpose: Empirical prediction intervals per SKU.
+-- Quantiles of the SKU's historical error (actual - forecast) turn point
+-- forecasts into 80% and 95% intervals; a rolling-origin backtest of those
+-- intervals is scored by hit rate (coverage) and pinball loss.
+
+-- ============================================
+-- 1. Interval columns on the metric tables
+-- ============================================
+ALTER TABLE forecast_metrics
+  ADD COLUMN IF NOT EXISTS interval_q025 NUMERIC,       -- 2.5% quantile of actual - forecast
+  ADD COLUMN IF NOT EXISTS interval_q10 NUMERIC,        -- 10% quantile
+  ADD COLUMN IF NOT EXISTS interval_q90 NUMERIC,        -- 90% quantile
+  ADD COLUMN IF NOT EXISTS interval_q975 NUMERIC,       -- 97.5% quantile
+  ADD COLUMN IF NOT EXISTS coverage_80 NUMERIC,         -- % of backtested periods inside the 80% interval
+  ADD COLUMN IF NOT EXISTS coverage_95 NUMERIC,         -- % inside the 95% interval
+  ADD COLUMN IF NOT EXISTS pinball_loss NUMERIC,        -- mean pinball loss over the interval bounds (units)
+  ADD COLUMN IF NOT EXISTS interval_periods INTEGER;    -- periods backtested
+
+ALTER TABLE warehouse_forecast_metrics
+  ADD COLUMN IF NOT EXISTS interval_q025 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q10 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q90 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q975 NUMERIC,
+  ADD COLUMN IF NOT EXISTS coverage_80 NUMERIC,
+  ADD COLUMN IF NOT EXISTS coverage_95 NUMERIC,
+  ADD COLUMN IF NOT EXISTS pinball_loss NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_periods INTEGER;
+
+ALTER TABLE weekly_forecast_metrics
+  ADD COLUMN IF NOT EXISTS interval_q025 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q10 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q90 NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_q975 NUMERIC,
+  ADD COLUMN IF NOT EXISTS coverage_80 NUMERIC,
+  ADD COLUMN IF NOT EXISTS coverage_95 NUMERIC,
+  ADD COLUMN IF NOT EXISTS pinball_loss NUMERIC,
+  ADD COLUMN IF NOT EXISTS interval_periods INTEGER;
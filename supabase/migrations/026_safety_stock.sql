@@ -0,0 +1,13 @@
+-- Migration: 026_safety_stock.sql
+-- Purpose: Independent safety stock and reorder point per SKU.
+-- The SKU's forecast RMSE, scaled to its lead time, sets a safety stock for
+-- a target service level; this is compared with Inventory Planner's
+-- minimum_stock and replenishment (calculated in the app, nothing stored).
+
+-- ============================================
+-- 1. Settings
+-- ============================================
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('target_service_level', '95', 'Target cycle service level (%) for the safety stock and reorder point calculation')
+ON CONFLICT (key) DO NOTHING;
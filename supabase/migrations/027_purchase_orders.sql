@@ -0,0 +1,62 @@
+-- Migration: 027_purchase_orders.sql
+-- Purpose: Purchase order drafts built from reorder candidates.
+-- Planners group SKUs with to_order > 0 by vendor (from raw_data vendors[]),
+-- adjust quantities with MOQ and case-pack rounding, save the draft and
+-- export it for the ERP import. Every save is kept as the draft's history.
+
+-- ============================================
+-- 1. po_drafts - one draft purchase order per vendor
+-- ============================================
+CREATE TABLE IF NOT EXISTS po_drafts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id TEXT NOT NULL,            -- Inventory Planner vendor id ('unassigned' without one)
+  vendor_name TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'exported')),
+  notes TEXT,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  total_units INTEGER NOT NULL DEFAULT 0,
+  total_cost DECIMAL(12,2),           -- Σ quantity × unit_cost over lines with a cost
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  exported_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_drafts_updated ON po_drafts(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_po_drafts_vendor ON po_drafts(vendor_id);
+
+-- ============================================
+-- 2. po_draft_lines - SKUs on a draft
+-- ============================================
+CREATE TABLE IF NOT EXISTS po_draft_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL REFERENCES po_drafts(id) ON DELETE CASCADE,
+  variant_id TEXT REFERENCES variants(id) ON DELETE SET NULL,
+  sku TEXT NOT NULL,
+  title TEXT,
+  barcode TEXT,
+  vendor_sku TEXT,                    -- Vendor's own product code, when IP has one
+  suggested_qty INTEGER NOT NULL DEFAULT 0,  -- to_order when the line was added
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),  -- After planner edits and rounding
+  moq INTEGER,                        -- Vendor minimum order quantity
+  case_pack INTEGER,                  -- Units per case
+  unit_cost DECIMAL(12,2),
+  UNIQUE (draft_id, sku)
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_draft_lines_draft ON po_draft_lines(draft_id);
+
+-- ============================================
+-- 3. po_draft_events - history of saves and exports
+-- ============================================
+CREATE TABLE IF NOT EXISTS po_draft_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id UUID NOT NULL REFERENCES po_drafts(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'exported')),
+  format TEXT CHECK (format IN ('csv', 'json')),  -- Export format
+  line_count INTEGER NOT NULL DEFAULT 0,
+  total_units INTEGER NOT NULL DEFAULT 0,
+  total_cost DECIMAL(12,2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_draft_events_draft ON po_draft_events(draft_id, created_at DESC);
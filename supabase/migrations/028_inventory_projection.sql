@@ -0,0 +1,19 @@
+-- Migration: 028_inventory_projection.sql
+-- Purpose: Projected stockout date and days of cover per SKU.
+-- On-hand stock is projected day by day from in_stock, drawn down at the
+-- forecast_by_period rate, with purchase_orders_qty received after the
+-- lead time; calculated at sync time for the next 12 months.
+
+-- ============================================
+-- 1. Projection columns
+-- ============================================
+ALTER TABLE variants
+  ADD COLUMN IF NOT EXISTS projected_stockout_date DATE,  -- NULL when stock lasts the horizon or there is no forecast
+  ADD COLUMN IF NOT EXISTS days_of_cover INTEGER;         -- Days to the stockout (horizon days when none)
+
+-- Warehouse rows project their own stock; purchase orders are not split by warehouse
+ALTER TABLE variant_warehouses
+  ADD COLUMN IF NOT EXISTS projected_stockout_date DATE,
+  ADD COLUMN IF NOT EXISTS days_of_cover INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_variants_projected_stockout ON variants(projected_stockout_date);
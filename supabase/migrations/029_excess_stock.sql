@@ -0,0 +1,116 @@
+-- Migration: 029_excess_stock.sql
+-- Purpose: Excess and dead stock.
+-- On-hand stock beyond the forecast demand over a horizon is excess, and
+-- stock with no sales in N months is dead (calculated in the app, nothing
+-- stored per SKU). The dashboard's overstocked count previously used
+-- oos > 30 (days out of stock); it now reads the count the sync stores in
+-- business_summary.items_overstocked.
+
+-- ============================================
+-- 1. Settings
+-- ============================================
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('excess_horizon_months', '6', 'Months of forecast demand on-hand stock is compared with for excess stock (1-24)'),
+  ('dead_stock_months', '6', 'Months without a sale before in-stock SKUs count as dead stock (1-24)')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 2. Dashboard summary - overstocked count from business_summary
+-- ============================================
+-- Same as 021_accuracy_config.sql except overstocked_count, which is the
+-- latest snapshot's items_overstocked instead of oos > 30
+CREATE OR REPLACE FUNCTION get_dashboard_summary()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+  thresholds NUMERIC[] := mape_tier_thresholds();
+BEGIN
+  SELECT json_build_object(
+    'stats', (
+      SELECT json_build_object(
+        'total_skus', COUNT(*),
+        'oos_count', COUNT(*) FILTER (WHERE oos > 0),
+        'reorder_count', COUNT(*) FILTER (WHERE replenishment > 0),
+        'out_of_stock_count', COUNT(*) FILTER (WHERE in_stock = 0),
+        'overstocked_count', COALESCE((
+          SELECT items_overstocked FROM business_summary ORDER BY snapshot_date DESC LIMIT 1
+        ), 0),
+        'total_value', COALESCE(SUM(in_stock * COALESCE(cost_price, 0)), 0),
+        'total_lost_revenue', COALESCE(SUM(forecasted_lost_revenue), 0)
+      )
+      FROM variants
+    ),
+    'accuracy', (
+      SELECT json_build_object(
+        'avg_mape', COALESCE(AVG(fm.mape), 0),
+        'avg_wape', COALESCE(AVG(fm.wape), 0),
+        'avg_rmse', COALESCE(AVG(fm.rmse), 0),
+        'avg_bias', COALESCE(AVG(fm.bias), 0),
+        'count', COUNT(*),
+        'target_mape', accuracy_target_mape(NULL, NULL),
+        'meets_target_count', COUNT(*) FILTER (
+          WHERE fm.mape <= accuracy_target_mape(v.brand, v.product_type)
+        )
+      )
+      FROM forecast_metrics fm
+      LEFT JOIN variants v ON v.id = fm.variant_id
+      WHERE fm.mape IS NOT NULL
+    ),
+    'priority_items', (
+      SELECT COALESCE(json_agg(items), '[]'::json)
+      FROM (
+        SELECT id, sku, title, brand, in_stock, replenishment, to_order,
+               lead_time, oos, forecasted_lost_revenue
+        FROM variants
+        WHERE replenishment > 0
+        ORDER BY replenishment DESC
+        LIMIT 10
+      ) items
+    ),
+    'oos_items', (
+      SELECT COALESCE(json_agg(items), '[]'::json)
+      FROM (
+        SELECT id, sku, title, brand, oos, oos_last_60_days, forecasted_lost_revenue
+        FROM variants
+        WHERE oos > 0
+        ORDER BY oos DESC
+        LIMIT 10
+      ) items
+    ),
+    'last_sync', (
+      SELECT json_build_object(
+        'id', id,
+        'source', sync_type,
+        'status', status,
+        'records_fetched', records_fetched,
+        'records_updated', records_updated,
+        'started_at', started_at,
+        'completed_at', completed_at
+      )
+      FROM sync_metrics
+      ORDER BY started_at DESC
+      LIMIT 1
+    ),
+    'mape_distribution', (
+      SELECT json_build_object(
+        'excellent', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'excellent'),
+        'good', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'good'),
+        'acceptable', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'acceptable'),
+        'poor', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'poor'),
+        'very_poor', COUNT(*) FILTER (WHERE mape_tier(mape, thresholds) = 'very_poor')
+      )
+      FROM forecast_metrics
+      WHERE mape IS NOT NULL
+    ),
+    'tier_thresholds', to_json(thresholds)
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_summary() TO anon, authenticated;
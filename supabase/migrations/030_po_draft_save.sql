@@ -0,0 +1,86 @@
+-- Migration: 030_po_draft_save.sql
+-- Purpose: Save a purchase order draft in one transaction.
+-- Saving overwrites the header, replaces the lines and logs the save; done as
+-- separate requests, a failure part-way left a draft without its lines.
+
+-- ============================================
+-- 1. Save a draft with its lines
+-- ============================================
+-- p_draft_id: draft to overwrite (returned to 'draft'), NULL to create one
+-- p_draft:    {vendor_id, vendor_name, notes, line_count, total_units, total_cost}
+-- p_lines:    [{variant_id, sku, title, barcode, vendor_sku, suggested_qty,
+--               quantity, moq, case_pack, unit_cost}]
+-- Returns the draft id; raises when p_draft_id does not exist.
+CREATE OR REPLACE FUNCTION save_po_draft(p_draft_id UUID, p_draft JSONB, p_lines JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_draft_id UUID := p_draft_id;
+BEGIN
+  IF v_draft_id IS NULL THEN
+    INSERT INTO po_drafts (vendor_id, vendor_name, notes, line_count, total_units, total_cost)
+    VALUES (
+      p_draft->>'vendor_id',
+      p_draft->>'vendor_name',
+      p_draft->>'notes',
+      COALESCE((p_draft->>'line_count')::INTEGER, 0),
+      COALESCE((p_draft->>'total_units')::INTEGER, 0),
+      (p_draft->>'total_cost')::DECIMAL
+    )
+    RETURNING id INTO v_draft_id;
+  ELSE
+    UPDATE po_drafts SET
+      vendor_id = p_draft->>'vendor_id',
+      vendor_name = p_draft->>'vendor_name',
+      notes = p_draft->>'notes',
+      status = 'draft',
+      line_count = COALESCE((p_draft->>'line_count')::INTEGER, 0),
+      total_units = COALESCE((p_draft->>'total_units')::INTEGER, 0),
+      total_cost = (p_draft->>'total_cost')::DECIMAL,
+      updated_at = NOW()
+    WHERE id = v_draft_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order draft % not found', v_draft_id;
+    END IF;
+
+    DELETE FROM po_draft_lines WHERE draft_id = v_draft_id;
+  END IF;
+
+  INSERT INTO po_draft_lines (
+    draft_id, variant_id, sku, title, barcode, vendor_sku,
+    suggested_qty, quantity, moq, case_pack, unit_cost
+  )
+  SELECT
+    v_draft_id, l.variant_id, l.sku, l.title, l.barcode, l.vendor_sku,
+    COALESCE(l.suggested_qty, 0), l.quantity, l.moq, l.case_pack, l.unit_cost
+  FROM jsonb_to_recordset(COALESCE(p_lines, '[]'::JSONB)) AS l(
+    variant_id TEXT,
+    sku TEXT,
+    title TEXT,
+    barcode TEXT,
+    vendor_sku TEXT,
+    suggested_qty INTEGER,
+    quantity INTEGER,
+    moq INTEGER,
+    case_pack INTEGER,
+    unit_cost DECIMAL
+  );
+
+  INSERT INTO po_draft_events (draft_id, action, line_count, total_units, total_cost)
+  VALUES (
+    v_draft_id,
+    CASE WHEN p_draft_id IS NULL THEN 'created' ELSE 'updated' END,
+    COALESCE((p_draft->>'line_count')::INTEGER, 0),
+    COALESCE((p_draft->>'total_units')::INTEGER, 0),
+    (p_draft->>'total_cost')::DECIMAL
+  );
+
+  RETURN v_draft_id;
+END;
+$$;
+
+-- Writes drafts: server-side (service role) only
+REVOKE EXECUTE ON FUNCTION save_po_draft(UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
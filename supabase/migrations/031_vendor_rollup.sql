@@ -0,0 +1,166 @@
+-- Migration: 031_vendor_rollup.sql
+-- Purpose: Value-weighted accuracy rollups by vendor.
+-- A SKU's vendor is its primary vendor in Inventory Planner's vendors[]
+-- (raw_data), the same one the purchase order workbench groups SKUs by.
+
+-- ============================================
+-- 1. Primary vendor of a variant
+-- ============================================
+-- vendors[] sits at the root of raw_data for flat variants, on the main
+-- connection for the nested connections[] structure. The first entry with a
+-- vendor id is the primary vendor; its name is returned, or its id without
+-- one. Mirrors extractVendors in src/lib/utils/purchase-orders.ts.
+CREATE OR REPLACE FUNCTION variant_primary_vendor(raw_data JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH main_connection AS (
+    SELECT c
+    FROM jsonb_array_elements(
+      CASE jsonb_typeof(raw_data->'connections')
+        WHEN 'array' THEN raw_data->'connections'
+        WHEN 'object' THEN jsonb_build_array(raw_data->'connections')
+        ELSE '[]'::jsonb
+      END
+    ) WITH ORDINALITY AS t(c, ord)
+    ORDER BY COALESCE(c->'connection_main' = 'true'::jsonb, false) DESC, ord
+    LIMIT 1
+  ),
+  vendors AS (
+    SELECT CASE
+      WHEN jsonb_typeof(raw_data->'vendors') = 'array' THEN raw_data->'vendors'
+      ELSE COALESCE(
+        (SELECT c->'vendors' FROM main_connection WHERE jsonb_typeof(c->'vendors') = 'array'),
+        '[]'::jsonb
+      )
+    END AS list
+  ),
+  entries AS (
+    SELECT
+      ord,
+      CASE WHEN jsonb_typeof(e->'vendor') = 'object'
+        THEN COALESCE(NULLIF(e->'vendor'->>'id', ''), NULLIF(e->'vendor'->>'vendor_id', ''))
+        ELSE COALESCE(NULLIF(e->>'vendor', ''), NULLIF(e->>'vendor_id', ''), NULLIF(e->>'id', ''))
+      END AS vendor_id,
+      COALESCE(
+        CASE WHEN jsonb_typeof(e->'vendor') = 'object'
+          THEN COALESCE(NULLIF(e->'vendor'->>'name', ''), NULLIF(e->'vendor'->>'title', ''))
+        END,
+        NULLIF(e->>'vendor_name', ''),
+        NULLIF(e->>'name', ''),
+        NULLIF(e->>'title', '')
+      ) AS vendor_name
+    FROM vendors
+    CROSS JOIN LATERAL jsonb_array_elements(vendors.list) WITH ORDINALITY AS t(e, ord)
+    WHERE jsonb_typeof(e) = 'object'
+  )
+  SELECT COALESCE(vendor_name, vendor_id)
+  FROM entries
+  WHERE vendor_id IS NOT NULL
+  ORDER BY ord
+  LIMIT 1
+$$;
+
+-- ============================================
+-- 2. Group-level rollup
+-- ============================================
+-- Same as 013_accuracy_rollup.sql except p_group_by also accepts 'vendor'
+CREATE OR REPLACE FUNCTION get_accuracy_rollup(p_group_by TEXT DEFAULT 'brand')
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF p_group_by NOT IN ('brand', 'product_type', 'vendor') THEN
+    RAISE EXCEPTION 'Unsupported group_by: %', p_group_by;
+  END IF;
+
+  WITH weighted AS (
+    SELECT
+      COALESCE(NULLIF(CASE p_group_by
+        WHEN 'brand' THEN v.brand
+        WHEN 'product_type' THEN v.product_type
+        ELSE variant_primary_vendor(v.raw_data)
+      END, ''), 'Unassigned') AS group_key,
+      fm.mape,
+      fm.wape,
+      metric_actual_units(fm.actual_values) AS units,
+      metric_actual_units(fm.actual_values) * COALESCE(v.price, 0) AS revenue,
+      metric_actual_units(fm.actual_values) * COALESCE(v.cost_price, 0) AS cost_value
+    FROM forecast_metrics fm
+    JOIN variants v ON v.id = fm.variant_id
+    WHERE fm.mape IS NOT NULL
+  )
+  SELECT COALESCE(json_agg(groups ORDER BY groups.revenue DESC), '[]'::json)
+  INTO result
+  FROM (
+    SELECT
+      group_key,
+      COUNT(*) AS sku_count,
+      SUM(units) AS units,
+      SUM(revenue) AS revenue,
+      SUM(cost_value) AS cost_value,
+      AVG(mape) AS avg_mape,
+      AVG(wape) AS avg_wape,
+      SUM(revenue * mape) / NULLIF(SUM(revenue), 0) AS revenue_weighted_mape,
+      SUM(revenue * wape) / NULLIF(SUM(revenue) FILTER (WHERE wape IS NOT NULL), 0) AS revenue_weighted_wape,
+      SUM(cost_value * mape) / NULLIF(SUM(cost_value), 0) AS cost_weighted_mape,
+      SUM(cost_value * wape) / NULLIF(SUM(cost_value) FILTER (WHERE wape IS NOT NULL), 0) AS cost_weighted_wape
+    FROM weighted
+    GROUP BY group_key
+  ) groups;
+
+  RETURN result;
+END;
+$$;
+
+-- ============================================
+-- 3. Drill-down: SKUs within one group
+-- ============================================
+-- Same as 013_accuracy_rollup.sql except p_group_by also accepts 'vendor'
+CREATE OR REPLACE FUNCTION get_accuracy_rollup_skus(
+  p_group_by TEXT,
+  p_group_key TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF p_group_by NOT IN ('brand', 'product_type', 'vendor') THEN
+    RAISE EXCEPTION 'Unsupported group_by: %', p_group_by;
+  END IF;
+
+  SELECT COALESCE(json_agg(skus ORDER BY skus.revenue DESC), '[]'::json)
+  INTO result
+  FROM (
+    SELECT
+      fm.sku,
+      v.title,
+      fm.mape,
+      fm.wape,
+      fm.bias,
+      metric_actual_units(fm.actual_values) AS units,
+      metric_actual_units(fm.actual_values) * COALESCE(v.price, 0) AS revenue,
+      metric_actual_units(fm.actual_values) * COALESCE(v.cost_price, 0) AS cost_value
+    FROM forecast_metrics fm
+    JOIN variants v ON v.id = fm.variant_id
+    WHERE fm.mape IS NOT NULL
+      AND COALESCE(NULLIF(CASE p_group_by
+        WHEN 'brand' THEN v.brand
+        WHEN 'product_type' THEN v.product_type
+        ELSE variant_primary_vendor(v.raw_data)
+      END, ''), 'Unassigned') = p_group_key
+  ) skus;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_accuracy_rollup(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_accuracy_rollup_skus(TEXT, TEXT) TO anon, authenticated;
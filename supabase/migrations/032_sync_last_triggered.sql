@@ -0,0 +1,10 @@
+-- Migration: 032_sync_last_triggered.sql
+-- Purpose: When the sync scheduler last triggered a sync
+
+-- Start time of the last scheduled trigger (ISO timestamp). The target route
+-- records the sync itself, and n8n only once it posts the data back, so the
+-- scheduler counts its interval from this as well.
+INSERT INTO app_settings (key, value, description)
+VALUES
+  ('sync_last_triggered_at', '', 'Start time of the last sync triggered by the scheduler')
+ON CONFLICT (key) DO NOTHING;